@@ -5,16 +5,54 @@
 
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import ReactCrop, { type Crop, type PixelCrop } from 'react-image-crop';
-import { generateEditedImage, generateFilteredImage, generateAdjustedImage, generateBackgroundImage, applyBackgroundToImage, generateRandomPrompt } from './services/geminiService.ts';
+import { generateEditedImage, generateErasedImage, generateObjectMask, generateFilteredImage, generateStyleTransferImage, generateAdjustedImage, generateBackgroundImage, applyBackgroundToImage, generateProductPlacement, generateUpscaledImage, generateRandomPrompt } from './services/geminiService.ts';
 import Header from './components/Header.tsx';
 import Spinner from './components/Spinner.tsx';
-import FilterPanel from './components/FilterPanel.tsx';
-import AdjustmentPanel from './components/AdjustmentPanel.tsx';
-import CropPanel from './components/CropPanel.tsx';
-import { UndoIcon, RedoIcon, EyeIcon, MagicWandIcon, LoadingSpinnerIcon } from './components/icons.tsx';
+import { UndoIcon, RedoIcon, EyeIcon } from './components/icons.tsx';
 import StartScreen from './components/StartScreen.tsx';
 import ThumbnailStrip from './components/ThumbnailStrip.tsx';
+import MaskCanvas, { type MaskCanvasHandle } from './components/MaskCanvas.tsx';
+import { type MaskSettings } from './components/MaskOptions.tsx';
+import { type EraseSelectionMode } from './components/ErasePanel.tsx';
+import { type UpscaleMethod } from './components/UpscalePanel.tsx';
+import { type GeometryMode, type CropFormat } from './components/CropPanel.tsx';
+import CropWorkspace from './components/CropWorkspace.tsx';
+import Viewport from './components/Viewport.tsx';
+import ComparisonView from './components/ComparisonView.tsx';
+import CommandPalette, { type PaletteCommand } from './components/CommandPalette.tsx';
+import ShortcutSheet from './components/ShortcutSheet.tsx';
+import CameraCapture from './components/CameraCapture.tsx';
+import { createMaskFile, compositeWithMask, compositeChangedRegion, extractMaskedPatch, loadImage } from './services/imageCompositing.ts';
+import { createProjectId, saveProject, loadProject, listProjects, renameProject, duplicateProject, deleteProject, getStorageEstimate, getLastProjectId, setLastProjectId, saveProduct, listProducts, deleteProduct } from './services/projectStorage.ts';
+import AdjustmentPreview from './components/AdjustmentPreview.tsx';
+import { renderAdjustedFile } from './services/adjustmentEngine.ts';
+import HistoryPanel from './components/HistoryPanel.tsx';
+import VariationPicker from './components/VariationPicker.tsx';
+import BatchSummary from './components/BatchSummary.tsx';
+import ExportDialog from './components/ExportDialog.tsx';
+import BulkExportDialog from './components/BulkExportDialog.tsx';
+import DebugModal from './components/DebugModal.tsx';
+import PresetManager from './components/PresetManager.tsx';
+import { type PresetLibraryProps } from './components/PresetPicker.tsx';
+import EditorCanvas from './components/EditorCanvas.tsx';
+import Toolbar from './components/Toolbar.tsx';
+import ToolOptions from './components/ToolOptions.tsx';
+import { TOOLS, getTool } from './components/tools.tsx';
+import { runBatch } from './services/batchQueue.ts';
+import { createImageLayer, remapLayers, fitLayersToBase } from './services/layerRenderer.ts';
+import { computeUpscaleSize, resizeImage } from './services/upscaler.ts';
+import { type GeometryParams, type CropRect, type Size, DEFAULT_GEOMETRY, isDefaultGeometry, getFrameSize, getInscribedCrop, resizeCrop, roundCrop, applyGeometry, remapLayersForGeometry } from './services/geometry.ts';
+import { loadPresets, savePresets, PRESET_KIND_LABELS } from './services/presetLibrary.ts';
+import { type ShortcutActionId, SHORTCUT_ACTIONS, SHORTCUT_GROUP_LABELS, createToolShortcutActions, getBindings, formatCombo, isTypingTarget, useShortcuts, useShortcutOverrides } from './services/shortcuts.ts';
+import { getImageFiles, parseImageUrl, fetchImageFromUrl } from './services/imageImport.ts';
+import { copyImageToClipboard } from './services/imageExport.ts';
+import { createImageState, appendHistoryEntry, canUndo as canUndoHistory, canRedo as canRedoHistory, undo, redo, jumpToEntry, resetToOriginal } from './services/historyTree.ts';
+import { describeModel, type ModelOperation } from './services/modelProviders.ts';
+import { RequestCancelledError, type RequestOptions } from './services/modelRequest.ts';
+import { isDebugEnabled, setDebugEnabled } from './services/debugLog.ts';
+import { AppError } from './services/appError.ts';
+import { useI18n } from './services/i18n.ts';
+import type { ImageState, ToolId, ProjectSummary, AdjustmentParams, HistoryDetails, HistoryOperation, CandidateSet, BatchItemState, BatchReport, Product, Layer, PromptPreset, PresetKind } from './types.ts';
 
 // Helper to convert a data URL string to a File object
 const dataURLtoFile = (dataurl: string, filename: string): File => {
@@ -33,45 +71,121 @@ const dataURLtoFile = (dataurl: string, filename: string): File => {
     return new File([u8arr], filename, {type:mime});
 }
 
-interface ImageState {
-  original: File;
-  history: File[];
-  historyIndex: number;
+/** How a batch turns one image into its result; kept so failed items can be retried later. */
+interface BatchJob {
+  operationName: string;
+  details: HistoryDetails;
+  produce: (image: File, signal: AbortSignal) => Promise<File>;
 }
-type Tab = 'retouch' | 'adjust' | 'filters' | 'crop';
+
+// Runs the same generation several times in parallel and keeps every result that succeeded.
+const generateCandidates = async (count: number, produce: () => Promise<File>): Promise<File[]> => {
+  const results = await Promise.allSettled(Array.from({ length: count }, () => produce()));
+  const files = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+  if (files.length === 0) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+  return files;
+};
 type AspectRatioString = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
 
 
+const shortcutActions = [...SHORTCUT_ACTIONS, ...createToolShortcutActions(TOOLS)];
+
+/** The tool whose panel shows presets of each kind. */
+const presetTools: Record<PresetKind, ToolId> = {
+  retouch: 'retouch',
+  filter: 'filters',
+  adjustment: 'adjust',
+  background: 'adjust',
+};
+
 const App: React.FC = () => {
+  const { t, describeError, formatDate } = useI18n();
   const [images, setImages] = useState<ImageState[]>([]);
+  // Read by async tasks that need the images as they are when the task finishes.
+  const imagesRef = useRef(images);
+  imagesRef.current = images;
   const [activeImageIndex, setActiveImageIndex] = useState<number>(-1);
   const [prompt, setPrompt] = useState<string>('');
   const [loadingMessage, setLoadingMessage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  /** A way out of the current error that the error screen offers next to "try again". */
+  const [errorRecovery, setErrorRecovery] = useState<'fullRetouchOutput' | null>(null);
   const [editHotspots, setEditHotspots] = useState<{ x: number, y: number }[]>([]);
-  const [displayHotspots, setDisplayHotspots] = useState<{ x: number, y: number }[]>([]);
-  const [activeTab, setActiveTab] = useState<Tab>('retouch');
+  const [activeToolId, setActiveToolId] = useState<ToolId>('retouch');
+  const [maskSettings, setMaskSettings] = useState<MaskSettings>({ brushSize: 40, isErasing: false, feather: 8, invert: false });
+  const [hasMask, setHasMask] = useState<boolean>(false);
+  const [imageNaturalSize, setImageNaturalSize] = useState<{ width: number, height: number } | null>(null);
+  const [originalNaturalSize, setOriginalNaturalSize] = useState<{ width: number, height: number } | null>(null);
+  const maskRef = useRef<MaskCanvasHandle>(null);
   
-  const [crop, setCrop] = useState<Crop>();
-  const [completedCrop, setCompletedCrop] = useState<PixelCrop>();
-  const [aspect, setAspect] = useState<number | undefined>();
+  const [geometry, setGeometry] = useState<GeometryParams>(DEFAULT_GEOMETRY);
+  const [geometryMode, setGeometryMode] = useState<GeometryMode>('crop');
+  /** The crop in frame pixels; null means the largest clean crop for the current format. */
+  const [cropRect, setCropRect] = useState<CropRect | null>(null);
+  const [cropFormat, setCropFormat] = useState<CropFormat>({});
   const [isComparing, setIsComparing] = useState<boolean>(false);
+  const [isComparisonOpen, setIsComparisonOpen] = useState<boolean>(false);
+  const [isCameraOpen, setIsCameraOpen] = useState<boolean>(false);
+  const [copyStatus, setCopyStatus] = useState<'copied' | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+  const [variationCount, setVariationCount] = useState<number>(1);
+  const [candidates, setCandidates] = useState<CandidateSet | null>(null);
+  const [batchConcurrency, setBatchConcurrency] = useState<number>(2);
+  const [batchJob, setBatchJob] = useState<BatchJob | null>(null);
+  const [batchStatus, setBatchStatus] = useState<Record<string, BatchItemState>>({});
+  const [batchReport, setBatchReport] = useState<BatchReport | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState<boolean>(false);
+  const [isBulkExportOpen, setIsBulkExportOpen] = useState<boolean>(false);
+  const [isDebugOpen, setIsDebugOpen] = useState<boolean>(false);
+  const [presets, setPresets] = useState<PromptPreset[]>(loadPresets);
+  /** The kind the preset manager opened on; null while it is closed. */
+  const [presetManagerKind, setPresetManagerKind] = useState<PresetKind | null>(null);
+  /** A preset picked in the command palette, waiting for its panel's picker to select it. */
+  const [requestedPresetId, setRequestedPresetId] = useState<string | null>(null);
+  const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState<boolean>(false);
+  const [isShortcutSheetOpen, setIsShortcutSheetOpen] = useState<boolean>(false);
+  const shortcutOverrides = useShortcutOverrides();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [selectedProductId, setSelectedProductId] = useState<string | null>(null);
+  const [placementHotspot, setPlacementHotspot] = useState<{ x: number, y: number } | null>(null);
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
+  const [retouchAsLayer, setRetouchAsLayer] = useState<boolean>(false);
+  const [preserveResolution, setPreserveResolution] = useState<boolean>(true);
+  const [eraseSelectionMode, setEraseSelectionMode] = useState<EraseSelectionMode>('paint');
   const imgRef = useRef<HTMLImageElement>(null);
 
   const [generatedBackground, setGeneratedBackground] = useState<File | null>(null);
   const [generatedBackgroundUrl, setGeneratedBackgroundUrl] = useState<string | null>(null);
 
   const [isGeneratingIdea, setIsGeneratingIdea] = useState(false);
+  const [adjustmentPreview, setAdjustmentPreview] = useState<AdjustmentParams | null>(null);
+
+  const [projectMeta, setProjectMeta] = useState<{ id: string, name: string, createdAt: number } | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [storageEstimate, setStorageEstimate] = useState<{ usage: number, quota: number } | null>(null);
+  const skipNextSaveRef = useRef(false);
 
   const isLoading = loadingMessage !== null;
+  const [activeRequest, setActiveRequest] = useState<AbortController | null>(null);
   const activeImageState = images[activeImageIndex] ?? null;
-  const currentImage = activeImageState?.history[activeImageState.historyIndex] ?? null;
+  const currentEntry = activeImageState?.history[activeImageState.historyIndex] ?? null;
+  const currentImage = currentEntry?.file ?? null;
   const originalImage = activeImageState?.original ?? null;
+  const currentLayers = currentEntry?.layers ?? [];
+  const activeTool = getTool(activeToolId);
+  const retouchMode = activeToolId === 'brush' ? 'brush' : 'points';
+  const cropFrame = imageNaturalSize && getFrameSize(imageNaturalSize, geometry);
+  const cropArea = imageNaturalSize && (cropRect ?? getInscribedCrop(imageNaturalSize, geometry, cropFormat.aspect));
 
   const [currentImageUrl, setCurrentImageUrl] = useState<string | null>(null);
   const [originalImageUrl, setOriginalImageUrl] = useState<string | null>(null);
 
   useEffect(() => {
+    // A painted mask only makes sense for the image it was painted on.
+    setHasMask(false);
+    setImageNaturalSize(null);
     if (currentImage) {
       const url = URL.createObjectURL(currentImage);
       setCurrentImageUrl(url);
@@ -92,141 +206,567 @@ const App: React.FC = () => {
   }, [originalImage]);
 
 
-  const canUndo = activeImageState ? activeImageState.historyIndex > 0 : false;
-  const canRedo = activeImageState ? activeImageState.historyIndex < activeImageState.history.length - 1 : false;
+  const refreshProjects = useCallback(async () => {
+    try {
+      const [projectList, estimate] = await Promise.all([listProjects(), getStorageEstimate()]);
+      setProjects(projectList);
+      setStorageEstimate(estimate);
+    } catch (err) {
+      console.error('Failed to list saved projects.', err);
+    }
+  }, []);
+
+  const openProject = useCallback(async (id: string) => {
+    setError(null);
+    try {
+      const project = await loadProject(id);
+      if (!project || project.images.length === 0) {
+        setLastProjectId(null);
+        return;
+      }
+      skipNextSaveRef.current = true;
+      setProjectMeta({ id: project.id, name: project.name, createdAt: project.createdAt });
+      setImages(project.images);
+      setActiveImageIndex(Math.min(Math.max(project.activeImageIndex, 0), project.images.length - 1));
+      setActiveToolId(project.activeTab);
+      setPrompt(project.prompt);
+      setEditHotspots([]);
+      setCropRect(null);
+      setGeometry(DEFAULT_GEOMETRY);
+      setGeneratedBackground(project.generatedBackground);
+      setGeneratedBackgroundUrl(project.generatedBackground ? URL.createObjectURL(project.generatedBackground) : null);
+      setLastProjectId(project.id);
+    } catch (err) {
+      setError(t('app.failed.openProject', { error: describeError(err) }));
+      console.error(err);
+    }
+  }, []);
+
+  // Restore the last session on first load.
+  useEffect(() => {
+    const lastProjectId = getLastProjectId();
+    if (lastProjectId) {
+      openProject(lastProjectId);
+    }
+  }, [openProject]);
+
+  useEffect(() => {
+    if (images.length === 0) {
+      refreshProjects();
+    }
+  }, [images.length, refreshProjects]);
+
+  useEffect(() => {
+    listProducts().then(setProducts).catch(err => console.error('Failed to load product library.', err));
+  }, []);
+
+  const saveCurrentProject = useCallback(async () => {
+    if (!projectMeta || images.length === 0) return;
+    try {
+      await saveProject({
+        ...projectMeta,
+        updatedAt: Date.now(),
+        images,
+        activeImageIndex,
+        activeTab: activeToolId,
+        prompt,
+        generatedBackground,
+      });
+    } catch (err) {
+      console.error('Failed to save project.', err);
+    }
+  }, [projectMeta, images, activeImageIndex, activeToolId, prompt, generatedBackground]);
+
+  useEffect(() => {
+    if (!error) setErrorRecovery(null);
+  }, [error]);
+
+  // Autosave the open project shortly after every change.
+  useEffect(() => {
+    if (skipNextSaveRef.current) {
+      skipNextSaveRef.current = false;
+      return;
+    }
+    const timeout = setTimeout(saveCurrentProject, 800);
+    return () => clearTimeout(timeout);
+  }, [saveCurrentProject]);
 
-  const updateImageState = (index: number, updates: Partial<ImageState>) => {
-    setImages(prevImages => prevImages.map((img, i) => i === index ? { ...img, ...updates } : img));
+  const handleRenameProject = useCallback(async (id: string, name: string) => {
+    try {
+      await renameProject(id, name);
+    } catch (err) {
+      console.error(err);
+    }
+    refreshProjects();
+  }, [refreshProjects]);
+
+  const handleDuplicateProject = useCallback(async (id: string) => {
+    try {
+      await duplicateProject(id);
+    } catch (err) {
+      console.error(err);
+    }
+    refreshProjects();
+  }, [refreshProjects]);
+
+  const handleDeleteProject = useCallback(async (id: string) => {
+    try {
+      await deleteProject(id);
+    } catch (err) {
+      console.error(err);
+    }
+    refreshProjects();
+  }, [refreshProjects]);
+
+  const canUndo = activeImageState ? canUndoHistory(activeImageState) : false;
+  const canRedo = activeImageState ? canRedoHistory(activeImageState) : false;
+
+  const updateImageState = (index: number, update: (image: ImageState) => ImageState) => {
+    setImages(prevImages => prevImages.map((img, i) => i === index ? update(img) : img));
   };
 
-  const addImageToHistory = useCallback((newImageFile: File, index: number) => {
-    setImages(prevImages => {
-      const targetImage = prevImages[index];
-      if (!targetImage) return prevImages;
-
-      const newHistory = targetImage.history.slice(0, targetImage.historyIndex + 1);
-      newHistory.push(newImageFile);
-      
-      const newImages = [...prevImages];
-      newImages[index] = {
-        ...targetImage,
-        history: newHistory,
-        historyIndex: newHistory.length - 1,
-      };
-      return newImages;
-    });
+  const addImageToHistory = useCallback(async (newImageFile: File, index: number, details: HistoryDetails) => {
+    const target = imagesRef.current[index];
+    if (!target) return;
+    const parent = target.history[target.historyIndex];
+    if (!details.layers && parent?.layers) {
+      const layers = await fitLayersToBase(parent.layers, parent.file, newImageFile);
+      if (layers !== parent.layers) details = { ...details, layers };
+    }
+
+    // The image may have moved or changed step while the layers were remapped; the entry still
+    // goes under the step it was made from.
+    setImages(prevImages => prevImages.map(image => {
+      if (image.id !== target.id) return image;
+      const parentIndex = parent ? image.history.findIndex(entry => entry.id === parent.id) : -1;
+      const base = parentIndex >= 0 && parentIndex !== image.historyIndex ? jumpToEntry(image, parentIndex) : image;
+      return appendHistoryEntry(base, newImageFile, details);
+    }));
 
     if (index === activeImageIndex) {
-      setCrop(undefined);
-      setCompletedCrop(undefined);
+      setCropRect(null);
+      setGeometry(DEFAULT_GEOMETRY);
+      setGeometryMode('crop');
     }
   }, [activeImageIndex]);
   
   const handleImageUpload = useCallback((files: File[]) => {
     setError(null);
-    const newImages = files.map(file => ({
-      original: file,
-      history: [file],
-      historyIndex: 0,
-    }));
+    const newImages = files.map(createImageState);
+    if (images.length > 0) {
+      // An open session grows; the first new image becomes the active one.
+      setImages(prev => [...prev, ...newImages]);
+      setActiveImageIndex(images.length);
+      setEditHotspots([]);
+      setPlacementHotspot(null);
+      setCropRect(null);
+      setGeometry(DEFAULT_GEOMETRY);
+      setIsComparisonOpen(false);
+      return;
+    }
+    const projectId = createProjectId();
+    const firstName = files[0]?.name.replace(/\.[^.]+$/, '');
+    setProjectMeta({ id: projectId, name: firstName || t('app.projectName', { date: formatDate(new Date()) }), createdAt: Date.now() });
+    setLastProjectId(projectId);
     setImages(newImages);
     setActiveImageIndex(0);
     setEditHotspots([]);
-    setDisplayHotspots([]);
-    setActiveTab('retouch');
-    setCrop(undefined);
-    setCompletedCrop(undefined);
+    setActiveToolId('retouch');
+    setCropRect(null);
+    setGeometry(DEFAULT_GEOMETRY);
     setGeneratedBackground(null);
     setGeneratedBackgroundUrl(null);
+  }, [images.length]);
+
+  // AI tasks get a controller so the loading overlay can offer "Batalkan".
+  const beginCancellableTask = useCallback((): AbortSignal => {
+    const controller = new AbortController();
+    setActiveRequest(controller);
+    return controller.signal;
   }, []);
 
-  const handleGenerate = useCallback(async () => {
+  const handleCancelRequest = useCallback(() => {
+    activeRequest?.abort();
+    setLoadingMessage(t('app.loading.cancelling'));
+  }, [activeRequest]);
+
+  const handleGenerate = useCallback(async (preserve = preserveResolution) => {
     if (!currentImage) {
-      setError('Tidak ada gambar yang dimuat untuk diedit.');
+      setError(t('app.validation.noImage'));
       return;
     }
     
     if (!prompt.trim()) {
-        setError('Silakan masukkan deskripsi untuk editan Anda.');
+        setError(t('app.validation.noPrompt'));
         return;
     }
 
-    if (editHotspots.length === 0) {
-        setError('Silakan klik pada gambar untuk memilih area yang akan diedit.');
+    const paintedMask = retouchMode === 'brush' ? maskRef.current?.getCanvas() : null;
+    if (retouchMode === 'brush' && (!hasMask || !paintedMask)) {
+        setError(t('app.validation.noMask'));
         return;
     }
 
-    setLoadingMessage('AI sedang bekerja...');
+    if (retouchMode === 'points' && editHotspots.length === 0) {
+        setError(t('app.validation.noHotspot'));
+        return;
+    }
+
+    setLoadingMessage(variationCount > 1 ? t('app.loading.variations', { count: variationCount }) : t('app.loading.edit'));
     setError(null);
+    const signal = beginCancellableTask();
     
     try {
-        const editedImageUrl = await generateEditedImage(currentImage, prompt, editHotspots);
-        const newImageFile = dataURLtoFile(editedImageUrl, `edited-${Date.now()}.png`);
-        addImageToHistory(newImageFile, activeImageIndex);
+        const maskFile = paintedMask ? await createMaskFile(paintedMask, maskSettings) : undefined;
+        if (maskFile && retouchAsLayer && variationCount === 1 && currentEntry) {
+            // Keep the edit as a movable patch over the untouched photo.
+            const modelResultUrl = await generateEditedImage(currentImage, prompt, [], maskFile, { signal });
+            const patch = await extractMaskedPatch(modelResultUrl, maskFile);
+            if (!patch) throw new AppError('maskEmpty');
+            const layer = createImageLayer(patch.file, t('app.patchLayerName', { prompt: prompt.slice(0, 24) }), { x: patch.x + patch.width / 2, y: patch.y + patch.height / 2, scale: 1, rotation: 0 });
+            await addImageToHistory(currentImage, activeImageIndex, {
+                operation: 'retouch',
+                prompt,
+                mask: maskFile,
+                model: describeModel('edit'),
+                layers: [...currentLayers, layer],
+                description: t('app.patchLayerDescription'),
+            });
+            setSelectedLayerId(layer.id);
+            return;
+        }
+        const produce = async () => {
+            let editedImageUrl: string;
+            if (maskFile) {
+                const modelResultUrl = await generateEditedImage(currentImage, prompt, [], maskFile, { signal });
+                // Guarantee that pixels outside the mask stay untouched, whatever the model returned.
+                editedImageUrl = await compositeWithMask(currentImage, modelResultUrl, maskFile);
+            } else {
+                const modelResultUrl = await generateEditedImage(currentImage, prompt, editHotspots, undefined, { signal });
+                // Only the changed area around the hotspots replaces the full-size original.
+                const composited = preserve ? await compositeChangedRegion(currentImage, modelResultUrl, editHotspots) : null;
+                // Never swap in the whole, possibly smaller, model output behind the user's back.
+                if (preserve && !composited) throw new AppError('retouchNoLocalChange');
+                editedImageUrl = composited ?? modelResultUrl;
+            }
+            return dataURLtoFile(editedImageUrl, `edited-${Date.now()}.png`);
+        };
+        const details: HistoryDetails = {
+            operation: 'retouch',
+            prompt,
+            hotspots: maskFile ? undefined : editHotspots,
+            mask: maskFile,
+            model: describeModel('edit'),
+        };
+
+        if (variationCount > 1 && activeImageState && currentEntry) {
+            const files = await generateCandidates(variationCount, produce);
+            setCandidates({ imageId: activeImageState.id, baseEntryId: currentEntry.id, baseFile: currentImage, files, details, chosen: [] });
+        } else {
+            await addImageToHistory(await produce(), activeImageIndex, details);
+        }
         setEditHotspots([]);
-        setDisplayHotspots([]);
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Terjadi kesalahan tidak dikenal.';
-        setError(`Gagal menghasilkan gambar. ${errorMessage}`);
+        if (err instanceof RequestCancelledError) return;
+        setError(t('app.failed.generate', { error: describeError(err) }));
+        if (err instanceof AppError && err.code === 'retouchNoLocalChange') setErrorRecovery('fullRetouchOutput');
         console.error(err);
     } finally {
         setLoadingMessage(null);
+        setActiveRequest(null);
     }
-  }, [currentImage, prompt, editHotspots, addImageToHistory, activeImageIndex]);
+  }, [currentImage, currentEntry, currentLayers, activeImageState, prompt, editHotspots, retouchMode, hasMask, maskSettings, variationCount, retouchAsLayer, preserveResolution, addImageToHistory, activeImageIndex, beginCancellableTask]);
   
+  const handleErase = useCallback(async () => {
+    const paintedMask = maskRef.current?.getCanvas();
+    if (!currentImage || !hasMask || !paintedMask) {
+        setError(t('app.validation.noEraseTarget'));
+        return;
+    }
+
+    setLoadingMessage(variationCount > 1 ? t('app.loading.variations', { count: variationCount }) : t('app.loading.erase'));
+    setError(null);
+    const signal = beginCancellableTask();
+
+    try {
+        const maskFile = await createMaskFile(paintedMask, maskSettings);
+        const produce = async () => {
+            const modelResultUrl = await generateErasedImage(currentImage, maskFile, { signal });
+            // Only the masked area may change, whatever the model returned.
+            const editedImageUrl = await compositeWithMask(currentImage, modelResultUrl, maskFile);
+            return dataURLtoFile(editedImageUrl, `erased-${Date.now()}.png`);
+        };
+        const details: HistoryDetails = { operation: 'erase', mask: maskFile, model: describeModel('erase') };
+
+        if (variationCount > 1 && activeImageState && currentEntry) {
+            const files = await generateCandidates(variationCount, produce);
+            setCandidates({ imageId: activeImageState.id, baseEntryId: currentEntry.id, baseFile: currentImage, files, details, chosen: [] });
+        } else {
+            await addImageToHistory(await produce(), activeImageIndex, details);
+        }
+    } catch (err) {
+        if (err instanceof RequestCancelledError) return;
+        setError(t('app.failed.erase', { error: describeError(err) }));
+        console.error(err);
+    } finally {
+        setLoadingMessage(null);
+        setActiveRequest(null);
+    }
+  }, [currentImage, currentEntry, activeImageState, hasMask, maskSettings, variationCount, addImageToHistory, activeImageIndex, beginCancellableTask]);
+
+  // Expands a clicked point to the whole object and adds it to the painted selection.
+  const handleSelectObjectAt = useCallback(async (point: { x: number, y: number }) => {
+    if (!currentImage) return;
+    setLoadingMessage(t('app.loading.detectObject'));
+    setError(null);
+    const signal = beginCancellableTask();
+
+    try {
+        const maskUrl = await generateObjectMask(currentImage, point, { signal });
+        maskRef.current?.addMask(await loadImage(maskUrl));
+    } catch (err) {
+        if (err instanceof RequestCancelledError) return;
+        setError(t('app.failed.detectObject', { error: describeError(err) }));
+        console.error(err);
+    } finally {
+        setLoadingMessage(null);
+        setActiveRequest(null);
+    }
+  }, [currentImage, beginCancellableTask]);
+
+  const handleUpscale = useCallback(async (factor: number, method: UpscaleMethod) => {
+    if (!currentImage || !imageNaturalSize) return;
+    const target = computeUpscaleSize(imageNaturalSize.width, imageNaturalSize.height, factor);
+    if (!target) {
+        setError(t('app.validation.upscaleTooLarge', { factor }));
+        return;
+    }
+
+    setLoadingMessage(t(method === 'ai' ? 'app.loading.upscaleAi' : 'app.loading.upscale', { factor }));
+    setError(null);
+    const signal = beginCancellableTask();
+
+    try {
+        let resultUrl: string;
+        let model: string | undefined;
+        if (method === 'ai') {
+            try {
+                // The model decides its own output size; resample to the exact target afterwards.
+                resultUrl = await resizeImage(await generateUpscaledImage(currentImage, factor, { signal }), target.width, target.height);
+                model = describeModel('upscale');
+            } catch (err) {
+                if (err instanceof RequestCancelledError) throw err;
+                console.error('AI upscale failed, falling back to Lanczos.', err);
+                setError(t('app.upscaleFallback', { error: describeError(err) }));
+                setLoadingMessage(t('app.loading.upscaleFallback', { factor }));
+                resultUrl = await resizeImage(currentImage, target.width, target.height);
+            }
+        } else {
+            resultUrl = await resizeImage(currentImage, target.width, target.height);
+        }
+        const layers = currentEntry?.layers && remapLayers(currentEntry.layers, { x: 0, y: 0 }, target.width / imageNaturalSize.width);
+        await addImageToHistory(dataURLtoFile(resultUrl, `upscaled-${Date.now()}.png`), activeImageIndex, {
+            operation: 'upscale',
+            model,
+            layers,
+            description: `${factor}x, ${model ? 'AI' : 'Lanczos'}`,
+        });
+    } catch (err) {
+        if (err instanceof RequestCancelledError) return;
+        setError(t('app.failed.upscale', { error: describeError(err) }));
+        console.error(err);
+    } finally {
+        setLoadingMessage(null);
+        setActiveRequest(null);
+    }
+  }, [currentImage, currentEntry, imageNaturalSize, addImageToHistory, activeImageIndex, beginCancellableTask]);
+
+  const runBatchJob = useCallback(async (job: BatchJob, imageIds: string[]) => {
+    setError(null);
+    setBatchJob(job);
+    setBatchReport(null);
+    const signal = beginCancellableTask();
+    const startedAt = Date.now();
+    let settled = 0;
+    setLoadingMessage(t('app.loading.batch', { operation: job.operationName, count: imageIds.length }));
+
+    const setItemState = (imageId: string, state: BatchItemState | null) => setBatchStatus(prev => {
+      const next = { ...prev };
+      if (state) next[imageId] = state; else delete next[imageId];
+      return next;
+    });
+
+    try {
+      const results = await runBatch(imageIds, async (imageId) => {
+        const imageIndex = images.findIndex(img => img.id === imageId);
+        const source = images[imageIndex]?.history[images[imageIndex].historyIndex]?.file;
+        if (!source) throw new AppError('imageNotFound');
+        const resultFile = await job.produce(source, signal);
+        await addImageToHistory(resultFile, imageIndex, job.details);
+      }, {
+        concurrency: batchConcurrency,
+        signal,
+        onStatusChange: (imageId, status, err) => {
+          setItemState(imageId, { status, error: err === undefined ? undefined : describeError(err) });
+          if (status === 'done' || status === 'failed') {
+            settled++;
+            setLoadingMessage(t('app.loading.batchProgress', { operation: job.operationName, done: settled, count: imageIds.length }));
+          }
+        },
+      });
+
+      results.filter(result => result.status === 'cancelled').forEach(result => setItemState(result.key, null));
+      const failed = results.filter(result => result.status === 'failed');
+      failed.forEach(result => console.error(`Batch ${job.operationName} failed for image ${result.key}.`, result.error));
+      setBatchReport({
+        operationName: job.operationName,
+        total: imageIds.length,
+        succeeded: results.filter(result => result.status === 'done').length,
+        failed: failed.map(result => ({ imageId: result.key, error: describeError(result.error) })),
+        cancelled: results.filter(result => result.status === 'cancelled').length,
+        durationMs: Date.now() - startedAt,
+      });
+    } finally {
+      setLoadingMessage(null);
+      setActiveRequest(null);
+    }
+  }, [images, batchConcurrency, addImageToHistory, beginCancellableTask]);
+
+  const handleRetryBatchImage = useCallback((index: number) => {
+    const imageId = images[index]?.id;
+    if (batchJob && imageId) runBatchJob(batchJob, [imageId]);
+  }, [images, batchJob, runBatchJob]);
+
+  const handleRetryFailedBatch = useCallback(() => {
+    const failedIds = Object.entries(batchStatus).flatMap(([imageId, state]) => state.status === 'failed' ? [imageId] : []);
+    if (batchJob && failedIds.length > 0) runBatchJob(batchJob, failedIds);
+  }, [batchJob, batchStatus, runBatchJob]);
+
+  const handleDismissBatchReport = useCallback(() => {
+    setBatchReport(null);
+    setBatchStatus({});
+    setBatchJob(null);
+  }, []);
+
   const handleApplyBatchOperation = useCallback(async (
     prompt: string, 
-    operation: (image: File, prompt: string) => Promise<string>,
-    operationName: string,
-    applyToAll: boolean
+    operation: (image: File, prompt: string, options: RequestOptions) => Promise<string>,
+    applyToAll: boolean,
+    historyOperation: HistoryOperation & ModelOperation,
+    description?: string,
   ) => {
-    const targets = applyToAll ? images.map((_, i) => i) : [activeImageIndex];
-    if (targets.some(i => i < 0 || !images[i])) {
-      setError(`Tidak ada gambar yang dipilih untuk menerapkan ${operationName}.`);
+    const operationName = t(`modelOperation.${historyOperation}`);
+    const details: HistoryDetails = { operation: historyOperation, prompt, model: describeModel(historyOperation), description };
+    const produceFrom = async (image: File, signal: AbortSignal) =>
+      dataURLtoFile(await operation(image, prompt, { signal }), `${historyOperation}-${Date.now()}.png`);
+
+    if (applyToAll) {
+      await runBatchJob({ operationName, details, produce: produceFrom }, images.map(img => img.id));
+      return;
+    }
+
+    const imageState = images[activeImageIndex];
+    const baseEntry = imageState?.history[imageState.historyIndex];
+    if (!baseEntry) {
+      setError(t('app.validation.noTarget', { operation: operationName }));
       return;
     }
     
     setError(null);
+    const signal = beginCancellableTask();
     
     try {
-      for (let i = 0; i < targets.length; i++) {
-        const imageIndex = targets[i];
-        const imageState = images[imageIndex];
-        const imageToProcess = imageState.history[imageState.historyIndex];
-        if (!imageToProcess) continue;
-
-        setLoadingMessage(
-          applyToAll 
-            ? `Menerapkan ${operationName} ke gambar ${i + 1} dari ${targets.length}...` 
-            : `AI sedang menerapkan ${operationName}...`
-        );
-        
-        const resultUrl = await operation(imageToProcess, prompt);
-        const newImageFile = dataURLtoFile(resultUrl, `${operationName}-${Date.now()}.png`);
-        addImageToHistory(newImageFile, imageIndex);
+      if (variationCount > 1) {
+        setLoadingMessage(t('app.loading.operationVariations', { operation: operationName, count: variationCount }));
+        const files = await generateCandidates(variationCount, () => produceFrom(baseEntry.file, signal));
+        setCandidates({ imageId: imageState.id, baseEntryId: baseEntry.id, baseFile: baseEntry.file, files, details, chosen: [] });
+      } else {
+        setLoadingMessage(t('app.loading.operation', { operation: operationName }));
+        await addImageToHistory(await produceFrom(baseEntry.file, signal), activeImageIndex, details);
       }
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Terjadi kesalahan tidak dikenal.';
-      setError(`Gagal menerapkan ${operationName}. ${errorMessage}`);
+      if (err instanceof RequestCancelledError) return;
+      setError(t('app.failed.applyOperation', { error: describeError(err), operation: operationName }));
       console.error(err);
     } finally {
       setLoadingMessage(null);
+      setActiveRequest(null);
     }
-  }, [images, activeImageIndex, addImageToHistory]);
+  }, [images, activeImageIndex, variationCount, addImageToHistory, beginCancellableTask, runBatchJob]);
+
+  const handleChooseCandidate = useCallback(async (candidateIndex: number) => {
+    if (!candidates) return;
+    const imageIndex = images.findIndex(img => img.id === candidates.imageId);
+    if (imageIndex < 0) return;
+
+    const file = candidates.files[candidateIndex];
+    const baseEntry = images[imageIndex].history.find(entry => entry.id === candidates.baseEntryId);
+    let details = candidates.details;
+    if (!details.layers && baseEntry?.layers) {
+      const layers = await fitLayersToBase(baseEntry.layers, baseEntry.file, file);
+      if (layers !== baseEntry.layers) details = { ...details, layers };
+    }
+
+    // Commit as a child of the entry the candidates came from, even if the user navigated away since.
+    updateImageState(imageIndex, image => {
+      const baseIndex = image.history.findIndex(entry => entry.id === candidates.baseEntryId);
+      const base = baseIndex >= 0 ? jumpToEntry(image, baseIndex) : image;
+      return appendHistoryEntry(base, file, details);
+    });
+    setCandidates(prev => prev && { ...prev, chosen: [...new Set([...prev.chosen, candidateIndex])] });
+  }, [candidates, images]);
 
   const handleApplyFilter = (filterPrompt: string, applyToAll: boolean) => 
-    handleApplyBatchOperation(filterPrompt, generateFilteredImage, 'filter', applyToAll);
+    handleApplyBatchOperation(filterPrompt, generateFilteredImage, applyToAll, 'filter');
+
+  const handleApplyStyleTransfer = (references: File[], stylePrompt: string, strength: number, applyToAll: boolean) =>
+    handleApplyBatchOperation(
+      stylePrompt,
+      (image, prompt, options) => generateStyleTransferImage(image, references, prompt, strength, options),
+      applyToAll,
+      'styleTransfer',
+      t('app.styleTransferDescription', { count: references.length, strength }),
+    );
 
   const handleApplyAdjustment = (adjustmentPrompt: string, applyToAll: boolean) => 
-    handleApplyBatchOperation(adjustmentPrompt, generateAdjustedImage, 'penyesuaian', applyToAll);
+    handleApplyBatchOperation(adjustmentPrompt, generateAdjustedImage, applyToAll, 'adjustment');
+
+  const handleApplyLocalAdjustment = useCallback(async (params: AdjustmentParams, applyToAll: boolean) => {
+    const targets = applyToAll ? images.map((_, i) => i) : [activeImageIndex];
+    if (targets.some(i => i < 0 || !images[i])) {
+      setError(t('app.validation.noTarget', { operation: t('modelOperation.adjustment') }));
+      return;
+    }
+
+    setError(null);
+    setLoadingMessage(t('app.loading.adjustment'));
+
+    try {
+      for (const imageIndex of targets) {
+        const imageState = images[imageIndex];
+        const entry = imageState.history[imageState.historyIndex];
+        if (!entry) continue;
+        // Re-render from the unadjusted source so repeated tweaks never stack or degrade.
+        const source = entry.adjustment?.source ?? entry.file;
+        const adjustedFile = await renderAdjustedFile(source, params);
+        await addImageToHistory(adjustedFile, imageIndex, { operation: 'localAdjustment', adjustment: { source, params } });
+      }
+    } catch (err) {
+      setError(t('app.failed.adjustment', { error: describeError(err) }));
+      console.error(err);
+    } finally {
+      setLoadingMessage(null);
+    }
+  }, [images, activeImageIndex, addImageToHistory]);
 
   const handleGenerateBackground = useCallback(async (bgPrompt: string) => {
     if (!imgRef.current) {
-        setError('Tidak dapat membuat latar belakang tanpa referensi gambar.');
+        setError(t('app.validation.noBackgroundReference'));
         return;
     }
-    setLoadingMessage('Membuat latar belakang...');
+    setLoadingMessage(t('app.loading.generateBackground'));
     setError(null);
+    const signal = beginCancellableTask();
 
     try {
         const supportedAspects = [
@@ -238,7 +778,7 @@ const App: React.FC = () => {
             Math.abs(curr.value - imageAspect) < Math.abs(prev.value - imageAspect) ? curr : prev
         );
         
-        const backgroundUrl = await generateBackgroundImage(bgPrompt, closest.name as AspectRatioString);
+        const backgroundUrl = await generateBackgroundImage(bgPrompt, closest.name as AspectRatioString, { signal });
         const backgroundFile = dataURLtoFile(backgroundUrl, `background-${Date.now()}.png`);
         
         setGeneratedBackground(backgroundFile);
@@ -248,13 +788,14 @@ const App: React.FC = () => {
         setGeneratedBackgroundUrl(URL.createObjectURL(backgroundFile));
 
     } catch(err) {
-        const errorMessage = err instanceof Error ? err.message : 'Terjadi kesalahan tidak dikenal.';
-        setError(`Gagal membuat latar belakang. ${errorMessage}`);
+        if (err instanceof RequestCancelledError) return;
+        setError(t('app.failed.generateBackground', { error: describeError(err) }));
         console.error(err);
     } finally {
         setLoadingMessage(null);
+        setActiveRequest(null);
     }
-  }, [generatedBackgroundUrl]);
+  }, [generatedBackgroundUrl, beginCancellableTask]);
 
   const handleBackgroundUpload = useCallback((file: File) => {
     setError(null);
@@ -267,134 +808,193 @@ const App: React.FC = () => {
 
   const handleApplyBackground = useCallback(async (applyToAll: boolean) => {
     if (!generatedBackground) {
-        setError('Tidak ada latar belakang yang dibuat untuk diterapkan.');
+        setError(t('app.validation.noBackground'));
         return;
     }
-    const targets = applyToAll ? images.map((_, i) => i) : [activeImageIndex];
-    if (targets.some(i => i < 0 || !images[i])) {
-      setError(`Tidak ada gambar yang dipilih untuk menerapkan latar belakang.`);
+    const details: HistoryDetails = { operation: 'background', model: describeModel('backgroundReplacement') };
+    const produceFrom = async (image: File, signal: AbortSignal) =>
+        dataURLtoFile(await applyBackgroundToImage(image, generatedBackground, { signal }), `bg-applied-${Date.now()}.png`);
+
+    if (applyToAll) {
+        await runBatchJob({ operationName: t('modelOperation.backgroundReplacement'), details, produce: produceFrom }, images.map(img => img.id));
+        return;
+    }
+
+    const imageToProcess = images[activeImageIndex]?.history[images[activeImageIndex].historyIndex]?.file;
+    if (!imageToProcess) {
+      setError(t('app.validation.noTarget', { operation: t('modelOperation.backgroundReplacement') }));
       return;
     }
     
     setError(null);
+    setLoadingMessage(t('app.loading.operation', { operation: t('modelOperation.backgroundReplacement') }));
+    const signal = beginCancellableTask();
 
     try {
-        for (let i = 0; i < targets.length; i++) {
-            const imageIndex = targets[i];
-            const imageState = images[imageIndex];
-            const imageToProcess = imageState.history[imageState.historyIndex];
-            if (!imageToProcess) continue;
-
-            setLoadingMessage(
-              applyToAll 
-                ? `Menerapkan latar belakang ke gambar ${i + 1} dari ${targets.length}...` 
-                : `AI sedang menerapkan latar belakang...`
-            );
-            
-            const resultUrl = await applyBackgroundToImage(imageToProcess, generatedBackground);
-            const newImageFile = dataURLtoFile(resultUrl, `bg-applied-${Date.now()}.png`);
-            addImageToHistory(newImageFile, imageIndex);
-        }
+        await addImageToHistory(await produceFrom(imageToProcess, signal), activeImageIndex, details);
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Terjadi kesalahan tidak dikenal.';
-        setError(`Gagal menerapkan latar belakang. ${errorMessage}`);
+        if (err instanceof RequestCancelledError) return;
+        setError(t('app.failed.applyBackground', { error: describeError(err) }));
         console.error(err);
     } finally {
         setLoadingMessage(null);
+        setActiveRequest(null);
     }
-  }, [generatedBackground, images, activeImageIndex, addImageToHistory]);
+  }, [generatedBackground, images, activeImageIndex, addImageToHistory, beginCancellableTask, runBatchJob]);
 
-  const handleApplyCrop = useCallback(() => {
-    if (!completedCrop || !imgRef.current) {
-        setError('Silakan pilih area untuk dipotong.');
-        return;
+  const handleAddProduct = useCallback(async (product: Product) => {
+    await saveProduct(product);
+    setProducts(prev => [product, ...prev]);
+    setSelectedProductId(product.id);
+  }, []);
+
+  const handleDeleteProduct = useCallback(async (id: string) => {
+    try {
+      await deleteProduct(id);
+      setProducts(prev => prev.filter(product => product.id !== id));
+      setSelectedProductId(prev => prev === id ? null : prev);
+    } catch (err) {
+      setError(t('app.failed.deleteProduct', { error: describeError(err) }));
+      console.error(err);
     }
+  }, []);
 
-    const image = imgRef.current;
-    const canvas = document.createElement('canvas');
-    const scaleX = image.naturalWidth / image.width;
-    const scaleY = image.naturalHeight / image.height;
-    
-    canvas.width = completedCrop.width;
-    canvas.height = completedCrop.height;
-    const ctx = canvas.getContext('2d');
+  const handlePlaceProduct = useCallback(async () => {
+    const product = products.find(p => p.id === selectedProductId);
+    if (!currentImage || !product || !placementHotspot) {
+      setError(t('app.validation.noPlacement'));
+      return;
+    }
 
-    if (!ctx) {
-        setError('Tidak dapat memproses pemotongan.');
+    setLoadingMessage(variationCount > 1 ? t('app.loading.operationVariations', { operation: t('modelOperation.placement'), count: variationCount }) : t('app.loading.placement', { name: product.name }));
+    setError(null);
+    const signal = beginCancellableTask();
+
+    try {
+      const produce = async () => dataURLtoFile(
+        await generateProductPlacement(currentImage, product.file, placementHotspot, product.name, { signal }),
+        `placed-${Date.now()}.png`,
+      );
+      const details: HistoryDetails = {
+        operation: 'placement',
+        prompt: product.name,
+        hotspots: [placementHotspot],
+        model: describeModel('placement'),
+      };
+
+      if (variationCount > 1 && activeImageState && currentEntry) {
+        const files = await generateCandidates(variationCount, produce);
+        setCandidates({ imageId: activeImageState.id, baseEntryId: currentEntry.id, baseFile: currentImage, files, details, chosen: [] });
+      } else {
+        await addImageToHistory(await produce(), activeImageIndex, details);
+      }
+      setPlacementHotspot(null);
+    } catch (err) {
+      if (err instanceof RequestCancelledError) return;
+      setError(t('app.failed.placeProduct', { error: describeError(err) }));
+      console.error(err);
+    } finally {
+      setLoadingMessage(null);
+      setActiveRequest(null);
+    }
+  }, [products, selectedProductId, currentImage, currentEntry, activeImageState, placementHotspot, variationCount, activeImageIndex, addImageToHistory, beginCancellableTask]);
+
+  const handleApplyCrop = useCallback(async () => {
+    if (!currentEntry || !imageNaturalSize || !cropArea) {
+        setError(t('app.validation.noCrop'));
         return;
     }
 
-    const pixelRatio = window.devicePixelRatio || 1;
-    canvas.width = completedCrop.width * pixelRatio;
-    canvas.height = completedCrop.height * pixelRatio;
-    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
-    ctx.imageSmoothingQuality = 'high';
-
-    ctx.drawImage(
-      image,
-      completedCrop.x * scaleX,
-      completedCrop.y * scaleY,
-      completedCrop.width * scaleX,
-      completedCrop.height * scaleY,
-      0,
-      0,
-      completedCrop.width,
-      completedCrop.height,
-    );
-    
-    const croppedImageUrl = canvas.toDataURL('image/png');
-    const newImageFile = dataURLtoFile(croppedImageUrl, `cropped-${Date.now()}.png`);
-    addImageToHistory(newImageFile, activeImageIndex);
+    setError(null);
+    setLoadingMessage(t('app.loading.crop'));
+    try {
+        const file = await applyGeometry(currentEntry.file, geometry, cropArea, cropFormat.outputSize);
+        const layers = currentEntry.layers && remapLayersForGeometry(currentEntry.layers, imageNaturalSize, geometry, cropArea, cropFormat.outputSize);
+        const size = cropFormat.outputSize ?? roundCrop(cropArea, getFrameSize(imageNaturalSize, geometry));
+        const description = [
+            geometry.perspective && t('crop.summary.perspective'),
+            (geometry.quarterTurns !== 0 || geometry.rotation !== 0) && t('crop.summary.rotate', { degrees: geometry.quarterTurns * 90 + geometry.rotation }),
+            geometry.flipH && t('crop.flipH'),
+            geometry.flipV && t('crop.flipV'),
+            t('crop.summary.size', { width: size.width, height: size.height }),
+        ].filter(Boolean).join(', ');
+        await addImageToHistory(file, activeImageIndex, { operation: 'crop', layers, description });
+    } catch (err) {
+        setError(t('app.failed.crop', { error: describeError(err) }));
+        console.error(err);
+    } finally {
+        setLoadingMessage(null);
+    }
+  }, [currentEntry, imageNaturalSize, cropArea, geometry, cropFormat, addImageToHistory, activeImageIndex]);
+
+  const handleGeometryChange = useCallback((next: GeometryParams) => {
+    setGeometry(next);
+    setCropRect(null);
+  }, []);
+
+  const handleCropFormatChange = useCallback((format: CropFormat) => {
+    setCropFormat(format);
+    setCropRect(null);
+  }, []);
 
-  }, [completedCrop, addImageToHistory, activeImageIndex]);
+  const handleCropSizeChange = useCallback((size: Size) => {
+    if (cropArea && cropFrame) setCropRect(resizeCrop(cropArea, size, cropFrame));
+  }, [cropArea, cropFrame]);
+
+  const handleCommitLayers = useCallback((layers: Layer[], description: string) => {
+    if (!currentEntry) return;
+    // Same base photo; keep the adjustment so "Sesuaikan" can still re-tweak it.
+    addImageToHistory(currentEntry.file, activeImageIndex, { operation: 'layers', layers, description, adjustment: currentEntry.adjustment });
+  }, [currentEntry, addImageToHistory, activeImageIndex]);
 
   const handleUndo = useCallback(() => {
     if (canUndo && activeImageState) {
-      updateImageState(activeImageIndex, { historyIndex: activeImageState.historyIndex - 1 });
+      updateImageState(activeImageIndex, undo);
       setEditHotspots([]);
-      setDisplayHotspots([]);
     }
   }, [canUndo, activeImageState, activeImageIndex]);
   
   const handleRedo = useCallback(() => {
     if (canRedo && activeImageState) {
-      updateImageState(activeImageIndex, { historyIndex: activeImageState.historyIndex + 1 });
+      updateImageState(activeImageIndex, redo);
       setEditHotspots([]);
-      setDisplayHotspots([]);
     }
   }, [canRedo, activeImageState, activeImageIndex]);
 
   const handleReset = useCallback(() => {
     if (activeImageState) {
-      updateImageState(activeImageIndex, { historyIndex: 0 });
+      updateImageState(activeImageIndex, resetToOriginal);
       setError(null);
       setEditHotspots([]);
-      setDisplayHotspots([]);
       setGeneratedBackground(null);
       setGeneratedBackgroundUrl(null);
     }
   }, [activeImageState, activeImageIndex]);
 
+  const handleJumpToHistory = useCallback((historyIndex: number) => {
+    updateImageState(activeImageIndex, image => jumpToEntry(image, historyIndex));
+    setEditHotspots([]);
+  }, [activeImageIndex]);
+
   const handleUploadNew = useCallback(() => {
+      // Flush pending changes; the project stays saved and can be reopened from the start screen.
+      saveCurrentProject().then(refreshProjects);
+      setProjectMeta(null);
+      setLastProjectId(null);
       setImages([]);
       setActiveImageIndex(-1);
       setError(null);
       setPrompt('');
       setEditHotspots([]);
-      setDisplayHotspots([]);
       setGeneratedBackground(null);
       setGeneratedBackgroundUrl(null);
-  }, []);
+      setCandidates(null);
+      handleDismissBatchReport();
+  }, [saveCurrentProject, refreshProjects, handleDismissBatchReport]);
 
   const handleDownload = useCallback(() => {
       if (currentImage) {
-          const link = document.createElement('a');
-          link.href = URL.createObjectURL(currentImage);
-          link.download = `edited-${currentImage.name}`;
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-          URL.revokeObjectURL(link.href);
+          setIsExportOpen(true);
       }
   }, [currentImage]);
   
@@ -407,31 +1007,183 @@ const App: React.FC = () => {
   const handleSelectImage = useCallback((index: number) => {
     setActiveImageIndex(index);
     setEditHotspots([]);
-    setDisplayHotspots([]);
-    setCrop(undefined);
-    setCompletedCrop(undefined);
+    setPlacementHotspot(null);
+    setCropRect(null);
+    setGeometry(DEFAULT_GEOMETRY);
   }, []);
 
+  const handleImportUrl = useCallback(async (url: string) => {
+    setLoadingMessage(t('app.loading.importUrl'));
+    setError(null);
+    const signal = beginCancellableTask();
+
+    try {
+        handleImageUpload([await fetchImageFromUrl(url, { signal })]);
+    } catch (err) {
+        if (err instanceof RequestCancelledError) return;
+        setError(t('app.failed.importUrl', { error: describeError(err) }));
+        console.error(err);
+    } finally {
+        setLoadingMessage(null);
+        setActiveRequest(null);
+    }
+  }, [handleImageUpload, beginCancellableTask]);
+
+  const handleCopyImage = useCallback(async () => {
+    if (!activeImageState) return;
+    try {
+        await copyImageToClipboard(activeImageState);
+        setCopyStatus('copied');
+    } catch (err) {
+        setError(t('app.failed.copy', { error: describeError(err) }));
+        console.error(err);
+    }
+  }, [activeImageState]);
+
+  useEffect(() => {
+    if (!copyStatus) return;
+    const timeout = setTimeout(() => setCopyStatus(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [copyStatus]);
+
+  const handleRemoveImage = useCallback((index: number) => {
+    const removed = images[index];
+    if (!removed || images.length <= 1) return;
+    if (!window.confirm(t('thumbnails.removeConfirm', { index: index + 1 }))) return;
+    setImages(prev => prev.filter(img => img.id !== removed.id));
+    if (candidates?.imageId === removed.id) setCandidates(null);
+    if (index === activeImageIndex) {
+      // The next image slides into place, or the previous one when the last was removed.
+      handleSelectImage(Math.min(index, images.length - 2));
+      setIsComparisonOpen(false);
+    } else if (index < activeImageIndex) {
+      setActiveImageIndex(activeImageIndex - 1);
+    }
+  }, [images, activeImageIndex, candidates, handleSelectImage]);
+
+  const handleMoveImage = useCallback((from: number, to: number) => {
+    const next = [...images];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    const activeId = images[activeImageIndex]?.id;
+    setImages(next);
+    setActiveImageIndex(next.findIndex(img => img.id === activeId));
+  }, [images, activeImageIndex]);
+
+  // Ctrl+V anywhere adds pasted images; a pasted image URL is imported unless it went into a text field.
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      if (!e.clipboardData || isLoading || isCameraOpen) return;
+      const files = getImageFiles(e.clipboardData);
+      if (files.length > 0) {
+        e.preventDefault();
+        handleImageUpload(files);
+        return;
+      }
+      if (isTypingTarget(e.target)) return;
+      const url = parseImageUrl(e.clipboardData.getData('text/plain'));
+      if (url) {
+        e.preventDefault();
+        handleImportUrl(url.href);
+      }
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [isLoading, isCameraOpen, handleImageUpload, handleImportUrl]);
+
   const handleImageClick = (e: React.MouseEvent<HTMLImageElement>) => {
-    if (activeTab !== 'retouch') return;
-    
+    if (activeTool.interaction !== 'click') return;
+    const isPlacing = activeToolId === 'products';
+
+    // The image fills the viewport stage exactly, so its box maps straight onto natural pixels at any zoom.
     const img = e.currentTarget;
     const rect = img.getBoundingClientRect();
+    const point = {
+      x: Math.round((e.clientX - rect.left) / rect.width * img.naturalWidth),
+      y: Math.round((e.clientY - rect.top) / rect.height * img.naturalHeight),
+    };
 
-    const offsetX = e.clientX - rect.left;
-    const offsetY = e.clientY - rect.top;
-    
-    setDisplayHotspots(prev => [...prev, { x: offsetX, y: offsetY }]);
+    if (isPlacing) {
+      // A product goes to a single spot; clicking again moves it.
+      setPlacementHotspot(point);
+      return;
+    }
+
+    setEditHotspots(prev => [...prev, point]);
+  };
 
-    const { naturalWidth, naturalHeight, clientWidth, clientHeight } = img;
-    const scaleX = naturalWidth / clientWidth;
-    const scaleY = naturalHeight / clientHeight;
+  const handleSavePresets = useCallback((next: PromptPreset[]) => {
+    setPresets(next);
+    savePresets(next);
+  }, []);
+
+  const handleTogglePresetFavorite = useCallback((id: string) => {
+    handleSavePresets(presets.map(preset => preset.id === id ? { ...preset, favorite: !preset.favorite } : preset));
+  }, [presets, handleSavePresets]);
 
-    const originalX = Math.round(offsetX * scaleX);
-    const originalY = Math.round(offsetY * scaleY);
+  const presetLibraryFor = (kind: PresetKind): PresetLibraryProps => ({
+    presets,
+    onToggleFavorite: handleTogglePresetFavorite,
+    onManage: () => setPresetManagerKind(kind),
+    requestedPresetId,
+    onPresetRequestHandled: () => setRequestedPresetId(null),
+  });
 
-    setEditHotspots(prev => [...prev, { x: originalX, y: originalY }]);
+  const isEditing = !!activeImageState && !isLoading;
+  const shortcutHandlers: Partial<Record<ShortcutActionId, () => void>> = {
+    commandPalette: () => setIsCommandPaletteOpen(true),
+    cheatSheet: () => setIsShortcutSheetOpen(true),
+    // Hidden shortcut for the model request inspector; opening it starts recording.
+    debugInspector: () => {
+      if (!isDebugEnabled()) setDebugEnabled(true);
+      setIsDebugOpen(true);
+    },
+    openCamera: !isLoading ? () => setIsCameraOpen(true) : undefined,
+    ...(isEditing && {
+      undo: canUndo ? handleUndo : undefined,
+      redo: canRedo ? handleRedo : undefined,
+      reset: canUndo ? handleReset : undefined,
+      generate: activeToolId === 'retouch' || activeToolId === 'brush' ? handleGenerate : undefined,
+      clearHotspots: editHotspots.length > 0 || placementHotspot ? () => { setEditHotspots([]); setPlacementHotspot(null); } : undefined,
+      export: handleDownload,
+      exportAll: images.length > 1 ? () => setIsBulkExportOpen(true) : undefined,
+      copyImage: handleCopyImage,
+      uploadNew: handleUploadNew,
+      previousImage: activeImageIndex > 0 ? () => handleSelectImage(activeImageIndex - 1) : undefined,
+      nextImage: activeImageIndex < images.length - 1 ? () => handleSelectImage(activeImageIndex + 1) : undefined,
+      ...Object.fromEntries(TOOLS.map(tool => [`tool.${tool.id}`, () => setActiveToolId(tool.id)])),
+    }),
+    ...(activeImageState && {
+      toggleHistory: () => setIsHistoryOpen(open => !open),
+      toggleComparison: activeImageState.history.length > 1 ? () => setIsComparisonOpen(open => !open) : undefined,
+    }),
   };
+  const isDialogOpen = isCommandPaletteOpen || isShortcutSheetOpen || isCameraOpen || isExportOpen || isBulkExportOpen || isDebugOpen || !!presetManagerKind;
+  useShortcuts(shortcutActions, shortcutHandlers, !isDialogOpen);
+
+  const shortcutLabel = (id: ShortcutActionId) => {
+    const action = shortcutActions.find(candidate => candidate.id === id);
+    const combo = action && getBindings(action, shortcutOverrides)[0];
+    return combo ? formatCombo(combo) : undefined;
+  };
+
+  const buildPaletteCommands = (): PaletteCommand[] => [
+    ...shortcutActions.flatMap(action => {
+      const run = shortcutHandlers[action.id];
+      if (!run || action.hidden || action.id === 'commandPalette') return [];
+      return [{ id: action.id, label: t(action.label), group: t(SHORTCUT_GROUP_LABELS[action.group]), shortcut: shortcutLabel(action.id), run }];
+    }),
+    ...(isEditing ? presets.map(preset => ({
+      id: `preset-${preset.id}`,
+      label: preset.name,
+      group: t(PRESET_KIND_LABELS[preset.kind]),
+      run: () => {
+        setIsComparisonOpen(false);
+        setActiveToolId(presetTools[preset.kind]);
+        setRequestedPresetId(preset.id);
+      },
+    })) : []),
+  ];
 
   const handleGenerateRandomRetouchPrompt = async () => {
       if (isGeneratingIdea) return;
@@ -441,8 +1193,7 @@ const App: React.FC = () => {
           const idea = await generateRandomPrompt('retouch');
           setPrompt(idea);
       } catch (err) {
-          const errorMessage = err instanceof Error ? err.message : 'Terjadi kesalahan tidak dikenal.';
-          setError(errorMessage);
+          setError(describeError(err));
       } finally {
           setIsGeneratingIdea(false);
       }
@@ -452,31 +1203,67 @@ const App: React.FC = () => {
     if (error) {
        return (
            <div className="text-center animate-fade-in bg-[#963A2F]/20 border border-[#963A2F]/40 p-8 rounded-lg max-w-2xl mx-auto flex flex-col items-center gap-4">
-            <h2 className="text-2xl font-bold text-[#ECB984]">Terjadi Kesalahan</h2>
+            <h2 className="text-2xl font-bold text-[#ECB984]">{t('app.errorTitle')}</h2>
             <p className="text-md text-[#D58258]">{error}</p>
-            <button
-                onClick={() => setError(null)}
-                className="bg-[#963A2F] hover:bg-[#a14337] text-white font-bold py-2 px-6 rounded-lg text-md transition-colors"
-              >
-                Coba Lagi
-            </button>
+            <div className="flex flex-wrap items-center justify-center gap-3">
+              <button
+                  onClick={() => setError(null)}
+                  className="bg-[#963A2F] hover:bg-[#a14337] text-white font-bold py-2 px-6 rounded-lg text-md transition-colors"
+                >
+                  {t('app.tryAgain')}
+              </button>
+              {errorRecovery === 'fullRetouchOutput' && (
+                <button
+                    onClick={() => {
+                      // Turns the toggle off so the choice stays visible in the retouch panel.
+                      setError(null);
+                      setPreserveResolution(false);
+                      handleGenerate(false);
+                    }}
+                    className="bg-[#FFFEE9]/10 border border-[#FFFEE9]/20 hover:bg-[#FFFEE9]/20 text-[#FFFEE9] font-bold py-2 px-6 rounded-lg text-md transition-colors"
+                    title={t('app.useFullOutputHint')}
+                  >
+                    {t('app.useFullOutput')}
+                </button>
+              )}
+            </div>
           </div>
         );
     }
     
     if (!currentImageUrl || !activeImageState) {
-      return <StartScreen onFileSelect={handleFileSelect} />;
+      return (
+        <StartScreen
+          onFileSelect={handleFileSelect}
+          onOpenCamera={() => setIsCameraOpen(true)}
+          onImportUrl={handleImportUrl}
+          projects={projects}
+          storageEstimate={storageEstimate}
+          onOpenProject={openProject}
+          onRenameProject={handleRenameProject}
+          onDuplicateProject={handleDuplicateProject}
+          onDeleteProject={handleDeleteProject}
+        />
+      );
     }
 
+    // Markers are kept in natural pixels and placed by percentage, so they follow every zoom and resize.
+    const toStagePercent = (point: { x: number, y: number }): React.CSSProperties | undefined => imageNaturalSize ? {
+      left: `${point.x / imageNaturalSize.width * 100}%`,
+      top: `${point.y / imageNaturalSize.height * 100}%`,
+    } : undefined;
+
     const imageDisplay = (
-      <div className="relative">
+      <Viewport contentSize={imageNaturalSize} navigatorSrc={currentImageUrl}>
         {/* Base image is the original, always at the bottom */}
         {originalImageUrl && (
             <img
                 key={originalImageUrl}
                 src={originalImageUrl}
                 alt="Original"
-                className="w-full h-auto object-contain max-h-[60vh] rounded-xl pointer-events-none"
+                onLoad={(e) => setOriginalNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+                draggable={false}
             />
         )}
         {/* The current image is an overlay that fades in/out for comparison */}
@@ -486,29 +1273,60 @@ const App: React.FC = () => {
             src={currentImageUrl}
             alt="Current"
             onClick={handleImageClick}
-            className={`absolute top-0 left-0 w-full h-auto object-contain max-h-[60vh] rounded-xl transition-opacity duration-200 ease-in-out ${isComparing ? 'opacity-0' : 'opacity-100'} ${activeTab === 'retouch' ? 'cursor-crosshair' : ''}`}
+            onLoad={(e) => setImageNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            draggable={false}
+            className={`absolute inset-0 w-full h-full transition-opacity duration-200 ease-in-out ${isComparing ? 'opacity-0' : 'opacity-100'} ${activeTool.interaction === 'click' ? 'cursor-crosshair' : ''}`}
         />
-      </div>
+        {currentLayers.length > 0 && currentImageUrl && imageNaturalSize && !isComparing && (
+            <EditorCanvas
+                baseUrl={currentImageUrl}
+                naturalWidth={imageNaturalSize.width}
+                naturalHeight={imageNaturalSize.height}
+                layers={currentLayers}
+                selectedLayerId={selectedLayerId}
+                onSelectLayer={setSelectedLayerId}
+                onLayersChange={handleCommitLayers}
+                interactive={activeTool.interaction === 'transform' && !isLoading}
+            />
+        )}
+        {activeToolId === 'adjust' && adjustmentPreview && currentEntry && !isComparing && (
+            <AdjustmentPreview source={currentEntry.adjustment?.source ?? currentEntry.file} params={adjustmentPreview} />
+        )}
+        {activeTool.interaction === 'brush' && imageNaturalSize && (
+            <MaskCanvas
+                ref={maskRef}
+                key={currentImageUrl}
+                naturalWidth={imageNaturalSize.width}
+                naturalHeight={imageNaturalSize.height}
+                brushSize={maskSettings.brushSize}
+                isErasing={maskSettings.isErasing}
+                invert={maskSettings.invert}
+                onMaskChange={setHasMask}
+                onPick={activeToolId === 'erase' && eraseSelectionMode === 'pick' && !isLoading ? handleSelectObjectAt : undefined}
+            />
+        )}
+        {editHotspots.length > 0 && !isLoading && activeToolId === 'retouch' && (
+            editHotspots.map((hotspot, index) => (
+                <div 
+                    key={index}
+                    className="absolute rounded-full w-6 h-6 bg-[#D58258]/60 border-2 border-[#FFFEE9] pointer-events-none -translate-x-1/2 -translate-y-1/2 z-10"
+                    style={toStagePercent(hotspot)}
+                >
+                    <div className="absolute inset-0 rounded-full w-6 h-6 animate-ping bg-[#D58258]"></div>
+                </div>
+            ))
+        )}
+        {placementHotspot && !isLoading && activeToolId === 'products' && (
+            <div
+                className="absolute rounded-full w-8 h-8 bg-[#A8A676]/60 border-2 border-[#FFFEE9] pointer-events-none -translate-x-1/2 -translate-y-1/2 z-10"
+                style={toStagePercent(placementHotspot)}
+            >
+                <div className="absolute inset-0 rounded-full w-8 h-8 animate-ping bg-[#A8A676]"></div>
+            </div>
+        )}
+      </Viewport>
     );
     
-    // For ReactCrop, we need a single image element. We'll use the current one.
-    const cropImageElement = (
-      <img 
-        ref={imgRef}
-        key={`crop-${currentImageUrl}`}
-        src={currentImageUrl} 
-        alt="Crop this image"
-        className="w-full h-auto object-contain max-h-[60vh] rounded-xl"
-      />
-    );
-
-    const tabNames: { [key in Tab]: string } = {
-        retouch: 'Sentuh Ulang',
-        adjust: 'Sesuaikan',
-        filters: 'Filter',
-        crop: 'Potong',
-    };
-
     return (
       <div className="w-full max-w-4xl mx-auto flex flex-col items-center gap-6 animate-fade-in">
         <div className="relative w-full shadow-2xl rounded-xl overflow-hidden bg-[#2b1a17]/50">
@@ -516,122 +1334,205 @@ const App: React.FC = () => {
                 <div className="absolute inset-0 bg-[#2b1a17]/80 z-30 flex flex-col items-center justify-center gap-4 animate-fade-in">
                     <Spinner />
                     <p className="text-[#ECB984]">{loadingMessage}</p>
+                    {activeRequest && (
+                        <button
+                            onClick={handleCancelRequest}
+                            disabled={activeRequest.signal.aborted}
+                            className="bg-[#FFFEE9]/10 border border-[#FFFEE9]/20 text-[#FFFEE9] font-semibold py-2 px-5 rounded-md transition-all duration-200 hover:bg-[#FFFEE9]/20 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {t('common.cancel')}
+                        </button>
+                    )}
                 </div>
             )}
             
-            {activeTab === 'crop' ? (
-              <ReactCrop 
-                crop={crop} 
-                onChange={c => setCrop(c)} 
-                onComplete={c => setCompletedCrop(c)}
-                aspect={aspect}
-                className="max-h-[60vh]"
-              >
-                {cropImageElement}
-              </ReactCrop>
+            {isComparisonOpen ? (
+              <ComparisonView key={activeImageState.id} image={activeImageState} onClose={() => setIsComparisonOpen(false)} />
+            ) : activeTool.interaction === 'drag-rect' && currentImage ? (
+              <CropWorkspace
+                source={currentImage}
+                geometry={geometry}
+                onGeometryChange={handleGeometryChange}
+                mode={geometryMode}
+                onModeChange={setGeometryMode}
+                crop={cropArea}
+                onCropChange={setCropRect}
+                aspect={cropFormat.aspect}
+                onSourceLoad={setImageNaturalSize}
+              />
             ) : imageDisplay }
-
-            {displayHotspots.length > 0 && !isLoading && activeTab === 'retouch' && (
-                displayHotspots.map((hotspot, index) => (
-                    <div 
-                        key={index}
-                        className="absolute rounded-full w-6 h-6 bg-[#D58258]/60 border-2 border-[#FFFEE9] pointer-events-none -translate-x-1/2 -translate-y-1/2 z-10"
-                        style={{ left: `${hotspot.x}px`, top: `${hotspot.y}px` }}
-                    >
-                        <div className="absolute inset-0 rounded-full w-6 h-6 animate-ping bg-[#D58258]"></div>
-                    </div>
-                ))
-            )}
         </div>
         
-        <ThumbnailStrip images={images} activeImageIndex={activeImageIndex} onSelectImage={handleSelectImage} />
-
-        <div className="w-full bg-[#4a2c27]/80 border border-[#ECB984]/20 rounded-lg p-2 flex items-center justify-center gap-2 backdrop-blur-sm">
-            {(['retouch', 'crop', 'adjust', 'filters'] as Tab[]).map(tab => (
-                 <button
-                    key={tab}
-                    onClick={() => setActiveTab(tab)}
-                    className={`w-full capitalize font-semibold py-3 px-5 rounded-md transition-all duration-200 text-base ${
-                        activeTab === tab 
-                        ? 'bg-gradient-to-br from-[#D58258] to-[#ECB984] text-[#4a2c27] shadow-lg shadow-[#ECB984]/20' 
-                        : 'text-[#ECB984] hover:text-[#FFFEE9] hover:bg-[#FFFEE9]/10'
-                    }`}
-                >
-                    {tabNames[tab]}
-                </button>
-            ))}
-        </div>
+        <ThumbnailStrip
+            images={images}
+            activeImageIndex={activeImageIndex}
+            onSelectImage={handleSelectImage}
+            batchStatus={batchStatus}
+            onRetryImage={batchJob ? handleRetryBatchImage : undefined}
+            onRemoveImage={handleRemoveImage}
+            onMoveImage={handleMoveImage}
+            onAddFiles={handleImageUpload}
+            onOpenCamera={() => setIsCameraOpen(true)}
+            isLoading={isLoading}
+        />
+
+        {batchReport && (
+            <BatchSummary
+                report={batchReport}
+                imageNumbers={Object.fromEntries(images.map((img, i) => [img.id, i]))}
+                onRetryFailed={handleRetryFailedBatch}
+                onDismiss={handleDismissBatchReport}
+                isLoading={isLoading}
+            />
+        )}
+
+        <Toolbar
+            tools={TOOLS}
+            activeToolId={activeToolId}
+            onSelectTool={setActiveToolId}
+            shortcuts={Object.fromEntries(shortcutActions.filter(action => action.group === 'tools').map(action => [action.id.slice('tool.'.length), getBindings(action, shortcutOverrides)]))}
+        />
         
-        <div className="w-full">
-            {activeTab === 'retouch' && (
-                <div className="flex flex-col items-center gap-2">
-                    <div className="flex justify-between items-center w-full">
-                        <p className="text-md text-[#ECB984]">
-                          {editHotspots.length > 0 ? `Bagus! ${editHotspots.length} titik dipilih. Deskripsikan editan Anda.` : 'Klik area pada gambar untuk melakukan editan yang presisi.'}
-                        </p>
-                        {editHotspots.length > 0 && (
-                            <button 
-                                onClick={() => { setEditHotspots([]); setDisplayHotspots([]); }}
-                                className="text-sm text-[#ECB984]/80 hover:text-[#ECB984] underline transition-colors"
+        {(activeTool.supportsVariations || images.length > 1) && (
+            <div className="flex flex-wrap items-center justify-end gap-x-6 gap-y-2 self-end text-sm text-[#ECB984]">
+                {([
+                    activeTool.supportsVariations && { label: t('app.variations'), value: variationCount, onChange: setVariationCount, describe: (count: number) => count > 1 ? t('app.variationsHint', { count }) : t('app.variationsSingle') },
+                    images.length > 1 && { label: t('app.parallel'), value: batchConcurrency, onChange: setBatchConcurrency, describe: (count: number) => t('app.parallelHint', { count }) },
+                ]).filter(Boolean).map(({ label, value, onChange, describe }) => (
+                    <div key={label} className="flex items-center gap-2">
+                        <span>{label}</span>
+                        {[1, 2, 3, 4].map(count => (
+                            <button
+                                key={count}
+                                onClick={() => onChange(count)}
+                                disabled={isLoading}
+                                className={`w-9 py-1.5 rounded-md font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+                                    value === count
+                                    ? 'bg-gradient-to-br from-[#D58258] to-[#c7724a] text-white shadow-md shadow-[#D58258]/30'
+                                    : 'bg-[#FFFEE9]/10 hover:bg-[#FFFEE9]/20 text-[#FFFEE9]'
+                                }`}
+                                title={describe(count)}
                             >
-                                Hapus Titik
+                                {count}
                             </button>
-                        )}
+                        ))}
                     </div>
-                    <form onSubmit={(e) => { e.preventDefault(); handleGenerate(); }} className="w-full flex items-center gap-2 mt-2">
-                        <div className="relative flex-grow">
-                            <input
-                                type="text"
-                                value={prompt}
-                                onChange={(e) => setPrompt(e.target.value)}
-                                placeholder={editHotspots.length > 0 ? "contoh: 'ubah warna bajuku menjadi biru'" : "Klik dulu sebuah titik pada gambar"}
-                                className="flex-grow bg-[#4a2c27] border border-[#ECB984]/20 text-[#FFFEE9] rounded-lg p-5 text-lg focus:ring-2 focus:ring-[#D58258] focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 pr-12"
-                                disabled={isLoading || editHotspots.length === 0}
-                            />
-                             <button
-                                type="button"
-                                onClick={handleGenerateRandomRetouchPrompt}
-                                disabled={isLoading || editHotspots.length === 0 || isGeneratingIdea}
-                                className="absolute top-1/2 right-4 -translate-y-1/2 text-[#ECB984]/60 hover:text-[#ECB984] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                                aria-label="Dapatkan ide acak"
-                                title="Dapatkan ide acak dari AI"
-                            >
-                                {isGeneratingIdea ? <LoadingSpinnerIcon className="w-5 h-5"/> : <MagicWandIcon className="w-5 h-5" />}
-                            </button>
-                        </div>
-                        <button 
-                            type="submit"
-                            className="bg-gradient-to-br from-[#D58258] to-[#c7724a] text-white font-bold py-5 px-8 text-lg rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-[#D58258]/30 hover:shadow-xl hover:shadow-[#D58258]/40 hover:-translate-y-px active:scale-95 active:shadow-inner disabled:from-[#9d6246] disabled:to-[#8a553c] disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
-                            disabled={isLoading || !prompt.trim() || editHotspots.length === 0}
-                        >
-                            Buat
-                        </button>
-                    </form>
-                </div>
-            )}
-            {activeTab === 'crop' && <CropPanel onApplyCrop={handleApplyCrop} onSetAspect={setAspect} isLoading={isLoading} isCropping={!!completedCrop?.width && completedCrop.width > 0} />}
-            {activeTab === 'adjust' && <AdjustmentPanel onApply={handleApplyAdjustment} isLoading={isLoading} isBatchMode={images.length > 1} onGenerateBackground={handleGenerateBackground} onApplyBackground={handleApplyBackground} generatedBackgroundUrl={generatedBackgroundUrl} onUploadBackground={handleBackgroundUpload} setError={setError} />}
-            {activeTab === 'filters' && <FilterPanel onApply={handleApplyFilter} isLoading={isLoading} isBatchMode={images.length > 1} setError={setError} />}
-        </div>
+                ))}
+            </div>
+        )}
+
+        {candidates && (
+            <VariationPicker
+                candidates={candidates}
+                onChoose={handleChooseCandidate}
+                onDismiss={() => setCandidates(null)}
+                isLoading={isLoading}
+            />
+        )}
+
+        <ToolOptions
+            tool={activeTool}
+            context={{
+                retouch: {
+                    prompt,
+                    onPromptChange: setPrompt,
+                    onGenerate: handleGenerate,
+                    onRandomPrompt: handleGenerateRandomRetouchPrompt,
+                    isGeneratingIdea,
+                    hotspotCount: editHotspots.length,
+                    onClearHotspots: () => { setEditHotspots([]); },
+                    hasMask,
+                    maskSettings,
+                    onMaskSettingsChange: setMaskSettings,
+                    onClearMask: () => maskRef.current?.clear(),
+                    asLayer: retouchAsLayer,
+                    preserveResolution,
+                    onPreserveResolutionChange: setPreserveResolution,
+                    onAsLayerChange: setRetouchAsLayer,
+                    presetLibrary: presetLibraryFor('retouch'),
+                    canUseLayer: variationCount === 1,
+                    isLoading,
+                },
+                erase: {
+                    selectionMode: eraseSelectionMode,
+                    onSelectionModeChange: setEraseSelectionMode,
+                    hasMask,
+                    maskSettings,
+                    onMaskSettingsChange: setMaskSettings,
+                    onClearMask: () => maskRef.current?.clear(),
+                    onErase: handleErase,
+                    isLoading,
+                },
+                upscale: { onUpscale: handleUpscale, imageSize: imageNaturalSize, originalSize: originalNaturalSize, isLoading },
+                crop: {
+                    geometry,
+                    onGeometryChange: handleGeometryChange,
+                    mode: geometryMode,
+                    onModeChange: setGeometryMode,
+                    onFormatChange: handleCropFormatChange,
+                    cropSize: cropArea,
+                    onCropSizeChange: handleCropSizeChange,
+                    onApplyCrop: handleApplyCrop,
+                    isLoading,
+                    isCropping: !!cropArea && (!!cropRect || !isDefaultGeometry(geometry) || !!cropFormat.aspect || !!cropFormat.outputSize),
+                },
+                localAdjustment: {
+                    resetKey: `${activeImageState.id}-${activeImageState.historyIndex}`,
+                    initialParams: currentEntry?.adjustment?.params ?? null,
+                    onPreviewChange: setAdjustmentPreview,
+                    onApply: handleApplyLocalAdjustment,
+                    isLoading,
+                    isBatchMode: images.length > 1,
+                },
+                adjustment: { onApply: handleApplyAdjustment, isLoading, isBatchMode: images.length > 1, onGenerateBackground: handleGenerateBackground, onApplyBackground: handleApplyBackground, generatedBackgroundUrl, onUploadBackground: handleBackgroundUpload, setError, presetLibrary: presetLibraryFor('adjustment') },
+                filters: { onApply: handleApplyFilter, onApplyStyle: handleApplyStyleTransfer, isLoading, isBatchMode: images.length > 1, setError, presetLibrary: presetLibraryFor('filter') },
+                products: {
+                    products,
+                    selectedProductId,
+                    onSelect: setSelectedProductId,
+                    onAddProduct: handleAddProduct,
+                    onDeleteProduct: handleDeleteProduct,
+                    onPlace: handlePlaceProduct,
+                    hasHotspot: !!placementHotspot,
+                    isLoading,
+                },
+                layers: {
+                    layers: currentLayers,
+                    selectedLayerId,
+                    onSelectLayer: setSelectedLayerId,
+                    onLayersChange: handleCommitLayers,
+                    canvasSize: imageNaturalSize,
+                    products,
+                    isLoading,
+                },
+            }}
+        />
         
         <div className="flex flex-wrap items-center justify-center gap-3 mt-6">
             <button 
                 onClick={handleUndo}
                 disabled={!canUndo}
                 className="flex items-center justify-center text-center bg-[#FFFEE9]/10 border border-[#FFFEE9]/20 text-[#FFFEE9] font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-[#FFFEE9]/20 hover:border-[#FFFEE9]/30 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed disabled:bg-[#FFFEE9]/5"
-                aria-label="Urungkan tindakan terakhir"
+                aria-label={t('app.undoLabel')}
             >
                 <UndoIcon className="w-5 h-5 mr-2" />
-                Urungkan
+                {t('app.undo')}
             </button>
             <button 
                 onClick={handleRedo}
                 disabled={!canRedo}
                 className="flex items-center justify-center text-center bg-[#FFFEE9]/10 border border-[#FFFEE9]/20 text-[#FFFEE9] font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-[#FFFEE9]/20 hover:border-[#FFFEE9]/30 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed disabled:bg-[#FFFEE9]/5"
-                aria-label="Ulangi tindakan terakhir"
+                aria-label={t('app.redoLabel')}
             >
                 <RedoIcon className="w-5 h-5 mr-2" />
-                Ulangi
+                {t('app.redo')}
+            </button>
+            <button 
+                onClick={() => setIsHistoryOpen(open => !open)}
+                className={`text-center border font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out active:scale-95 text-base ${isHistoryOpen ? 'bg-[#FFFEE9]/20 border-[#FFFEE9]/30 text-[#FFFEE9]' : 'bg-[#FFFEE9]/10 border-[#FFFEE9]/20 text-[#FFFEE9] hover:bg-[#FFFEE9]/20 hover:border-[#FFFEE9]/30'}`}
+                aria-expanded={isHistoryOpen}
+            >
+                {t('app.history', { count: activeImageState.history.length })}
             </button>
             
             <div className="h-6 w-px bg-[#ECB984]/30 mx-1 hidden sm:block"></div>
@@ -644,10 +1545,20 @@ const App: React.FC = () => {
                   onTouchStart={() => setIsComparing(true)}
                   onTouchEnd={() => setIsComparing(false)}
                   className="flex items-center justify-center text-center bg-[#FFFEE9]/10 border border-[#FFFEE9]/20 text-[#FFFEE9] font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-[#FFFEE9]/20 hover:border-[#FFFEE9]/30 active:scale-95 text-base"
-                  aria-label="Tekan dan tahan untuk melihat gambar asli"
+                  aria-label={t('app.compareLabel')}
               >
                   <EyeIcon className="w-5 h-5 mr-2" />
-                  Bandingkan
+                  {t('app.compare')}
+              </button>
+            )}
+            {activeImageState.history.length > 1 && (
+              <button
+                  onClick={() => setIsComparisonOpen(open => !open)}
+                  className={`text-center border font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out active:scale-95 text-base ${isComparisonOpen ? 'bg-[#FFFEE9]/20 border-[#FFFEE9]/30 text-[#FFFEE9]' : 'bg-[#FFFEE9]/10 border-[#FFFEE9]/20 text-[#FFFEE9] hover:bg-[#FFFEE9]/20 hover:border-[#FFFEE9]/30'}`}
+                  aria-pressed={isComparisonOpen}
+                  title={t('compare.openLabel')}
+              >
+                  {t('compare.open')}
               </button>
             )}
 
@@ -656,32 +1567,78 @@ const App: React.FC = () => {
                 disabled={!canUndo}
                 className="text-center bg-transparent border border-[#FFFEE9]/20 text-[#FFFEE9] font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-[#FFFEE9]/10 hover:border-[#FFFEE9]/30 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed disabled:bg-transparent"
               >
-                Reset
+                {t('common.reset')}
             </button>
             <button 
                 onClick={handleUploadNew}
                 className="text-center bg-[#FFFEE9]/10 border border-[#FFFEE9]/20 text-[#FFFEE9] font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-[#FFFEE9]/20 hover:border-[#FFFEE9]/30 active:scale-95 text-base"
             >
-                Unggah Baru
+                {t('app.uploadNew')}
             </button>
 
             <button 
                 onClick={handleDownload}
                 className="flex-grow sm:flex-grow-0 ml-auto bg-gradient-to-br from-[#A8A676] to-[#999768] text-white font-bold py-3 px-5 rounded-md transition-all duration-300 ease-in-out shadow-lg shadow-[#A8A676]/30 hover:shadow-xl hover:shadow-[#A8A676]/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base"
             >
-                Unduh Gambar
+                {t('app.download')}
             </button>
+            <button
+                onClick={handleCopyImage}
+                className="flex-grow sm:flex-grow-0 bg-[#A8A676]/20 border border-[#A8A676]/40 text-[#FFFEE9] font-bold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-[#A8A676]/30 active:scale-95 text-base"
+                title={t('app.copyLabel')}
+                aria-live="polite"
+            >
+                {copyStatus === 'copied' ? t('app.copied') : t('app.copy')}
+            </button>
+            {images.length > 1 && (
+              <button 
+                  onClick={() => setIsBulkExportOpen(true)}
+                  disabled={isLoading}
+                  className="flex-grow sm:flex-grow-0 bg-[#A8A676]/20 border border-[#A8A676]/40 text-[#FFFEE9] font-bold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-[#A8A676]/30 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                  {t('app.downloadAll')}
+              </button>
+            )}
         </div>
+
+        {isHistoryOpen && <HistoryPanel image={activeImageState} onJump={handleJumpToHistory} isLoading={isLoading} />}
+        {isExportOpen && <ExportDialog image={activeImageState} onClose={() => setIsExportOpen(false)} />}
+        {isBulkExportOpen && <BulkExportDialog images={images} projectName={projectMeta?.name ?? 'sevaflow'} onClose={() => setIsBulkExportOpen(false)} />}
       </div>
     );
   };
   
   return (
     <div className="min-h-screen text-[#FFFEE9] flex flex-col">
-      <Header />
+      <Header
+        onOpenCommandPalette={() => setIsCommandPaletteOpen(true)}
+        onOpenShortcuts={() => setIsShortcutSheetOpen(true)}
+        commandPaletteShortcut={shortcutLabel('commandPalette')}
+      />
       <main className={`flex-grow w-full max-w-[1600px] mx-auto p-4 md:p-8 flex justify-center ${currentImage ? 'items-start' : 'items-center'}`}>
         {renderContent()}
       </main>
+      {isDebugEnabled() && !isDebugOpen && (
+        <button
+          onClick={() => setIsDebugOpen(true)}
+          className="fixed bottom-4 right-4 z-50 bg-[#2b1a17]/90 border border-[#ECB984]/30 text-[#ECB984] text-xs font-mono py-1.5 px-3 rounded-md hover:bg-[#4a2c27]"
+          title={t('app.debugTitle')}
+        >
+          debug
+        </button>
+      )}
+      {isDebugOpen && <DebugModal onClose={() => setIsDebugOpen(false)} />}
+      {isCommandPaletteOpen && <CommandPalette commands={buildPaletteCommands()} onClose={() => setIsCommandPaletteOpen(false)} />}
+      {isCameraOpen && <CameraCapture onCapture={(file) => handleImageUpload([file])} onClose={() => setIsCameraOpen(false)} />}
+      {isShortcutSheetOpen && <ShortcutSheet actions={shortcutActions} onClose={() => setIsShortcutSheetOpen(false)} />}
+      {presetManagerKind && (
+        <PresetManager
+          presets={presets}
+          initialKind={presetManagerKind}
+          onSave={handleSavePresets}
+          onClose={() => setPresetManagerKind(null)}
+        />
+      )}
     </div>
   );
 };
@@ -2,3 +2,132 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import React, { useState, useEffect } from 'react';
+import type { Product } from '../types.ts';
+import { useI18n } from '../services/i18n.ts';
+
+interface AddProductModalProps {
+  onAdd: (product: Product) => Promise<void>;
+  onClose: () => void;
+}
+
+const parseTags = (value: string): string[] =>
+  Array.from(new Set(value.split(',').map(tag => tag.trim().replace(/^#/, '').toLowerCase()).filter(Boolean)));
+
+const AddProductModal: React.FC<AddProductModalProps> = ({ onAdd, onClose }) => {
+  const { t, describeError } = useI18n();
+  const [file, setFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [tags, setTags] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const handleFileChange = (selected: File | undefined) => {
+    if (!selected) return;
+    setFile(selected);
+    if (!name.trim()) {
+      setName(selected.name.replace(/\.[^.]+$/, ''));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file || !name.trim()) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onAdd({ id: crypto.randomUUID(), name: name.trim(), tags: parseTags(tags), file, createdAt: Date.now() });
+      onClose();
+    } catch (err) {
+      setError(t('products.saveFailed', { error: describeError(err) }));
+      console.error(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] bg-[#2b1a17]/80 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+    >
+      <form
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="add-product-title"
+        onSubmit={handleSubmit}
+        className="w-full max-w-md bg-[#4a2c27] border border-[#ECB984]/20 rounded-xl p-6 flex flex-col gap-4 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 id="add-product-title" className="text-xl font-bold text-[#ECB984]">{t('products.add')}</h2>
+
+        <label className="flex flex-col items-center justify-center gap-2 h-48 rounded-lg border-2 border-dashed border-[#ECB984]/30 hover:border-[#D58258] cursor-pointer overflow-hidden transition-colors">
+          {previewUrl ? (
+            <img src={previewUrl} alt={t('products.preview')} className="max-w-full max-h-full object-contain" />
+          ) : (
+            <>
+              <span className="font-semibold text-[#FFFEE9]">{t('products.choosePhoto')}</span>
+              <span className="text-xs text-[#ECB984]/70">{t('products.photoHint')}</span>
+            </>
+          )}
+          <input type="file" accept="image/*" className="hidden" onChange={(e) => handleFileChange(e.target.files?.[0])} />
+        </label>
+
+        <label className="flex flex-col gap-1 text-sm text-[#ECB984]">
+          {t('products.name')}
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t('products.namePlaceholder')}
+            className="bg-[#2b1a17] border border-[#ECB984]/20 text-[#FFFEE9] rounded-md px-3 py-2 focus:ring-2 focus:ring-[#D58258] focus:outline-none"
+          />
+        </label>
+
+        <label className="flex flex-col gap-1 text-sm text-[#ECB984]">
+          {t('products.tags')} <span className="text-xs text-[#ECB984]/60">{t('products.tagsHint')}</span>
+          <input
+            type="text"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder={t('products.tagsPlaceholder')}
+            className="bg-[#2b1a17] border border-[#ECB984]/20 text-[#FFFEE9] rounded-md px-3 py-2 focus:ring-2 focus:ring-[#D58258] focus:outline-none"
+          />
+        </label>
+
+        {error && <p className="text-sm text-red-300">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="bg-transparent border border-[#FFFEE9]/20 text-[#FFFEE9] font-semibold py-3 px-5 rounded-md transition-all duration-200 hover:bg-[#FFFEE9]/10 active:scale-95"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving || !file || !name.trim()}
+            className="bg-gradient-to-br from-[#D58258] to-[#c7724a] text-white font-bold py-3 px-5 rounded-md transition-all duration-200 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default AddProductModal;
@@ -6,6 +6,8 @@
 import React, { useState } from 'react';
 import { UploadIcon, MagicWandIcon, LoadingSpinnerIcon } from './icons.tsx';
 import { generateRandomPrompt } from '../services/geminiService.ts';
+import PresetPicker, { type PresetLibraryProps } from './PresetPicker.tsx';
+import { useI18n } from '../services/i18n.ts';
 
 interface AdjustmentPanelProps {
   onApply: (prompt: string, applyToAll: boolean) => void;
@@ -16,6 +18,7 @@ interface AdjustmentPanelProps {
   onApplyBackground: (applyToAll: boolean) => void;
   generatedBackgroundUrl: string | null;
   setError: (error: string | null) => void;
+  presetLibrary: PresetLibraryProps;
 }
 
 const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ 
@@ -26,32 +29,33 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({
   onUploadBackground,
   onApplyBackground,
   generatedBackgroundUrl,
-  setError
+  setError,
+  presetLibrary,
 }) => {
-  const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
+  const { t, describeError } = useI18n();
+  const [selectedPreset, setSelectedPreset] = useState<{ id: string, prompt: string } | null>(null);
+  const [backgroundPresetId, setBackgroundPresetId] = useState<string | null>(null);
   const [customPrompt, setCustomPrompt] = useState('');
   const [backgroundPrompt, setBackgroundPrompt] = useState('');
   const [isGeneratingAdjustIdea, setIsGeneratingAdjustIdea] = useState(false);
   const [isGeneratingBgIdea, setIsGeneratingBgIdea] = useState(false);
 
 
-  const presets = [
-    { name: 'Buramkan Latar', prompt: 'Apply a realistic depth-of-field effect, making the background blurry while keeping the main subject in sharp focus.' },
-    { name: 'Tingkatkan Detail', prompt: 'Slightly enhance the sharpness and details of the image without making it look unnatural.' },
-    { name: 'Cahaya Lebih Hangat', prompt: 'Adjust the color temperature to give the image warmer, golden-hour style lighting.' },
-    { name: 'Lampu Studio', prompt: 'Add dramatic, professional studio lighting to the main subject.' },
-  ];
+  const activePrompt = selectedPreset?.prompt || customPrompt;
 
-  const activePrompt = selectedPresetPrompt || customPrompt;
-
-  const handlePresetClick = (prompt: string) => {
-    setSelectedPresetPrompt(prompt);
+  const handlePresetSelect = (id: string | null, prompt: string) => {
+    setSelectedPreset(id ? { id, prompt } : null);
     setCustomPrompt('');
   };
 
   const handleCustomChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setCustomPrompt(e.target.value);
-    setSelectedPresetPrompt(null);
+    setSelectedPreset(null);
+  };
+
+  const handleBackgroundPresetSelect = (id: string | null, prompt: string) => {
+    setBackgroundPresetId(id);
+    setBackgroundPrompt(prompt);
   };
 
   const handleApply = (applyToAll: boolean) => {
@@ -79,10 +83,9 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({
     try {
         const idea = await generateRandomPrompt('adjustment');
         setCustomPrompt(idea);
-        setSelectedPresetPrompt(null);
+        setSelectedPreset(null);
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Terjadi kesalahan tidak dikenal.';
-        setError(errorMessage);
+        setError(describeError(err));
     } finally {
         setIsGeneratingAdjustIdea(false);
     }
@@ -95,9 +98,9 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({
     try {
         const idea = await generateRandomPrompt('background');
         setBackgroundPrompt(idea);
+        setBackgroundPresetId(null);
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Terjadi kesalahan tidak dikenal.';
-        setError(errorMessage);
+        setError(describeError(err));
     } finally {
         setIsGeneratingBgIdea(false);
     }
@@ -106,18 +109,15 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({
   return (
     <div className="w-full bg-[#4a2c27]/80 border border-[#ECB984]/20 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
       <div>
-        <h3 className="text-lg font-semibold text-center text-[#ECB984]">Terapkan Penyesuaian Profesional</h3>
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-4">
-          {presets.map(preset => (
-            <button
-              key={preset.name}
-              onClick={() => handlePresetClick(preset.prompt)}
-              disabled={isLoading}
-              className={`w-full text-center bg-[#FFFEE9]/10 border border-transparent text-[#FFFEE9] font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-[#FFFEE9]/20 hover:border-[#FFFEE9]/20 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed ${selectedPresetPrompt === preset.prompt ? 'ring-2 ring-offset-2 ring-offset-[#4a2c27] ring-[#D58258]' : ''}`}
-            >
-              {preset.name}
-            </button>
-          ))}
+        <h3 className="text-lg font-semibold text-center text-[#ECB984]">{t('adjustment.title')}</h3>
+        <div className="mt-4">
+          <PresetPicker
+            {...presetLibrary}
+            kind="adjustment"
+            selectedId={selectedPreset?.id ?? null}
+            onSelect={handlePresetSelect}
+            isLoading={isLoading}
+          />
         </div>
 
         <div className="relative mt-2">
@@ -125,7 +125,7 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({
               type="text"
               value={customPrompt}
               onChange={handleCustomChange}
-              placeholder="Atau deskripsikan penyesuaian (contoh: 'ubah latar menjadi hutan')"
+              placeholder={t('adjustment.placeholder')}
               className="flex-grow bg-[#4a2c27] border border-[#ECB984]/30 text-[#FFFEE9] rounded-lg p-4 focus:ring-2 focus:ring-[#D58258] focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 text-base pr-12"
               disabled={isLoading}
             />
@@ -134,8 +134,8 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({
                 onClick={handleGenerateRandomAdjustPrompt}
                 disabled={isLoading || isGeneratingAdjustIdea}
                 className="absolute top-1/2 right-4 -translate-y-1/2 text-[#ECB984]/60 hover:text-[#ECB984] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                aria-label="Dapatkan ide acak"
-                title="Dapatkan ide acak dari AI"
+                aria-label={t('common.randomIdea')}
+                title={t('common.randomIdeaTitle')}
             >
                 {isGeneratingAdjustIdea ? <LoadingSpinnerIcon className="w-5 h-5"/> : <MagicWandIcon className="w-5 h-5" />}
             </button>
@@ -148,7 +148,7 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({
                   className="w-full bg-gradient-to-br from-[#D58258] to-[#c7724a] text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-[#D58258]/20 hover:shadow-xl hover:shadow-[#D58258]/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-[#9d6246] disabled:to-[#8a553c] disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
                   disabled={isLoading || !activePrompt.trim()}
               >
-                  Terapkan ke Gambar Ini
+                  {t('common.applyToThis')}
               </button>
               {isBatchMode && (
                    <button
@@ -156,7 +156,7 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({
                       className="w-full bg-gradient-to-br from-[#A8A676] to-[#999768] text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-[#A8A676]/20 hover:shadow-xl hover:shadow-[#A8A676]/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-[#7e7c5b] disabled:to-[#6d6b4f] disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
                       disabled={isLoading || !activePrompt.trim()}
                   >
-                      Terapkan ke Semua
+                      {t('common.applyToAll')}
                   </button>
               )}
           </div>
@@ -166,16 +166,24 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({
       <div className="my-2 border-t border-[#ECB984]/20"></div>
 
       <div className="flex flex-col gap-3">
-        <h3 className="text-lg font-semibold text-center text-[#ECB984]">Penggantian Latar Belakang Konsisten</h3>
-        <p className="text-sm text-center text-[#ECB984] -mt-2">Buat latar belakang baru atau unggah milik Anda.</p>
+        <h3 className="text-lg font-semibold text-center text-[#ECB984]">{t('background.title')}</h3>
+        <p className="text-sm text-center text-[#ECB984] -mt-2">{t('background.hint')}</p>
+
+        <PresetPicker
+          {...presetLibrary}
+          kind="background"
+          selectedId={backgroundPresetId}
+          onSelect={handleBackgroundPresetSelect}
+          isLoading={isLoading}
+        />
         
         <div className="flex items-center gap-2">
             <div className="relative flex-grow">
                 <input
                     type="text"
                     value={backgroundPrompt}
-                    onChange={(e) => setBackgroundPrompt(e.target.value)}
-                    placeholder="Deskripsikan latar belakang (contoh: 'pantai tenang saat matahari terbenam')"
+                    onChange={(e) => { setBackgroundPrompt(e.target.value); setBackgroundPresetId(null); }}
+                    placeholder={t('background.placeholder')}
                     className="flex-grow bg-[#4a2c27] border border-[#ECB984]/30 text-[#FFFEE9] rounded-lg p-4 focus:ring-2 focus:ring-[#D58258] focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 text-base pr-12"
                     disabled={isLoading}
                 />
@@ -184,8 +192,8 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({
                     onClick={handleGenerateRandomBgPrompt}
                     disabled={isLoading || isGeneratingBgIdea}
                     className="absolute top-1/2 right-4 -translate-y-1/2 text-[#ECB984]/60 hover:text-[#ECB984] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                    aria-label="Dapatkan ide acak"
-                    title="Dapatkan ide acak dari AI"
+                    aria-label={t('common.randomIdea')}
+                    title={t('common.randomIdeaTitle')}
                   >
                     {isGeneratingBgIdea ? <LoadingSpinnerIcon className="w-5 h-5"/> : <MagicWandIcon className="w-5 h-5" />}
                   </button>
@@ -195,13 +203,13 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({
                 className="bg-gradient-to-br from-[#963A2F] to-[#803127] text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-[#963A2F]/20 hover:shadow-xl hover:shadow-[#963A2F]/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-[#712c24] disabled:to-[#60251d] disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
                 disabled={isLoading || !backgroundPrompt.trim()}
             >
-                Buat
+                {t('common.generate')}
             </button>
         </div>
 
         <div className="relative flex py-1 items-center">
             <div className="flex-grow border-t border-[#ECB984]/20"></div>
-            <span className="flex-shrink mx-4 text-[#ECB984]/60 text-xs uppercase">Atau</span>
+            <span className="flex-shrink mx-4 text-[#ECB984]/60 text-xs uppercase">{t('common.or')}</span>
             <div className="flex-grow border-t border-[#ECB984]/20"></div>
         </div>
 
@@ -211,7 +219,7 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({
               className={`w-full text-center cursor-pointer bg-[#FFFEE9]/5 border border-[#FFFEE9]/10 text-[#ECB984] font-semibold py-4 px-6 rounded-lg transition-all duration-200 ease-in-out hover:bg-[#FFFEE9]/10 hover:border-[#FFFEE9]/20 active:scale-95 text-base flex items-center justify-center gap-2 ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
             >
                 <UploadIcon className="w-5 h-5" />
-                Unggah Gambar Latar
+                {t('background.upload')}
             </label>
             <input 
                 id="background-upload" 
@@ -225,14 +233,14 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({
 
         {generatedBackgroundUrl && (
             <div className="animate-fade-in flex flex-col items-center gap-4 p-4 bg-[#2b1a17]/50 rounded-lg">
-                <img src={generatedBackgroundUrl} alt="Generated background" className="w-48 h-auto rounded-md border-2 border-[#ECB984]/30" />
+                <img src={generatedBackgroundUrl} alt={t('background.generatedAlt')} className="w-48 h-auto rounded-md border-2 border-[#ECB984]/30" />
                 <div className="w-full flex flex-col sm:flex-row gap-2">
                     <button
                         onClick={() => onApplyBackground(false)}
                         className="w-full bg-gradient-to-br from-[#D58258] to-[#c7724a] text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-[#D58258]/20 hover:shadow-xl hover:shadow-[#D58258]/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-[#9d6246] disabled:to-[#8a553c] disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
                         disabled={isLoading}
                     >
-                        Terapkan ke Gambar Ini
+                        {t('common.applyToThis')}
                     </button>
                     {isBatchMode && (
                          <button
@@ -240,7 +248,7 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({
                             className="w-full bg-gradient-to-br from-[#A8A676] to-[#999768] text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-[#A8A676]/20 hover:shadow-xl hover:shadow-[#A8A676]/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-[#7e7c5b] disabled:to-[#6d6b4f] disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
                             disabled={isLoading}
                         >
-                            Terapkan ke Semua
+                            {t('common.applyToAll')}
                         </button>
                     )}
                 </div>
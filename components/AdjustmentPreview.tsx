@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { AdjustmentParams } from '../types.ts';
+import { applyAdjustments, readPreviewPixels } from '../services/adjustmentEngine.ts';
+import { loadImage } from '../services/imageCompositing.ts';
+
+interface AdjustmentPreviewProps {
+  source: File;
+  params: AdjustmentParams;
+}
+
+const PREVIEW_MAX_EDGE = 1280;
+
+// Draws a downscaled, live-adjusted copy of the source over the editor image.
+const AdjustmentPreview: React.FC<AdjustmentPreviewProps> = ({ source, params }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [basePixels, setBasePixels] = useState<ImageData | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(source).then(image => {
+      if (!cancelled) setBasePixels(readPreviewPixels(image, PREVIEW_MAX_EDGE));
+    }).catch(err => console.error('Failed to load adjustment preview source.', err));
+    return () => { cancelled = true; };
+  }, [source]);
+
+  useEffect(() => {
+    if (!basePixels) return;
+    const frame = requestAnimationFrame(() => {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx) return;
+      const pixels = new ImageData(new Uint8ClampedArray(basePixels.data), basePixels.width, basePixels.height);
+      applyAdjustments(pixels, params);
+      ctx.putImageData(pixels, 0, 0);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [basePixels, params]);
+
+  if (!basePixels) return null;
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={basePixels.width}
+      height={basePixels.height}
+      className="absolute inset-0 w-full h-full pointer-events-none z-10"
+    />
+  );
+};
+
+export default AdjustmentPreview;
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import type { BatchReport } from '../types.ts';
+import { useI18n } from '../services/i18n.ts';
+
+interface BatchSummaryProps {
+  report: BatchReport;
+  /** Position of each image in the strip, for the per-image labels. */
+  imageNumbers: Record<string, number>;
+  onRetryFailed: () => void;
+  onDismiss: () => void;
+  isLoading: boolean;
+}
+
+const BatchSummary: React.FC<BatchSummaryProps> = ({ report, imageNumbers, onRetryFailed, onDismiss, isLoading }) => {
+  const { t, formatNumber } = useI18n();
+  const { operationName, total, succeeded, failed, cancelled, durationMs } = report;
+  const hasFailures = failed.length > 0;
+
+  return (
+    <div className={`w-full border rounded-lg p-4 flex flex-col gap-3 animate-fade-in backdrop-blur-sm ${hasFailures ? 'bg-red-500/10 border-red-500/20' : 'bg-[#4a2c27]/80 border-[#ECB984]/20'}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-[#ECB984]">{t('batch.title', { operation: operationName })}</h3>
+          <p className="text-sm text-[#ECB984]/80">
+            {t('batch.succeeded', { succeeded, total })}
+            {hasFailures && `, ${t('batch.failed', { count: failed.length })}`}
+            {cancelled > 0 && `, ${t('batch.cancelled', { count: cancelled })}`}
+            {` · ${t('batch.duration', { seconds: formatNumber(durationMs / 1000, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) })}`}
+          </p>
+        </div>
+        <button
+          onClick={onDismiss}
+          className="text-sm text-[#ECB984]/80 hover:text-[#ECB984] underline transition-colors"
+        >
+          {t('common.close')}
+        </button>
+      </div>
+
+      {hasFailures && (
+        <>
+          <ul className="flex flex-col gap-1 text-sm text-red-300 max-h-40 overflow-y-auto">
+            {failed.map(({ imageId, error }) => (
+              <li key={imageId}>
+                <span className="font-semibold">{t('batch.image', { index: (imageNumbers[imageId] ?? 0) + 1 })}</span> {error}
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={onRetryFailed}
+            disabled={isLoading}
+            className="self-start bg-gradient-to-br from-[#D58258] to-[#c7724a] text-white font-bold py-2 px-5 rounded-md transition-all duration-200 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {t('batch.retryFailed')}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchSummary;
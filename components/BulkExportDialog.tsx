@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import type { ImageState } from '../types.ts';
+import { type BulkExportOptions, loadExportSettings, exportImagesAsZip, downloadFile } from '../services/imageExport.ts';
+import { LoadingSpinnerIcon } from './icons.tsx';
+import { useI18n, type MessageKey } from '../services/i18n.ts';
+
+interface BulkExportDialogProps {
+  images: ImageState[];
+  projectName: string;
+  onClose: () => void;
+}
+
+const optionLabels: { key: keyof BulkExportOptions, label: MessageKey, description: MessageKey }[] = [
+  { key: 'includeHistory', label: 'bulkExport.includeHistory', description: 'bulkExport.includeHistoryDescription' },
+  { key: 'includeOriginals', label: 'bulkExport.includeOriginals', description: 'bulkExport.includeOriginalsDescription' },
+  { key: 'includeManifest', label: 'bulkExport.includeManifest', description: 'bulkExport.includeManifestDescription' },
+];
+
+const BulkExportDialog: React.FC<BulkExportDialogProps> = ({ images, projectName, onClose }) => {
+  const { t, describeError } = useI18n();
+  const [options, setOptions] = useState<BulkExportOptions>({ includeHistory: false, includeOriginals: false, includeManifest: true });
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const settings = loadExportSettings();
+  const isExporting = progress !== null;
+
+  const handleExport = async () => {
+    setProgress(0);
+    setError(null);
+    try {
+      const zip = await exportImagesAsZip(images, settings, options, done => setProgress(done));
+      const safeName = projectName.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'sevaflow';
+      downloadFile(zip, `${safeName}.zip`);
+      onClose();
+    } catch (err) {
+      setError(t('bulkExport.failed', { error: describeError(err) }));
+      console.error(err);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] bg-[#2b1a17]/80 flex items-center justify-center p-4 animate-fade-in"
+      onClick={isExporting ? undefined : onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="bulk-export-title"
+        className="w-full max-w-md bg-[#4a2c27] border border-[#ECB984]/20 rounded-xl p-6 flex flex-col gap-5 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div>
+          <h2 id="bulk-export-title" className="text-xl font-bold text-[#ECB984]">{t('bulkExport.title')}</h2>
+          <p className="text-sm text-[#ECB984]/80">
+            {t('bulkExport.description', { count: images.length, format: settings.format.toUpperCase() })}
+          </p>
+        </div>
+
+        <div className="flex flex-col gap-3">
+          {optionLabels.map(({ key, label, description }) => (
+            <label key={key} className="flex items-start gap-3 text-sm text-[#ECB984] cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options[key]}
+                onChange={(e) => setOptions(prev => ({ ...prev, [key]: e.target.checked }))}
+                disabled={isExporting}
+                className="mt-1 accent-[#D58258]"
+              />
+              <span>
+                <span className="font-semibold text-[#FFFEE9]">{t(label)}</span>
+                <span className="block text-xs text-[#ECB984]/70">{t(description)}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        {error && <p className="text-sm text-red-300">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            disabled={isExporting}
+            className="bg-transparent border border-[#FFFEE9]/20 text-[#FFFEE9] font-semibold py-3 px-5 rounded-md transition-all duration-200 hover:bg-[#FFFEE9]/10 active:scale-95 disabled:opacity-50"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="flex items-center bg-gradient-to-br from-[#A8A676] to-[#999768] text-white font-bold py-3 px-5 rounded-md transition-all duration-300 shadow-lg shadow-[#A8A676]/30 hover:shadow-xl active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isExporting && <LoadingSpinnerIcon className="w-4 h-4 mr-2" />}
+            {isExporting ? t('bulkExport.progress', { done: progress, total: images.length }) : t('bulkExport.submit')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkExportDialog;
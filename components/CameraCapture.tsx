@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef } from 'react';
+import { openCamera, captureVideoFrame } from '../services/imageImport.ts';
+import { useI18n } from '../services/i18n.ts';
+import Spinner from './Spinner.tsx';
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  onClose: () => void;
+}
+
+const button = 'px-4 py-2 rounded-md text-sm font-semibold bg-[#FFFEE9]/10 hover:bg-[#FFFEE9]/20 text-[#FFFEE9] transition-colors disabled:opacity-40';
+
+/** Live camera preview; each shot is handed over as a file and the camera stays open for more. */
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+  const { t, describeError } = useI18n();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [facingMode, setFacingMode] = useState<'user' | 'environment'>('environment');
+  const [isReady, setIsReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [shotCount, setShotCount] = useState(0);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    setIsReady(false);
+    setError(null);
+    openCamera(facingMode).then(opened => {
+      if (cancelled) {
+        opened.getTracks().forEach(track => track.stop());
+        return;
+      }
+      stream = opened;
+      if (videoRef.current) videoRef.current.srcObject = opened;
+    }).catch(err => setError(describeError(err)));
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [facingMode, describeError]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handleCapture = async () => {
+    const video = videoRef.current;
+    if (!video || !isReady) return;
+    try {
+      onCapture(await captureVideoFrame(video));
+      setShotCount(count => count + 1);
+    } catch (err) {
+      setError(describeError(err));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-[#2b1a17]/80 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="camera-capture-title"
+        className="w-full max-w-2xl bg-[#4a2c27] border border-[#ECB984]/20 rounded-xl p-4 flex flex-col gap-3 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2">
+          <h2 id="camera-capture-title" className="text-lg font-bold text-[#ECB984] mr-auto">{t('camera.title')}</h2>
+          <button onClick={onClose} className={button} aria-label={t('common.close')}>✕</button>
+        </div>
+
+        <div className="relative w-full aspect-video bg-[#2b1a17] rounded-lg overflow-hidden flex items-center justify-center">
+          <video
+            ref={videoRef}
+            autoPlay
+            playsInline
+            muted
+            onLoadedMetadata={() => setIsReady(true)}
+            className={`w-full h-full object-contain ${facingMode === 'user' ? '-scale-x-100' : ''}`}
+          />
+          {!isReady && !error && <div className="absolute inset-0 flex items-center justify-center"><Spinner /></div>}
+          {error && <p className="absolute inset-0 flex items-center justify-center p-6 text-center text-sm text-red-300">{error}</p>}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <button onClick={() => setFacingMode(mode => mode === 'user' ? 'environment' : 'user')} className={button}>{t('camera.switch')}</button>
+          <button
+            onClick={handleCapture}
+            disabled={!isReady}
+            className="px-6 py-2 rounded-md font-bold text-white bg-gradient-to-br from-[#D58258] to-[#c7724a] shadow-md shadow-[#D58258]/30 transition-all active:scale-95 disabled:opacity-50"
+          >
+            {t('camera.capture')}
+          </button>
+          {shotCount > 0 && <span className="text-sm text-[#A8A676]">{t('camera.captured', { count: shotCount })}</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
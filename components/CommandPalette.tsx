@@ -0,0 +1,116 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef } from 'react';
+import { useI18n } from '../services/i18n.ts';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  /** Where the command comes from, shown next to it and searched too. */
+  group: string;
+  shortcut?: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  onClose: () => void;
+}
+
+// Case and accents are ignored, so "cafe" also finds "Café".
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+/** Every query word has to appear in the label or group; label-prefix matches rank first. */
+const search = (commands: PaletteCommand[], query: string): PaletteCommand[] => {
+  const words = normalize(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return commands;
+  return commands
+    .filter(command => {
+      const haystack = normalize(`${command.label} ${command.group}`);
+      return words.every(word => haystack.includes(word));
+    })
+    .sort((a, b) => Number(normalize(b.label).startsWith(words[0])) - Number(normalize(a.label).startsWith(words[0])));
+};
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, onClose }) => {
+  const { t } = useI18n();
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+  const results = search(commands, query);
+
+  useEffect(() => setActiveIndex(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector('[aria-selected="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const run = (command: PaletteCommand) => {
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (results.length === 0) return;
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(index => (index + step + results.length) % results.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (results[activeIndex]) run(results[activeIndex]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-[#2b1a17]/80 flex items-start justify-center p-4 pt-[15vh] animate-fade-in" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={t('palette.title')}
+        className="w-full max-w-xl bg-[#4a2c27] border border-[#ECB984]/20 rounded-xl shadow-2xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <input
+          type="text"
+          autoFocus
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={t('palette.placeholder')}
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-results"
+          aria-activedescendant={results[activeIndex] ? `command-${results[activeIndex].id}` : undefined}
+          className="w-full bg-transparent border-b border-[#ECB984]/20 px-4 py-3 text-base text-[#FFFEE9] placeholder-[#ECB984]/50 focus:outline-none"
+        />
+        <ul id="command-palette-results" ref={listRef} role="listbox" className="max-h-80 overflow-y-auto p-1">
+          {results.map((command, index) => (
+            <li
+              key={command.id}
+              id={`command-${command.id}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              onClick={() => run(command)}
+              onMouseMove={() => setActiveIndex(index)}
+              className={`flex items-center gap-3 px-3 py-2 rounded-md cursor-pointer ${index === activeIndex ? 'bg-[#D58258]/30' : ''}`}
+            >
+              <span className="flex-grow min-w-0 truncate text-sm text-[#FFFEE9]">{command.label}</span>
+              <span className="text-xs text-[#ECB984]/70 flex-shrink-0">{command.group}</span>
+              {command.shortcut && <kbd className="text-xs font-mono text-[#ECB984] bg-[#2b1a17] border border-[#ECB984]/20 rounded px-1.5 py-0.5 flex-shrink-0">{command.shortcut}</kbd>}
+            </li>
+          ))}
+          {results.length === 0 && <li className="px-3 py-6 text-center text-sm text-[#ECB984]/70">{t('palette.empty')}</li>}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
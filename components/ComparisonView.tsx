@@ -0,0 +1,202 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef } from 'react';
+import type { ImageState } from '../types.ts';
+import type { Size } from '../services/geometry.ts';
+import { createDifferenceMap, type DifferenceMap } from '../services/imageCompositing.ts';
+import { useI18n } from '../services/i18n.ts';
+import { operationLabels } from './HistoryPanel.tsx';
+import Viewport, { FIT_VIEW, type ViewState } from './Viewport.tsx';
+
+interface ComparisonViewProps {
+  image: ImageState;
+  onClose: () => void;
+}
+
+export type ComparisonMode = 'split' | 'sideBySide' | 'difference';
+
+const modes: ComparisonMode[] = ['split', 'sideBySide', 'difference'];
+const SPLIT_KEY_STEP = 2;
+
+const pill = (active: boolean) => `px-3 py-1.5 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 ${
+  active
+  ? 'bg-gradient-to-br from-[#D58258] to-[#c7724a] text-white shadow-md shadow-[#D58258]/30'
+  : 'bg-[#FFFEE9]/10 hover:bg-[#FFFEE9]/20 text-[#FFFEE9]'
+}`;
+const selectClass = 'bg-[#2b1a17] border border-[#ECB984]/20 text-[#FFFEE9] rounded-md px-2 py-1 text-sm max-w-[14rem] focus:ring-2 focus:ring-[#D58258] focus:outline-none';
+const mediaClass = 'absolute inset-0 w-full h-full pointer-events-none';
+
+/** Keeps an object URL for a history file alive while it is shown. */
+const useObjectUrl = (file: File | undefined) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!file) return;
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+  return url;
+};
+
+// Compares any two steps of an image's history as a split slider, side by side with shared
+// zoom and pan, or as a heat map of the changed pixels.
+const ComparisonView: React.FC<ComparisonViewProps> = ({ image, onClose }) => {
+  const { t, formatDate, formatNumber } = useI18n();
+  const [mode, setMode] = useState<ComparisonMode>('split');
+  const [beforeIndex, setBeforeIndex] = useState(0);
+  const [afterIndex, setAfterIndex] = useState(image.historyIndex);
+  const [split, setSplit] = useState(50);
+  const [view, setView] = useState<ViewState>(FIT_VIEW);
+  // Natural sizes by object URL, filled in as the images load.
+  const [sizes, setSizes] = useState<Record<string, Size>>({});
+  const [difference, setDifference] = useState<DifferenceMap | null>(null);
+  const isDraggingSplit = useRef(false);
+
+  const before = image.history[beforeIndex]?.file;
+  const after = image.history[afterIndex]?.file;
+  const beforeUrl = useObjectUrl(before);
+  const afterUrl = useObjectUrl(after);
+
+  // A new edit becomes the "after" side, so the comparison follows the work.
+  useEffect(() => setAfterIndex(image.historyIndex), [image.historyIndex]);
+
+  useEffect(() => {
+    if (mode !== 'difference' || !before || !after) return;
+    let cancelled = false;
+    setDifference(null);
+    createDifferenceMap(before, after).then(map => {
+      if (!cancelled) setDifference(map);
+    }).catch(err => console.error('Failed to build the difference map.', err));
+    return () => { cancelled = true; };
+  }, [mode, before, after]);
+
+  const handleSizeLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { src, naturalWidth: width, naturalHeight: height } = e.currentTarget;
+    setSizes(prev => ({ ...prev, [src]: { width, height } }));
+  };
+
+  const moveSplit = (e: React.PointerEvent<HTMLDivElement>) => {
+    const stage = e.currentTarget.parentElement!.getBoundingClientRect();
+    setSplit(Math.min(100, Math.max(0, (e.clientX - stage.left) / stage.width * 100)));
+  };
+
+  const stepLabel = (index: number) => t('compare.step', {
+    index: index + 1,
+    operation: t(operationLabels[image.history[index].operation]),
+    time: formatDate(image.history[index].timestamp, { timeStyle: 'short' }),
+  });
+
+  const stepSelect = (label: string, value: number, onChange: (index: number) => void) => (
+    <label className="flex items-center gap-2 text-sm text-[#ECB984]">
+      {label}
+      <select value={value} onChange={(e) => onChange(Number(e.target.value))} className={selectClass}>
+        {image.history.map((entry, index) => <option key={entry.id} value={index}>{stepLabel(index)}</option>)}
+      </select>
+    </label>
+  );
+
+  const beforeSize = beforeUrl ? sizes[beforeUrl] : undefined;
+  const afterSize = afterUrl ? sizes[afterUrl] : undefined;
+  const sizesDiffer = !!beforeSize && !!afterSize && (beforeSize.width !== afterSize.width || beforeSize.height !== afterSize.height);
+
+  const renderContent = () => {
+    if (!beforeUrl || !afterUrl) return null;
+
+    if (mode === 'sideBySide') {
+      return (
+        <div className="grid grid-cols-2 gap-1">
+          {([['before', beforeUrl], ['after', afterUrl]] as const).map(([side, url]) => (
+            <div key={side} className="relative">
+              <Viewport contentSize={sizes[url] ?? null} view={view} onViewChange={setView}>
+                <img src={url} alt={t(`compare.${side}`)} onLoad={handleSizeLoad} className={mediaClass} draggable={false} />
+              </Viewport>
+              <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-[#2b1a17]/80 text-xs font-semibold text-[#ECB984] pointer-events-none">{t(`compare.${side}`)}</span>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    if (mode === 'difference') {
+      return (
+        <div className="relative">
+          <Viewport contentSize={afterSize ?? null} navigatorSrc={afterUrl} view={view} onViewChange={setView}>
+            <img src={afterUrl} alt={t('compare.after')} onLoad={handleSizeLoad} className={`${mediaClass} opacity-40 grayscale`} draggable={false} />
+            {difference && <img src={difference.url} alt="" className={mediaClass} draggable={false} />}
+          </Viewport>
+          <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-[#2b1a17]/80 text-xs font-semibold text-[#ECB984] pointer-events-none">
+            {!difference
+              ? t('compare.computing')
+              : difference.changedRatio === 0
+                ? t('compare.unchanged')
+                : t('compare.changed', { percent: formatNumber(difference.changedRatio, { style: 'percent', maximumFractionDigits: 1 }) })}
+          </span>
+        </div>
+      );
+    }
+
+    return (
+      <div className="relative">
+        <Viewport contentSize={afterSize ?? null} navigatorSrc={afterUrl} view={view} onViewChange={setView}>
+          <img src={beforeUrl} alt={t('compare.before')} onLoad={handleSizeLoad} className={`${mediaClass} object-contain`} draggable={false} />
+          <img src={afterUrl} alt={t('compare.after')} onLoad={handleSizeLoad} className={mediaClass} style={{ clipPath: `inset(0 0 0 ${split}%)` }} draggable={false} />
+          <div
+            role="slider"
+            tabIndex={0}
+            aria-label={t('compare.divider')}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(split)}
+            className="absolute top-0 bottom-0 w-6 -translate-x-1/2 cursor-ew-resize touch-none z-10 flex justify-center focus:outline-none group"
+            style={{ left: `${split}%` }}
+            onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); isDraggingSplit.current = true; }}
+            onPointerMove={(e) => { if (isDraggingSplit.current) moveSplit(e); }}
+            onPointerUp={() => { isDraggingSplit.current = false; }}
+            onPointerCancel={() => { isDraggingSplit.current = false; }}
+            onKeyDown={(e) => {
+              if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return;
+              e.preventDefault();
+              setSplit(value => Math.min(100, Math.max(0, value + (e.key === 'ArrowRight' ? SPLIT_KEY_STEP : -SPLIT_KEY_STEP))));
+            }}
+          >
+            <div className="w-0.5 h-full bg-[#FFFEE9] shadow-[0_0_4px_rgba(0,0,0,0.6)]" />
+            <div className="absolute top-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-[#FFFEE9] border-2 border-[#D58258] shadow-lg group-focus-visible:ring-2 group-focus-visible:ring-[#D58258] flex items-center justify-center text-[#D58258] text-xs font-bold">↔</div>
+          </div>
+        </Viewport>
+        <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-[#2b1a17]/80 text-xs font-semibold text-[#ECB984] pointer-events-none">{t('compare.before')}</span>
+        <span className="absolute top-2 right-2 px-2 py-0.5 rounded bg-[#2b1a17]/80 text-xs font-semibold text-[#ECB984] pointer-events-none">{t('compare.after')}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col">
+      <div className="flex flex-wrap items-center justify-center gap-2 p-3 border-b border-[#ECB984]/20 bg-[#4a2c27]/80">
+        {modes.map(id => (
+          <button key={id} onClick={() => setMode(id)} className={pill(mode === id)} aria-pressed={mode === id}>{t(`compare.mode.${id}`)}</button>
+        ))}
+        <div className="h-6 w-px bg-[#ECB984]/30 mx-1 hidden sm:block"></div>
+        {stepSelect(t('compare.before'), beforeIndex, setBeforeIndex)}
+        <button
+          onClick={() => { setBeforeIndex(afterIndex); setAfterIndex(beforeIndex); }}
+          className={pill(false)}
+          aria-label={t('compare.swap')}
+          title={t('compare.swap')}
+        >
+          ⇄
+        </button>
+        {stepSelect(t('compare.after'), afterIndex, setAfterIndex)}
+        <button onClick={onClose} className={pill(false)} aria-label={t('compare.close')} title={t('compare.close')}>✕</button>
+      </div>
+      {sizesDiffer && mode !== 'sideBySide' && (
+        <p className="px-3 py-1.5 text-xs text-center text-[#ECB984]/80 bg-[#4a2c27]/60">{t('compare.sizeMismatch')}</p>
+      )}
+      {renderContent()}
+    </div>
+  );
+};
+
+export default ComparisonView;
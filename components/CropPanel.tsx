@@ -3,63 +3,216 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import { type GeometryParams, type Size, DEFAULT_GEOMETRY, MAX_STRAIGHTEN_DEGREES } from '../services/geometry.ts';
+import { useI18n, type MessageKey } from '../services/i18n.ts';
+
+/** What pointer input on the photo does while the crop tool is open. */
+export type GeometryMode = 'crop' | 'straighten' | 'perspective';
+
+/** The crop's shape and, for platform presets, the exact size the result is resampled to. */
+export interface CropFormat {
+  aspect?: number;
+  outputSize?: Size;
+}
 
 interface CropPanelProps {
+  geometry: GeometryParams;
+  onGeometryChange: (geometry: GeometryParams) => void;
+  mode: GeometryMode;
+  onModeChange: (mode: GeometryMode) => void;
+  onFormatChange: (format: CropFormat) => void;
+  /** The crop in source pixels; null until the photo has loaded. */
+  cropSize: Size | null;
+  onCropSizeChange: (size: Size) => void;
   onApplyCrop: () => void;
-  onSetAspect: (aspect: number | undefined) => void;
   isLoading: boolean;
   isCropping: boolean;
 }
 
-type AspectRatio = 'bebas' | '1:1' | '16:9';
+type FormatId = 'free' | '1:1' | '4:3' | '3:2' | '16:9' | 'custom' | 'instagram' | 'story' | 'marketplace';
+
+const ratios: { id: FormatId, aspect?: number }[] = [
+  { id: 'free' },
+  { id: '1:1', aspect: 1 },
+  { id: '4:3', aspect: 4 / 3 },
+  { id: '3:2', aspect: 3 / 2 },
+  { id: '16:9', aspect: 16 / 9 },
+  { id: 'custom' },
+];
+
+const platforms: { id: FormatId, label: MessageKey, outputSize: Size }[] = [
+  { id: 'instagram', label: 'crop.preset.instagram', outputSize: { width: 1080, height: 1350 } },
+  { id: 'story', label: 'crop.preset.story', outputSize: { width: 1080, height: 1920 } },
+  { id: 'marketplace', label: 'crop.preset.marketplace', outputSize: { width: 1000, height: 1000 } },
+];
+
+const pill = (active: boolean) => `px-3 py-1.5 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+  active
+  ? 'bg-gradient-to-br from-[#D58258] to-[#c7724a] text-white shadow-md shadow-[#D58258]/30'
+  : 'bg-[#FFFEE9]/10 hover:bg-[#FFFEE9]/20 text-[#FFFEE9]'
+}`;
+const numberInput = 'w-20 bg-[#2b1a17] border border-[#ECB984]/20 text-[#FFFEE9] rounded-md px-2 py-1 text-sm focus:ring-2 focus:ring-[#D58258] focus:outline-none disabled:opacity-50';
+
+/** A whole-number field that only reports a value once editing is finished. */
+const CommitInput: React.FC<{ value: number, onCommit: (value: number) => void, label: string, disabled: boolean }> = ({ value, onCommit, label, disabled }) => {
+  const [draft, setDraft] = useState(String(value));
+  useEffect(() => setDraft(String(value)), [value]);
+
+  const commit = () => {
+    const parsed = Math.round(Number(draft));
+    if (parsed > 0 && parsed !== value) onCommit(parsed); else setDraft(String(value));
+  };
+
+  return (
+    <input
+      type="number"
+      min={1}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') commit(); }}
+      aria-label={label}
+      disabled={disabled}
+      className={numberInput}
+    />
+  );
+};
+
+const CropPanel: React.FC<CropPanelProps> = ({ geometry, onGeometryChange, mode, onModeChange, onFormatChange, cropSize, onCropSizeChange, onApplyCrop, isLoading, isCropping }) => {
+  const { t } = useI18n();
+  const [activeFormat, setActiveFormat] = useState<FormatId>('free');
+  const [customRatio, setCustomRatio] = useState<Size>({ width: 5, height: 4 });
+  const platform = platforms.find(p => p.id === activeFormat);
+  const aspect = platform
+    ? platform.outputSize.width / platform.outputSize.height
+    : activeFormat === 'custom' ? customRatio.width / customRatio.height : ratios.find(r => r.id === activeFormat)?.aspect;
+  // With exactly one flip the picture is mirrored, so "clockwise" on screen is the other way round.
+  const direction = geometry.flipH !== geometry.flipV ? -1 : 1;
+  const output = platform?.outputSize ?? (cropSize && { width: Math.round(cropSize.width), height: Math.round(cropSize.height) });
+
+  const handleFormatChange = (id: FormatId, ratio: Size = customRatio) => {
+    setActiveFormat(id);
+    const preset = platforms.find(p => p.id === id);
+    if (preset) {
+      onFormatChange({ aspect: preset.outputSize.width / preset.outputSize.height, outputSize: preset.outputSize });
+    } else {
+      onFormatChange({ aspect: id === 'custom' ? ratio.width / ratio.height : ratios.find(r => r.id === id)?.aspect });
+    }
+  };
 
-const CropPanel: React.FC<CropPanelProps> = ({ onApplyCrop, onSetAspect, isLoading, isCropping }) => {
-  const [activeAspect, setActiveAspect] = useState<AspectRatio>('bebas');
-  
-  const handleAspectChange = (aspect: AspectRatio, value: number | undefined) => {
-    setActiveAspect(aspect);
-    onSetAspect(value);
-  }
+  const handleCustomRatio = (ratio: Size) => {
+    setCustomRatio(ratio);
+    handleFormatChange('custom', ratio);
+  };
 
-  const aspects: { name: AspectRatio, value: number | undefined }[] = [
-    { name: 'bebas', value: undefined },
-    { name: '1:1', value: 1 / 1 },
-    { name: '16:9', value: 16 / 9 },
-  ];
+  const handleSize = (dimension: keyof Size, value: number) => {
+    if (!cropSize) return;
+    const size = { ...cropSize, [dimension]: value };
+    if (aspect) {
+      if (dimension === 'width') size.height = value / aspect; else size.width = value * aspect;
+    }
+    onCropSizeChange(size);
+  };
+
+  const update = (changes: Partial<GeometryParams>) => onGeometryChange({ ...geometry, ...changes });
+  const turn = (step: 1 | -1) => update({ quarterTurns: (geometry.quarterTurns + step * direction + 4) % 4 });
+  const toggleMode = (next: GeometryMode) => onModeChange(mode === next ? 'crop' : next);
+
+  const hints: Record<GeometryMode, MessageKey> = {
+    crop: 'crop.hint',
+    straighten: 'crop.hint.straighten',
+    perspective: 'crop.hint.perspective',
+  };
 
   return (
     <div className="w-full bg-[#4a2c27]/80 border border-[#ECB984]/20 rounded-lg p-4 flex flex-col items-center gap-4 animate-fade-in backdrop-blur-sm">
-      <h3 className="text-lg font-semibold text-[#ECB984]">Potong Gambar</h3>
-      <p className="text-sm text-[#ECB984] -mt-2">Klik dan seret pada gambar untuk memilih area potong.</p>
-      
-      <div className="flex items-center gap-2">
-        <span className="text-sm font-medium text-[#ECB984]">Rasio Aspek:</span>
-        {aspects.map(({ name, value }) => (
+      <h3 className="text-lg font-semibold text-[#ECB984]">{t('crop.title')}</h3>
+      <p className="text-sm text-center text-[#ECB984] -mt-2">{t(hints[mode])}</p>
+
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <button onClick={() => turn(-1)} disabled={isLoading} className={pill(false)}>{t('crop.rotateLeft')}</button>
+        <button onClick={() => turn(1)} disabled={isLoading} className={pill(false)}>{t('crop.rotateRight')}</button>
+        <button onClick={() => update({ flipH: !geometry.flipH })} disabled={isLoading} className={pill(geometry.flipH)} aria-pressed={geometry.flipH}>{t('crop.flipH')}</button>
+        <button onClick={() => update({ flipV: !geometry.flipV })} disabled={isLoading} className={pill(geometry.flipV)} aria-pressed={geometry.flipV}>{t('crop.flipV')}</button>
+      </div>
+
+      <label className="w-full max-w-md flex items-center gap-3 text-sm text-[#ECB984]">
+        {t('crop.straighten')}
+        <input
+          type="range"
+          min={-MAX_STRAIGHTEN_DEGREES}
+          max={MAX_STRAIGHTEN_DEGREES}
+          step={0.1}
+          value={geometry.rotation * direction}
+          onChange={(e) => update({ rotation: Number(e.target.value) * direction })}
+          onDoubleClick={() => update({ rotation: 0 })}
+          disabled={isLoading}
+          className="flex-grow accent-[#D58258]"
+        />
+        <span className="w-14 text-right text-[#FFFEE9] tabular-nums">{(geometry.rotation * direction).toFixed(1)}°</span>
+      </label>
+
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <button onClick={() => toggleMode('straighten')} disabled={isLoading} className={pill(mode === 'straighten')} aria-pressed={mode === 'straighten'}>{t('crop.straightenTool')}</button>
+        <button onClick={() => toggleMode('perspective')} disabled={isLoading} className={pill(mode === 'perspective')} aria-pressed={mode === 'perspective'}>{t('crop.perspective')}</button>
+        {geometry.perspective && (
+          <button onClick={() => update({ perspective: null })} disabled={isLoading} className={pill(false)}>{t('crop.resetPerspective')}</button>
+        )}
+        <button onClick={() => { onGeometryChange(DEFAULT_GEOMETRY); onModeChange('crop'); }} disabled={isLoading} className={pill(false)}>{t('common.reset')}</button>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <span className="text-sm font-medium text-[#ECB984]">{t('crop.aspect')}</span>
+        {ratios.map(({ id }) => (
+          <button key={id} onClick={() => handleFormatChange(id)} disabled={isLoading} className={pill(activeFormat === id)}>
+            {id === 'free' ? t('crop.aspect.free') : id === 'custom' ? t('crop.aspect.custom') : id}
+          </button>
+        ))}
+      </div>
+
+      {activeFormat === 'custom' && (
+        <div className="flex items-center gap-2 text-sm text-[#ECB984]">
+          <CommitInput value={customRatio.width} onCommit={(width) => handleCustomRatio({ ...customRatio, width })} label={t('crop.customRatio.width')} disabled={isLoading} />
+          :
+          <CommitInput value={customRatio.height} onCommit={(height) => handleCustomRatio({ ...customRatio, height })} label={t('crop.customRatio.height')} disabled={isLoading} />
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <span className="text-sm font-medium text-[#ECB984]">{t('crop.platform')}</span>
+        {platforms.map(({ id, label, outputSize }) => (
           <button
-            key={name}
-            onClick={() => handleAspectChange(name, value)}
+            key={id}
+            onClick={() => handleFormatChange(id)}
             disabled={isLoading}
-            className={`px-4 py-2 rounded-md text-base font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
-              activeAspect === name 
-              ? 'bg-gradient-to-br from-[#D58258] to-[#c7724a] text-white shadow-md shadow-[#D58258]/30' 
-              : 'bg-[#FFFEE9]/10 hover:bg-[#FFFEE9]/20 text-[#FFFEE9]'
-            }`}
+            className={pill(activeFormat === id)}
+            title={`${outputSize.width} × ${outputSize.height} px`}
           >
-            {name}
+            {t(label)}
           </button>
         ))}
       </div>
 
+      {cropSize && (
+        <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-[#ECB984]">
+          {t('crop.size')}
+          <CommitInput value={Math.round(cropSize.width)} onCommit={(value) => handleSize('width', value)} label={t('crop.width')} disabled={isLoading || mode !== 'crop'} />
+          ×
+          <CommitInput value={Math.round(cropSize.height)} onCommit={(value) => handleSize('height', value)} label={t('crop.height')} disabled={isLoading || mode !== 'crop'} />
+          {output && <span className="text-[#FFFEE9]/80">{t('crop.output', { width: output.width, height: output.height })}</span>}
+        </div>
+      )}
+
       <button
         onClick={onApplyCrop}
         disabled={isLoading || !isCropping}
         className="w-full max-w-xs mt-2 bg-gradient-to-br from-[#A8A676] to-[#999768] text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-[#A8A676]/20 hover:shadow-xl hover:shadow-[#A8A676]/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-[#7e7c5b] disabled:to-[#6d6b4f] disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
       >
-        Terapkan Potongan
+        {t('crop.apply')}
       </button>
     </div>
   );
 };
 
-export default CropPanel;
\ No newline at end of file
+export default CropPanel;
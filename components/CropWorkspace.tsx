@@ -0,0 +1,254 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef } from 'react';
+import ReactCrop, { type PercentCrop } from 'react-image-crop';
+import {
+  type GeometryParams, type CropRect, type Point, type Size,
+  getFrameSize, scaleGeometry, renderGeometry, imageCorners, MAX_STRAIGHTEN_DEGREES,
+} from '../services/geometry.ts';
+import { loadImage, createCanvas } from '../services/imageCompositing.ts';
+import type { GeometryMode } from './CropPanel.tsx';
+import { useI18n } from '../services/i18n.ts';
+import Viewport from './Viewport.tsx';
+
+interface CropWorkspaceProps {
+  source: File;
+  geometry: GeometryParams;
+  onGeometryChange: (geometry: GeometryParams) => void;
+  mode: GeometryMode;
+  onModeChange: (mode: GeometryMode) => void;
+  /** The crop in frame pixels. */
+  crop: CropRect | null;
+  onCropChange: (crop: CropRect) => void;
+  aspect?: number;
+  onSourceLoad: (size: Size) => void;
+}
+
+const PREVIEW_MAX_EDGE = 1280;
+const HANDLE_RADIUS_PX = 8;
+const GRID_LINES = 8;
+/** Shortest horizon line, in screen pixels, that counts as a straighten gesture. */
+const MIN_LINE_PX = 12;
+
+const mediaClass = 'block w-full h-full';
+
+// Shows the photo as the geometry will leave it and takes the crop, straighten and
+// perspective gestures. Everything is previewed from a downscaled copy of the source.
+const CropWorkspace: React.FC<CropWorkspaceProps> = ({ source, geometry, onGeometryChange, mode, onModeChange, crop, onCropChange, aspect, onSourceLoad }) => {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [preview, setPreview] = useState<{ canvas: HTMLCanvasElement, natural: Size, scale: number } | null>(null);
+  const [line, setLine] = useState<{ start: Point, end: Point } | null>(null);
+  const [dragCorner, setDragCorner] = useState<number | null>(null);
+  // Natural pixels per screen pixel, so handles keep their on-screen size.
+  const [unit, setUnit] = useState(1);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(source).then(image => {
+      if (cancelled) return;
+      const natural = { width: image.naturalWidth, height: image.naturalHeight };
+      const scale = Math.min(1, PREVIEW_MAX_EDGE / Math.max(natural.width, natural.height));
+      const { canvas, ctx } = createCanvas(Math.round(natural.width * scale), Math.round(natural.height * scale));
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      setPreview({ canvas, natural, scale });
+      onSourceLoad(natural);
+    }).catch(err => console.error('Failed to load the crop source.', err));
+    return () => { cancelled = true; };
+  }, [source, onSourceLoad]);
+
+  const frame = preview && getFrameSize(preview.natural, geometry);
+  // The perspective handles sit on the untouched source; every other mode shows the result.
+  const view = mode === 'perspective' ? preview?.natural : frame;
+
+  useEffect(() => {
+    if (!preview) return;
+    const frameId = requestAnimationFrame(() => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+      let rendered = preview.canvas;
+      if (mode !== 'perspective') {
+        const scaled = scaleGeometry(geometry, preview.scale);
+        const size = getFrameSize({ width: preview.canvas.width, height: preview.canvas.height }, scaled);
+        rendered = renderGeometry(preview.canvas, scaled, { x: 0, y: 0, ...size });
+      }
+      canvas.width = rendered.width;
+      canvas.height = rendered.height;
+      ctx.drawImage(rendered, 0, 0);
+    });
+    return () => cancelAnimationFrame(frameId);
+  }, [preview, geometry, mode]);
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg || !view) return;
+    const update = () => {
+      const { width, height } = svg.getBoundingClientRect();
+      if (width > 0 && height > 0) setUnit(Math.max(view.width / width, view.height / height));
+    };
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(svg);
+    return () => observer.disconnect();
+  }, [view?.width, view?.height, mode]);
+
+  if (!preview || !frame || !view) return null;
+
+  const toView = (e: React.PointerEvent): Point => {
+    const matrix = svgRef.current!.getScreenCTM()?.inverse();
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix);
+    return { x: Math.min(Math.max(0, point.x), view.width), y: Math.min(Math.max(0, point.y), view.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (mode !== 'straighten') return;
+    svgRef.current?.setPointerCapture(e.pointerId);
+    const point = toView(e);
+    setLine({ start: point, end: point });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (line) setLine({ ...line, end: toView(e) });
+    if (dragCorner !== null) {
+      const corners = [...(geometry.perspective ?? imageCorners(preview.natural))];
+      corners[dragCorner] = toView(e);
+      onGeometryChange({ ...geometry, perspective: corners });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    svgRef.current?.releasePointerCapture(e.pointerId);
+    setDragCorner(null);
+    if (!line) return;
+    setLine(null);
+    const dx = line.end.x - line.start.x, dy = line.end.y - line.start.y;
+    if (Math.hypot(dx, dy) < MIN_LINE_PX * unit) return;
+    // Level whichever axis the line is closest to: horizons and verticals both work.
+    let angle = Math.atan2(dy, dx) * 180 / Math.PI;
+    angle -= Math.round(angle / 90) * 90;
+    const direction = geometry.flipH !== geometry.flipV ? -1 : 1;
+    const rotation = Math.min(MAX_STRAIGHTEN_DEGREES, Math.max(-MAX_STRAIGHTEN_DEGREES, geometry.rotation - angle * direction));
+    onGeometryChange({ ...geometry, rotation: Math.round(rotation * 10) / 10 });
+    onModeChange('crop');
+  };
+
+  const toPercent = (rect: CropRect): PercentCrop => ({
+    unit: '%',
+    x: rect.x / frame.width * 100,
+    y: rect.y / frame.height * 100,
+    width: rect.width / frame.width * 100,
+    height: rect.height / frame.height * 100,
+  });
+
+  const handleCropChange = (_: unknown, percent: PercentCrop) => {
+    if (percent.width <= 0 || percent.height <= 0) return;
+    onCropChange({
+      x: percent.x / 100 * frame.width,
+      y: percent.y / 100 * frame.height,
+      width: percent.width / 100 * frame.width,
+      height: percent.height / 100 * frame.height,
+    });
+  };
+
+  const canvas = <canvas ref={canvasRef} className={mediaClass} />;
+
+  if (mode === 'crop') {
+    return (
+      <Viewport contentSize={view}>
+        <ReactCrop
+          crop={crop ? toPercent(crop) : undefined}
+          onChange={handleCropChange}
+          aspect={aspect}
+          keepSelection
+          ruleOfThirds
+          className="!block w-full h-full"
+          renderSelectionAddon={() => geometry.rotation !== 0 && (
+            <div
+              className="absolute inset-0 pointer-events-none"
+              style={{
+                backgroundImage: 'linear-gradient(to right, rgba(255,254,233,0.25) 1px, transparent 1px), linear-gradient(to bottom, rgba(255,254,233,0.25) 1px, transparent 1px)',
+                backgroundSize: `${100 / GRID_LINES}% ${100 / GRID_LINES}%`,
+              }}
+            />
+          )}
+        >
+          {canvas}
+        </ReactCrop>
+      </Viewport>
+    );
+  }
+
+  const corners = geometry.perspective ?? imageCorners(preview.natural);
+  const handleRadius = HANDLE_RADIUS_PX * unit;
+
+  return (
+    <Viewport contentSize={view}>
+      <div className="relative w-full h-full">
+        {canvas}
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${view.width} ${view.height}`}
+          preserveAspectRatio="none"
+          className={`absolute inset-0 w-full h-full touch-none ${mode === 'straighten' ? 'cursor-crosshair' : ''}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          {mode === 'straighten' && (
+            <g stroke="#FFFEE9" strokeOpacity={0.3} strokeWidth={1} vectorEffect="non-scaling-stroke">
+              {Array.from({ length: GRID_LINES - 1 }, (_, i) => (i + 1) / GRID_LINES).map(f => (
+                <React.Fragment key={f}>
+                  <line x1={0} y1={f * view.height} x2={view.width} y2={f * view.height} vectorEffect="non-scaling-stroke" />
+                  <line x1={f * view.width} y1={0} x2={f * view.width} y2={view.height} vectorEffect="non-scaling-stroke" />
+                </React.Fragment>
+              ))}
+            </g>
+          )}
+          {line && (
+            <line x1={line.start.x} y1={line.start.y} x2={line.end.x} y2={line.end.y} stroke="#D58258" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+          )}
+          {mode === 'perspective' && (
+            <g>
+              <polygon
+                points={corners.map(p => `${p.x},${p.y}`).join(' ')}
+                fill="#D58258"
+                fillOpacity={0.08}
+                stroke="#D58258"
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+              />
+              {corners.map((corner, i) => (
+                <circle
+                  key={i}
+                  cx={corner.x}
+                  cy={corner.y}
+                  r={handleRadius}
+                  fill="#FFFEE9"
+                  stroke="#D58258"
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                  className="cursor-move"
+                  onPointerDown={(e) => {
+                    e.stopPropagation();
+                    svgRef.current?.setPointerCapture(e.pointerId);
+                    setDragCorner(i);
+                  }}
+                >
+                  <title>{t('crop.perspectiveHandle')}</title>
+                </circle>
+              ))}
+            </g>
+          )}
+        </svg>
+      </div>
+    </Viewport>
+  );
+};
+
+export default CropWorkspace;
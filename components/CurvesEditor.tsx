@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import type { CurvePoint, CurveChannel } from '../types.ts';
+import { buildCurveLut } from '../services/adjustmentEngine.ts';
+import { useI18n } from '../services/i18n.ts';
+
+interface CurvesEditorProps {
+  curves: Record<CurveChannel, CurvePoint[]>;
+  onChange: (curves: Record<CurveChannel, CurvePoint[]>) => void;
+  disabled?: boolean;
+}
+
+const SIZE = 256;
+const HIT_RADIUS = 10;
+
+const channelColors: { [key in CurveChannel]: string } = {
+  rgb: '#FFFEE9',
+  r: '#e0604f',
+  g: '#7fbf6a',
+  b: '#5f8fdf',
+};
+
+const CurvesEditor: React.FC<CurvesEditorProps> = ({ curves, onChange, disabled }) => {
+  const { t } = useI18n();
+  const [channel, setChannel] = useState<CurveChannel>('rgb');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const points = curves[channel];
+  const lut = buildCurveLut(points);
+  const path = Array.from(lut, (y, x) => `${x === 0 ? 'M' : 'L'}${x},${SIZE - 1 - y}`).join(' ');
+
+  const toCurvePoint = (e: React.PointerEvent): CurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * (SIZE - 1);
+    const y = (1 - (e.clientY - rect.top) / rect.height) * (SIZE - 1);
+    return {
+      x: Math.round(Math.min(SIZE - 1, Math.max(0, x))),
+      y: Math.round(Math.min(SIZE - 1, Math.max(0, y))),
+    };
+  };
+
+  const setPoints = (next: CurvePoint[]) => onChange({ ...curves, [channel]: next });
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toCurvePoint(e);
+    const hit = points.findIndex(p => Math.hypot(p.x - point.x, p.y - point.y) <= HIT_RADIUS);
+    if (hit >= 0) {
+      setDragIndex(hit);
+      return;
+    }
+    const next = [...points, point].sort((a, b) => a.x - b.x);
+    setPoints(next);
+    setDragIndex(next.indexOf(point));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    const point = toCurvePoint(e);
+    const isEndpoint = dragIndex === 0 || dragIndex === points.length - 1;
+    // Endpoints may only move vertically; inner points stay between their neighbours.
+    const minX = dragIndex === 0 ? 0 : points[dragIndex - 1].x + 1;
+    const maxX = dragIndex === points.length - 1 ? SIZE - 1 : points[dragIndex + 1].x - 1;
+    const next = [...points];
+    next[dragIndex] = {
+      x: isEndpoint ? points[dragIndex].x : Math.min(maxX, Math.max(minX, point.x)),
+      y: point.y,
+    };
+    setPoints(next);
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent<SVGCircleElement>, index: number) => {
+    e.stopPropagation();
+    if (disabled || index === 0 || index === points.length - 1) return;
+    setPoints(points.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="flex flex-col gap-2 items-center">
+      <div className="flex items-center gap-1">
+        {(Object.keys(channelColors) as CurveChannel[]).map(key => (
+          <button
+            key={key}
+            onClick={() => setChannel(key)}
+            className={`px-3 py-1 rounded text-xs font-semibold uppercase transition-colors ${channel === key ? 'bg-[#FFFEE9]/20 text-[#FFFEE9]' : 'text-[#ECB984]/70 hover:text-[#ECB984]'}`}
+            style={channel === key ? { color: channelColors[key] } : undefined}
+          >
+            {key}
+          </button>
+        ))}
+        <button
+          onClick={() => setPoints([{ x: 0, y: 0 }, { x: SIZE - 1, y: SIZE - 1 }])}
+          disabled={disabled}
+          className="ml-2 text-xs text-[#ECB984]/80 hover:text-[#ECB984] underline transition-colors disabled:opacity-50"
+        >
+          Reset Kurva
+        </button>
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${SIZE} ${SIZE}`}
+        className={`w-56 h-56 bg-[#2b1a17]/70 rounded-md border border-[#ECB984]/20 touch-none ${disabled ? 'opacity-50' : 'cursor-crosshair'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragIndex(null)}
+        onPointerCancel={() => setDragIndex(null)}
+      >
+        {[64, 128, 192].map(v => (
+          <g key={v} stroke="#ECB984" strokeOpacity={0.15}>
+            <line x1={v} y1={0} x2={v} y2={SIZE} />
+            <line x1={0} y1={v} x2={SIZE} y2={v} />
+          </g>
+        ))}
+        <line x1={0} y1={SIZE} x2={SIZE} y2={0} stroke="#ECB984" strokeOpacity={0.2} strokeDasharray="4 4" />
+        <path d={path} fill="none" stroke={channelColors[channel]} strokeWidth={2} />
+        {points.map((p, i) => (
+          <circle
+            key={i}
+            cx={p.x}
+            cy={SIZE - 1 - p.y}
+            r={5}
+            fill={dragIndex === i ? channelColors[channel] : '#2b1a17'}
+            stroke={channelColors[channel]}
+            strokeWidth={2}
+            onDoubleClick={(e) => handleDoubleClick(e, i)}
+          />
+        ))}
+      </svg>
+      <p className="text-xs text-[#ECB984]/60">{t('curves.hint')}</p>
+    </div>
+  );
+};
+
+export default CurvesEditor;
@@ -2,3 +2,165 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import React, { useState, useEffect } from 'react';
+import { type DebugLogEntry, getDebugEntries, subscribeDebugLog, clearDebugLog, replayDebugEntry, exportDebugLog, isDebugEnabled, setDebugEnabled } from '../services/debugLog.ts';
+import { downloadFile } from '../services/imageExport.ts';
+import { useI18n } from '../services/i18n.ts';
+
+interface DebugModalProps {
+  onClose: () => void;
+}
+
+const statusColors: Record<DebugLogEntry['status'], string> = {
+  pending: 'text-[#ECB984]',
+  success: 'text-[#A8A676]',
+  error: 'text-red-300',
+};
+
+const Field: React.FC<{ label: string, children: React.ReactNode }> = ({ label, children }) => (
+  <div className="grid grid-cols-[9rem_1fr] gap-2 text-sm">
+    <span className="text-[#ECB984]/70">{label}</span>
+    <span className="text-[#FFFEE9] break-words min-w-0">{children}</span>
+  </div>
+);
+
+/** Inspector for recorded model calls; opened with Ctrl+Shift+D or the `?debug` URL flag. */
+const DebugModal: React.FC<DebugModalProps> = ({ onClose }) => {
+  const { t, formatDate, formatBytes, describeError } = useI18n();
+  const [entries, setEntries] = useState<DebugLogEntry[]>(getDebugEntries);
+  const [selectedId, setSelectedId] = useState<string | null>(entries[0]?.id ?? null);
+  const [isRecording, setIsRecording] = useState(isDebugEnabled);
+  const [replayError, setReplayError] = useState<string | null>(null);
+
+  useEffect(() => subscribeDebugLog(setEntries), []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const selected = entries.find(entry => entry.id === selectedId) ?? null;
+
+  const handleToggleRecording = () => {
+    setDebugEnabled(!isRecording);
+    setIsRecording(!isRecording);
+  };
+
+  const handleReplay = async (id: string) => {
+    setReplayError(null);
+    try {
+      await replayDebugEntry(id);
+    } catch (err) {
+      setReplayError(describeError(err));
+    }
+    // The replay is the newest entry; show it.
+    setSelectedId(getDebugEntries()[0]?.id ?? id);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportDebugLog()], { type: 'application/json' });
+    downloadFile(blob, `sevaflow-debug-${new Date().toISOString().replace(/[:.]/g, '-')}.json`);
+  };
+
+  const button = 'bg-[#FFFEE9]/10 border border-[#FFFEE9]/20 text-[#FFFEE9] font-semibold py-2 px-3 rounded-md transition-all duration-200 hover:bg-[#FFFEE9]/20 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-[#2b1a17]/80 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="debug-title"
+        className="w-full max-w-5xl h-[85vh] bg-[#4a2c27] border border-[#ECB984]/20 rounded-xl p-4 flex flex-col gap-3 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex flex-wrap items-center gap-2">
+          <h2 id="debug-title" className="text-lg font-bold text-[#ECB984] mr-auto">{t('debug.title')}</h2>
+          <label className="flex items-center gap-2 text-sm text-[#ECB984] cursor-pointer">
+            <input type="checkbox" checked={isRecording} onChange={handleToggleRecording} className="accent-[#D58258]" />
+            {t('debug.record')}
+          </label>
+          <button onClick={handleExport} disabled={entries.length === 0} className={button}>{t('presetManager.export')}</button>
+          <button onClick={clearDebugLog} disabled={entries.length === 0} className={button}>{t('debug.clear')}</button>
+          <button onClick={onClose} className={button}>{t('common.close')}</button>
+        </div>
+
+        <div className="flex-grow grid grid-cols-1 md:grid-cols-[18rem_1fr] gap-3 min-h-0">
+          <ul className="overflow-y-auto flex flex-col gap-1 border border-[#ECB984]/10 rounded-md p-1">
+            {entries.length === 0 && (
+              <li className="text-sm text-[#ECB984]/70 p-3">
+                {t(isRecording ? 'debug.empty' : 'debug.recordingOff')}
+              </li>
+            )}
+            {entries.map(entry => (
+              <li key={entry.id}>
+                <button
+                  onClick={() => setSelectedId(entry.id)}
+                  className={`w-full text-left px-2 py-1.5 rounded-md text-sm ${entry.id === selectedId ? 'bg-[#D58258]/20' : 'hover:bg-[#FFFEE9]/5'}`}
+                >
+                  <span className="flex justify-between gap-2">
+                    <span className="font-semibold text-[#FFFEE9]">{entry.operation}{entry.replayOf ? ` (${t('debug.replayed')})` : ''}</span>
+                    <span className={statusColors[entry.status]}>{entry.status === 'pending' ? '...' : `${entry.durationMs} ms`}</span>
+                  </span>
+                  <span className="block text-xs text-[#ECB984]/70 truncate">
+                    {formatDate(entry.startedAt, { timeStyle: 'medium' })} · {entry.model}
+                    {(entry.blockReason || (entry.finishReason && entry.finishReason !== 'STOP')) && ` · ${entry.blockReason ?? entry.finishReason}`}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="overflow-y-auto flex flex-col gap-2 min-w-0">
+            {!selected ? (
+              <p className="text-sm text-[#ECB984]/70 p-3">{t('debug.selectEntry')}</p>
+            ) : (
+              <>
+                <div className="flex items-center gap-2">
+                  <span className={`text-sm font-semibold ${statusColors[selected.status]}`}>{selected.status.toUpperCase()}</span>
+                  <button onClick={() => handleReplay(selected.id)} disabled={selected.status === 'pending'} className={`${button} ml-auto`}>{t('debug.replay')}</button>
+                </div>
+                {replayError && <p className="text-sm text-red-300">{replayError}</p>}
+                <Field label={t('debug.field.operation')}>{selected.operation} ({selected.method})</Field>
+                <Field label={t('debug.field.model')}>{selected.provider}/{selected.model}</Field>
+                <Field label={t('debug.field.time')}>{formatDate(selected.startedAt, { dateStyle: 'medium', timeStyle: 'medium' })}</Field>
+                <Field label={t('debug.field.latency')}>{selected.durationMs !== undefined ? `${selected.durationMs} ms` : '-'}</Field>
+                {selected.aspectRatio && <Field label={t('debug.field.aspectRatio')}>{selected.aspectRatio}</Field>}
+                <Field label={t('debug.field.inputImages')}>
+                  {selected.inputImages.length === 0
+                    ? '-'
+                    : selected.inputImages.map((image, i) => (
+                      <span key={i} className="block">#{i + 1}: {image.width ? `${image.width}×${image.height}, ` : ''}{image.mimeType}, {formatBytes(image.bytes)}</span>
+                    ))}
+                </Field>
+                <Field label={t('debug.field.tokens')}>
+                  {selected.usage
+                    ? t('debug.tokens', { input: selected.usage.promptTokens ?? '-', output: selected.usage.outputTokens ?? '-', total: selected.usage.totalTokens ?? '-' })
+                    : '-'}
+                </Field>
+                <Field label="finishReason">{selected.finishReason ?? '-'}</Field>
+                <Field label="promptFeedback">
+                  {selected.blockReason ? `${selected.blockReason}${selected.blockReasonMessage ? `: ${selected.blockReasonMessage}` : ''}` : '-'}
+                </Field>
+                {selected.error && <Field label={t('debug.field.error')}><span className="text-red-300">{selected.error}</span></Field>}
+                {selected.text && <Field label={t('debug.field.text')}><span className="whitespace-pre-wrap">{selected.text}</span></Field>}
+                <div className="flex flex-col gap-1">
+                  <span className="text-sm text-[#ECB984]/70">{t('debug.field.prompt')}</span>
+                  <pre className="text-xs text-[#FFFEE9] bg-[#2b1a17] rounded-md p-3 whitespace-pre-wrap break-words">{selected.prompt}</pre>
+                </div>
+                {selected.outputImages && selected.outputImages.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {selected.outputImages.map((url, i) => <img key={i} src={url} alt={t('debug.output', { index: i + 1 })} className="max-h-40 rounded-md border border-[#ECB984]/20" />)}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DebugModal;
@@ -2,3 +2,227 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import React, { useState, useEffect, useRef } from 'react';
+import type { Layer, LayerTransform } from '../types.ts';
+import { loadImage } from '../services/imageCompositing.ts';
+import { type LayerImages, loadLayerImages, drawLayers, getLayerCorners, hitTestLayer } from '../services/layerRenderer.ts';
+import { useI18n, type MessageKey } from '../services/i18n.ts';
+
+interface EditorCanvasProps {
+  baseUrl: string;
+  naturalWidth: number;
+  naturalHeight: number;
+  layers: Layer[];
+  selectedLayerId: string | null;
+  onSelectLayer: (id: string | null) => void;
+  /** Called once per finished gesture with the new stack. */
+  onLayersChange: (layers: Layer[], description: string) => void;
+  /** When false the canvas only displays and lets clicks through to the image below. */
+  interactive: boolean;
+}
+
+type DragMode = 'move' | 'scale' | 'rotate';
+
+interface DragState {
+  mode: DragMode;
+  layerId: string;
+  start: { x: number, y: number };
+  startTransform: LayerTransform;
+}
+
+const dragDescriptions: Record<DragMode, MessageKey> = {
+  move: 'layers.history.move',
+  scale: 'layers.history.scale',
+  rotate: 'layers.history.rotate',
+};
+
+const HANDLE_RADIUS_PX = 7;
+const ROTATE_HANDLE_OFFSET_PX = 28;
+
+const EditorCanvas: React.FC<EditorCanvasProps> = ({ baseUrl, naturalWidth, naturalHeight, layers, selectedLayerId, onSelectLayer, onLayersChange, interactive }) => {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [baseImage, setBaseImage] = useState<HTMLImageElement | null>(null);
+  const [layerImages, setLayerImages] = useState<LayerImages>(new Map());
+  // Layers as they look mid-gesture; committed on pointer up.
+  const [draft, setDraft] = useState<Layer[] | null>(null);
+  // Natural pixels per screen pixel, so handles keep their on-screen size.
+  const [unit, setUnit] = useState(1);
+  const shownLayers = draft ?? layers;
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(baseUrl).then(img => { if (!cancelled) setBaseImage(img); })
+      .catch(err => console.error('Failed to load base image for layers.', err));
+    return () => { cancelled = true; };
+  }, [baseUrl]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLayerImages(layers).then(images => { if (!cancelled) setLayerImages(images); })
+      .catch(err => console.error('Failed to load layer images.', err));
+    return () => { cancelled = true; };
+  }, [layers]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !baseImage) return;
+    ctx.clearRect(0, 0, naturalWidth, naturalHeight);
+    ctx.drawImage(baseImage, 0, 0, naturalWidth, naturalHeight);
+    drawLayers(ctx, shownLayers, layerImages);
+  }, [baseImage, shownLayers, layerImages, naturalWidth, naturalHeight]);
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const update = () => {
+      const { width, height } = svg.getBoundingClientRect();
+      if (width > 0 && height > 0) setUnit(Math.max(naturalWidth / width, naturalHeight / height));
+    };
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(svg);
+    return () => observer.disconnect();
+  }, [naturalWidth, naturalHeight, interactive]);
+
+  const toNatural = (e: React.PointerEvent): { x: number, y: number } => {
+    const svg = svgRef.current!;
+    const matrix = svg.getScreenCTM()?.inverse();
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix);
+    return { x: point.x, y: point.y };
+  };
+
+  const startDrag = (e: React.PointerEvent, mode: DragMode, layer: Layer) => {
+    e.stopPropagation();
+    if (layer.locked) return;
+    svgRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, layerId: layer.id, start: toNatural(e), startTransform: layer.transform };
+  };
+
+  const handleBackgroundPointerDown = (e: React.PointerEvent) => {
+    const point = toNatural(e);
+    const hit = [...layers].reverse().find(layer => layer.visible && !layer.locked && hitTestLayer(layer, layerImages, point));
+    onSelectLayer(hit?.id ?? null);
+    if (hit) startDrag(e, 'move', hit);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = toNatural(e);
+    const { startTransform: from, start } = drag;
+    let transform: LayerTransform;
+    if (drag.mode === 'move') {
+      transform = { ...from, x: from.x + point.x - start.x, y: from.y + point.y - start.y };
+    } else if (drag.mode === 'scale') {
+      const startDistance = Math.hypot(start.x - from.x, start.y - from.y) || 1;
+      const distance = Math.hypot(point.x - from.x, point.y - from.y);
+      transform = { ...from, scale: Math.max(0.02, from.scale * distance / startDistance) };
+    } else {
+      const startAngle = Math.atan2(start.y - from.y, start.x - from.x);
+      const angle = Math.atan2(point.y - from.y, point.x - from.x);
+      let rotation = from.rotation + (angle - startAngle) * 180 / Math.PI;
+      if (e.shiftKey) rotation = Math.round(rotation / 15) * 15;
+      transform = { ...from, rotation: ((rotation % 360) + 360) % 360 };
+    }
+    setDraft(layers.map(layer => layer.id === drag.layerId ? { ...layer, transform } : layer));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    dragRef.current = null;
+    svgRef.current?.releasePointerCapture(e.pointerId);
+    if (draft) {
+      onLayersChange(draft, t(dragDescriptions[drag.mode]));
+    }
+    setDraft(null);
+  };
+
+  const selected = interactive ? shownLayers.find(layer => layer.id === selectedLayerId && layer.visible) : undefined;
+  const corners = selected ? getLayerCorners(selected, layerImages) : [];
+  const handleRadius = HANDLE_RADIUS_PX * unit;
+  // The rotate handle sits above the middle of the top edge, along the layer's own "up".
+  const rotateHandle = corners.length === 4 ? (() => {
+    const top = { x: (corners[0].x + corners[1].x) / 2, y: (corners[0].y + corners[1].y) / 2 };
+    const centre = selected!.transform;
+    const length = Math.hypot(top.x - centre.x, top.y - centre.y) || 1;
+    const offset = ROTATE_HANDLE_OFFSET_PX * unit;
+    return { top, x: top.x + (top.x - centre.x) / length * offset, y: top.y + (top.y - centre.y) / length * offset };
+  })() : null;
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        width={naturalWidth}
+        height={naturalHeight}
+        className="absolute inset-0 w-full h-full pointer-events-none"
+      />
+      {interactive && (
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${naturalWidth} ${naturalHeight}`}
+          preserveAspectRatio="xMidYMid meet"
+          className="absolute inset-0 w-full h-full z-10 touch-none cursor-default"
+          onPointerDown={handleBackgroundPointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          {selected && corners.length === 4 && rotateHandle && (
+            <g>
+              <polygon
+                points={corners.map(p => `${p.x},${p.y}`).join(' ')}
+                fill="transparent"
+                stroke="#D58258"
+                strokeWidth={2}
+                vectorEffect="non-scaling-stroke"
+                className={selected.locked ? '' : 'cursor-move'}
+                onPointerDown={(e) => startDrag(e, 'move', selected)}
+              />
+              {!selected.locked && (
+                <>
+                  <line x1={rotateHandle.top.x} y1={rotateHandle.top.y} x2={rotateHandle.x} y2={rotateHandle.y} stroke="#D58258" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+                  <circle
+                    cx={rotateHandle.x}
+                    cy={rotateHandle.y}
+                    r={handleRadius}
+                    fill="#FFFEE9"
+                    stroke="#D58258"
+                    strokeWidth={2}
+                    vectorEffect="non-scaling-stroke"
+                    className="cursor-grab"
+                    onPointerDown={(e) => startDrag(e, 'rotate', selected)}
+                  >
+                    <title>{t('layers.rotateHint')}</title>
+                  </circle>
+                  {corners.map((corner, i) => (
+                    <rect
+                      key={i}
+                      x={corner.x - handleRadius}
+                      y={corner.y - handleRadius}
+                      width={handleRadius * 2}
+                      height={handleRadius * 2}
+                      fill="#FFFEE9"
+                      stroke="#D58258"
+                      strokeWidth={2}
+                      vectorEffect="non-scaling-stroke"
+                      className={i % 2 === 0 ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}
+                      onPointerDown={(e) => startDrag(e, 'scale', selected)}
+                    />
+                  ))}
+                </>
+              )}
+            </g>
+          )}
+        </svg>
+      )}
+    </>
+  );
+};
+
+export default EditorCanvas;
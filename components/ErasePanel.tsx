@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import MaskOptions, { type MaskSettings } from './MaskOptions.tsx';
+import { useI18n, type MessageKey } from '../services/i18n.ts';
+
+export type EraseSelectionMode = 'paint' | 'pick';
+
+export interface ErasePanelProps {
+  selectionMode: EraseSelectionMode;
+  onSelectionModeChange: (mode: EraseSelectionMode) => void;
+  hasMask: boolean;
+  maskSettings: MaskSettings;
+  onMaskSettingsChange: (settings: MaskSettings) => void;
+  onClearMask: () => void;
+  onErase: () => void;
+  isLoading: boolean;
+}
+
+const selectionModes: { mode: EraseSelectionMode, label: MessageKey }[] = [
+  { mode: 'paint', label: 'erase.mode.paint' },
+  { mode: 'pick', label: 'erase.mode.pick' },
+];
+
+const ErasePanel: React.FC<ErasePanelProps> = ({ selectionMode, onSelectionModeChange, hasMask, maskSettings, onMaskSettingsChange, onClearMask, onErase, isLoading }) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="flex items-center gap-2 self-start">
+        {selectionModes.map(({ mode, label }) => (
+          <button
+            key={mode}
+            onClick={() => onSelectionModeChange(mode)}
+            disabled={isLoading}
+            className={`px-4 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+              selectionMode === mode
+                ? 'bg-gradient-to-br from-[#D58258] to-[#c7724a] text-white shadow-md shadow-[#D58258]/30'
+                : 'bg-[#FFFEE9]/10 hover:bg-[#FFFEE9]/20 text-[#FFFEE9]'
+            }`}
+          >
+            {t(label)}
+          </button>
+        ))}
+      </div>
+      <MaskOptions
+        settings={maskSettings}
+        onChange={onMaskSettingsChange}
+        onClear={onClearMask}
+        hasMask={hasMask}
+        isLoading={isLoading}
+      />
+      <p className="text-md text-[#ECB984] self-start">
+        {hasMask
+          ? t('erase.hint.marked')
+          : selectionMode === 'pick'
+            ? t('erase.hint.pick')
+            : t('erase.hint.paint')}
+      </p>
+      <button
+        onClick={onErase}
+        disabled={isLoading || !hasMask}
+        className="w-full bg-gradient-to-br from-[#D58258] to-[#c7724a] text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-[#D58258]/20 hover:shadow-xl hover:shadow-[#D58258]/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-[#9d6246] disabled:to-[#8a553c] disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+      >
+        {t('erase.submit')}
+      </button>
+    </div>
+  );
+};
+
+export default ErasePanel;
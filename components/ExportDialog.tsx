@@ -0,0 +1,254 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useMemo } from 'react';
+import type { ImageState } from '../types.ts';
+import {
+  type ExportSettings, type ExportFormat, type ResizeMode, type ColorProfile,
+  loadExportSettings, saveExportSettings, getSupportedExportFormats, computeExportSize,
+  formatExportFilename, exportImage, downloadFile, FILENAME_TOKENS,
+} from '../services/imageExport.ts';
+import { loadImage } from '../services/imageCompositing.ts';
+import { LoadingSpinnerIcon } from './icons.tsx';
+import { useI18n, type MessageKey } from '../services/i18n.ts';
+
+interface ExportDialogProps {
+  image: ImageState;
+  onClose: () => void;
+}
+
+const formatLabels: Record<ExportFormat, string> = {
+  png: 'PNG',
+  jpeg: 'JPEG',
+  webp: 'WebP',
+  avif: 'AVIF',
+};
+
+const resizeLabels: Record<ResizeMode, MessageKey> = {
+  none: 'export.resize.none',
+  longEdge: 'export.resize.longEdge',
+  dimensions: 'export.resize.dimensions',
+};
+
+const colorProfileLabels: Record<ColorProfile, MessageKey> = {
+  'srgb': 'export.colorProfile.srgb',
+  'display-p3': 'export.colorProfile.displayP3',
+};
+
+const optionButtonClass = (isActive: boolean) => `px-3 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-40 disabled:cursor-not-allowed ${
+  isActive
+  ? 'bg-gradient-to-br from-[#D58258] to-[#c7724a] text-white shadow-md shadow-[#D58258]/30'
+  : 'bg-[#FFFEE9]/10 hover:bg-[#FFFEE9]/20 text-[#FFFEE9]'
+}`;
+
+const numberInputClass = 'w-24 bg-[#2b1a17] border border-[#ECB984]/20 text-[#FFFEE9] rounded-md px-2 py-1 focus:ring-2 focus:ring-[#D58258] focus:outline-none';
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ image, onClose }) => {
+  const { t, describeError } = useI18n();
+  const [settings, setSettings] = useState<ExportSettings>(loadExportSettings);
+  const [sourceSize, setSourceSize] = useState<{ width: number, height: number } | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const supportedFormats = useMemo(getSupportedExportFormats, []);
+  const currentFile = image.history[image.historyIndex].file;
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(currentFile).then(img => {
+      if (!cancelled) setSourceSize({ width: img.naturalWidth, height: img.naturalHeight });
+    }).catch(err => console.error('Failed to read image size for export.', err));
+    return () => { cancelled = true; };
+  }, [currentFile]);
+
+  // Fall back to PNG when a remembered format is not encodable in this browser.
+  useEffect(() => {
+    if (!supportedFormats.includes(settings.format)) {
+      setSettings(prev => ({ ...prev, format: 'png' }));
+    }
+  }, [supportedFormats, settings.format]);
+
+  const update = <K extends keyof ExportSettings>(key: K, value: ExportSettings[K]) =>
+    setSettings(prev => ({ ...prev, [key]: value }));
+
+  const targetSize = sourceSize ? computeExportSize(sourceSize.width, sourceSize.height, settings) : null;
+  const filename = targetSize ? formatExportFilename(settings.filenameTemplate, image, targetSize, settings.format) : '';
+  const isDownscaling = !!(sourceSize && targetSize && (targetSize.width < sourceSize.width || targetSize.height < sourceSize.height));
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const file = await exportImage(image, settings);
+      downloadFile(file, file.name);
+      saveExportSettings(settings);
+      onClose();
+    } catch (err) {
+      setError(t('export.failed', { error: describeError(err) }));
+      console.error(err);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] bg-[#2b1a17]/80 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-dialog-title"
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-[#4a2c27] border border-[#ECB984]/20 rounded-xl p-6 flex flex-col gap-5 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 id="export-dialog-title" className="text-xl font-bold text-[#ECB984]">{t('export.title')}</h2>
+
+        <section className="flex flex-col gap-2">
+          <span className="text-sm font-medium text-[#ECB984]">{t('export.format')}</span>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(formatLabels) as ExportFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => update('format', format)}
+                disabled={!supportedFormats.includes(format)}
+                className={optionButtonClass(settings.format === format)}
+                title={supportedFormats.includes(format) ? undefined : t('export.unsupported')}
+              >
+                {formatLabels[format]}
+              </button>
+            ))}
+          </div>
+          {settings.format !== 'png' && (
+            <label className="flex items-center gap-3 text-sm text-[#ECB984]">
+              {t('export.quality')}
+              <input
+                type="range"
+                min={1}
+                max={100}
+                value={settings.quality}
+                onChange={(e) => update('quality', Number(e.target.value))}
+                className="flex-grow accent-[#D58258]"
+              />
+              <span className="w-8 text-right tabular-nums text-[#FFFEE9]">{settings.quality}</span>
+            </label>
+          )}
+        </section>
+
+        <section className="flex flex-col gap-2">
+          <span className="text-sm font-medium text-[#ECB984]">{t('export.size')}</span>
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(resizeLabels) as ResizeMode[]).map(mode => (
+              <button key={mode} onClick={() => update('resizeMode', mode)} className={optionButtonClass(settings.resizeMode === mode)}>
+                {t(resizeLabels[mode])}
+              </button>
+            ))}
+          </div>
+          {settings.resizeMode === 'longEdge' && (
+            <label className="flex items-center gap-2 text-sm text-[#ECB984]">
+              <input type="number" min={1} value={settings.longEdge} onChange={(e) => update('longEdge', Number(e.target.value))} className={numberInputClass} />
+              px
+            </label>
+          )}
+          {settings.resizeMode === 'dimensions' && (
+            <div className="flex items-center gap-2 text-sm text-[#ECB984]">
+              <input type="number" min={1} value={settings.width} onChange={(e) => update('width', Number(e.target.value))} className={numberInputClass} aria-label={t('export.width')} />
+              ×
+              <input type="number" min={1} value={settings.height} onChange={(e) => update('height', Number(e.target.value))} className={numberInputClass} aria-label={t('export.height')} />
+              px
+            </div>
+          )}
+          {targetSize && sourceSize && (
+            <p className="text-xs text-[#ECB984]/70">
+              {sourceSize.width} × {sourceSize.height} → {targetSize.width} × {targetSize.height}
+            </p>
+          )}
+          {isDownscaling && (
+            <label className="flex items-center gap-3 text-sm text-[#ECB984]">
+              {t('export.sharpen')}
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={settings.sharpen}
+                onChange={(e) => update('sharpen', Number(e.target.value))}
+                className="flex-grow accent-[#D58258]"
+              />
+              <span className="w-8 text-right tabular-nums text-[#FFFEE9]">{settings.sharpen}</span>
+            </label>
+          )}
+        </section>
+
+        <section className="flex flex-col gap-2">
+          <span className="text-sm font-medium text-[#ECB984]">{t('export.colorAndMetadata')}</span>
+          <select
+            value={settings.colorProfile}
+            onChange={(e) => update('colorProfile', e.target.value as ColorProfile)}
+            className="bg-[#2b1a17] border border-[#ECB984]/20 text-[#FFFEE9] rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-[#D58258] focus:outline-none"
+          >
+            {(Object.keys(colorProfileLabels) as ColorProfile[]).map(profile => (
+              <option key={profile} value={profile}>{t(colorProfileLabels[profile])}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-[#ECB984]">
+            <input
+              type="checkbox"
+              checked={settings.preserveExif}
+              onChange={(e) => update('preserveExif', e.target.checked)}
+              className="accent-[#D58258]"
+            />
+            {t('export.preserveExif')}
+            <span className="text-xs text-[#ECB984]/60">{t('export.jpegOnly')}</span>
+          </label>
+        </section>
+
+        <section className="flex flex-col gap-2">
+          <label htmlFor="export-filename" className="text-sm font-medium text-[#ECB984]">{t('export.filename')}</label>
+          <input
+            id="export-filename"
+            type="text"
+            value={settings.filenameTemplate}
+            onChange={(e) => update('filenameTemplate', e.target.value)}
+            className="bg-[#2b1a17] border border-[#ECB984]/20 text-[#FFFEE9] rounded-md px-3 py-2 text-sm font-mono focus:ring-2 focus:ring-[#D58258] focus:outline-none"
+          />
+          <div className="flex flex-wrap gap-1">
+            {FILENAME_TOKENS.map(({ token, description }) => (
+              <button
+                key={token}
+                onClick={() => update('filenameTemplate', settings.filenameTemplate + token)}
+                className="text-xs font-mono px-2 py-1 rounded bg-[#FFFEE9]/10 hover:bg-[#FFFEE9]/20 text-[#FFFEE9]"
+                title={t(description)}
+              >
+                {token}
+              </button>
+            ))}
+          </div>
+          {filename && <p className="text-xs text-[#ECB984]/70 break-all">{filename}</p>}
+        </section>
+
+        {error && <p className="text-sm text-red-300">{error}</p>}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="bg-transparent border border-[#FFFEE9]/20 text-[#FFFEE9] font-semibold py-3 px-5 rounded-md transition-all duration-200 hover:bg-[#FFFEE9]/10 active:scale-95"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting || !targetSize}
+            className="flex items-center bg-gradient-to-br from-[#A8A676] to-[#999768] text-white font-bold py-3 px-5 rounded-md transition-all duration-300 shadow-lg shadow-[#A8A676]/30 hover:shadow-xl active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isExporting && <LoadingSpinnerIcon className="w-4 h-4 mr-2" />}
+            {t('export.submit')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -3,39 +3,45 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
-import { MagicWandIcon, LoadingSpinnerIcon } from './icons.tsx';
+import React, { useState, useEffect, useMemo } from 'react';
+import { MagicWandIcon, LoadingSpinnerIcon, UploadIcon } from './icons.tsx';
 import { generateRandomPrompt } from '../services/geminiService.ts';
+import PresetPicker, { type PresetLibraryProps } from './PresetPicker.tsx';
+import { useI18n } from '../services/i18n.ts';
 
 interface FilterPanelProps {
   onApply: (prompt: string, applyToAll: boolean) => void;
+  onApplyStyle: (references: File[], prompt: string, strength: number, applyToAll: boolean) => void;
   isLoading: boolean;
   isBatchMode: boolean;
   setError: (error: string | null) => void;
+  presetLibrary: PresetLibraryProps;
 }
 
-const FilterPanel: React.FC<FilterPanelProps> = ({ onApply, isLoading, isBatchMode, setError }) => {
-  const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
+const MAX_REFERENCES = 4;
+
+const FilterPanel: React.FC<FilterPanelProps> = ({ onApply, onApplyStyle, isLoading, isBatchMode, setError, presetLibrary }) => {
+  const { t, describeError } = useI18n();
+  const [selectedPreset, setSelectedPreset] = useState<{ id: string, prompt: string } | null>(null);
   const [customPrompt, setCustomPrompt] = useState('');
   const [isGeneratingIdea, setIsGeneratingIdea] = useState(false);
+  const [references, setReferences] = useState<File[]>([]);
+  const [stylePrompt, setStylePrompt] = useState('');
+  const [strength, setStrength] = useState(70);
 
-  const presets = [
-    { name: 'Synthwave', prompt: 'Apply a vibrant 80s synthwave aesthetic with neon magenta and cyan glows, and subtle scan lines.' },
-    { name: 'Anime', prompt: 'Give the image a vibrant Japanese anime style, with bold outlines, cel-shading, and saturated colors.' },
-    { name: 'Lomo', prompt: 'Apply a Lomography-style cross-processing film effect with high-contrast, oversaturated colors, and dark vignetting.' },
-    { name: 'Glitch', prompt: 'Transform the image into a futuristic holographic projection with digital glitch effects and chromatic aberration.' },
-  ];
-  
-  const activePrompt = selectedPresetPrompt || customPrompt;
+  const referenceUrls = useMemo(() => references.map(file => URL.createObjectURL(file)), [references]);
+  useEffect(() => () => referenceUrls.forEach(url => URL.revokeObjectURL(url)), [referenceUrls]);
+
+  const activePrompt = selectedPreset?.prompt || customPrompt;
 
-  const handlePresetClick = (prompt: string) => {
-    setSelectedPresetPrompt(prompt);
+  const handlePresetSelect = (id: string | null, prompt: string) => {
+    setSelectedPreset(id ? { id, prompt } : null);
     setCustomPrompt('');
   };
   
   const handleCustomChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setCustomPrompt(e.target.value);
-    setSelectedPresetPrompt(null);
+    setSelectedPreset(null);
   };
 
   const handleApply = (applyToAll: boolean) => {
@@ -44,6 +50,12 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onApply, isLoading, isBatchMo
     }
   };
 
+  const handleReferenceFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).filter(file => file.type.startsWith('image/'));
+    e.target.value = '';
+    setReferences(prev => [...prev, ...files].slice(0, MAX_REFERENCES));
+  };
+
   const handleGenerateRandomPrompt = async () => {
     if (isGeneratingIdea) return;
     setIsGeneratingIdea(true);
@@ -51,10 +63,9 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onApply, isLoading, isBatchMo
     try {
         const idea = await generateRandomPrompt('filter');
         setCustomPrompt(idea);
-        setSelectedPresetPrompt(null);
+        setSelectedPreset(null);
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Terjadi kesalahan tidak dikenal.';
-        setError(errorMessage);
+        setError(describeError(err));
     } finally {
         setIsGeneratingIdea(false);
     }
@@ -63,27 +74,22 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onApply, isLoading, isBatchMo
 
   return (
     <div className="w-full bg-[#4a2c27]/80 border border-[#ECB984]/20 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
-      <h3 className="text-lg font-semibold text-center text-[#ECB984]">Terapkan Filter</h3>
+      <h3 className="text-lg font-semibold text-center text-[#ECB984]">{t('filter.title')}</h3>
       
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-        {presets.map(preset => (
-          <button
-            key={preset.name}
-            onClick={() => handlePresetClick(preset.prompt)}
-            disabled={isLoading}
-            className={`w-full text-center bg-[#FFFEE9]/10 border border-transparent text-[#FFFEE9] font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-[#FFFEE9]/20 hover:border-[#FFFEE9]/20 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed ${selectedPresetPrompt === preset.prompt ? 'ring-2 ring-offset-2 ring-offset-[#4a2c27] ring-[#D58258]' : ''}`}
-          >
-            {preset.name}
-          </button>
-        ))}
-      </div>
+      <PresetPicker
+        {...presetLibrary}
+        kind="filter"
+        selectedId={selectedPreset?.id ?? null}
+        onSelect={handlePresetSelect}
+        isLoading={isLoading}
+      />
 
       <div className="relative">
           <input
             type="text"
             value={customPrompt}
             onChange={handleCustomChange}
-            placeholder="Atau deskripsikan filter kustom (contoh: 'cahaya synthwave 80-an')"
+            placeholder={t('filter.placeholder')}
             className="flex-grow bg-[#4a2c27] border border-[#ECB984]/30 text-[#FFFEE9] rounded-lg p-4 focus:ring-2 focus:ring-[#D58258] focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 text-base pr-12"
             disabled={isLoading}
           />
@@ -92,8 +98,8 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onApply, isLoading, isBatchMo
               onClick={handleGenerateRandomPrompt}
               disabled={isLoading || isGeneratingIdea}
               className="absolute top-1/2 right-4 -translate-y-1/2 text-[#ECB984]/60 hover:text-[#ECB984] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-              aria-label="Dapatkan ide acak"
-              title="Dapatkan ide acak dari AI"
+              aria-label={t('common.randomIdea')}
+              title={t('common.randomIdeaTitle')}
           >
               {isGeneratingIdea ? <LoadingSpinnerIcon className="w-5 h-5"/> : <MagicWandIcon className="w-5 h-5" />}
           </button>
@@ -106,7 +112,7 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onApply, isLoading, isBatchMo
             className="w-full bg-gradient-to-br from-[#D58258] to-[#c7724a] text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-[#D58258]/20 hover:shadow-xl hover:shadow-[#D58258]/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-[#9d6246] disabled:to-[#8a553c] disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
             disabled={isLoading || !activePrompt.trim()}
           >
-            Terapkan ke Gambar Ini
+            {t('common.applyToThis')}
           </button>
            {isBatchMode && (
                  <button
@@ -114,11 +120,89 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onApply, isLoading, isBatchMo
                     className="w-full bg-gradient-to-br from-[#A8A676] to-[#999768] text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-[#A8A676]/20 hover:shadow-xl hover:shadow-[#A8A676]/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-[#7e7c5b] disabled:to-[#6d6b4f] disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
                     disabled={isLoading || !activePrompt.trim()}
                 >
-                    Terapkan ke Semua
+                    {t('common.applyToAll')}
                 </button>
             )}
         </div>
       )}
+
+      <div className="my-2 border-t border-[#ECB984]/20"></div>
+
+      <div className="flex flex-col gap-3">
+        <h3 className="text-lg font-semibold text-center text-[#ECB984]">{t('styleTransfer.title')}</h3>
+        <p className="text-sm text-center text-[#ECB984] -mt-2">{t('styleTransfer.hint')}</p>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {references.map((file, i) => (
+            <div key={`${file.name}-${i}`} className="relative">
+              <img src={referenceUrls[i]} alt={t('styleTransfer.reference', { index: i + 1 })} className="w-20 h-20 object-cover rounded-md border border-[#ECB984]/30" />
+              <button
+                onClick={() => setReferences(prev => prev.filter((_, j) => j !== i))}
+                disabled={isLoading}
+                className="absolute -top-2 -right-2 w-6 h-6 rounded-full bg-[#2b1a17] border border-[#ECB984]/40 text-[#ECB984] text-xs leading-none hover:bg-[#4a2c27]"
+                aria-label={t('styleTransfer.removeReference', { index: i + 1 })}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          {references.length < MAX_REFERENCES && (
+            <label
+              htmlFor="style-reference-upload"
+              className={`w-20 h-20 flex flex-col items-center justify-center gap-1 cursor-pointer bg-[#FFFEE9]/5 border border-dashed border-[#ECB984]/40 text-[#ECB984] text-xs rounded-md transition-colors hover:bg-[#FFFEE9]/10 ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              <UploadIcon className="w-5 h-5" />
+              {t('styleTransfer.add')}
+            </label>
+          )}
+          <input id="style-reference-upload" type="file" accept="image/*" multiple className="hidden" onChange={handleReferenceFiles} disabled={isLoading} />
+        </div>
+
+        <input
+          type="text"
+          value={stylePrompt}
+          onChange={(e) => setStylePrompt(e.target.value)}
+          placeholder={t('styleTransfer.placeholder')}
+          className="bg-[#4a2c27] border border-[#ECB984]/30 text-[#FFFEE9] rounded-lg p-4 focus:ring-2 focus:ring-[#D58258] focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 text-base"
+          disabled={isLoading}
+        />
+
+        <label className="flex items-center gap-3 text-sm text-[#ECB984]">
+          {t('styleTransfer.strength')}
+          <input
+            type="range"
+            min={10}
+            max={100}
+            step={5}
+            value={strength}
+            onChange={(e) => setStrength(Number(e.target.value))}
+            disabled={isLoading}
+            className="flex-grow accent-[#D58258]"
+          />
+          <span className="w-10 text-right text-[#FFFEE9]">{strength}%</span>
+        </label>
+
+        {references.length > 0 && (
+          <div className="animate-fade-in flex flex-col sm:flex-row gap-2">
+            <button
+              onClick={() => onApplyStyle(references, stylePrompt, strength, false)}
+              className="w-full bg-gradient-to-br from-[#D58258] to-[#c7724a] text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-[#D58258]/20 hover:shadow-xl hover:shadow-[#D58258]/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-[#9d6246] disabled:to-[#8a553c] disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+              disabled={isLoading}
+            >
+              {t('common.applyToThis')}
+            </button>
+            {isBatchMode && (
+              <button
+                onClick={() => onApplyStyle(references, stylePrompt, strength, true)}
+                className="w-full bg-gradient-to-br from-[#A8A676] to-[#999768] text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-[#A8A676]/20 hover:shadow-xl hover:shadow-[#A8A676]/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-[#7e7c5b] disabled:to-[#6d6b4f] disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+                disabled={isLoading}
+              >
+                {t('common.applyToAll')}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
     </div>
   );
 };
@@ -3,6 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
+import { useI18n, LOCALES, type Locale } from '../services/i18n.ts';
 
 const SparkleIcon: React.FC<{ className?: string }> = ({ className }) => (
   <svg className={className} xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
@@ -10,14 +11,41 @@ const SparkleIcon: React.FC<{ className?: string }> = ({ className }) => (
   </svg>
 );
 
-const Header: React.FC = () => {
+interface HeaderProps {
+  onOpenCommandPalette: () => void;
+  onOpenShortcuts: () => void;
+  /** The palette's combo as shown to the user, if it has one. */
+  commandPaletteShortcut?: string;
+}
+
+const headerButton = 'bg-[#2b1a17] border border-[#ECB984]/30 text-[#ECB984] text-sm rounded-md px-2 py-1 hover:bg-[#4a2c27] focus:ring-2 focus:ring-[#D58258] focus:outline-none';
+
+const Header: React.FC<HeaderProps> = ({ onOpenCommandPalette, onOpenShortcuts, commandPaletteShortcut }) => {
+  const { t, locale, setLocale } = useI18n();
+
   return (
     <header className="w-full py-4 px-8 border-b border-[#ECB984]/20 bg-[#4a2c27]/80 backdrop-blur-sm sticky top-0 z-50">
-      <div className="flex items-center justify-center">
+      <div className="relative flex items-center justify-center">
+        <div className="absolute left-0 flex items-center gap-2">
+          <button onClick={onOpenCommandPalette} className={headerButton} title={t('palette.title')}>
+            {t('palette.open')}
+            {commandPaletteShortcut && <kbd className="ml-2 text-xs font-mono opacity-70">{commandPaletteShortcut}</kbd>}
+          </button>
+          <button onClick={onOpenShortcuts} className={headerButton} aria-label={t('shortcuts.title')} title={t('shortcuts.title')}>?</button>
+        </div>
         <SparkleIcon className="w-8 h-8 text-[#D58258]" />
         <h1 className="ml-3 text-3xl font-bold tracking-tight text-[#FFFEE9]">
           SevaFlow
         </h1>
+        <select
+          value={locale}
+          onChange={(e) => setLocale(e.target.value as Locale)}
+          aria-label={t('header.language')}
+          title={t('header.language')}
+          className="absolute right-0 bg-[#2b1a17] border border-[#ECB984]/30 text-[#ECB984] text-sm rounded-md px-2 py-1 focus:ring-2 focus:ring-[#D58258] focus:outline-none"
+        >
+          {LOCALES.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+        </select>
       </div>
     </header>
   );
@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useMemo } from 'react';
+import type { ImageState, HistoryOperation } from '../types.ts';
+import { getChildIndices, getPathIndices } from '../services/historyTree.ts';
+import { useI18n, type MessageKey } from '../services/i18n.ts';
+
+interface HistoryPanelProps {
+  image: ImageState;
+  onJump: (historyIndex: number) => void;
+  isLoading: boolean;
+}
+
+export const operationLabels: { [key in HistoryOperation]: MessageKey } = {
+  original: 'history.operation.original',
+  retouch: 'history.operation.retouch',
+  filter: 'history.operation.filter',
+  styleTransfer: 'history.operation.styleTransfer',
+  adjustment: 'history.operation.adjustment',
+  localAdjustment: 'history.operation.localAdjustment',
+  background: 'history.operation.background',
+  placement: 'history.operation.placement',
+  erase: 'history.operation.erase',
+  upscale: 'history.operation.upscale',
+  crop: 'history.operation.crop',
+  layers: 'history.operation.layers',
+};
+
+interface HistoryRow {
+  index: number;
+  depth: number;
+  isBranchStart: boolean;
+}
+
+// Depth-first walk: the child on the followed branch comes first, alternatives are indented below it.
+const buildRows = (image: ImageState): HistoryRow[] => {
+  const followed = new Set(getPathIndices(image, image.tipIndex));
+  const rows: HistoryRow[] = [];
+  const visit = (index: number, depth: number, isBranchStart: boolean) => {
+    rows.push({ index, depth, isBranchStart });
+    const children = getChildIndices(image, index).sort((a, b) => Number(followed.has(b)) - Number(followed.has(a)));
+    children.forEach((child, i) => visit(child, i === 0 ? depth : depth + 1, i > 0));
+  };
+  visit(0, 0, false);
+  return rows;
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ image, onJump, isLoading }) => {
+  const { t, formatDate } = useI18n();
+  const [thumbnailUrls, setThumbnailUrls] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    image.history.forEach(entry => { urls[entry.id] = URL.createObjectURL(entry.file); });
+    setThumbnailUrls(urls);
+    return () => Object.values(urls).forEach(URL.revokeObjectURL);
+  }, [image.history]);
+
+  const rows = useMemo(() => buildRows(image), [image]);
+  const currentPath = useMemo(() => new Set(getPathIndices(image, image.historyIndex)), [image]);
+  const followedPath = useMemo(() => new Set(getPathIndices(image, image.tipIndex)), [image]);
+
+  return (
+    <div className="w-full bg-[#4a2c27]/80 border border-[#ECB984]/20 rounded-lg p-4 flex flex-col gap-2 animate-fade-in backdrop-blur-sm">
+      <h3 className="text-lg font-semibold text-[#ECB984]">{t('history.title')}</h3>
+      <ol className="flex flex-col gap-1 max-h-80 overflow-y-auto pr-1">
+        {rows.map(({ index, depth, isBranchStart }) => {
+          const entry = image.history[index];
+          const isCurrent = index === image.historyIndex;
+          const isAlternative = !followedPath.has(index);
+          return (
+            <li key={entry.id} style={{ paddingLeft: `${depth * 1.25}rem` }}>
+              <button
+                onClick={() => onJump(index)}
+                disabled={isLoading || isCurrent}
+                className={`w-full flex items-center gap-3 p-2 rounded-md text-left transition-colors disabled:cursor-default ${
+                  isCurrent
+                  ? 'bg-[#D58258]/30 ring-2 ring-[#D58258]'
+                  : 'hover:bg-[#FFFEE9]/10'
+                } ${isAlternative ? 'opacity-60' : ''}`}
+                aria-current={isCurrent}
+              >
+                {thumbnailUrls[entry.id] && (
+                  <img src={thumbnailUrls[entry.id]} alt="" className="w-12 h-12 object-cover rounded flex-shrink-0" />
+                )}
+                <div className="min-w-0 flex-grow">
+                  <p className={`font-semibold text-sm ${currentPath.has(index) ? 'text-[#FFFEE9]' : 'text-[#ECB984]'}`}>
+                    {isBranchStart && <span className="mr-1 text-xs uppercase text-[#D58258]">{t('history.branch')} ·</span>}
+                    {t(operationLabels[entry.operation])}
+                  </p>
+                  {entry.prompt && <p className="text-xs text-[#ECB984]/80 truncate" title={entry.prompt}>"{entry.prompt}"</p>}
+                  {entry.description && <p className="text-xs text-[#ECB984]/80 truncate">{entry.description}</p>}
+                  <p className="text-xs text-[#ECB984]/60 truncate">
+                    {formatDate(entry.timestamp, { timeStyle: 'medium' })}
+                    {entry.model && ` · ${entry.model}`}
+                    {entry.hotspots && entry.hotspots.length > 0 && ` · ${t('history.hotspots', { count: entry.hotspots.length })}`}
+                    {entry.mask && ` · ${t('history.mask')}`}
+                  </p>
+                </div>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,266 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef } from 'react';
+import type { Layer, BlendMode, Product } from '../types.ts';
+import { loadImage } from '../services/imageCompositing.ts';
+import { createImageLayer, createTextLayer } from '../services/layerRenderer.ts';
+import { useI18n } from '../services/i18n.ts';
+
+interface LayerPanelProps {
+  layers: Layer[];
+  selectedLayerId: string | null;
+  onSelectLayer: (id: string | null) => void;
+  onLayersChange: (layers: Layer[], description: string) => void;
+  /** Natural size of the base photo, used to place and size new layers. */
+  canvasSize: { width: number, height: number } | null;
+  products: Product[];
+  isLoading: boolean;
+}
+
+const blendModeLabels: Record<BlendMode, string> = {
+  'source-over': 'Normal',
+  'multiply': 'Multiply',
+  'screen': 'Screen',
+  'overlay': 'Overlay',
+  'darken': 'Darken',
+  'lighten': 'Lighten',
+  'soft-light': 'Soft Light',
+  'hard-light': 'Hard Light',
+  'difference': 'Difference',
+  'color': 'Color',
+  'luminosity': 'Luminosity',
+};
+
+const LayerPanel: React.FC<LayerPanelProps> = ({ layers, selectedLayerId, onSelectLayer, onLayersChange, canvasSize, products, isLoading }) => {
+  const { t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = layers.find(layer => layer.id === selectedLayerId) ?? null;
+  // Slider and text edits stay local until the gesture ends, so each one is a single undo step.
+  const [opacityDraft, setOpacityDraft] = useState<number | null>(null);
+  const [textDraft, setTextDraft] = useState<string | null>(null);
+  const [fontSizeDraft, setFontSizeDraft] = useState<string | null>(null);
+
+  useEffect(() => {
+    setOpacityDraft(null);
+    setTextDraft(null);
+    setFontSizeDraft(null);
+  }, [selectedLayerId]);
+
+  const updateSelected = (patch: Partial<Layer>, description: string) => {
+    if (!selected) return;
+    onLayersChange(layers.map(layer => layer.id === selected.id ? { ...layer, ...patch } as Layer : layer), description);
+  };
+
+  const addLayer = (layer: Layer, description: string) => {
+    onLayersChange([...layers, layer], description);
+    onSelectLayer(layer.id);
+  };
+
+  const centre = () => ({ x: (canvasSize?.width ?? 0) / 2, y: (canvasSize?.height ?? 0) / 2 });
+
+  const handleAddText = () => {
+    if (!canvasSize) return;
+    const fontSize = Math.max(16, Math.round(Math.min(canvasSize.width, canvasSize.height) / 10));
+    addLayer(createTextLayer(t('layers.newText'), fontSize, { ...centre(), scale: 1, rotation: 0 }), t('layers.history.addText'));
+  };
+
+  // New images start centred and fit within half of the photo.
+  const addImageFile = async (file: File, name: string) => {
+    if (!canvasSize) return;
+    const img = await loadImage(file);
+    const scale = Math.min(1, canvasSize.width / 2 / img.naturalWidth, canvasSize.height / 2 / img.naturalHeight);
+    addLayer(createImageLayer(file, name, { ...centre(), scale, rotation: 0 }), t('layers.history.addImage', { name }));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) addImageFile(file, file.name.replace(/\.[^.]+$/, '')).catch(err => console.error('Failed to add image layer.', err));
+  };
+
+  const moveSelected = (direction: 1 | -1) => {
+    if (!selected) return;
+    const index = layers.indexOf(selected);
+    const target = index + direction;
+    if (target < 0 || target >= layers.length) return;
+    const next = [...layers];
+    [next[index], next[target]] = [next[target], next[index]];
+    onLayersChange(next, t(direction > 0 ? 'layers.history.raise' : 'layers.history.lower'));
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    onLayersChange(layers.filter(layer => layer.id !== selected.id), t('layers.history.delete', { name: selected.name }));
+    onSelectLayer(null);
+  };
+
+  const commitOpacity = () => {
+    if (opacityDraft !== null && selected && opacityDraft !== selected.opacity) {
+      updateSelected({ opacity: opacityDraft }, t('layers.history.opacity'));
+    }
+    setOpacityDraft(null);
+  };
+
+  const commitText = () => {
+    if (textDraft !== null && selected?.kind === 'text' && textDraft !== selected.text) {
+      updateSelected({ text: textDraft, name: textDraft.split('\n')[0].slice(0, 24) || t('layers.defaultTextName') }, t('layers.history.text'));
+    }
+    setTextDraft(null);
+  };
+
+  const commitFontSize = () => {
+    const fontSize = Number(fontSizeDraft);
+    if (fontSizeDraft !== null && selected?.kind === 'text' && fontSize >= 8 && fontSize !== selected.fontSize) {
+      updateSelected({ fontSize }, t('layers.history.fontSize'));
+    }
+    setFontSizeDraft(null);
+  };
+
+  const smallButton = 'bg-[#FFFEE9]/10 border border-[#FFFEE9]/20 text-[#FFFEE9] font-semibold py-2 px-3 rounded-md transition-all duration-200 hover:bg-[#FFFEE9]/20 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed';
+  const iconButton = 'w-8 h-8 flex items-center justify-center rounded-md text-sm transition-colors hover:bg-[#FFFEE9]/10 disabled:opacity-40';
+  const disabled = isLoading || !canvasSize;
+
+  return (
+    <div className="w-full bg-[#4a2c27]/80 border border-[#ECB984]/20 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <div>
+        <h3 className="text-lg font-semibold text-center text-[#ECB984]">{t('layers.title')}</h3>
+        <p className="text-sm text-center text-[#ECB984]/80">
+          {t('layers.hint')}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2 justify-center">
+        <button onClick={handleAddText} disabled={disabled} className={smallButton}>{t('layers.addText')}</button>
+        <button onClick={() => fileInputRef.current?.click()} disabled={disabled} className={smallButton}>{t('layers.addImage')}</button>
+        <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleFileChange} />
+        {products.length > 0 && (
+          <select
+            value=""
+            disabled={disabled}
+            onChange={(e) => {
+              const product = products.find(p => p.id === e.target.value);
+              if (product) addImageFile(product.file, product.name).catch(err => console.error('Failed to add product layer.', err));
+            }}
+            className="bg-[#2b1a17] border border-[#ECB984]/20 text-[#FFFEE9] rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-[#D58258] focus:outline-none disabled:opacity-50"
+          >
+            <option value="">{t('layers.addProduct')}</option>
+            {products.map(product => <option key={product.id} value={product.id}>{product.name}</option>)}
+          </select>
+        )}
+      </div>
+
+      {layers.length === 0 ? (
+        <p className="text-sm text-center text-[#ECB984]/70 py-4">{t('layers.empty')}</p>
+      ) : (
+        <ul className="flex flex-col gap-1 max-h-60 overflow-y-auto">
+          {[...layers].reverse().map(layer => (
+            <li
+              key={layer.id}
+              onClick={() => onSelectLayer(layer.id === selectedLayerId ? null : layer.id)}
+              className={`flex items-center gap-2 px-2 py-1 rounded-md cursor-pointer border ${layer.id === selectedLayerId ? 'bg-[#D58258]/20 border-[#D58258]' : 'border-transparent hover:bg-[#FFFEE9]/5'}`}
+            >
+              <button
+                onClick={(e) => { e.stopPropagation(); onLayersChange(layers.map(l => l.id === layer.id ? { ...l, visible: !l.visible } : l), t(layer.visible ? 'layers.history.hide' : 'layers.history.show')); }}
+                disabled={isLoading}
+                className={`${iconButton} ${layer.visible ? 'text-[#FFFEE9]' : 'text-[#FFFEE9]/40'}`}
+                title={t(layer.visible ? 'layers.hide' : 'layers.show')}
+                aria-pressed={layer.visible}
+              >
+                {layer.visible ? '◉' : '○'}
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onLayersChange(layers.map(l => l.id === layer.id ? { ...l, locked: !l.locked } : l), t(layer.locked ? 'layers.history.unlock' : 'layers.history.lock')); }}
+                disabled={isLoading}
+                className={`${iconButton} ${layer.locked ? 'text-[#ECB984]' : 'text-[#FFFEE9]/40'}`}
+                title={t(layer.locked ? 'layers.unlock' : 'layers.lock')}
+                aria-pressed={layer.locked}
+              >
+                {layer.locked ? '🔒' : '🔓'}
+              </button>
+              <span className="text-xs uppercase text-[#ECB984]/60 w-10">{t(layer.kind === 'text' ? 'layers.kind.text' : 'layers.kind.image')}</span>
+              <span className={`flex-grow truncate text-sm ${layer.visible ? 'text-[#FFFEE9]' : 'text-[#FFFEE9]/50'}`}>{layer.name}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selected && (
+        <div className="flex flex-col gap-3 border-t border-[#ECB984]/20 pt-4">
+          <label className="flex items-center gap-3 text-sm text-[#ECB984]">
+            <span className="w-24">{t('layers.opacity')}</span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={Math.round((opacityDraft ?? selected.opacity) * 100)}
+              onChange={(e) => setOpacityDraft(Number(e.target.value) / 100)}
+              onPointerUp={commitOpacity}
+              onKeyUp={commitOpacity}
+              onBlur={commitOpacity}
+              disabled={isLoading}
+              className="flex-grow accent-[#D58258]"
+            />
+            <span className="w-10 text-right text-[#FFFEE9]">{Math.round((opacityDraft ?? selected.opacity) * 100)}%</span>
+          </label>
+          <label className="flex items-center gap-3 text-sm text-[#ECB984]">
+            <span className="w-24">{t('layers.blendMode')}</span>
+            <select
+              value={selected.blendMode}
+              onChange={(e) => updateSelected({ blendMode: e.target.value as BlendMode }, t('layers.history.blendMode'))}
+              disabled={isLoading}
+              className="flex-grow bg-[#2b1a17] border border-[#ECB984]/20 text-[#FFFEE9] rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-[#D58258] focus:outline-none"
+            >
+              {(Object.keys(blendModeLabels) as BlendMode[]).map(mode => <option key={mode} value={mode}>{blendModeLabels[mode]}</option>)}
+            </select>
+          </label>
+
+          {selected.kind === 'text' && (
+            <>
+              <textarea
+                value={textDraft ?? selected.text}
+                onChange={(e) => setTextDraft(e.target.value)}
+                onBlur={commitText}
+                rows={2}
+                disabled={isLoading}
+                className="bg-[#2b1a17] border border-[#ECB984]/20 text-[#FFFEE9] rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-[#D58258] focus:outline-none"
+              />
+              <div className="flex items-center gap-3 text-sm text-[#ECB984]">
+                <span className="w-24">{t('layers.color')}</span>
+                <input
+                  type="color"
+                  value={selected.color}
+                  onChange={(e) => updateSelected({ color: e.target.value }, t('layers.history.color'))}
+                  disabled={isLoading}
+                  className="w-10 h-8 bg-transparent cursor-pointer"
+                />
+                <span className="ml-auto">{t('layers.fontSize')}</span>
+                <input
+                  type="number"
+                  min={8}
+                  max={1000}
+                  value={fontSizeDraft ?? selected.fontSize}
+                  onChange={(e) => setFontSizeDraft(e.target.value)}
+                  onBlur={commitFontSize}
+                  onKeyDown={(e) => { if (e.key === 'Enter') commitFontSize(); }}
+                  disabled={isLoading}
+                  className="w-20 bg-[#2b1a17] border border-[#ECB984]/20 text-[#FFFEE9] rounded-md px-2 py-1 text-sm"
+                />
+              </div>
+            </>
+          )}
+
+          <div className="flex flex-wrap gap-2 justify-center">
+            <button onClick={() => moveSelected(1)} disabled={isLoading || layers.indexOf(selected) === layers.length - 1} className={smallButton}>{t('layers.raise')}</button>
+            <button onClick={() => moveSelected(-1)} disabled={isLoading || layers.indexOf(selected) === 0} className={smallButton}>{t('layers.lower')}</button>
+            <button onClick={handleDelete} disabled={isLoading} className={`${smallButton} text-red-300`}>{t('layers.delete')}</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LayerPanel;
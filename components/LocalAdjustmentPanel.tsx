@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import type { AdjustmentParams } from '../types.ts';
+import { DEFAULT_ADJUSTMENTS, isDefaultAdjustment } from '../services/adjustmentEngine.ts';
+import CurvesEditor from './CurvesEditor.tsx';
+import { useI18n, type MessageKey } from '../services/i18n.ts';
+
+interface LocalAdjustmentPanelProps {
+  /** Parameters of the current history entry, when it was itself a local adjustment. */
+  initialParams: AdjustmentParams | null;
+  onPreviewChange: (params: AdjustmentParams | null) => void;
+  onApply: (params: AdjustmentParams, applyToAll: boolean) => void;
+  isLoading: boolean;
+  isBatchMode: boolean;
+}
+
+type SliderKey = Exclude<keyof AdjustmentParams, 'curves'>;
+
+const sliders: { key: SliderKey, label: MessageKey, min: number, max: number, step: number }[] = [
+  { key: 'exposure', label: 'localAdjustment.exposure', min: -3, max: 3, step: 0.05 },
+  { key: 'contrast', label: 'localAdjustment.contrast', min: -100, max: 100, step: 1 },
+  { key: 'highlights', label: 'localAdjustment.highlights', min: -100, max: 100, step: 1 },
+  { key: 'shadows', label: 'localAdjustment.shadows', min: -100, max: 100, step: 1 },
+  { key: 'temperature', label: 'localAdjustment.temperature', min: -100, max: 100, step: 1 },
+  { key: 'tint', label: 'localAdjustment.tint', min: -100, max: 100, step: 1 },
+  { key: 'saturation', label: 'localAdjustment.saturation', min: -100, max: 100, step: 1 },
+  { key: 'vibrance', label: 'localAdjustment.vibrance', min: -100, max: 100, step: 1 },
+];
+
+const LocalAdjustmentPanel: React.FC<LocalAdjustmentPanelProps> = ({ initialParams, onPreviewChange, onApply, isLoading, isBatchMode }) => {
+  const { t } = useI18n();
+  const [params, setParams] = useState<AdjustmentParams>(initialParams ?? DEFAULT_ADJUSTMENTS);
+  const isRetweak = initialParams !== null;
+  const isUnchanged = isRetweak ? JSON.stringify(params) === JSON.stringify(initialParams) : isDefaultAdjustment(params);
+
+  useEffect(() => {
+    onPreviewChange(isUnchanged ? null : params);
+  }, [params, isUnchanged, onPreviewChange]);
+
+  // Drop the preview when the panel closes.
+  useEffect(() => () => onPreviewChange(null), [onPreviewChange]);
+
+  return (
+    <div className="w-full bg-[#4a2c27]/80 border border-[#ECB984]/20 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <div>
+        <h3 className="text-lg font-semibold text-center text-[#ECB984]">{t('localAdjustment.title')}</h3>
+        <p className="text-sm text-center text-[#ECB984]/80">
+          {isRetweak ? t('localAdjustment.retweak') : t('localAdjustment.onDevice')}
+        </p>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-6 items-start">
+        <div className="flex-grow w-full grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+          {sliders.map(({ key, label, min, max, step }) => (
+            <label key={key} className="flex flex-col gap-1 text-sm text-[#ECB984]">
+              <span className="flex justify-between">
+                {t(label)}
+                <button
+                  onClick={() => setParams(prev => ({ ...prev, [key]: 0 }))}
+                  className="text-[#FFFEE9] tabular-nums hover:underline"
+                  title={t('localAdjustment.clickToReset')}
+                >
+                  {key === 'exposure' ? params[key].toFixed(2) : params[key]}
+                </button>
+              </span>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={params[key]}
+                onChange={(e) => setParams(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+                disabled={isLoading}
+                className="accent-[#D58258]"
+              />
+            </label>
+          ))}
+        </div>
+        <CurvesEditor
+          curves={params.curves}
+          onChange={(curves) => setParams(prev => ({ ...prev, curves }))}
+          disabled={isLoading}
+        />
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <button
+          onClick={() => setParams(DEFAULT_ADJUSTMENTS)}
+          disabled={isLoading || isDefaultAdjustment(params)}
+          className="sm:w-auto text-center bg-transparent border border-[#FFFEE9]/20 text-[#FFFEE9] font-semibold py-4 px-6 rounded-lg transition-all duration-200 ease-in-out hover:bg-[#FFFEE9]/10 hover:border-[#FFFEE9]/30 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('common.reset')}
+        </button>
+        <button
+          onClick={() => onApply(params, false)}
+          disabled={isLoading || isUnchanged}
+          className="w-full bg-gradient-to-br from-[#D58258] to-[#c7724a] text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-[#D58258]/20 hover:shadow-xl hover:shadow-[#D58258]/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-[#9d6246] disabled:to-[#8a553c] disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+        >
+          {t('common.applyToThis')}
+        </button>
+        {isBatchMode && (
+          <button
+            onClick={() => onApply(params, true)}
+            disabled={isLoading || isDefaultAdjustment(params)}
+            className="w-full bg-gradient-to-br from-[#A8A676] to-[#999768] text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-[#A8A676]/20 hover:shadow-xl hover:shadow-[#A8A676]/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-[#7e7c5b] disabled:to-[#6d6b4f] disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+          >
+            {t('common.applyToAll')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LocalAdjustmentPanel;
@@ -0,0 +1,203 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useEffect, useImperativeHandle, forwardRef, useState, useCallback } from 'react';
+
+export interface MaskCanvasHandle {
+  /** The painted strokes at the image's natural resolution. */
+  getCanvas: () => HTMLCanvasElement | null;
+  clear: () => void;
+  /** Adds the white area of a black/white mask (e.g. from segmentation) to the selection. */
+  addMask: (mask: HTMLImageElement) => void;
+}
+
+interface MaskCanvasProps {
+  naturalWidth: number;
+  naturalHeight: number;
+  brushSize: number; // in screen pixels
+  isErasing: boolean;
+  invert: boolean;
+  onMaskChange: (hasMask: boolean) => void;
+  /** When set, a press picks a point in natural pixels instead of painting. */
+  onPick?: (point: { x: number, y: number }) => void;
+}
+
+const MASK_COLOR = '#D58258';
+const MASK_RGB = [0xD5, 0x82, 0x58];
+
+// Maps a pointer position to natural image pixels, accounting for object-contain letterboxing.
+const toNaturalPoint = (canvas: HTMLCanvasElement, clientX: number, clientY: number) => {
+  const rect = canvas.getBoundingClientRect();
+  const scale = Math.min(rect.width / canvas.width, rect.height / canvas.height);
+  const offsetX = (rect.width - canvas.width * scale) / 2;
+  const offsetY = (rect.height - canvas.height * scale) / 2;
+  return {
+    x: (clientX - rect.left - offsetX) / scale,
+    y: (clientY - rect.top - offsetY) / scale,
+    scale,
+  };
+};
+
+const MaskCanvas = forwardRef<MaskCanvasHandle, MaskCanvasProps>(({ naturalWidth, naturalHeight, brushSize, isErasing, invert, onMaskChange, onPick }, ref) => {
+  const displayRef = useRef<HTMLCanvasElement>(null);
+  const maskRef = useRef<HTMLCanvasElement | null>(null);
+  const lastPointRef = useRef<{ x: number, y: number } | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const [cursor, setCursor] = useState<{ x: number, y: number } | null>(null);
+
+  // The mask lives in an offscreen canvas; the visible one only mirrors it (inverted if needed).
+  if (!maskRef.current || maskRef.current.width !== naturalWidth || maskRef.current.height !== naturalHeight) {
+    const mask = document.createElement('canvas');
+    mask.width = naturalWidth;
+    mask.height = naturalHeight;
+    maskRef.current = mask;
+  }
+
+  const renderDisplay = useCallback(() => {
+    frameRef.current = null;
+    const display = displayRef.current;
+    const mask = maskRef.current;
+    const ctx = display?.getContext('2d');
+    if (!display || !mask || !ctx) return;
+
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.clearRect(0, 0, display.width, display.height);
+    if (invert) {
+      ctx.fillStyle = MASK_COLOR;
+      ctx.fillRect(0, 0, display.width, display.height);
+      ctx.globalCompositeOperation = 'destination-out';
+    }
+    ctx.drawImage(mask, 0, 0);
+  }, [invert]);
+
+  const scheduleRender = useCallback(() => {
+    if (frameRef.current === null) {
+      frameRef.current = requestAnimationFrame(renderDisplay);
+    }
+  }, [renderDisplay]);
+
+  useEffect(() => {
+    renderDisplay();
+    return () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    };
+  }, [renderDisplay, naturalWidth, naturalHeight]);
+
+  // Strokes are lost on unmount, so tell the parent there is no mask anymore.
+  useEffect(() => () => onMaskChange(false), [onMaskChange]);
+
+  useImperativeHandle(ref, () => ({
+    getCanvas: () => maskRef.current,
+    clear: () => {
+      const mask = maskRef.current;
+      mask?.getContext('2d')?.clearRect(0, 0, mask.width, mask.height);
+      renderDisplay();
+      onMaskChange(false);
+    },
+    addMask: (source) => {
+      const mask = maskRef.current;
+      const ctx = mask?.getContext('2d');
+      if (!mask || !ctx) return;
+      const converted = document.createElement('canvas');
+      converted.width = mask.width;
+      converted.height = mask.height;
+      const convertedCtx = converted.getContext('2d');
+      if (!convertedCtx) return;
+      convertedCtx.drawImage(source, 0, 0, mask.width, mask.height);
+      const pixels = convertedCtx.getImageData(0, 0, mask.width, mask.height);
+      for (let i = 0; i < pixels.data.length; i += 4) {
+        const selected = pixels.data[i] > 127;
+        [pixels.data[i], pixels.data[i + 1], pixels.data[i + 2]] = MASK_RGB;
+        pixels.data[i + 3] = selected ? 255 : 0;
+      }
+      convertedCtx.putImageData(pixels, 0, 0);
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.drawImage(converted, 0, 0);
+      renderDisplay();
+      onMaskChange(hasPaintedPixels());
+    },
+  }), [renderDisplay, onMaskChange]);
+
+  const paintTo = (clientX: number, clientY: number) => {
+    const display = displayRef.current;
+    const ctx = maskRef.current?.getContext('2d');
+    if (!display || !ctx) return;
+
+    const { x, y, scale } = toNaturalPoint(display, clientX, clientY);
+    const from = lastPointRef.current ?? { x, y };
+    ctx.globalCompositeOperation = isErasing ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = brushSize / scale;
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    lastPointRef.current = { x, y };
+    scheduleRender();
+  };
+
+  const hasPaintedPixels = () => {
+    const mask = maskRef.current;
+    const ctx = mask?.getContext('2d');
+    if (!mask || !ctx) return false;
+    const { data } = ctx.getImageData(0, 0, mask.width, mask.height);
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] !== 0) return true;
+    }
+    return false;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (onPick) {
+      const { x, y } = toNaturalPoint(e.currentTarget, e.clientX, e.clientY);
+      if (x >= 0 && y >= 0 && x < naturalWidth && y < naturalHeight) onPick({ x: Math.round(x), y: Math.round(y) });
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    paintTo(e.clientX, e.clientY);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setCursor({ x: e.clientX - rect.left, y: e.clientY - rect.top });
+    if (e.buttons === 1 && !onPick) {
+      paintTo(e.clientX, e.clientY);
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (lastPointRef.current) {
+      lastPointRef.current = null;
+      onMaskChange(hasPaintedPixels());
+    }
+  };
+
+  return (
+    <>
+      <canvas
+        ref={displayRef}
+        width={naturalWidth}
+        height={naturalHeight}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={() => setCursor(null)}
+        className={`absolute inset-0 w-full h-full opacity-50 touch-none z-20 ${onPick ? 'cursor-crosshair' : 'cursor-none'}`}
+      />
+      {cursor && !onPick && (
+        <div
+          className={`absolute rounded-full border-2 pointer-events-none -translate-x-1/2 -translate-y-1/2 z-20 ${isErasing ? 'border-[#FFFEE9] border-dashed' : 'border-[#FFFEE9]'}`}
+          style={{ left: `${cursor.x}px`, top: `${cursor.y}px`, width: `${brushSize}px`, height: `${brushSize}px` }}
+        />
+      )}
+    </>
+  );
+});
+
+export default MaskCanvas;
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { useI18n } from '../services/i18n.ts';
+
+export interface MaskSettings {
+  brushSize: number;
+  isErasing: boolean;
+  feather: number;
+  invert: boolean;
+}
+
+interface MaskOptionsProps {
+  settings: MaskSettings;
+  onChange: (settings: MaskSettings) => void;
+  onClear: () => void;
+  hasMask: boolean;
+  isLoading: boolean;
+}
+
+const MaskOptions: React.FC<MaskOptionsProps> = ({ settings, onChange, onClear, hasMask, isLoading }) => {
+  const { t } = useI18n();
+  const update = (updates: Partial<MaskSettings>) => onChange({ ...settings, ...updates });
+
+  const toggleClass = (active: boolean) => `px-4 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 ${
+    active
+      ? 'bg-gradient-to-br from-[#D58258] to-[#c7724a] text-white shadow-md shadow-[#D58258]/30'
+      : 'bg-[#FFFEE9]/10 hover:bg-[#FFFEE9]/20 text-[#FFFEE9]'
+  }`;
+
+  return (
+    <div className="w-full bg-[#4a2c27]/80 border border-[#ECB984]/20 rounded-lg p-3 flex flex-wrap items-center gap-4 backdrop-blur-sm">
+      <div className="flex items-center gap-2">
+        <button onClick={() => update({ isErasing: false })} disabled={isLoading} className={toggleClass(!settings.isErasing)}>
+          {t('mask.brush')}
+        </button>
+        <button onClick={() => update({ isErasing: true })} disabled={isLoading} className={toggleClass(settings.isErasing)}>
+          {t('mask.eraser')}
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-[#ECB984]">
+        {t('mask.size')}
+        <input
+          type="range"
+          min={5}
+          max={150}
+          value={settings.brushSize}
+          onChange={(e) => update({ brushSize: Number(e.target.value) })}
+          disabled={isLoading}
+          className="accent-[#D58258]"
+        />
+        <span className="w-8 text-right text-[#FFFEE9]">{settings.brushSize}</span>
+      </label>
+
+      <label className="flex items-center gap-2 text-sm text-[#ECB984]">
+        {t('mask.feather')}
+        <input
+          type="range"
+          min={0}
+          max={50}
+          value={settings.feather}
+          onChange={(e) => update({ feather: Number(e.target.value) })}
+          disabled={isLoading}
+          className="accent-[#D58258]"
+        />
+        <span className="w-8 text-right text-[#FFFEE9]">{settings.feather}</span>
+      </label>
+
+      <label className="flex items-center gap-2 text-sm text-[#ECB984] cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.invert}
+          onChange={(e) => update({ invert: e.target.checked })}
+          disabled={isLoading}
+          className="accent-[#D58258]"
+        />
+        {t('mask.invert')}
+      </label>
+
+      {hasMask && (
+        <button
+          onClick={onClear}
+          disabled={isLoading}
+          className="ml-auto text-sm text-[#ECB984]/80 hover:text-[#ECB984] underline transition-colors"
+        >
+          {t('mask.clear')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default MaskOptions;
@@ -2,3 +2,58 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import React, { useState, useEffect } from 'react';
+import type { Product } from '../types.ts';
+import { useI18n } from '../services/i18n.ts';
+
+interface ObjectCardProps {
+  product: Product;
+  isSelected: boolean;
+  onSelect: () => void;
+  onDelete: () => void;
+  disabled: boolean;
+}
+
+const ObjectCard: React.FC<ObjectCardProps> = ({ product, isSelected, onSelect, onDelete, disabled }) => {
+  const { t } = useI18n();
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(product.file);
+    setImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [product.file]);
+
+  return (
+    <div className={`group relative flex flex-col rounded-lg overflow-hidden bg-[#2b1a17]/50 transition-all duration-200 ${isSelected ? 'ring-4 ring-[#D58258]' : 'ring-2 ring-transparent hover:ring-[#ECB984]/50'}`}>
+      <button
+        onClick={onSelect}
+        disabled={disabled}
+        className="flex flex-col text-left disabled:cursor-not-allowed"
+        aria-pressed={isSelected}
+      >
+        {/* Checkerboard so transparent cutouts stay readable. */}
+        <div className="aspect-square w-full bg-[conic-gradient(#ffffff14_25%,transparent_0_50%,#ffffff14_0_75%,transparent_0)] bg-[length:16px_16px] flex items-center justify-center p-2">
+          {imageUrl && <img src={imageUrl} alt={product.name} className="max-w-full max-h-full object-contain" />}
+        </div>
+        <div className="p-2 min-w-0">
+          <p className="text-sm font-semibold text-[#FFFEE9] truncate" title={product.name}>{product.name}</p>
+          {product.tags.length > 0 && (
+            <p className="text-xs text-[#ECB984]/70 truncate">{product.tags.map(tag => `#${tag}`).join(' ')}</p>
+          )}
+        </div>
+      </button>
+      <button
+        onClick={onDelete}
+        disabled={disabled}
+        className="absolute top-1 right-1 text-xs font-bold bg-[#2b1a17]/90 text-[#FFFEE9] hover:bg-red-600 px-2 py-0.5 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity disabled:hidden"
+        aria-label={t('products.deleteLabel', { name: product.name })}
+      >
+        {t('products.delete')}
+      </button>
+    </div>
+  );
+};
+
+export default ObjectCard;
@@ -0,0 +1,180 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef } from 'react';
+import type { PresetKind, PromptPreset } from '../types.ts';
+import {
+  PRESET_KIND_LABELS, createDefaultPresets, createPreset, movePreset, exportPresets, importPresets, extractVariables,
+} from '../services/presetLibrary.ts';
+import { downloadFile } from '../services/imageExport.ts';
+import { StarIcon } from './icons.tsx';
+import { useI18n } from '../services/i18n.ts';
+
+interface PresetManagerProps {
+  presets: PromptPreset[];
+  initialKind: PresetKind;
+  onSave: (presets: PromptPreset[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-[#2b1a17] border border-[#ECB984]/20 text-[#FFFEE9] rounded-md px-2 py-1 focus:ring-2 focus:ring-[#D58258] focus:outline-none';
+const button = 'bg-[#FFFEE9]/10 border border-[#FFFEE9]/20 text-[#FFFEE9] font-semibold py-2 px-3 rounded-md transition-all duration-200 hover:bg-[#FFFEE9]/20 active:scale-95 text-sm disabled:opacity-40 disabled:cursor-not-allowed';
+
+/** Edits a copy of the preset library; nothing changes until it is saved. */
+const PresetManager: React.FC<PresetManagerProps> = ({ presets, initialKind, onSave, onClose }) => {
+  const { t, describeError } = useI18n();
+  const [draft, setDraft] = useState<PromptPreset[]>(presets);
+  const [kind, setKind] = useState<PresetKind>(initialKind);
+  const [notice, setNotice] = useState<{ text: string, isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const ofKind = draft.filter(preset => preset.kind === kind);
+  const categories = [...new Set(draft.map(preset => preset.category).filter(Boolean))];
+
+  const update = (id: string, changes: Partial<PromptPreset>) =>
+    setDraft(prev => prev.map(preset => preset.id === id ? { ...preset, ...changes } : preset));
+
+  const handleAdd = () => setDraft(prev => [...prev, createPreset(kind)]);
+
+  const handleExport = () => {
+    const blob = new Blob([exportPresets(draft)], { type: 'application/json' });
+    downloadFile(blob, `sevaflow-presets-${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { presets: merged, count } = importPresets(await file.text(), draft);
+      setDraft(merged);
+      setNotice({ text: t('presetManager.imported', { count }), isError: false });
+    } catch (err) {
+      setNotice({ text: describeError(err), isError: true });
+    }
+  };
+
+  const handleReset = () => {
+    if (window.confirm(t('presetManager.resetConfirm'))) {
+      setDraft(createDefaultPresets());
+    }
+  };
+
+  const handleSave = () => {
+    onSave(draft.filter(preset => preset.name.trim() && preset.prompt.trim()));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-[#2b1a17]/80 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="preset-manager-title"
+        className="w-full max-w-3xl max-h-[85vh] bg-[#4a2c27] border border-[#ECB984]/20 rounded-xl p-4 flex flex-col gap-3 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex flex-wrap items-center gap-2">
+          <h2 id="preset-manager-title" className="text-lg font-bold text-[#ECB984] mr-auto">{t('presetManager.title')}</h2>
+          <button onClick={() => fileInputRef.current?.click()} className={button}>{t('presetManager.import')}</button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          <button onClick={handleExport} disabled={draft.length === 0} className={button}>{t('presetManager.export')}</button>
+          <button onClick={handleReset} className={button}>{t('presetManager.restoreDefaults')}</button>
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          {(Object.keys(PRESET_KIND_LABELS) as PresetKind[]).map(k => (
+            <button
+              key={k}
+              onClick={() => setKind(k)}
+              className={`px-3 py-1.5 rounded-md text-sm font-semibold transition-colors ${k === kind ? 'bg-[#D58258] text-white' : 'bg-[#FFFEE9]/10 hover:bg-[#FFFEE9]/20 text-[#FFFEE9]'}`}
+            >
+              {t(PRESET_KIND_LABELS[k])} ({draft.filter(preset => preset.kind === k).length})
+            </button>
+          ))}
+        </div>
+
+        {notice && <p className={`text-sm ${notice.isError ? 'text-red-300' : 'text-[#A8A676]'}`}>{notice.text}</p>}
+        <p className="text-xs text-[#ECB984]/70">
+          {t('presetManager.variableHint', { example: t('presetManager.exampleVariable'), exampleWithDefault: t('presetManager.exampleVariableWithDefault') })}
+        </p>
+
+        <datalist id="preset-categories">
+          {categories.map(c => <option key={c} value={c} />)}
+        </datalist>
+
+        <ul className="flex-grow overflow-y-auto flex flex-col gap-2 min-h-0">
+          {ofKind.map((preset, i) => {
+            const variables = extractVariables(preset.prompt);
+            return (
+              <li key={preset.id} className="border border-[#ECB984]/10 rounded-md p-2 flex flex-col gap-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    onClick={() => update(preset.id, { favorite: !preset.favorite })}
+                    className={preset.favorite ? 'text-[#ECB984]' : 'text-[#ECB984]/40 hover:text-[#ECB984]/80'}
+                    aria-label={preset.favorite ? t('presetManager.unfavorite') : t('presetManager.favorite')}
+                  >
+                    <StarIcon className="w-5 h-5" filled={preset.favorite} />
+                  </button>
+                  <input
+                    type="text"
+                    value={preset.name}
+                    onChange={(e) => update(preset.id, { name: e.target.value })}
+                    aria-label={t('presetManager.name')}
+                    className={`${inputClass} flex-grow min-w-0 font-semibold`}
+                  />
+                  <input
+                    type="text"
+                    value={preset.category}
+                    onChange={(e) => update(preset.id, { category: e.target.value })}
+                    list="preset-categories"
+                    placeholder={t('presetManager.category')}
+                    aria-label={t('presetManager.category')}
+                    className={`${inputClass} w-32`}
+                  />
+                  <button onClick={() => setDraft(prev => movePreset(prev, preset.id, -1))} disabled={i === 0} className={button} aria-label={t('presetManager.moveUp')}>↑</button>
+                  <button onClick={() => setDraft(prev => movePreset(prev, preset.id, 1))} disabled={i === ofKind.length - 1} className={button} aria-label={t('presetManager.moveDown')}>↓</button>
+                  <button onClick={() => setDraft(prev => prev.filter(p => p.id !== preset.id))} className={`${button} text-red-300`}>{t('presetManager.delete')}</button>
+                </div>
+                <textarea
+                  value={preset.prompt}
+                  onChange={(e) => update(preset.id, { prompt: e.target.value })}
+                  rows={2}
+                  placeholder={t('presetManager.promptPlaceholder')}
+                  aria-label={t('presetManager.prompt')}
+                  className={`${inputClass} w-full text-sm`}
+                />
+                {variables.length > 0 && (
+                  <p className="text-xs text-[#ECB984]/70">{t('presetManager.variables', { list: variables.map(v => v.defaultValue ? `${v.name} (${v.defaultValue})` : v.name).join(', ') })}</p>
+                )}
+              </li>
+            );
+          })}
+          {ofKind.length === 0 && <li className="text-sm text-[#ECB984]/70 p-3">{t('presetManager.emptyKind', { kind: t(PRESET_KIND_LABELS[kind]).toLowerCase() })}</li>}
+        </ul>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={handleAdd} className={`${button} mr-auto`}>{t('presetManager.add', { kind: t(PRESET_KIND_LABELS[kind]) })}</button>
+          <span className="text-xs text-[#ECB984]/60">{t('presetManager.unsavedHint')}</span>
+          <button onClick={onClose} className={button}>{t('common.cancel')}</button>
+          <button
+            onClick={handleSave}
+            className="bg-gradient-to-br from-[#D58258] to-[#c7724a] text-white font-bold py-2 px-4 rounded-md transition-all duration-200 shadow-md shadow-[#D58258]/30 active:scale-95 text-sm"
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PresetManager;
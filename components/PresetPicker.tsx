@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import type { PresetKind, PromptPreset } from '../types.ts';
+import { presetsOfKind, extractVariables, fillTemplate } from '../services/presetLibrary.ts';
+import { StarIcon } from './icons.tsx';
+import { useI18n } from '../services/i18n.ts';
+
+/** The preset library as the tool panels receive it. */
+export interface PresetLibraryProps {
+  presets: PromptPreset[];
+  onToggleFavorite: (id: string) => void;
+  onManage: () => void;
+  /** A preset chosen elsewhere (the command palette) that its picker should select. */
+  requestedPresetId: string | null;
+  onPresetRequestHandled: () => void;
+}
+
+interface PresetPickerProps extends PresetLibraryProps {
+  kind: PresetKind;
+  selectedId: string | null;
+  /** Called with the filled-in prompt on selection and whenever a variable changes. */
+  onSelect: (id: string | null, prompt: string) => void;
+  isLoading: boolean;
+}
+
+const PresetPicker: React.FC<PresetPickerProps> = ({ presets, onToggleFavorite, onManage, requestedPresetId, onPresetRequestHandled, kind, selectedId, onSelect, isLoading }) => {
+  const { t } = useI18n();
+  const [category, setCategory] = useState<string | null>(null);
+  // Variable values per preset, so switching back and forth keeps what was typed.
+  const [values, setValues] = useState<Record<string, Record<string, string>>>({});
+
+  const ofKind = presetsOfKind(presets, kind);
+  const categories = [...new Set(ofKind.map(preset => preset.category).filter(Boolean))];
+  const visible = category ? ofKind.filter(preset => preset.category === category) : ofKind;
+  const selected = ofKind.find(preset => preset.id === selectedId) ?? null;
+  const variables = selected ? extractVariables(selected.prompt) : [];
+
+  useEffect(() => {
+    const requested = ofKind.find(preset => preset.id === requestedPresetId);
+    if (!requested) return;
+    onPresetRequestHandled();
+    setCategory(null);
+    if (requested.id !== selectedId) onSelect(requested.id, fillTemplate(requested.prompt, values[requested.id] ?? {}));
+  }, [requestedPresetId]);
+
+  const handleSelect = (preset: PromptPreset) => {
+    if (preset.id === selectedId) {
+      onSelect(null, '');
+      return;
+    }
+    onSelect(preset.id, fillTemplate(preset.prompt, values[preset.id] ?? {}));
+  };
+
+  const handleVariableChange = (name: string, value: string) => {
+    if (!selected) return;
+    const presetValues = { ...values[selected.id], [name]: value };
+    setValues(prev => ({ ...prev, [selected.id]: presetValues }));
+    onSelect(selected.id, fillTemplate(selected.prompt, presetValues));
+  };
+
+  const chipClass = (active: boolean) => `px-2 py-1 rounded-md text-xs font-semibold transition-colors ${
+    active ? 'bg-[#D58258] text-white' : 'bg-[#FFFEE9]/10 hover:bg-[#FFFEE9]/20 text-[#ECB984]'
+  }`;
+
+  return (
+    <div className="flex flex-col gap-2 w-full">
+      <div className="flex flex-wrap items-center gap-1">
+        {categories.length > 1 && (
+          <>
+            <button onClick={() => setCategory(null)} className={chipClass(category === null)}>{t('presetPicker.all')}</button>
+            {categories.map(c => (
+              <button key={c} onClick={() => setCategory(c)} className={chipClass(category === c)}>{c}</button>
+            ))}
+          </>
+        )}
+        <button onClick={onManage} disabled={isLoading} className="ml-auto text-sm text-[#ECB984]/80 hover:text-[#ECB984] underline transition-colors disabled:opacity-50">
+          {t('presetManager.title')}
+        </button>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-center text-[#ECB984]/70">{t('presetPicker.empty')}</p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {visible.map(preset => (
+            <div key={preset.id} className="relative">
+              <button
+                onClick={() => handleSelect(preset)}
+                disabled={isLoading}
+                title={preset.prompt}
+                className={`w-full text-center bg-[#FFFEE9]/10 border border-transparent text-[#FFFEE9] font-semibold py-3 px-6 rounded-md transition-all duration-200 ease-in-out hover:bg-[#FFFEE9]/20 hover:border-[#FFFEE9]/20 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed ${selectedId === preset.id ? 'ring-2 ring-offset-2 ring-offset-[#4a2c27] ring-[#D58258]' : ''}`}
+              >
+                {preset.name}
+              </button>
+              <button
+                onClick={() => onToggleFavorite(preset.id)}
+                className={`absolute top-1 right-1 p-0.5 transition-colors ${preset.favorite ? 'text-[#ECB984]' : 'text-[#ECB984]/30 hover:text-[#ECB984]/70'}`}
+                aria-label={t(preset.favorite ? 'presetPicker.unfavorite' : 'presetPicker.favorite', { name: preset.name })}
+              >
+                <StarIcon className="w-4 h-4" filled={preset.favorite} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {variables.length > 0 && (
+        <div className="flex flex-wrap gap-2 animate-fade-in">
+          {variables.map(variable => (
+            <label key={variable.name} className="flex items-center gap-2 text-sm text-[#ECB984]">
+              {variable.name}
+              <input
+                type="text"
+                value={values[selected!.id]?.[variable.name] ?? ''}
+                onChange={(e) => handleVariableChange(variable.name, e.target.value)}
+                placeholder={variable.defaultValue}
+                disabled={isLoading}
+                className="w-36 bg-[#2b1a17] border border-[#ECB984]/20 text-[#FFFEE9] rounded-md px-2 py-1 focus:ring-2 focus:ring-[#D58258] focus:outline-none"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PresetPicker;
@@ -2,3 +2,101 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import React, { useState, useMemo } from 'react';
+import type { Product } from '../types.ts';
+import ObjectCard from './ObjectCard.tsx';
+import AddProductModal from './AddProductModal.tsx';
+import { useI18n } from '../services/i18n.ts';
+
+interface ProductSelectorProps {
+  products: Product[];
+  selectedProductId: string | null;
+  onSelect: (id: string | null) => void;
+  onAddProduct: (product: Product) => Promise<void>;
+  onDeleteProduct: (id: string) => void;
+  onPlace: () => void;
+  hasHotspot: boolean;
+  isLoading: boolean;
+}
+
+const ProductSelector: React.FC<ProductSelectorProps> = ({ products, selectedProductId, onSelect, onAddProduct, onDeleteProduct, onPlace, hasHotspot, isLoading }) => {
+  const { t } = useI18n();
+  const [query, setQuery] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+
+  // Every word must match the name or a tag.
+  const visibleProducts = useMemo(() => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return products;
+    return products.filter(product => {
+      const haystack = [product.name.toLowerCase(), ...product.tags];
+      return words.every(word => haystack.some(text => text.includes(word.replace(/^#/, ''))));
+    });
+  }, [products, query]);
+
+  const selectedProduct = products.find(product => product.id === selectedProductId);
+
+  return (
+    <div className="w-full bg-[#4a2c27]/80 border border-[#ECB984]/20 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <div>
+        <h3 className="text-lg font-semibold text-center text-[#ECB984]">{t('products.title')}</h3>
+        <p className="text-sm text-center text-[#ECB984]/80">
+          {!selectedProduct
+            ? t('products.hint.select')
+            : hasHotspot
+              ? t('products.hint.ready', { name: selectedProduct.name })
+              : t('products.hint.click', { name: selectedProduct.name })}
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t('products.search')}
+          className="flex-grow bg-[#2b1a17] border border-[#ECB984]/20 text-[#FFFEE9] rounded-md px-3 py-2 text-sm focus:ring-2 focus:ring-[#D58258] focus:outline-none"
+        />
+        <button
+          onClick={() => setIsAdding(true)}
+          disabled={isLoading}
+          className="bg-[#FFFEE9]/10 border border-[#FFFEE9]/20 text-[#FFFEE9] font-semibold py-2 px-4 rounded-md transition-all duration-200 hover:bg-[#FFFEE9]/20 active:scale-95 text-sm disabled:opacity-50"
+        >
+          {t('products.add')}
+        </button>
+      </div>
+
+      {products.length === 0 ? (
+        <p className="text-sm text-center text-[#ECB984]/70 py-6">{t('products.empty')}</p>
+      ) : visibleProducts.length === 0 ? (
+        <p className="text-sm text-center text-[#ECB984]/70 py-6">{t('products.noMatch', { query })}</p>
+      ) : (
+        <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-3 max-h-80 overflow-y-auto p-1">
+          {visibleProducts.map(product => (
+            <ObjectCard
+              key={product.id}
+              product={product}
+              isSelected={product.id === selectedProductId}
+              onSelect={() => onSelect(product.id === selectedProductId ? null : product.id)}
+              onDelete={() => onDeleteProduct(product.id)}
+              disabled={isLoading}
+            />
+          ))}
+        </div>
+      )}
+
+      <button
+        onClick={onPlace}
+        disabled={isLoading || !selectedProduct || !hasHotspot}
+        className="w-full bg-gradient-to-br from-[#D58258] to-[#c7724a] text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-[#D58258]/20 hover:shadow-xl hover:shadow-[#D58258]/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-[#9d6246] disabled:to-[#8a553c] disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+      >
+        {t('products.place')}
+      </button>
+
+      {isAdding && <AddProductModal onAdd={onAddProduct} onClose={() => setIsAdding(false)} />}
+    </div>
+  );
+};
+
+export default ProductSelector;
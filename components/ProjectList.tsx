@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import type { ProjectSummary } from '../types.ts';
+import { useI18n } from '../services/i18n.ts';
+
+interface ProjectListProps {
+  projects: ProjectSummary[];
+  storageEstimate: { usage: number, quota: number } | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ProjectThumbnail: React.FC<{ file: File | null }> = ({ file }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return url
+    ? <img src={url} alt="" className="w-full h-32 object-cover rounded-md" />
+    : <div className="w-full h-32 rounded-md bg-[#2b1a17]/60" />;
+};
+
+const ProjectCard: React.FC<{ project: ProjectSummary } & Omit<ProjectListProps, 'projects' | 'storageEstimate'>> = ({ project, onOpen, onRename, onDuplicate, onDelete }) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(project.name);
+  const { t, formatDate } = useI18n();
+
+  const submitRename = () => {
+    setIsRenaming(false);
+    const trimmed = name.trim();
+    if (trimmed && trimmed !== project.name) {
+      onRename(project.id, trimmed);
+    } else {
+      setName(project.name);
+    }
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(t('projects.confirmDelete', { name: project.name }))) {
+      onDelete(project.id);
+    }
+  };
+
+  const actionClass = 'text-xs text-[#ECB984]/80 hover:text-[#ECB984] underline transition-colors';
+
+  return (
+    <div className="bg-[#4a2c27]/60 p-3 rounded-lg border border-[#ECB984]/20 flex flex-col gap-2 text-left">
+      <button onClick={() => onOpen(project.id)} className="focus:outline-none focus:ring-2 focus:ring-[#D58258] rounded-md" aria-label={t('projects.openNamed', { name: project.name })}>
+        <ProjectThumbnail file={project.thumbnail} />
+      </button>
+      {isRenaming ? (
+        <input
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={submitRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') submitRename();
+            if (e.key === 'Escape') { setName(project.name); setIsRenaming(false); }
+          }}
+          className="bg-[#2b1a17] border border-[#ECB984]/30 text-[#FFFEE9] rounded px-2 py-1 text-sm focus:ring-2 focus:ring-[#D58258] focus:outline-none"
+        />
+      ) : (
+        <p className="font-semibold text-[#FFFEE9] truncate" title={project.name}>{project.name}</p>
+      )}
+      <p className="text-xs text-[#ECB984]/70">
+        {t('projects.imageCount', { count: project.imageCount })} · {formatDate(project.updatedAt)}
+      </p>
+      <div className="flex flex-wrap gap-3">
+        <button onClick={() => onOpen(project.id)} className={actionClass}>{t('projects.open')}</button>
+        <button onClick={() => setIsRenaming(true)} className={actionClass}>{t('projects.rename')}</button>
+        <button onClick={() => onDuplicate(project.id)} className={actionClass}>{t('projects.duplicate')}</button>
+        <button onClick={handleDelete} className={actionClass}>{t('projects.delete')}</button>
+      </div>
+    </div>
+  );
+};
+
+const ProjectList: React.FC<ProjectListProps> = ({ projects, storageEstimate, ...actions }) => {
+  const { t, formatBytes } = useI18n();
+
+  if (projects.length === 0 && !storageEstimate) {
+    return null;
+  }
+
+  const usagePercent = storageEstimate ? Math.min(100, (storageEstimate.usage / storageEstimate.quota) * 100) : 0;
+
+  return (
+    <div className="w-full mt-12 flex flex-col gap-4">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-2">
+        <h2 className="text-2xl font-bold text-[#FFFEE9] text-left">{t('projects.title')}</h2>
+        {storageEstimate && (
+          <div className="w-full sm:w-64 text-left">
+            <p className="text-xs text-[#ECB984]/80 mb-1">
+              {t('projects.storage', { used: formatBytes(storageEstimate.usage), quota: formatBytes(storageEstimate.quota) })}
+            </p>
+            <div className="h-2 w-full rounded-full bg-[#2b1a17]/80 overflow-hidden">
+              <div
+                className={`h-full ${usagePercent > 80 ? 'bg-[#963A2F]' : 'bg-[#D58258]'}`}
+                style={{ width: `${usagePercent}%` }}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+      {projects.length > 0 ? (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {projects.map(project => (
+            <ProjectCard key={project.id} project={project} {...actions} />
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-[#ECB984]/70 text-left">{t('projects.empty')}</p>
+      )}
+    </div>
+  );
+};
+
+export default ProjectList;
@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import MaskOptions, { type MaskSettings } from './MaskOptions.tsx';
+import { MagicWandIcon, LoadingSpinnerIcon } from './icons.tsx';
+import PresetPicker, { type PresetLibraryProps } from './PresetPicker.tsx';
+import { useI18n } from '../services/i18n.ts';
+
+export interface RetouchPanelProps {
+  /** 'points' edits around clicked spots, 'brush' edits a painted mask. */
+  mode: 'points' | 'brush';
+  prompt: string;
+  onPromptChange: (prompt: string) => void;
+  onGenerate: () => void;
+  onRandomPrompt: () => void;
+  isGeneratingIdea: boolean;
+  hotspotCount: number;
+  onClearHotspots: () => void;
+  hasMask: boolean;
+  maskSettings: MaskSettings;
+  onMaskSettingsChange: (settings: MaskSettings) => void;
+  onClearMask: () => void;
+  asLayer: boolean;
+  onAsLayerChange: (asLayer: boolean) => void;
+  /** Patches can only become layers when a single result is generated. */
+  canUseLayer: boolean;
+  /** Points mode: blend back only the changed area instead of taking the whole model output. */
+  preserveResolution: boolean;
+  onPreserveResolutionChange: (preserve: boolean) => void;
+  presetLibrary: PresetLibraryProps;
+  isLoading: boolean;
+}
+
+const RetouchPanel: React.FC<RetouchPanelProps> = ({
+  mode, prompt, onPromptChange, onGenerate, onRandomPrompt, isGeneratingIdea, hotspotCount, onClearHotspots,
+  hasMask, maskSettings, onMaskSettingsChange, onClearMask, asLayer, onAsLayerChange, canUseLayer,
+  preserveResolution, onPreserveResolutionChange, presetLibrary, isLoading,
+}) => {
+  const { t } = useI18n();
+  const [presetId, setPresetId] = useState<string | null>(null);
+  const hasSelection = mode === 'brush' ? hasMask : hotspotCount > 0;
+
+  const handlePresetSelect = (id: string | null, presetPrompt: string) => {
+    setPresetId(id);
+    onPromptChange(presetPrompt);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      {mode === 'brush' && (
+        <>
+          <MaskOptions
+            settings={maskSettings}
+            onChange={onMaskSettingsChange}
+            onClear={onClearMask}
+            hasMask={hasMask}
+            isLoading={isLoading}
+          />
+          <label className="flex items-center gap-2 self-start text-sm text-[#ECB984] cursor-pointer" title={canUseLayer ? undefined : t('retouch.layerUnavailable')}>
+            <input
+              type="checkbox"
+              checked={asLayer && canUseLayer}
+              onChange={(e) => onAsLayerChange(e.target.checked)}
+              disabled={isLoading || !canUseLayer}
+              className="accent-[#D58258]"
+            />
+            {t('retouch.asLayer')}
+          </label>
+        </>
+      )}
+      {mode === 'points' && (
+        <label className="flex items-center gap-2 self-start text-sm text-[#ECB984] cursor-pointer" title={t('retouch.preserveResolutionHint')}>
+          <input
+            type="checkbox"
+            checked={preserveResolution}
+            onChange={(e) => onPreserveResolutionChange(e.target.checked)}
+            disabled={isLoading}
+            className="accent-[#D58258]"
+          />
+          {t('retouch.preserveResolution')}
+        </label>
+      )}
+      <div className="flex justify-between items-center w-full">
+        <p className="text-md text-[#ECB984]">
+          {mode === 'brush'
+            ? (hasMask ? t('retouch.hint.masked') : t('retouch.hint.paint'))
+            : (hotspotCount > 0 ? t('retouch.hint.points', { count: hotspotCount }) : t('retouch.hint.click'))}
+        </p>
+        {mode === 'points' && hotspotCount > 0 && (
+          <button
+            onClick={onClearHotspots}
+            className="text-sm text-[#ECB984]/80 hover:text-[#ECB984] underline transition-colors"
+          >
+            {t('retouch.clearPoints')}
+          </button>
+        )}
+      </div>
+      <PresetPicker
+        {...presetLibrary}
+        kind="retouch"
+        selectedId={presetId}
+        onSelect={handlePresetSelect}
+        isLoading={isLoading || !hasSelection}
+      />
+      <form onSubmit={(e) => { e.preventDefault(); onGenerate(); }} className="w-full flex items-center gap-2 mt-2">
+        <div className="relative flex-grow">
+          <input
+            type="text"
+            value={prompt}
+            onChange={(e) => { onPromptChange(e.target.value); setPresetId(null); }}
+            placeholder={hasSelection ? t('retouch.placeholder') : (mode === 'brush' ? t('retouch.placeholderPaintFirst') : t('retouch.placeholderClickFirst'))}
+            className="flex-grow bg-[#4a2c27] border border-[#ECB984]/20 text-[#FFFEE9] rounded-lg p-5 text-lg focus:ring-2 focus:ring-[#D58258] focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 pr-12"
+            disabled={isLoading || !hasSelection}
+          />
+          <button
+            type="button"
+            onClick={onRandomPrompt}
+            disabled={isLoading || !hasSelection || isGeneratingIdea}
+            className="absolute top-1/2 right-4 -translate-y-1/2 text-[#ECB984]/60 hover:text-[#ECB984] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label={t('common.randomIdea')}
+            title={t('common.randomIdeaTitle')}
+          >
+            {isGeneratingIdea ? <LoadingSpinnerIcon className="w-5 h-5"/> : <MagicWandIcon className="w-5 h-5" />}
+          </button>
+        </div>
+        <button
+          type="submit"
+          className="bg-gradient-to-br from-[#D58258] to-[#c7724a] text-white font-bold py-5 px-8 text-lg rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-[#D58258]/30 hover:shadow-xl hover:shadow-[#D58258]/40 hover:-translate-y-px active:scale-95 active:shadow-inner disabled:from-[#9d6246] disabled:to-[#8a553c] disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+          disabled={isLoading || !prompt.trim() || !hasSelection}
+        >
+          {t('common.generate')}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default RetouchPanel;
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import {
+  type ShortcutAction, type ShortcutActionId, type ShortcutGroup, SHORTCUT_GROUP_LABELS,
+  getBindings, rebindShortcut, resetShortcut, resetAllShortcuts, comboFromEvent, formatCombo, useShortcutOverrides,
+} from '../services/shortcuts.ts';
+import { useI18n } from '../services/i18n.ts';
+
+interface ShortcutSheetProps {
+  actions: ShortcutAction[];
+  onClose: () => void;
+}
+
+const button = 'px-2 py-1 rounded-md text-xs font-semibold bg-[#FFFEE9]/10 hover:bg-[#FFFEE9]/20 text-[#FFFEE9] transition-colors disabled:opacity-40';
+const kbdClass = 'text-xs font-mono text-[#ECB984] bg-[#2b1a17] border border-[#ECB984]/20 rounded px-1.5 py-0.5';
+
+/** Lists every shortcut by group and lets the user rebind them; changes apply immediately. */
+const ShortcutSheet: React.FC<ShortcutSheetProps> = ({ actions, onClose }) => {
+  const { t } = useI18n();
+  const overrides = useShortcutOverrides();
+  const [recordingId, setRecordingId] = useState<ShortcutActionId | null>(null);
+
+  // While recording, the next key combo becomes the binding; Escape cancels, Backspace unbinds.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!recordingId) {
+        if (e.key === 'Escape') onClose();
+        return;
+      }
+      const combo = comboFromEvent(e);
+      if (!combo) return;
+      e.preventDefault();
+      e.stopPropagation();
+      if (combo !== 'Escape') rebindShortcut(actions, recordingId, combo === 'Backspace' ? null : combo);
+      setRecordingId(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recordingId, actions, onClose]);
+
+  const groups = Object.keys(SHORTCUT_GROUP_LABELS) as ShortcutGroup[];
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-[#2b1a17]/80 flex items-center justify-center p-4 animate-fade-in" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-sheet-title"
+        className="w-full max-w-3xl max-h-[85vh] bg-[#4a2c27] border border-[#ECB984]/20 rounded-xl p-4 flex flex-col gap-3 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex flex-wrap items-center gap-2">
+          <h2 id="shortcut-sheet-title" className="text-lg font-bold text-[#ECB984] mr-auto">{t('shortcuts.title')}</h2>
+          <button onClick={resetAllShortcuts} disabled={Object.keys(overrides).length === 0} className={button}>{t('shortcuts.resetAll')}</button>
+          <button onClick={onClose} className={button} aria-label={t('common.close')}>✕</button>
+        </div>
+        <p className="text-xs text-[#ECB984]/70">{recordingId ? t('shortcuts.recording') : t('shortcuts.hint')}</p>
+
+        <div className="flex-grow overflow-y-auto min-h-0 grid gap-4 md:grid-cols-2">
+          {groups.map(group => (
+            <section key={group} className="flex flex-col gap-1">
+              <h3 className="text-sm font-semibold text-[#D58258] uppercase tracking-wide">{t(SHORTCUT_GROUP_LABELS[group])}</h3>
+              <ul className="flex flex-col">
+                {actions.filter(action => action.group === group && !action.hidden).map(action => {
+                  const bindings = getBindings(action, overrides);
+                  const isRecording = recordingId === action.id;
+                  return (
+                    <li key={action.id} className="flex items-center gap-2 py-1 border-b border-[#ECB984]/10">
+                      <span className="flex-grow min-w-0 text-sm text-[#FFFEE9]">{t(action.label)}</span>
+                      <span className="flex flex-wrap gap-1 justify-end">
+                        {isRecording
+                          ? <span className={`${kbdClass} animate-pulse`}>{t('shortcuts.pressKeys')}</span>
+                          : bindings.length > 0
+                            ? bindings.map(combo => <kbd key={combo} className={kbdClass}>{formatCombo(combo)}</kbd>)
+                            : <span className="text-xs text-[#ECB984]/50">{t('shortcuts.unbound')}</span>}
+                      </span>
+                      <button
+                        onClick={() => setRecordingId(isRecording ? null : action.id)}
+                        className={button}
+                        aria-pressed={isRecording}
+                        aria-label={t('shortcuts.change', { action: t(action.label) })}
+                      >
+                        {t('shortcuts.changeShort')}
+                      </button>
+                      <button
+                        onClick={() => resetShortcut(action.id)}
+                        disabled={!overrides[action.id]}
+                        className={button}
+                        aria-label={t('shortcuts.reset', { action: t(action.label) })}
+                        title={t('common.reset')}
+                      >
+                        ↺
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutSheet;
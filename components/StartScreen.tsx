@@ -5,18 +5,54 @@
 
 import React, { useState } from 'react';
 import { UploadIcon, MagicWandIcon, PaletteIcon, SunIcon } from './icons.tsx';
+import ProjectList from './ProjectList.tsx';
+import type { ProjectSummary } from '../types.ts';
+import { useI18n } from '../services/i18n.ts';
 
 interface StartScreenProps {
   onFileSelect: (files: FileList | null) => void;
+  onOpenCamera: () => void;
+  /** Resolves once the download has finished or failed. */
+  onImportUrl: (url: string) => Promise<void>;
+  projects: ProjectSummary[];
+  storageEstimate: { usage: number, quota: number } | null;
+  onOpenProject: (id: string) => void;
+  onRenameProject: (id: string, name: string) => void;
+  onDuplicateProject: (id: string) => void;
+  onDeleteProject: (id: string) => void;
 }
 
-const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect }) => {
+const StartScreen: React.FC<StartScreenProps> = ({
+  onFileSelect,
+  onOpenCamera,
+  onImportUrl,
+  projects,
+  storageEstimate,
+  onOpenProject,
+  onRenameProject,
+  onDuplicateProject,
+  onDeleteProject,
+}) => {
   const [isDraggingOver, setIsDraggingOver] = useState(false);
+  const [url, setUrl] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const { t } = useI18n();
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     onFileSelect(e.target.files);
   };
 
+  const handleUrlSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim() || isImporting) return;
+    setIsImporting(true);
+    try {
+      await onImportUrl(url.trim());
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   return (
     <div 
       className={`w-full max-w-5xl mx-auto text-center p-8 transition-all duration-300 rounded-2xl border-2 ${isDraggingOver ? 'bg-[#D58258]/10 border-dashed border-[#D58258]' : 'border-transparent'}`}
@@ -30,43 +66,78 @@ const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect }) => {
     >
       <div className="flex flex-col items-center gap-6 animate-fade-in">
         <h1 className="text-5xl font-extrabold tracking-tight text-[#FFFEE9] sm:text-6xl md:text-7xl">
-          Edit Foto dengan AI, <span className="text-[#D58258]">Jadi Mudah</span>.
+          {t('start.titleLead')} <span className="text-[#D58258]">{t('start.titleAccent')}</span>.
         </h1>
         <p className="max-w-2xl text-lg text-[#ECB984] md:text-xl">
-          Lakukan retouch, terapkan filter kreatif, atau buat penyesuaian profesional menggunakan perintah teks sederhana. Tanpa perlu alat yang rumit.
+          {t('start.intro')}
         </p>
 
         <div className="mt-6 flex flex-col items-center gap-4">
             <label htmlFor="image-upload-start" className="relative inline-flex items-center justify-center px-10 py-5 text-xl font-bold text-white bg-gradient-to-br from-[#D58258] to-[#c7724a] rounded-full cursor-pointer group hover:from-[#c7724a] hover:to-[#D58258] transition-all duration-300 ease-in-out shadow-lg hover:shadow-xl shadow-[#D58258]/30 hover:shadow-[#D58258]/40">
                 <UploadIcon className="w-6 h-6 mr-3 transition-transform duration-500 ease-in-out group-hover:rotate-[360deg] group-hover:scale-110" />
-                Unggah Gambar
+                {t('start.upload')}
             </label>
             <input id="image-upload-start" type="file" className="hidden" accept="image/*" onChange={handleFileChange} multiple />
-            <p className="text-sm text-[#ECB984]/70">atau seret dan lepas file</p>
+            <p className="text-sm text-[#ECB984]/70">{t('start.dropHint')}</p>
+            <div className="flex flex-wrap items-center justify-center gap-2">
+                <button
+                    onClick={onOpenCamera}
+                    className="bg-[#FFFEE9]/10 border border-[#FFFEE9]/20 text-[#FFFEE9] font-semibold py-2 px-4 rounded-md transition-all duration-200 hover:bg-[#FFFEE9]/20 active:scale-95 text-sm"
+                >
+                    {t('start.camera')}
+                </button>
+                <form onSubmit={handleUrlSubmit} className="flex items-center gap-2">
+                    <input
+                        type="url"
+                        value={url}
+                        onChange={(e) => setUrl(e.target.value)}
+                        placeholder={t('start.urlPlaceholder')}
+                        aria-label={t('start.urlLabel')}
+                        className="w-64 bg-[#2b1a17] border border-[#ECB984]/20 text-[#FFFEE9] rounded-md px-3 py-2 text-sm placeholder-[#ECB984]/50 focus:ring-2 focus:ring-[#D58258] focus:outline-none"
+                    />
+                    <button
+                        type="submit"
+                        disabled={!url.trim() || isImporting}
+                        className="bg-[#FFFEE9]/10 border border-[#FFFEE9]/20 text-[#FFFEE9] font-semibold py-2 px-4 rounded-md transition-all duration-200 hover:bg-[#FFFEE9]/20 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isImporting ? t('start.importing') : t('start.import')}
+                    </button>
+                </form>
+            </div>
+            <p className="text-xs text-[#ECB984]/60">{t('start.pasteHint')}</p>
         </div>
 
+        <ProjectList
+          projects={projects}
+          storageEstimate={storageEstimate}
+          onOpen={onOpenProject}
+          onRename={onRenameProject}
+          onDuplicate={onDuplicateProject}
+          onDelete={onDeleteProject}
+        />
+
         <div className="mt-16 w-full">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
                 <div className="bg-[#4a2c27]/60 p-6 rounded-lg border border-[#ECB984]/20 flex flex-col items-center text-center">
                     <div className="flex items-center justify-center w-12 h-12 bg-[#2b1a17] rounded-full mb-4">
                        <MagicWandIcon className="w-6 h-6 text-[#D58258]" />
                     </div>
-                    <h3 className="text-xl font-bold text-[#FFFEE9]">Retouch Presisi</h3>
-                    <p className="mt-2 text-[#ECB984]">Klik titik mana pun pada gambar Anda untuk menghilangkan noda, mengubah warna, atau menambahkan elemen dengan akurasi tinggi.</p>
+                    <h3 className="text-xl font-bold text-[#FFFEE9]">{t('start.feature.retouch.title')}</h3>
+                    <p className="mt-2 text-[#ECB984]">{t('start.feature.retouch.text')}</p>
                 </div>
                 <div className="bg-[#4a2c27]/60 p-6 rounded-lg border border-[#ECB984]/20 flex flex-col items-center text-center">
                     <div className="flex items-center justify-center w-12 h-12 bg-[#2b1a17] rounded-full mb-4">
                        <PaletteIcon className="w-6 h-6 text-[#D58258]" />
                     </div>
-                    <h3 className="text-xl font-bold text-[#FFFEE9]">Filter Kreatif</h3>
-                    <p className="mt-2 text-[#ECB984]">Ubah foto dengan gaya artistik. Dari tampilan vintage hingga cahaya futuristik, temukan atau ciptakan filter yang sempurna.</p>
+                    <h3 className="text-xl font-bold text-[#FFFEE9]">{t('start.feature.filters.title')}</h3>
+                    <p className="mt-2 text-[#ECB984]">{t('start.feature.filters.text')}</p>
                 </div>
                 <div className="bg-[#4a2c27]/60 p-6 rounded-lg border border-[#ECB984]/20 flex flex-col items-center text-center">
                     <div className="flex items-center justify-center w-12 h-12 bg-[#2b1a17] rounded-full mb-4">
                        <SunIcon className="w-6 h-6 text-[#D58258]" />
                     </div>
-                    <h3 className="text-xl font-bold text-[#FFFEE9]">Penyesuaian Pro</h3>
-                    <p className="mt-2 text-[#ECB984]">Tingkatkan pencahayaan, buramkan latar belakang, atau ubah suasana. Dapatkan hasil berkualitas studio tanpa alat yang rumit.</p>
+                    <h3 className="text-xl font-bold text-[#FFFEE9]">{t('start.feature.adjust.title')}</h3>
+                    <p className="mt-2 text-[#ECB984]">{t('start.feature.adjust.text')}</p>
                 </div>
             </div>
         </div>
@@ -4,44 +4,125 @@
 */
 
 import React, { useState, useEffect } from 'react';
+import type { ImageState, BatchItemState, BatchItemStatus } from '../types.ts';
+import { LoadingSpinnerIcon } from './icons.tsx';
+import { useI18n, type MessageKey } from '../services/i18n.ts';
+
+const statusLabels: { [key in BatchItemStatus]: MessageKey } = {
+  queued: 'thumbnails.status.queued',
+  running: 'thumbnails.status.running',
+  done: 'thumbnails.status.done',
+  failed: 'thumbnails.status.failed',
+};
+
+const statusClasses: { [key in BatchItemStatus]: string } = {
+  queued: 'bg-[#2b1a17]/80 text-[#ECB984]',
+  running: 'bg-[#D58258] text-white',
+  done: 'bg-[#A8A676] text-white',
+  failed: 'bg-red-600 text-white',
+};
 
 interface ThumbnailProps {
   imageUrl: string;
   isActive: boolean;
   onClick: () => void;
   'aria-label': string;
+  batchState?: BatchItemState;
+  onRetry?: () => void;
+  onRemove?: () => void;
+  /** Moves the image one place; Shift+Arrow keys do the same on a focused thumbnail. */
+  onMove?: (step: -1 | 1) => void;
+  isDropTarget?: boolean;
+  dragHandlers?: React.HTMLAttributes<HTMLDivElement>;
 }
 
-const Thumbnail: React.FC<ThumbnailProps> = ({ imageUrl, isActive, onClick, 'aria-label': ariaLabel }) => (
-  <button 
-    onClick={onClick} 
-    className={`relative rounded-md overflow-hidden flex-shrink-0 w-20 h-20 md:w-24 md:h-24 transition-all duration-200 focus:outline-none focus:ring-4 focus:ring-offset-2 focus:ring-offset-[#2b1a17] focus:ring-[#D58258] ${isActive ? 'ring-4 ring-[#D58258]' : 'ring-2 ring-transparent hover:ring-[#ECB984]/50'}`}
-    aria-label={ariaLabel}
-    aria-current={isActive}
-  >
-    <img src={imageUrl} alt="Thumbnail" className="w-full h-full object-cover" />
-  </button>
-);
-
+const Thumbnail: React.FC<ThumbnailProps> = ({ imageUrl, isActive, onClick, 'aria-label': ariaLabel, batchState, onRetry, onRemove, onMove, isDropTarget, dragHandlers }) => {
+  const { t } = useI18n();
+  return (
+    <div className={`relative flex-shrink-0 group rounded-md ${isDropTarget ? 'outline-dashed outline-2 outline-offset-2 outline-[#ECB984]' : ''}`} draggable={!!onMove} {...dragHandlers}>
+      <button 
+        onClick={onClick} 
+        onKeyDown={(e) => {
+          if (!onMove || !e.shiftKey || (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight')) return;
+          e.preventDefault();
+          onMove(e.key === 'ArrowLeft' ? -1 : 1);
+        }}
+        className={`relative block rounded-md overflow-hidden w-20 h-20 md:w-24 md:h-24 transition-all duration-200 focus:outline-none focus:ring-4 focus:ring-offset-2 focus:ring-offset-[#2b1a17] focus:ring-[#D58258] ${isActive ? 'ring-4 ring-[#D58258]' : 'ring-2 ring-transparent hover:ring-[#ECB984]/50'}`}
+        aria-label={ariaLabel}
+        aria-current={isActive}
+      >
+        <img src={imageUrl} alt={t('thumbnails.alt')} draggable={false} className={`w-full h-full object-cover ${batchState?.status === 'queued' || batchState?.status === 'running' ? 'opacity-60' : ''}`} />
+      </button>
+      {batchState && (
+        <span
+          className={`absolute bottom-1 left-1 flex items-center gap-1 text-[10px] font-bold px-1.5 py-0.5 rounded pointer-events-none ${statusClasses[batchState.status]}`}
+          title={batchState.error}
+        >
+          {batchState.status === 'running' && <LoadingSpinnerIcon className="w-3 h-3" />}
+          {t(statusLabels[batchState.status])}
+        </span>
+      )}
+      {batchState?.status === 'failed' && onRetry && (
+        <button
+          onClick={onRetry}
+          className="absolute top-1 right-1 text-[10px] font-bold bg-[#2b1a17]/90 text-[#FFFEE9] hover:bg-[#D58258] px-1.5 py-0.5 rounded transition-colors"
+          title={batchState.error ? t('thumbnails.retryFailed', { error: batchState.error }) : t('thumbnails.retryTitle')}
+        >
+          {t('thumbnails.retry')}
+        </button>
+      )}
+      {onRemove && (
+        <button
+          onClick={onRemove}
+          className="absolute top-1 left-1 w-5 h-5 flex items-center justify-center text-xs font-bold bg-[#2b1a17]/90 text-[#FFFEE9] hover:bg-red-600 rounded transition-all opacity-0 group-hover:opacity-100 focus:opacity-100"
+          aria-label={t('thumbnails.remove')}
+          title={t('thumbnails.remove')}
+        >
+          ✕
+        </button>
+      )}
+    </div>
+  );
+};
 
-interface ImageState {
-  history: File[];
-  historyIndex: number;
-}
 
 interface ThumbnailStripProps {
   images: ImageState[];
   activeImageIndex: number;
   onSelectImage: (index: number) => void;
+  /** Per-image status of the current or last batch, keyed by image id. */
+  batchStatus?: Record<string, BatchItemState>;
+  onRetryImage?: (index: number) => void;
+  onRemoveImage?: (index: number) => void;
+  onMoveImage?: (from: number, to: number) => void;
+  /** Appends images to the session; with it the strip shows even for a single image. */
+  onAddFiles?: (files: File[]) => void;
+  onOpenCamera?: () => void;
+  /** Retrying, removing and reordering are unavailable while another task is running. */
+  isLoading?: boolean;
 }
 
-const ThumbnailStrip: React.FC<ThumbnailStripProps> = ({ images, activeImageIndex, onSelectImage }) => {
+const ThumbnailStrip: React.FC<ThumbnailStripProps> = ({
+  images,
+  activeImageIndex,
+  onSelectImage,
+  batchStatus = {},
+  onRetryImage,
+  onRemoveImage,
+  onMoveImage,
+  onAddFiles,
+  onOpenCamera,
+  isLoading = false,
+}) => {
+  const { t } = useI18n();
   const [imageUrls, setImageUrls] = useState<string[]>([]);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
 
   useEffect(() => {
     // This effect creates Object URLs for the current state of each image.
     const urls = images.map(imgState => {
-      const currentFile = imgState.history[imgState.historyIndex];
+      const currentFile = imgState.history[imgState.historyIndex].file;
       return URL.createObjectURL(currentFile);
     });
     setImageUrls(urls);
@@ -52,23 +133,99 @@ const ThumbnailStrip: React.FC<ThumbnailStripProps> = ({ images, activeImageInde
     };
   }, [images]);
   
-  if (images.length <= 1) {
+  if (images.length === 0 || (images.length === 1 && !onAddFiles)) {
     return null;
   }
 
+  const canMove = !!onMoveImage && !isLoading && images.length > 1;
+  const canRemove = !!onRemoveImage && !isLoading && images.length > 1;
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  // Thumbnails are dragged to reorder; files dragged in from outside are added.
+  const dragHandlersFor = (index: number): React.HTMLAttributes<HTMLDivElement> => ({
+    onDragStart: (e) => {
+      e.dataTransfer.effectAllowed = 'move';
+      setDragIndex(index);
+    },
+    onDragOver: (e) => {
+      if (dragIndex === null) return;
+      e.preventDefault();
+      setDropIndex(index);
+    },
+    onDrop: (e) => {
+      if (dragIndex === null) return;
+      e.preventDefault();
+      e.stopPropagation();
+      if (dragIndex !== index) onMoveImage?.(dragIndex, index);
+      endDrag();
+    },
+    onDragEnd: endDrag,
+  });
+
   return (
-    <div className="w-full bg-[#2b1a17]/50 border border-[#ECB984]/20 rounded-lg p-3 backdrop-blur-sm animate-fade-in">
-      <div className="flex items-center gap-3 overflow-x-auto pb-2" role="toolbar" aria-label="Thumbnail gambar">
+    <div
+      className="w-full bg-[#2b1a17]/50 border border-[#ECB984]/20 rounded-lg p-3 backdrop-blur-sm animate-fade-in"
+      onDragOver={(e) => { if (onAddFiles && dragIndex === null && e.dataTransfer.types.includes('Files')) e.preventDefault(); }}
+      onDrop={(e) => {
+        if (!onAddFiles || dragIndex !== null) return;
+        e.preventDefault();
+        const files = Array.from(e.dataTransfer.files).filter(file => file.type.startsWith('image/'));
+        if (files.length > 0) onAddFiles(files);
+      }}
+    >
+      <div className="flex items-center gap-3 overflow-x-auto pb-2" role="toolbar" aria-label={t('thumbnails.label')}>
         {imageUrls.map((url, index) => (
           <Thumbnail
-            key={`${images[index].history[0].name}-${index}`}
+            key={images[index]?.id ?? index}
             imageUrl={url}
             isActive={index === activeImageIndex}
             onClick={() => onSelectImage(index)}
-            aria-label={`Pilih gambar ${index + 1}`}
+            aria-label={t('thumbnails.select', { index: index + 1 })}
+            batchState={images[index] && batchStatus[images[index].id]}
+            onRetry={onRetryImage && !isLoading ? () => onRetryImage(index) : undefined}
+            onRemove={canRemove ? () => onRemoveImage(index) : undefined}
+            onMove={canMove ? (step) => {
+              const target = index + step;
+              if (target >= 0 && target < images.length) onMoveImage(index, target);
+            } : undefined}
+            isDropTarget={dropIndex === index && dragIndex !== index}
+            dragHandlers={canMove ? dragHandlersFor(index) : undefined}
           />
         ))}
+        {onAddFiles && (
+          <div className="flex-shrink-0 w-20 h-20 md:w-24 md:h-24 flex flex-col gap-1">
+            <label
+              className="flex-grow flex items-center justify-center rounded-md border-2 border-dashed border-[#ECB984]/30 text-[#ECB984] text-xs font-semibold cursor-pointer hover:border-[#D58258] hover:text-[#D58258] transition-colors focus-within:ring-2 focus-within:ring-[#D58258]"
+              title={t('thumbnails.addTitle')}
+            >
+              {t('thumbnails.add')}
+              <input
+                type="file"
+                className="sr-only"
+                accept="image/*"
+                multiple
+                onChange={(e) => {
+                  if (e.target.files?.length) onAddFiles(Array.from(e.target.files));
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            {onOpenCamera && (
+              <button
+                onClick={onOpenCamera}
+                className="rounded-md bg-[#FFFEE9]/10 hover:bg-[#FFFEE9]/20 text-[#FFFEE9] text-[10px] font-semibold py-1 transition-colors"
+              >
+                {t('thumbnails.camera')}
+              </button>
+            )}
+          </div>
+        )}
       </div>
+      {canMove && <p className="text-[10px] text-[#ECB984]/50">{t('thumbnails.reorderHint')}</p>}
     </div>
   );
 };
@@ -2,3 +2,24 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import React from 'react';
+import type { ToolDefinition, ToolContext } from './tools.tsx';
+import { useI18n } from '../services/i18n.ts';
+
+interface ToolOptionsProps {
+  tool: ToolDefinition;
+  context: ToolContext;
+}
+
+/** Options panel of the active tool. */
+const ToolOptions: React.FC<ToolOptionsProps> = ({ tool, context }) => {
+  const { t } = useI18n();
+  return (
+    <div className="w-full" role="region" aria-label={t('toolOptions.label', { tool: t(tool.label) })}>
+      {tool.renderOptions(context)}
+    </div>
+  );
+};
+
+export default ToolOptions;
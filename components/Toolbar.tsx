@@ -2,3 +2,50 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import React from 'react';
+import type { ToolId } from '../types.ts';
+import type { ToolDefinition } from './tools.tsx';
+import { useI18n } from '../services/i18n.ts';
+import { formatCombo } from '../services/shortcuts.ts';
+
+interface ToolbarProps {
+  tools: ToolDefinition[];
+  activeToolId: ToolId;
+  onSelectTool: (id: ToolId) => void;
+  /** The combos that select each tool; the keys themselves are handled in App. */
+  shortcuts: Partial<Record<ToolId, string[]>>;
+}
+
+const Toolbar: React.FC<ToolbarProps> = ({ tools, activeToolId, onSelectTool, shortcuts }) => {
+  const { t } = useI18n();
+
+  return (
+    <div role="toolbar" aria-label={t('toolbar.label')} className="w-full bg-[#4a2c27]/80 border border-[#ECB984]/20 rounded-lg p-2 flex flex-wrap items-center justify-center gap-2 backdrop-blur-sm">
+      {tools.map(({ id, label, description, icon: Icon }) => {
+        const combos = shortcuts[id] ?? [];
+        const shortcut = combos.map(formatCombo).join(' / ');
+        return (
+          <button
+            key={id}
+            onClick={() => onSelectTool(id)}
+            title={shortcut ? `${t(description)} (${shortcut})` : t(description)}
+            aria-pressed={activeToolId === id}
+            aria-keyshortcuts={combos.map(combo => combo.replace('Mod', 'Control')).join(' ') || undefined}
+            className={`flex-1 min-w-[7rem] flex items-center justify-center gap-2 font-semibold py-3 px-4 rounded-md transition-all duration-200 text-base ${
+              activeToolId === id
+                ? 'bg-gradient-to-br from-[#D58258] to-[#ECB984] text-[#4a2c27] shadow-lg shadow-[#ECB984]/20'
+                : 'text-[#ECB984] hover:text-[#FFFEE9] hover:bg-[#FFFEE9]/10'
+            }`}
+          >
+            <Icon className="w-5 h-5" />
+            {t(label)}
+            {combos[0] && <kbd className="hidden md:inline text-xs font-mono opacity-60">{formatCombo(combos[0])}</kbd>}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default Toolbar;
@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { computeUpscaleSize, isAutoUpscaleEnabled, setAutoUpscaleEnabled } from '../services/upscaler.ts';
+import { useI18n, type MessageKey } from '../services/i18n.ts';
+
+export type UpscaleMethod = 'ai' | 'lanczos';
+
+export interface UpscalePanelProps {
+  onUpscale: (factor: number, method: UpscaleMethod) => void;
+  /** Natural size of the current image. */
+  imageSize: { width: number, height: number } | null;
+  originalSize: { width: number, height: number } | null;
+  isLoading: boolean;
+}
+
+const FACTORS = [2, 4];
+
+const methods: { method: UpscaleMethod, label: MessageKey, description: MessageKey }[] = [
+  { method: 'ai', label: 'upscale.method.ai', description: 'upscale.method.aiDescription' },
+  { method: 'lanczos', label: 'upscale.method.lanczos', description: 'upscale.method.lanczosDescription' },
+];
+
+const UpscalePanel: React.FC<UpscalePanelProps> = ({ onUpscale, imageSize, originalSize, isLoading }) => {
+  const { t } = useI18n();
+  const [factor, setFactor] = useState(2);
+  const [method, setMethod] = useState<UpscaleMethod>('ai');
+  const [autoUpscale, setAutoUpscale] = useState(isAutoUpscaleEnabled);
+
+  const targetSize = imageSize && computeUpscaleSize(imageSize.width, imageSize.height, factor);
+  const isSmallerThanOriginal = !!imageSize && !!originalSize && imageSize.width * imageSize.height < originalSize.width * originalSize.height;
+
+  const handleAutoUpscaleChange = (enabled: boolean) => {
+    setAutoUpscaleEnabled(enabled);
+    setAutoUpscale(enabled);
+  };
+
+  const toggleClass = (active: boolean) => `px-4 py-2 rounded-md text-sm font-semibold transition-all duration-200 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed ${
+    active
+      ? 'bg-gradient-to-br from-[#D58258] to-[#c7724a] text-white shadow-md shadow-[#D58258]/30'
+      : 'bg-[#FFFEE9]/10 hover:bg-[#FFFEE9]/20 text-[#FFFEE9]'
+  }`;
+
+  return (
+    <div className="w-full bg-[#4a2c27]/80 border border-[#ECB984]/20 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <div>
+        <h3 className="text-lg font-semibold text-center text-[#ECB984]">{t('upscale.title')}</h3>
+        <p className="text-sm text-center text-[#ECB984]/80">
+          {imageSize ? t('upscale.currentSize', { width: imageSize.width, height: imageSize.height }) : t('upscale.loadingSize')}
+          {isSmallerThanOriginal && originalSize && ` — ${t('upscale.smallerThanOriginal', { width: originalSize.width, height: originalSize.height })}`}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        {FACTORS.map(f => {
+          const size = imageSize && computeUpscaleSize(imageSize.width, imageSize.height, f);
+          return (
+            <button
+              key={f}
+              onClick={() => setFactor(f)}
+              disabled={isLoading || (!!imageSize && !size)}
+              className={toggleClass(factor === f)}
+              title={imageSize && !size ? t('upscale.tooLarge') : undefined}
+            >
+              {f}x
+            </button>
+          );
+        })}
+        <span className="w-px h-6 bg-[#ECB984]/30 mx-2" />
+        {methods.map(m => (
+          <button key={m.method} onClick={() => setMethod(m.method)} disabled={isLoading} className={toggleClass(method === m.method)} title={t(m.description)}>
+            {t(m.label)}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-sm text-center text-[#ECB984]/80">
+        {targetSize ? `${t('upscale.result', { width: targetSize.width, height: targetSize.height })} ` : imageSize ? `${t('upscale.exceedsCanvas')} ` : ''}
+        {t(methods.find(m => m.method === method)!.description)}
+      </p>
+
+      <label className="flex items-start gap-3 text-sm text-[#ECB984] cursor-pointer">
+        <input
+          type="checkbox"
+          checked={autoUpscale}
+          onChange={(e) => handleAutoUpscaleChange(e.target.checked)}
+          className="mt-1 accent-[#D58258]"
+        />
+        <span>
+          <span className="font-semibold text-[#FFFEE9]">{t('upscale.auto')}</span>
+          <span className="block text-xs text-[#ECB984]/70">{t('upscale.autoDescription')}</span>
+        </span>
+      </label>
+
+      <button
+        onClick={() => onUpscale(factor, method)}
+        disabled={isLoading || !targetSize}
+        className="w-full bg-gradient-to-br from-[#D58258] to-[#c7724a] text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-[#D58258]/20 hover:shadow-xl hover:shadow-[#D58258]/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-[#9d6246] disabled:to-[#8a553c] disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+      >
+        {t('upscale.submit', { factor })}
+      </button>
+    </div>
+  );
+};
+
+export default UpscalePanel;
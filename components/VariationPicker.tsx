@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useMemo } from 'react';
+import type { CandidateSet } from '../types.ts';
+import { EyeIcon } from './icons.tsx';
+import { useI18n } from '../services/i18n.ts';
+
+interface VariationPickerProps {
+  candidates: CandidateSet;
+  onChoose: (index: number) => void;
+  onDismiss: () => void;
+  isLoading: boolean;
+}
+
+const useObjectUrls = (files: File[]): string[] => {
+  const [urls, setUrls] = useState<string[]>([]);
+  useEffect(() => {
+    const created = files.map(file => URL.createObjectURL(file));
+    setUrls(created);
+    return () => created.forEach(URL.revokeObjectURL);
+  }, [files]);
+  return urls;
+};
+
+// Press-and-hold handlers shared by the compare buttons.
+const holdHandlers = (setHolding: (holding: boolean) => void) => ({
+  onMouseDown: () => setHolding(true),
+  onMouseUp: () => setHolding(false),
+  onMouseLeave: () => setHolding(false),
+  onTouchStart: () => setHolding(true),
+  onTouchEnd: () => setHolding(false),
+});
+
+const VariationPicker: React.FC<VariationPickerProps> = ({ candidates, onChoose, onDismiss, isLoading }) => {
+  const { t } = useI18n();
+  const urls = useObjectUrls(candidates.files);
+  const [baseUrl] = useObjectUrls(useMemo(() => [candidates.baseFile], [candidates.baseFile]));
+  const [zoomedIndex, setZoomedIndex] = useState<number | null>(null);
+  const [comparingIndex, setComparingIndex] = useState<number | null>(null);
+
+  const chooseButton = (index: number, className = '') => {
+    const isChosen = candidates.chosen.includes(index);
+    return (
+      <button
+        onClick={() => onChoose(index)}
+        disabled={isLoading}
+        className={`bg-gradient-to-br from-[#D58258] to-[#c7724a] text-white font-bold py-2 px-4 rounded-md transition-all duration-200 active:scale-95 text-sm disabled:opacity-50 disabled:cursor-not-allowed ${className}`}
+      >
+        {t(isChosen ? 'variations.chooseAgain' : 'variations.choose')}
+      </button>
+    );
+  };
+
+  return (
+    <div className="w-full bg-[#4a2c27]/80 border border-[#ECB984]/20 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-[#ECB984]">{t('variations.title')}</h3>
+          {candidates.details.prompt && <p className="text-sm text-[#ECB984]/80 truncate">"{candidates.details.prompt}"</p>}
+        </div>
+        <button
+          onClick={onDismiss}
+          className="text-sm text-[#ECB984]/80 hover:text-[#ECB984] underline transition-colors"
+        >
+          {t('variations.close')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {urls.map((url, index) => (
+          <div key={url} className={`relative flex flex-col gap-2 p-2 rounded-lg bg-[#2b1a17]/50 ${candidates.chosen.includes(index) ? 'ring-2 ring-[#A8A676]' : ''}`}>
+            <button onClick={() => setZoomedIndex(index)} className="rounded-md overflow-hidden focus:outline-none focus:ring-2 focus:ring-[#D58258]" aria-label={t('variations.zoom', { index: index + 1 })}>
+              <img
+                src={comparingIndex === index && baseUrl ? baseUrl : url}
+                alt={t('variations.alt', { index: index + 1 })}
+                className="w-full h-32 object-cover"
+              />
+            </button>
+            <div className="flex items-center gap-2">
+              {chooseButton(index, 'flex-grow')}
+              <button
+                {...holdHandlers(holding => setComparingIndex(holding ? index : null))}
+                className="p-2 rounded-md bg-[#FFFEE9]/10 hover:bg-[#FFFEE9]/20 text-[#FFFEE9]"
+                aria-label={t('variations.holdToSeeCurrent')}
+                title={t('variations.holdToCompare')}
+              >
+                <EyeIcon className="w-4 h-4" />
+              </button>
+            </div>
+            {candidates.chosen.includes(index) && (
+              <span className="absolute top-3 left-3 text-xs font-bold bg-[#A8A676] text-white px-2 py-0.5 rounded">{t('variations.chosen')}</span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {zoomedIndex !== null && urls[zoomedIndex] && (
+        <div
+          className="fixed inset-0 z-[60] bg-[#2b1a17]/90 flex flex-col items-center justify-center gap-4 p-6 animate-fade-in"
+          onClick={() => setZoomedIndex(null)}
+        >
+          <img
+            src={comparingIndex === zoomedIndex && baseUrl ? baseUrl : urls[zoomedIndex]}
+            alt={t('variations.alt', { index: zoomedIndex + 1 })}
+            className="max-w-full max-h-[80vh] object-contain rounded-xl shadow-2xl"
+          />
+          <div className="flex items-center gap-3" onClick={(e) => e.stopPropagation()}>
+            <button
+              onClick={() => setZoomedIndex((zoomedIndex - 1 + urls.length) % urls.length)}
+              className="py-2 px-4 rounded-md bg-[#FFFEE9]/10 hover:bg-[#FFFEE9]/20 text-[#FFFEE9] font-semibold"
+            >
+              ‹
+            </button>
+            <button
+              {...holdHandlers(holding => setComparingIndex(holding ? zoomedIndex : null))}
+              className="flex items-center py-2 px-4 rounded-md bg-[#FFFEE9]/10 hover:bg-[#FFFEE9]/20 text-[#FFFEE9] font-semibold"
+            >
+              <EyeIcon className="w-5 h-5 mr-2" />
+              {t('variations.compare')}
+            </button>
+            {chooseButton(zoomedIndex)}
+            <button
+              onClick={() => setZoomedIndex((zoomedIndex + 1) % urls.length)}
+              className="py-2 px-4 rounded-md bg-[#FFFEE9]/10 hover:bg-[#FFFEE9]/20 text-[#FFFEE9] font-semibold"
+            >
+              ›
+            </button>
+            <span className="text-sm text-[#ECB984]">{zoomedIndex + 1} / {urls.length}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VariationPicker;
@@ -0,0 +1,263 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef } from 'react';
+import type { Point, Size } from '../services/geometry.ts';
+import { useI18n } from '../services/i18n.ts';
+
+interface ViewportProps {
+  /** Natural size of the content; null while it is still loading. */
+  contentSize: Size | null;
+  /** Picture for the navigator; without it the navigator is hidden. */
+  navigatorSrc?: string;
+  /** Fills a stage of the content's natural size times the zoom, so overlays can map pointer input with their own bounding box. */
+  children: React.ReactNode;
+  /** Controlled zoom and pan, for keeping several viewports in step. */
+  view?: ViewState;
+  onViewChange?: (view: ViewState) => void;
+}
+
+export interface ViewState {
+  /** Display pixels per natural pixel; null follows the fit-to-box scale. */
+  scale: number | null;
+  /** Stage offset from the viewport's top-left corner. */
+  pan: Point;
+}
+
+type Gesture =
+  | { kind: 'pan', pointerId: number, start: Point, startPan: Point }
+  | { kind: 'pinch', startDistance: number, startMid: Point, startScale: number, startPan: Point };
+
+const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.25;
+const NAVIGATOR_EDGE_PX = 140;
+/** From this zoom on, pixels are drawn as crisp squares. */
+const PIXELATED_FROM = 2;
+
+const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLElement && !!target.closest('input, textarea, select, button, [contenteditable="true"]');
+
+// Zoomable, pannable frame around the editing canvas: wheel or pinch to zoom, Space-drag or the
+// middle button to pan. Pan is clamped at render time, so window resizes never strand the view.
+export const FIT_VIEW: ViewState = { scale: null, pan: { x: 0, y: 0 } };
+
+const Viewport: React.FC<ViewportProps> = ({ contentSize, navigatorSrc, children, view: controlledView, onViewChange }) => {
+  const { t } = useI18n();
+  const rootRef = useRef<HTMLDivElement>(null);
+  const gestureRef = useRef<Gesture | null>(null);
+  const touchesRef = useRef(new Map<number, Point>());
+  const [box, setBox] = useState<Size>({ width: 0, height: 0 });
+  const [ownView, setOwnView] = useState<ViewState>(FIT_VIEW);
+  const view = controlledView ?? ownView;
+  const setView = onViewChange ?? setOwnView;
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+
+  const content = contentSize ?? box;
+  const fit = content.width > 0 && content.height > 0 && box.width > 0
+    ? Math.min(box.width / content.width, box.height / content.height)
+    : 1;
+  const minScale = Math.min(fit, 1);
+  const maxScale = Math.max(fit, MAX_ZOOM);
+  const scale = view.scale ?? fit;
+  const stage = { width: content.width * scale, height: content.height * scale };
+
+  const clampPan = (pan: Point, forScale: number): Point => {
+    const axis = (offset: number, boxLength: number, contentLength: number) => {
+      const length = contentLength * forScale;
+      return length <= boxLength ? (boxLength - length) / 2 : Math.min(0, Math.max(boxLength - length, offset));
+    };
+    return { x: axis(pan.x, box.width, content.width), y: axis(pan.y, box.height, content.height) };
+  };
+  const pan = clampPan(view.pan, scale);
+
+  // Native listeners read the latest values through this ref.
+  const latest = useRef({ scale, pan, minScale, maxScale, setView });
+  latest.current = { scale, pan, minScale, maxScale, setView };
+
+  const zoomAt = (nextScale: number, anchor: Point) => {
+    const { scale: from, pan: fromPan, minScale: min, maxScale: max, setView: update } = latest.current;
+    const to = Math.min(max, Math.max(min, nextScale));
+    update({
+      scale: to,
+      pan: { x: anchor.x - (anchor.x - fromPan.x) * to / from, y: anchor.y - (anchor.y - fromPan.y) * to / from },
+    });
+  };
+
+  const toLocal = (clientX: number, clientY: number): Point => {
+    const rect = rootRef.current!.getBoundingClientRect();
+    return { x: clientX - rect.left, y: clientY - rect.top };
+  };
+
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root) return;
+    const observer = new ResizeObserver(() => setBox({ width: root.clientWidth, height: root.clientHeight }));
+    observer.observe(root);
+    return () => observer.disconnect();
+  }, []);
+
+  // A different picture size starts over at fit; same-size edits keep the current view.
+  useEffect(() => {
+    setView(FIT_VIEW);
+  }, [contentSize?.width, contentSize?.height]);
+
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root) return;
+    const handleWheel = (e: WheelEvent) => {
+      const { scale: current, minScale: min } = latest.current;
+      // Zooming out at the smallest size scrolls the page as usual.
+      if (e.deltaY > 0 && current <= min) return;
+      e.preventDefault();
+      const delta = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY;
+      // Trackpad pinches arrive as ctrl+wheel with small deltas.
+      zoomAt(current * Math.exp(-delta * (e.ctrlKey ? 0.01 : 0.002)), toLocal(e.clientX, e.clientY));
+    };
+    root.addEventListener('wheel', handleWheel, { passive: false });
+    return () => root.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTextEntry(e.target)) return;
+      e.preventDefault();
+      setIsSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => { if (e.code === 'Space') setIsSpaceHeld(false); };
+    const handleBlur = () => setIsSpaceHeld(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  // Gestures are caught in the capture phase so the tools underneath never see them.
+  const handlePointerDownCapture = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType === 'touch') {
+      touchesRef.current.set(e.pointerId, toLocal(e.clientX, e.clientY));
+      if (touchesRef.current.size === 2) {
+        const [a, b] = [...touchesRef.current.values()];
+        gestureRef.current = {
+          kind: 'pinch',
+          startDistance: Math.hypot(a.x - b.x, a.y - b.y) || 1,
+          startMid: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+          startScale: scale,
+          startPan: pan,
+        };
+        e.stopPropagation();
+        return;
+      }
+    }
+    if (isSpaceHeld || e.button === 1) {
+      e.preventDefault();
+      e.stopPropagation();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      gestureRef.current = { kind: 'pan', pointerId: e.pointerId, start: { x: e.clientX, y: e.clientY }, startPan: pan };
+      setIsPanning(true);
+    }
+  };
+
+  const handlePointerMoveCapture = (e: React.PointerEvent<HTMLDivElement>) => {
+    const gesture = gestureRef.current;
+    if (e.pointerType === 'touch' && touchesRef.current.has(e.pointerId)) {
+      touchesRef.current.set(e.pointerId, toLocal(e.clientX, e.clientY));
+    }
+    if (gesture?.kind === 'pan' && gesture.pointerId === e.pointerId) {
+      e.stopPropagation();
+      setView({ scale, pan: { x: gesture.startPan.x + e.clientX - gesture.start.x, y: gesture.startPan.y + e.clientY - gesture.start.y } });
+    } else if (gesture?.kind === 'pinch' && touchesRef.current.size === 2) {
+      e.stopPropagation();
+      const [a, b] = [...touchesRef.current.values()];
+      const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+      const to = Math.min(maxScale, Math.max(minScale, gesture.startScale * Math.hypot(a.x - b.x, a.y - b.y) / gesture.startDistance));
+      // Keep the content point that started under the fingers under them.
+      const anchor = { x: (gesture.startMid.x - gesture.startPan.x) / gesture.startScale, y: (gesture.startMid.y - gesture.startPan.y) / gesture.startScale };
+      setView({ scale: to, pan: { x: mid.x - anchor.x * to, y: mid.y - anchor.y * to } });
+    }
+  };
+
+  const handlePointerUpCapture = (e: React.PointerEvent<HTMLDivElement>) => {
+    touchesRef.current.delete(e.pointerId);
+    const gesture = gestureRef.current;
+    if (gesture?.kind === 'pan' && gesture.pointerId === e.pointerId) {
+      e.stopPropagation();
+      gestureRef.current = null;
+      setIsPanning(false);
+    } else if (gesture?.kind === 'pinch' && touchesRef.current.size < 2) {
+      gestureRef.current = null;
+    }
+  };
+
+  const centre = { x: box.width / 2, y: box.height / 2 };
+  const showNavigator = !!navigatorSrc && !!contentSize && (stage.width > box.width + 1 || stage.height > box.height + 1);
+  const navigatorScale = contentSize ? NAVIGATOR_EDGE_PX / Math.max(contentSize.width, contentSize.height) : 0;
+
+  const handleNavigate = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.type === 'pointermove' && e.buttons !== 1) return;
+    e.stopPropagation();
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    const rect = e.currentTarget.getBoundingClientRect();
+    const point = { x: (e.clientX - rect.left) / navigatorScale, y: (e.clientY - rect.top) / navigatorScale };
+    setView({ scale, pan: { x: centre.x - point.x * scale, y: centre.y - point.y * scale } });
+  };
+
+  const controlButton = 'px-2 py-1 rounded-md text-xs font-semibold text-[#FFFEE9] hover:bg-[#FFFEE9]/20 transition-colors disabled:opacity-40';
+
+  return (
+    <div
+      ref={rootRef}
+      className={`relative w-full overflow-hidden touch-none ${isPanning ? 'cursor-grabbing' : isSpaceHeld ? 'cursor-grab' : ''}`}
+      style={{ aspectRatio: contentSize ? `${contentSize.width} / ${contentSize.height}` : '4 / 3', maxHeight: '60vh' }}
+      onPointerDownCapture={handlePointerDownCapture}
+      onPointerMoveCapture={handlePointerMoveCapture}
+      onPointerUpCapture={handlePointerUpCapture}
+      onPointerCancelCapture={handlePointerUpCapture}
+    >
+      <div
+        className={`absolute ${isSpaceHeld || isPanning ? 'pointer-events-none' : ''}`}
+        style={{ left: pan.x, top: pan.y, width: stage.width, height: stage.height, imageRendering: scale >= PIXELATED_FROM ? 'pixelated' : undefined }}
+      >
+        {children}
+      </div>
+
+      {showNavigator && contentSize && (
+        <div
+          className="absolute top-2 right-2 z-20 border border-[#ECB984]/40 rounded-md overflow-hidden shadow-lg bg-[#2b1a17] cursor-pointer"
+          style={{ width: contentSize.width * navigatorScale, height: contentSize.height * navigatorScale }}
+          onPointerDown={handleNavigate}
+          onPointerMove={handleNavigate}
+          aria-label={t('viewport.navigator')}
+          role="img"
+        >
+          <img src={navigatorSrc} alt="" className="w-full h-full pointer-events-none" draggable={false} />
+          <div
+            className="absolute border-2 border-[#D58258] bg-[#D58258]/10 pointer-events-none"
+            style={{
+              left: Math.max(0, -pan.x / scale) * navigatorScale,
+              top: Math.max(0, -pan.y / scale) * navigatorScale,
+              width: Math.min(contentSize.width, box.width / scale) * navigatorScale,
+              height: Math.min(contentSize.height, box.height / scale) * navigatorScale,
+            }}
+          />
+        </div>
+      )}
+
+      <div className="absolute bottom-2 right-2 z-20 flex items-center gap-1 bg-[#2b1a17]/80 border border-[#ECB984]/20 rounded-lg p-1 backdrop-blur-sm" title={t('viewport.hint')}>
+        <button onClick={() => zoomAt(scale / ZOOM_STEP, centre)} disabled={scale <= minScale} className={controlButton} aria-label={t('viewport.zoomOut')}>−</button>
+        <span className="w-12 text-center text-xs text-[#ECB984] tabular-nums">{Math.round(scale * 100)}%</span>
+        <button onClick={() => zoomAt(scale * ZOOM_STEP, centre)} disabled={scale >= maxScale} className={controlButton} aria-label={t('viewport.zoomIn')}>+</button>
+        <button onClick={() => setView(FIT_VIEW)} disabled={view.scale === null} className={controlButton}>{t('viewport.fit')}</button>
+        <button onClick={() => zoomAt(1, centre)} disabled={scale === 1} className={controlButton}>{t('viewport.actualSize')}</button>
+      </div>
+    </div>
+  );
+};
+
+export default Viewport;
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import type { ToolId, ToolInteraction } from '../types.ts';
+import type { MessageKey } from '../services/i18n.ts';
+import RetouchPanel, { type RetouchPanelProps } from './RetouchPanel.tsx';
+import ErasePanel, { type ErasePanelProps } from './ErasePanel.tsx';
+import UpscalePanel, { type UpscalePanelProps } from './UpscalePanel.tsx';
+import CropPanel from './CropPanel.tsx';
+import LocalAdjustmentPanel from './LocalAdjustmentPanel.tsx';
+import AdjustmentPanel from './AdjustmentPanel.tsx';
+import FilterPanel from './FilterPanel.tsx';
+import ProductSelector from './ProductSelector.tsx';
+import LayerPanel from './LayerPanel.tsx';
+import { BullseyeIcon, BrushIcon, EraserIcon, ExpandIcon, CropIcon, SunIcon, PaletteIcon, TagIcon, LayersIcon } from './icons.tsx';
+
+// The tool registry. A new tool declares itself here; App only needs to supply the
+// state its options panel reads through `ToolContext`.
+
+/** Editor state and actions handed to the options panels, grouped by panel. */
+export interface ToolContext {
+  retouch: Omit<RetouchPanelProps, 'mode'>;
+  erase: ErasePanelProps;
+  upscale: UpscalePanelProps;
+  crop: React.ComponentProps<typeof CropPanel>;
+  /** `resetKey` changes whenever the panel should start over from the current entry. */
+  localAdjustment: React.ComponentProps<typeof LocalAdjustmentPanel> & { resetKey: string };
+  adjustment: React.ComponentProps<typeof AdjustmentPanel>;
+  filters: React.ComponentProps<typeof FilterPanel>;
+  products: React.ComponentProps<typeof ProductSelector>;
+  layers: React.ComponentProps<typeof LayerPanel>;
+}
+
+export interface ToolDefinition {
+  id: ToolId;
+  label: MessageKey;
+  description: MessageKey;
+  icon: React.FC<{ className?: string }>;
+  /** Default letter key that selects the tool; users can remap it in the shortcut sheet. */
+  shortcut: string;
+  /** What pointer input on the photo does while the tool is active. */
+  interaction: ToolInteraction;
+  /** Whether the "Variasi" control applies to the tool's operations. */
+  supportsVariations: boolean;
+  renderOptions: (context: ToolContext) => React.ReactNode;
+}
+
+export const TOOLS: ToolDefinition[] = [
+  {
+    id: 'retouch',
+    label: 'tools.retouch.label',
+    description: 'tools.retouch.description',
+    icon: BullseyeIcon,
+    shortcut: 'R',
+    interaction: 'click',
+    supportsVariations: true,
+    renderOptions: (context) => <RetouchPanel mode="points" {...context.retouch} />,
+  },
+  {
+    id: 'brush',
+    label: 'tools.brush.label',
+    description: 'tools.brush.description',
+    icon: BrushIcon,
+    shortcut: 'B',
+    interaction: 'brush',
+    supportsVariations: true,
+    renderOptions: (context) => <RetouchPanel mode="brush" {...context.retouch} />,
+  },
+  {
+    id: 'erase',
+    label: 'tools.erase.label',
+    description: 'tools.erase.description',
+    icon: EraserIcon,
+    shortcut: 'E',
+    interaction: 'brush',
+    supportsVariations: true,
+    renderOptions: (context) => <ErasePanel {...context.erase} />,
+  },
+  {
+    id: 'upscale',
+    label: 'tools.upscale.label',
+    description: 'tools.upscale.description',
+    icon: ExpandIcon,
+    shortcut: 'U',
+    interaction: 'none',
+    supportsVariations: false,
+    renderOptions: (context) => <UpscalePanel {...context.upscale} />,
+  },
+  {
+    id: 'crop',
+    label: 'tools.crop.label',
+    description: 'tools.crop.description',
+    icon: CropIcon,
+    shortcut: 'C',
+    interaction: 'drag-rect',
+    supportsVariations: false,
+    renderOptions: (context) => <CropPanel {...context.crop} />,
+  },
+  {
+    id: 'adjust',
+    label: 'tools.adjust.label',
+    description: 'tools.adjust.description',
+    icon: SunIcon,
+    shortcut: 'A',
+    interaction: 'none',
+    supportsVariations: true,
+    renderOptions: ({ localAdjustment: { resetKey, ...localAdjustment }, adjustment }) => (
+      <div className="flex flex-col gap-4">
+        <LocalAdjustmentPanel key={resetKey} {...localAdjustment} />
+        <AdjustmentPanel {...adjustment} />
+      </div>
+    ),
+  },
+  {
+    id: 'filters',
+    label: 'tools.filters.label',
+    description: 'tools.filters.description',
+    icon: PaletteIcon,
+    shortcut: 'F',
+    interaction: 'none',
+    supportsVariations: true,
+    renderOptions: (context) => <FilterPanel {...context.filters} />,
+  },
+  {
+    id: 'products',
+    label: 'tools.products.label',
+    description: 'tools.products.description',
+    icon: TagIcon,
+    shortcut: 'P',
+    interaction: 'click',
+    supportsVariations: true,
+    renderOptions: (context) => <ProductSelector {...context.products} />,
+  },
+  {
+    id: 'layers',
+    label: 'tools.layers.label',
+    description: 'tools.layers.description',
+    icon: LayersIcon,
+    shortcut: 'L',
+    interaction: 'transform',
+    supportsVariations: false,
+    renderOptions: (context) => <LayerPanel {...context.layers} />,
+  },
+];
+
+/** Looks up a tool, falling back to the first one for ids saved by older versions. */
+export const getTool = (id: ToolId): ToolDefinition => TOOLS.find(tool => tool.id === id) ?? TOOLS[0];
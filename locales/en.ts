@@ -0,0 +1,628 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Message } from '../services/i18n.ts';
+import type { MessageKey } from './id.ts';
+
+// English. Typed against the Indonesian catalogue, so a missing key fails the type check.
+
+export const en: Record<MessageKey, Message> = {
+    // Errors thrown by the services (see services/appError.ts)
+    'error.unknown': 'An unknown error occurred.',
+    'error.quota': 'The AI model quota or rate limit was exceeded. Wait a moment and try again.',
+    'error.network': 'Could not reach the AI model service. Check your connection and try again.',
+    'error.serverError': 'The AI model service is having problems ({status}). Try again shortly.',
+    'error.timeout': 'The AI model did not respond within {seconds} seconds.',
+    'error.cancelled': 'The request was cancelled.',
+    'error.promptBlocked': 'Your request was blocked by the safety policy ({reason}). Try describing it in more general terms.',
+    'error.promptBlockedWithDetail': 'Your request was blocked by the safety policy ({reason}). Details: {detail} Try describing it in more general terms.',
+    'error.outputBlocked': 'Generating the image for {operation} was stopped by the safety policy ({reason}). Try a more direct prompt, or one less specific about changes to people.',
+    'error.noImage': 'The AI model returned no image for {operation}. This can happen because of safety filters or an overly complex request. Try a more direct prompt.',
+    'error.noImageWithText': 'The AI model returned no image for {operation}. It replied with text: "{text}"',
+    'error.noBackground': 'Background generation failed: the AI model returned no image.',
+    'error.noSuggestion': 'The AI returned no suggestion.',
+    'error.noReferences': 'Add at least one reference image.',
+    'error.providerUnknown': 'Model provider "{provider}" is not registered.',
+    'error.replayUnavailable': 'This request can no longer be replayed.',
+    'error.imageLoadFailed': 'Could not load the image.',
+    'error.canvasUnavailable': 'Could not create a canvas.',
+    'error.canvasExportFailed': 'Could not export the image.',
+    'error.exportFormatUnsupported': 'This browser cannot export {format}.',
+    'error.presetInvalidJson': 'The file is not valid JSON.',
+    'error.presetWrongFormat': 'This file is not a Sevaflow preset export.',
+    'error.presetEmpty': 'The file contains no valid presets.',
+    'error.storageOpenFailed': 'Could not open project storage.',
+    'error.storageFailed': 'The storage operation failed.',
+    'error.projectNotFound': 'Project not found.',
+    'error.maskEmpty': 'The masked area is empty.',
+    'error.imageNotFound': 'The image could not be found.',
+    'error.retouchNoLocalChange': 'Nothing changed around the edit points, so the image was left as it was.',
+    'error.clipboardUnsupported': 'This browser cannot copy images to the clipboard.',
+    'error.urlInvalid': 'The address must be an http or https URL.',
+    'error.urlFetchFailed': 'The server refused the request (status {status}).',
+    'error.urlBlocked': '{host} could not be reached or does not allow its images to be downloaded from other sites.',
+    'error.urlNotImage': 'That URL is not an image.',
+    'error.cameraUnsupported': 'No camera is available in this browser.',
+    'error.cameraDenied': 'Camera access was denied. Allow it in the browser settings.',
+    'error.cameraNotFound': 'No camera was found.',
+
+    // Model operations, named in error messages
+    'modelOperation.edit': 'the edit',
+    'modelOperation.filter': 'the filter',
+    'modelOperation.styleTransfer': 'the style transfer',
+    'modelOperation.adjustment': 'the adjustment',
+    'modelOperation.background': 'the background',
+    'modelOperation.backgroundReplacement': 'the background replacement',
+    'modelOperation.placement': 'the product placement',
+    'modelOperation.erase': 'the object removal',
+    'modelOperation.segment': 'the object selection',
+    'modelOperation.upscale': 'the upscale',
+    'modelOperation.prompt': 'the prompt idea',
+
+    // Export filename tokens (services/imageExport.ts)
+    'export.token.name': 'original file name',
+    'export.token.operations': 'edit history, e.g. retouch-filter',
+    'export.token.date': 'export date (YYYYMMDD)',
+    'export.token.time': 'export time (HHMMSS)',
+    'export.token.width': 'output width',
+    'export.token.height': 'output height',
+
+    // Preset library (services/presetLibrary.ts)
+    'presets.kind.filter': 'Filter',
+    'presets.kind.adjustment': 'Adjustment',
+    'presets.kind.retouch': 'Retouch',
+    'presets.kind.background': 'Background',
+    'presets.newName': 'New Preset',
+    'presets.builtin.synthwave': 'Synthwave',
+    'presets.builtin.anime': 'Anime',
+    'presets.builtin.lomo': 'Lomo',
+    'presets.builtin.glitch': 'Glitch',
+    'presets.builtin.blurBackground': 'Blur Background',
+    'presets.builtin.enhanceDetails': 'Enhance Details',
+    'presets.builtin.warmerLight': 'Warmer Light',
+    'presets.builtin.studioLight': 'Studio Lighting',
+    'presets.builtin.recolor': 'Recolor',
+    'presets.builtin.removeBlemish': 'Smooth Skin',
+    'presets.builtin.studioBackdrop': 'Studio Backdrop',
+    'presets.builtin.marbleTable': 'Marble Table',
+    'presets.category.retro': 'Retro',
+    'presets.category.illustration': 'Illustration',
+    'presets.category.digital': 'Digital',
+    'presets.category.focus': 'Focus',
+    'presets.category.light': 'Light',
+    'presets.category.color': 'Color',
+    'presets.category.portrait': 'Portrait',
+    'presets.category.studio': 'Studio',
+    'presets.category.product': 'Product',
+    'presets.variable.color': 'color',
+    'presets.variable.darkBlue': 'dark blue',
+    'presets.variable.intensity': 'intensity',
+    'presets.variable.subtle': 'subtle',
+    'presets.variable.lightGrey': 'light grey',
+
+    // Layers (services/layerRenderer.ts)
+    'layers.defaultTextName': 'Text',
+
+    // Start screen (components/StartScreen.tsx)
+    'start.titleLead': 'AI Photo Editing,',
+    'start.titleAccent': 'Made Simple',
+    'start.intro': 'Retouch photos, apply creative filters, or make professional adjustments with simple text prompts. No complicated tools required.',
+    'start.upload': 'Upload Images',
+    'start.dropHint': 'or drag and drop files',
+    'start.feature.retouch.title': 'Precise Retouching',
+    'start.feature.retouch.text': 'Click any point on your image to remove blemishes, change colors, or add elements with pinpoint accuracy.',
+    'start.feature.filters.title': 'Creative Filters',
+    'start.feature.filters.text': 'Transform photos with artistic styles. From vintage looks to futuristic glows, find or create the perfect filter.',
+    'start.feature.adjust.title': 'Pro Adjustments',
+    'start.feature.adjust.text': 'Enhance lighting, blur backgrounds, or change the mood. Get studio-quality results without complex tools.',
+
+    // Saved projects (components/ProjectList.tsx)
+    'projects.title': 'Saved Projects',
+    'projects.empty': 'No saved projects yet.',
+    'projects.storage': 'Storage: {used} of {quota}',
+    'projects.imageCount': { one: '{count} image', other: '{count} images' },
+    'projects.open': 'Open',
+    'projects.openNamed': 'Open project {name}',
+    'projects.rename': 'Rename',
+    'projects.duplicate': 'Duplicate',
+    'projects.copyName': '{name} (copy)',
+    'projects.delete': 'Delete',
+    'projects.confirmDelete': 'Delete project "{name}"? This cannot be undone.',
+
+    // Header (components/Header.tsx)
+    'header.language': 'Language',
+
+    // Toolbar and tool registry (components/Toolbar.tsx, components/tools.tsx)
+    'toolbar.label': 'Tools',
+    'toolOptions.label': '{tool} options',
+    'tools.retouch.label': 'Retouch',
+    'tools.retouch.description': 'Click spots on the photo, then describe the edit.',
+    'tools.brush.label': 'Mask Brush',
+    'tools.brush.description': 'Paint the area you want to edit.',
+    'tools.erase.label': 'Remove Object',
+    'tools.erase.description': 'Paint or click an unwanted object and remove it with AI.',
+    'tools.upscale.label': 'Upscale',
+    'tools.upscale.description': 'Enlarge the image 2x or 4x with AI or Lanczos.',
+    'tools.crop.label': 'Crop',
+    'tools.crop.description': 'Crop, rotate, straighten, flip and correct perspective.',
+    'tools.adjust.label': 'Adjust',
+    'tools.adjust.description': 'Tune light and color, or replace the background.',
+    'tools.filters.label': 'Filters',
+    'tools.filters.description': 'Apply a visual style with AI.',
+    'tools.products.label': 'Products',
+    'tools.products.description': 'Place a product from the library at the clicked spot.',
+    'tools.layers.label': 'Layers',
+    'tools.layers.description': 'Add text and images, then move, resize or rotate them.',
+
+    // Thumbnail strip (components/ThumbnailStrip.tsx)
+    'thumbnails.label': 'Image thumbnails',
+    'thumbnails.alt': 'Thumbnail',
+    'thumbnails.select': 'Select image {index}',
+    'thumbnails.status.queued': 'Queued',
+    'thumbnails.status.running': 'Running',
+    'thumbnails.status.done': 'Done',
+    'thumbnails.status.failed': 'Failed',
+    'thumbnails.retry': 'Retry',
+    'thumbnails.retryTitle': 'Try again',
+    'thumbnails.retryFailed': 'Failed: {error}. Click to try again.',
+
+    // History panel (components/HistoryPanel.tsx)
+    'history.title': 'Edit History',
+    'history.branch': 'Branch',
+    'history.hotspots': { one: '{count} spot', other: '{count} spots' },
+    'history.mask': 'mask',
+    'history.operation.original': 'Original',
+    'history.operation.retouch': 'Retouch',
+    'history.operation.filter': 'Filter',
+    'history.operation.styleTransfer': 'Style Transfer',
+    'history.operation.adjustment': 'AI Adjustment',
+    'history.operation.localAdjustment': 'Local Adjustment',
+    'history.operation.background': 'Background',
+    'history.operation.placement': 'Product Placement',
+    'history.operation.erase': 'Object Removal',
+    'history.operation.upscale': 'Upscale',
+    'history.operation.crop': 'Crop',
+    'history.operation.layers': 'Layers',
+
+    // Object removal and mask options (components/ErasePanel.tsx, components/MaskOptions.tsx)
+    'erase.mode.paint': 'Paint',
+    'erase.mode.pick': 'Auto Select',
+    'erase.hint.marked': 'Area marked. Add another object or remove it now.',
+    'erase.hint.pick': 'Click an object; AI will select the whole object.',
+    'erase.hint.paint': 'Paint over the object you want to remove.',
+    'erase.submit': 'Remove Object',
+    'mask.brush': 'Brush',
+    'mask.eraser': 'Eraser',
+    'mask.size': 'Size',
+    'mask.feather': 'Edge Softness',
+    'mask.invert': 'Invert Mask',
+    'mask.clear': 'Clear Mask',
+
+    // Retouch panel (components/RetouchPanel.tsx)
+    'common.generate': 'Generate',
+    'retouch.layerUnavailable': 'Unavailable when generating several variations',
+    'retouch.asLayer': 'Save the result as a separate layer',
+    'retouch.preserveResolutionHint': 'Unchanged areas keep their original pixels and resolution',
+    'retouch.preserveResolution': 'Keep original resolution (only blend the changed area)',
+    'retouch.hint.masked': 'Great! The area is marked. Describe your edit.',
+    'retouch.hint.paint': 'Paint the area of the image you want to edit.',
+    'retouch.hint.points': { one: 'Great! {count} spot selected. Describe your edit.', other: 'Great! {count} spots selected. Describe your edit.' },
+    'retouch.hint.click': 'Click an area of the image to make a precise edit.',
+    'retouch.clearPoints': 'Clear Spots',
+    'retouch.placeholder': "e.g. 'make my shirt blue'",
+    'retouch.placeholderPaintFirst': 'Paint an area on the image first',
+    'retouch.placeholderClickFirst': 'Click a spot on the image first',
+    'common.randomIdea': 'Get a random idea',
+    'common.randomIdeaTitle': 'Get a random idea from AI',
+
+    // Upscale panel (components/UpscalePanel.tsx)
+    'upscale.title': 'Upscale',
+    'upscale.currentSize': 'Current size {width}×{height}',
+    'upscale.loadingSize': 'Loading image size...',
+    'upscale.smallerThanOriginal': 'smaller than the original ({width}×{height}).',
+    'upscale.tooLarge': 'The result would be too large for the browser',
+    'upscale.method.ai': 'AI',
+    'upscale.method.aiDescription': 'Adds detail with AI; falls back to Lanczos on failure.',
+    'upscale.method.lanczos': 'Lanczos (local)',
+    'upscale.method.lanczosDescription': 'Fast, no AI, no new detail.',
+    'upscale.result': 'Result: {width}×{height}.',
+    'upscale.exceedsCanvas': "This factor exceeds the browser's canvas size limit.",
+    'upscale.auto': 'Restore AI results to their original size',
+    'upscale.autoDescription': 'Model results smaller than the step they were made from are enlarged with Lanczos before entering the history, so crops are kept. Results are never shrunk or stretched.',
+    'upscale.submit': 'Upscale {factor}x',
+
+    // Crop panel (components/CropPanel.tsx)
+    'crop.title': 'Crop & Rotate',
+    'crop.hint': "Drag on the image to select the crop area. The result always uses the photo's own pixels.",
+    'crop.aspect': 'Aspect Ratio:',
+    'crop.aspect.free': 'free',
+    'crop.apply': 'Apply Crop',
+    'crop.hint.straighten': 'Draw a line along the horizon or an edge that should be straight.',
+    'crop.hint.perspective': 'Drag the four corners onto the edges of something that should be rectangular.',
+    'crop.aspect.custom': 'custom',
+    'crop.customRatio.width': 'Ratio width',
+    'crop.customRatio.height': 'Ratio height',
+    'crop.platform': 'Platform sizes:',
+    'crop.preset.instagram': 'Instagram 4:5',
+    'crop.preset.story': 'Story 9:16',
+    'crop.preset.marketplace': 'Marketplace 1:1',
+    'crop.size': 'Crop size (px):',
+    'crop.width': 'Crop width',
+    'crop.height': 'Crop height',
+    'crop.output': 'Result {width} × {height} px',
+    'crop.rotateLeft': '⟲ Rotate left 90°',
+    'crop.rotateRight': '⟳ Rotate right 90°',
+    'crop.flipH': 'Flip horizontal',
+    'crop.flipV': 'Flip vertical',
+    'crop.straighten': 'Straighten',
+    'crop.straightenTool': 'Horizon line',
+    'crop.perspective': 'Perspective',
+    'crop.perspectiveHandle': 'Drag to correct the perspective',
+    'crop.resetPerspective': 'Reset perspective',
+    'crop.summary.perspective': 'perspective',
+    'crop.summary.rotate': 'rotate {degrees}°',
+    'crop.summary.size': '{width}×{height} px',
+
+    // Local adjustment panel (components/LocalAdjustmentPanel.tsx)
+    'common.reset': 'Reset',
+    'common.applyToThis': 'Apply to This Image',
+    'common.applyToAll': 'Apply to All',
+    'localAdjustment.title': 'Local Adjustment',
+    'localAdjustment.retweak': 'Changing the earlier adjustment without losing quality.',
+    'localAdjustment.onDevice': 'Processed right on your device, without AI.',
+    'localAdjustment.clickToReset': 'Click to reset',
+    'localAdjustment.exposure': 'Exposure',
+    'localAdjustment.contrast': 'Contrast',
+    'localAdjustment.highlights': 'Highlights',
+    'localAdjustment.shadows': 'Shadows',
+    'localAdjustment.temperature': 'Temperature',
+    'localAdjustment.tint': 'Tint',
+    'localAdjustment.saturation': 'Saturation',
+    'localAdjustment.vibrance': 'Vibrance',
+
+    // AI adjustment and background panel (components/AdjustmentPanel.tsx)
+    'common.or': 'Or',
+    'adjustment.title': 'Apply a Professional Adjustment',
+    'adjustment.placeholder': "Or describe an adjustment (e.g. 'turn the background into a forest')",
+    'background.title': 'Consistent Background Replacement',
+    'background.hint': 'Generate a new background or upload your own.',
+    'background.placeholder': "Describe the background (e.g. 'a calm beach at sunset')",
+    'background.upload': 'Upload Background Image',
+    'background.generatedAlt': 'Generated background',
+
+    // Filter and style transfer panel (components/FilterPanel.tsx)
+    'filter.title': 'Apply a Filter',
+    'filter.placeholder': "Or describe a custom filter (e.g. '80s synthwave glow')",
+    'styleTransfer.title': 'Style from Reference Images',
+    'styleTransfer.hint': 'Upload mood board photos and AI will match their colour, light and mood.',
+    'styleTransfer.reference': 'Reference {index}',
+    'styleTransfer.removeReference': 'Remove reference {index}',
+    'styleTransfer.add': 'Add',
+    'styleTransfer.placeholder': "Extra guidance (optional), e.g. 'colours only, no grain'",
+    'styleTransfer.strength': 'Strength',
+
+    // Preset picker and manager (components/PresetPicker.tsx, components/PresetManager.tsx)
+    'presetPicker.all': 'All',
+    'presetPicker.empty': 'No presets yet. Create one under "Manage Presets".',
+    'presetPicker.favorite': 'Mark {name} as favourite',
+    'presetPicker.unfavorite': 'Remove {name} from favourites',
+    'presetManager.title': 'Manage Presets',
+    'presetManager.imported': { one: '{count} preset imported. Click "Save" to use it.', other: '{count} presets imported. Click "Save" to use them.' },
+    'presetManager.resetConfirm': 'Replace the whole library with the built-in presets? Your own presets will be lost.',
+    'presetManager.import': 'Import JSON',
+    'presetManager.export': 'Export JSON',
+    'presetManager.restoreDefaults': 'Restore Defaults',
+    'presetManager.variableHint': 'Write variables as {example} or with a default value as {exampleWithDefault}; they are filled in when the preset is picked.',
+    'presetManager.exampleVariable': '{color}',
+    'presetManager.exampleVariableWithDefault': '{intensity=subtle}',
+    'presetManager.favorite': 'Mark as favourite',
+    'presetManager.unfavorite': 'Remove from favourites',
+    'presetManager.name': 'Preset name',
+    'presetManager.category': 'Category',
+    'presetManager.moveUp': 'Move up',
+    'presetManager.moveDown': 'Move down',
+    'presetManager.delete': 'Delete',
+    'presetManager.promptPlaceholder': "Prompt for the model, e.g. 'Give the photo a {mood=cozy} autumn look.'",
+    'presetManager.prompt': 'Prompt',
+    'presetManager.variables': 'Variables: {list}',
+    'presetManager.emptyKind': 'No {kind} presets yet.',
+    'presetManager.add': '+ {kind} Preset',
+    'presetManager.unsavedHint': 'Presets without a name or prompt are not saved.',
+    'common.cancel': 'Cancel',
+    'common.save': 'Save',
+
+    // Product library (components/ProductSelector.tsx, components/AddProductModal.tsx, components/ObjectCard.tsx)
+    'products.title': 'Product Placement',
+    'products.hint.select': 'Choose a product from your library.',
+    'products.hint.ready': 'Ready to place "{name}".',
+    'products.hint.click': 'Click on the photo to position "{name}".',
+    'products.search': 'Search by name or tag...',
+    'products.add': 'Add Product',
+    'products.empty': 'The product library is empty. Add a product photo to get started.',
+    'products.noMatch': 'No products match "{query}".',
+    'products.place': 'Place Product',
+    'products.saveFailed': 'Failed to save the product. {error}',
+    'products.preview': 'Product preview',
+    'products.choosePhoto': 'Choose a product photo',
+    'products.photoHint': 'Transparent PNGs give the best results',
+    'products.name': 'Name',
+    'products.namePlaceholder': 'e.g. 30ml Serum Bottle',
+    'products.tags': 'Tags',
+    'products.tagsHint': '(comma separated)',
+    'products.tagsPlaceholder': 'e.g. skincare, bottle, glass',
+    'products.delete': 'Delete',
+    'products.deleteLabel': 'Delete {name}',
+
+    // Layer panel and canvas (components/LayerPanel.tsx, components/EditorCanvas.tsx)
+    'layers.title': 'Layers',
+    'layers.hint': 'Drag a layer on the photo to move it, drag its corners to resize and the top handle to rotate.',
+    'layers.newText': 'New text',
+    'layers.addText': 'Add Text',
+    'layers.addImage': 'Add Image',
+    'layers.addProduct': 'Add from Product Library...',
+    'layers.empty': 'No layers yet. The base photo stays unchanged until export.',
+    'layers.hide': 'Hide',
+    'layers.show': 'Show',
+    'layers.lock': 'Lock',
+    'layers.unlock': 'Unlock',
+    'layers.kind.text': 'Text',
+    'layers.kind.image': 'Image',
+    'layers.opacity': 'Opacity',
+    'layers.blendMode': 'Blend mode',
+    'layers.color': 'Color',
+    'layers.fontSize': 'Size',
+    'layers.raise': 'Raise',
+    'layers.lower': 'Lower',
+    'layers.delete': 'Delete Layer',
+    'layers.rotateHint': 'Rotate (hold Shift for 15° steps)',
+    'layers.history.addText': 'Add text',
+    'layers.history.addImage': 'Add image "{name}"',
+    'layers.history.raise': 'Raise layer',
+    'layers.history.lower': 'Lower layer',
+    'layers.history.delete': 'Delete layer "{name}"',
+    'layers.history.opacity': 'Change layer opacity',
+    'layers.history.text': 'Change text',
+    'layers.history.fontSize': 'Change text size',
+    'layers.history.hide': 'Hide layer',
+    'layers.history.show': 'Show layer',
+    'layers.history.lock': 'Lock layer',
+    'layers.history.unlock': 'Unlock layer',
+    'layers.history.blendMode': 'Change blend mode',
+    'layers.history.color': 'Change text color',
+    'layers.history.move': 'Move layer',
+    'layers.history.scale': 'Resize layer',
+    'layers.history.rotate': 'Rotate layer',
+
+    // Variations and batch summary (components/VariationPicker.tsx, components/BatchSummary.tsx)
+    'variations.title': 'Choose a Variation',
+    'variations.close': 'Close Variations',
+    'variations.choose': 'Choose',
+    'variations.chooseAgain': 'Choose Again',
+    'variations.chosen': 'Chosen',
+    'variations.zoom': 'Enlarge variation {index}',
+    'variations.alt': 'Variation {index}',
+    'variations.holdToSeeCurrent': 'Press and hold to see the current image',
+    'variations.holdToCompare': 'Press and hold to compare',
+    'variations.compare': 'Compare',
+    'batch.title': 'Batch for {operation} finished',
+    'batch.succeeded': '{succeeded} of {total} succeeded',
+    'batch.failed': '{count} failed',
+    'batch.cancelled': '{count} cancelled',
+    'batch.duration': '{seconds} s',
+    'batch.image': 'Image {index}:',
+    'batch.retryFailed': 'Retry Failed',
+    'common.close': 'Close',
+
+    // Export dialog (components/ExportDialog.tsx)
+    'export.title': 'Export Image',
+    'export.format': 'Format',
+    'export.unsupported': 'Not supported by this browser',
+    'export.quality': 'Quality',
+    'export.size': 'Size',
+    'export.resize.none': 'Original size',
+    'export.resize.longEdge': 'Long edge',
+    'export.resize.dimensions': 'Exact size',
+    'export.width': 'Width',
+    'export.height': 'Height',
+    'export.sharpen': 'Sharpening',
+    'export.colorAndMetadata': 'Color & Metadata',
+    'export.colorProfile.srgb': 'sRGB (most compatible)',
+    'export.colorProfile.displayP3': 'Display P3 (wide gamut)',
+    'export.preserveExif': 'Keep EXIF from the original file',
+    'export.jpegOnly': '(JPEG only)',
+    'export.filename': 'File Name',
+    'export.submit': 'Export',
+    'export.failed': 'Failed to export the image. {error}',
+
+    // Bulk export (components/BulkExportDialog.tsx)
+    'bulkExport.title': 'Download All',
+    'bulkExport.description': { one: '{count} image in its latest version as a ZIP, using the last export settings ({format}).', other: '{count} images in their latest version as a ZIP, using the last export settings ({format}).' },
+    'bulkExport.includeHistory': 'Include history',
+    'bulkExport.includeHistoryDescription': 'Every edit step, including other branches.',
+    'bulkExport.includeOriginals': 'Include originals',
+    'bulkExport.includeOriginalsDescription': 'The uploaded files, unchanged.',
+    'bulkExport.includeManifest': 'Include JSON manifest',
+    'bulkExport.includeManifestDescription': 'Edits, prompts and timestamps per image.',
+    'bulkExport.progress': 'Processing {done} of {total}...',
+    'bulkExport.submit': 'Create ZIP',
+    'bulkExport.failed': 'Failed to create the ZIP. {error}',
+
+    // Curves editor (components/CurvesEditor.tsx)
+    'curves.hint': 'Click to add a point, drag to change it, double-click to remove it.',
+
+    // Model request inspector (components/DebugModal.tsx)
+    'debug.title': 'Model Request Inspector',
+    'debug.record': 'Record',
+    'debug.clear': 'Clear',
+    'debug.empty': 'No requests yet. Run an edit to record it.',
+    'debug.recordingOff': 'Recording is off. Tick "Record" and run an edit.',
+    'debug.replayed': 'replay',
+    'debug.selectEntry': 'Select a request to see its details.',
+    'debug.replay': 'Replay Request',
+    'debug.field.operation': 'Operation',
+    'debug.field.model': 'Model',
+    'debug.field.time': 'Time',
+    'debug.field.latency': 'Latency',
+    'debug.field.aspectRatio': 'Aspect ratio',
+    'debug.field.inputImages': 'Input images',
+    'debug.field.tokens': 'Tokens',
+    'debug.tokens': 'input {input}, output {output}, total {total}',
+    'debug.field.error': 'Error',
+    'debug.field.text': 'Response text',
+    'debug.field.prompt': 'Prompt',
+    'debug.output': 'Output {index}',
+
+    // Editor (App.tsx)
+    'app.projectName': 'Project {date}',
+    'app.failed.openProject': 'Failed to open the project. {error}',
+    'app.failed.generate': 'Failed to generate the image. {error}',
+    'app.failed.erase': 'Failed to remove the object. {error}',
+    'app.failed.detectObject': 'Failed to detect the object. {error}',
+    'app.failed.upscale': 'Failed to upscale the image. {error}',
+    'app.failed.applyOperation': 'Failed to apply {operation}. {error}',
+    'app.failed.adjustment': 'Failed to apply the adjustment. {error}',
+    'app.failed.generateBackground': 'Failed to generate the background. {error}',
+    'app.failed.applyBackground': 'Failed to apply the background. {error}',
+    'app.failed.deleteProduct': 'Failed to delete the product. {error}',
+    'app.failed.placeProduct': 'Failed to place the product. {error}',
+    'app.failed.crop': 'Failed to apply the crop. {error}',
+    'app.upscaleFallback': 'The AI upscale failed, so Lanczos was used instead. {error}',
+    'app.validation.noImage': 'No image is loaded to edit.',
+    'app.validation.noPrompt': 'Please enter a description for your edit.',
+    'app.validation.noMask': 'Please paint the area to edit on the image.',
+    'app.validation.noHotspot': 'Please click the image to pick the area to edit.',
+    'app.useFullOutput': 'Use full output',
+    'app.useFullOutputHint': 'Run again with "Keep original resolution" off: the whole image is replaced by the model output, which may have a lower resolution.',
+    'app.validation.noEraseTarget': 'Please mark the object to remove.',
+    'app.validation.upscaleTooLarge': 'The image is too large to upscale {factor}x in this browser.',
+    'app.validation.noTarget': 'No image is selected to apply {operation} to.',
+    'app.validation.noBackgroundReference': 'A background cannot be generated without a reference image.',
+    'app.validation.noBackground': 'There is no generated background to apply.',
+    'app.validation.noPlacement': 'Choose a product, then click where to place it on the image.',
+    'app.validation.noCrop': 'Please select an area to crop.',
+    'app.loading.cancelling': 'Cancelling...',
+    'app.loading.variations': 'AI is creating {count} variations...',
+    'app.loading.edit': 'AI is working...',
+    'app.loading.erase': 'AI is removing the object...',
+    'app.loading.detectObject': 'AI is detecting the object...',
+    'app.loading.upscaleAi': 'AI is upscaling {factor}x...',
+    'app.loading.upscale': 'Upscaling {factor}x...',
+    'app.loading.upscaleFallback': 'Upscaling {factor}x with Lanczos...',
+    'app.loading.batch': { one: 'Applying {operation} to {count} image...', other: 'Applying {operation} to {count} images...' },
+    'app.loading.batchProgress': 'Applying {operation}: {done} of {count} images done...',
+    'app.loading.operationVariations': 'AI is creating {count} variations of {operation}...',
+    'app.loading.operation': 'AI is applying {operation}...',
+    'app.loading.adjustment': 'Applying the adjustment...',
+    'app.loading.generateBackground': 'Generating the background...',
+    'app.loading.placement': 'AI is placing {name}...',
+    'app.loading.crop': 'Applying the crop...',
+    'app.patchLayerName': 'AI patch: {prompt}',
+    'app.patchLayerDescription': 'AI patch as a layer',
+    'app.styleTransferDescription': { one: '{count} reference, {strength}% strength', other: '{count} references, {strength}% strength' },
+    'app.errorTitle': 'Something Went Wrong',
+    'app.tryAgain': 'Try Again',
+    'app.variations': 'Variations',
+    'app.variationsHint': 'Create {count} results and pick the best',
+    'app.variationsSingle': 'Apply a single result directly',
+    'app.parallel': 'Parallel',
+    'app.parallelHint': { one: 'Process {count} image at a time when applying to all', other: 'Process up to {count} images at once when applying to all' },
+    'app.undo': 'Undo',
+    'app.undoLabel': 'Undo the last action',
+    'app.redo': 'Redo',
+    'app.redoLabel': 'Redo the last action',
+    'app.history': 'History ({count})',
+    'app.compare': 'Compare',
+    'app.compareLabel': 'Press and hold to see the original image',
+    'app.uploadNew': 'Upload New',
+    'app.download': 'Download Image',
+    'app.downloadAll': 'Download All',
+    'app.debugTitle': 'Model request inspector (Ctrl+Shift+D)',
+
+    // Viewport
+    'viewport.zoomIn': 'Zoom in',
+    'viewport.zoomOut': 'Zoom out',
+    'viewport.fit': 'Fit',
+    'viewport.actualSize': '100%',
+    'viewport.navigator': 'Navigator: click or drag to move around',
+    'viewport.hint': 'Scroll or pinch to zoom; hold Space and drag to pan',
+
+    // Comparison
+    'compare.open': 'Compare Modes',
+    'compare.openLabel': 'Compare any two history steps',
+    'compare.mode.split': 'Split',
+    'compare.mode.sideBySide': 'Side by side',
+    'compare.mode.difference': 'Difference',
+    'compare.before': 'Before',
+    'compare.after': 'After',
+    'compare.swap': 'Swap before and after',
+    'compare.close': 'Close comparison',
+    'compare.divider': 'Before/after divider',
+    'compare.step': '{index}. {operation} · {time}',
+    'compare.computing': 'Working out the differences…',
+    'compare.changed': '{percent} of pixels changed',
+    'compare.unchanged': 'No pixels changed',
+    'compare.sizeMismatch': 'The two steps differ in size, so the earlier image is stretched to fit.',
+
+    // Keyboard shortcuts and command palette
+    'palette.open': 'Commands',
+    'palette.title': 'Command palette',
+    'palette.placeholder': 'Search actions and presets…',
+    'palette.empty': 'Nothing matches',
+    'shortcuts.title': 'Keyboard shortcuts',
+    'shortcuts.hint': 'Click Change, then press the new key combination. Changes are saved right away.',
+    'shortcuts.recording': 'Press the new combination. Esc cancels, Backspace removes the shortcut.',
+    'shortcuts.pressKeys': 'Press keys…',
+    'shortcuts.unbound': 'None',
+    'shortcuts.changeShort': 'Change',
+    'shortcuts.change': 'Change the shortcut for {action}',
+    'shortcuts.reset': 'Restore the default shortcut for {action}',
+    'shortcuts.resetAll': 'Restore All',
+    'shortcuts.group.general': 'General',
+    'shortcuts.group.editing': 'Editing',
+    'shortcuts.group.images': 'Images',
+    'shortcuts.group.tools': 'Tools',
+    'shortcuts.action.commandPalette': 'Open the command palette',
+    'shortcuts.action.cheatSheet': 'Show keyboard shortcuts',
+    'shortcuts.action.debugInspector': 'Model request inspector',
+    'shortcuts.action.undo': 'Undo',
+    'shortcuts.action.redo': 'Redo',
+    'shortcuts.action.reset': 'Reset to the original',
+    'shortcuts.action.generate': 'Generate the retouch',
+    'shortcuts.action.clearHotspots': 'Clear the selected spots',
+    'shortcuts.action.toggleHistory': 'Show or hide the history',
+    'shortcuts.action.toggleComparison': 'Open or close compare modes',
+    'shortcuts.action.export': 'Export the image',
+    'shortcuts.action.exportAll': 'Export all images',
+    'shortcuts.action.uploadNew': 'Upload new images',
+    'shortcuts.action.copyImage': 'Copy image to clipboard',
+    'shortcuts.action.openCamera': 'Open camera',
+    'shortcuts.action.previousImage': 'Previous image',
+    'shortcuts.action.nextImage': 'Next image',
+
+    // Import
+    'start.camera': 'Take with camera',
+    'start.urlLabel': 'Image URL',
+    'start.urlPlaceholder': 'Paste an image URL…',
+    'start.import': 'Import',
+    'start.importing': 'Importing…',
+    'start.pasteHint': 'Press Ctrl+V to paste an image or image URL from the clipboard',
+    'camera.title': 'Camera',
+    'camera.switch': 'Switch camera',
+    'camera.capture': 'Take photo',
+    'camera.captured': { one: '{count} photo added', other: '{count} photos added' },
+    'thumbnails.add': '+ Add',
+    'thumbnails.addTitle': 'Add images to this session',
+    'thumbnails.camera': 'Camera',
+    'thumbnails.remove': 'Remove image',
+    'thumbnails.removeConfirm': 'Remove image {index} and its history from this session?',
+    'thumbnails.reorderHint': 'Drag to reorder, or Shift+← / → on a focused thumbnail',
+    'app.copy': 'Copy',
+    'app.copied': 'Copied!',
+    'app.copyLabel': 'Copy the current image to the clipboard',
+    'app.loading.importUrl': 'Downloading the image from the URL...',
+    'app.failed.importUrl': 'Failed to import the image. {error}',
+    'app.failed.copy': 'Failed to copy the image. {error}',
+    // @@END
+};
@@ -0,0 +1,630 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Message } from '../services/i18n.ts';
+
+// Indonesian, the source catalogue: every key used in the app is defined here first and
+// `MessageKey` is derived from it. Placeholders are written `{name}`.
+
+export const id = {
+    // Errors thrown by the services (see services/appError.ts)
+    'error.unknown': 'Terjadi kesalahan tidak dikenal.',
+    'error.quota': 'Kuota atau batas permintaan model AI terlampaui. Tunggu sebentar lalu coba lagi.',
+    'error.network': 'Tidak dapat terhubung ke layanan model AI. Periksa koneksi Anda lalu coba lagi.',
+    'error.serverError': 'Layanan model AI sedang bermasalah ({status}). Coba lagi sebentar lagi.',
+    'error.timeout': 'Model AI tidak merespons dalam {seconds} detik.',
+    'error.cancelled': 'Permintaan dibatalkan.',
+    'error.promptBlocked': 'Permintaan Anda tidak dapat diproses karena diblokir oleh kebijakan keamanan ({reason}). Coba ubah deskripsi Anda agar lebih umum.',
+    'error.promptBlockedWithDetail': 'Permintaan Anda tidak dapat diproses karena diblokir oleh kebijakan keamanan ({reason}). Detail: {detail} Coba ubah deskripsi Anda agar lebih umum.',
+    'error.outputBlocked': 'Pembuatan gambar untuk {operation} gagal karena kebijakan keamanan ({reason}). Coba ulangi perintah Anda agar lebih lugas atau kurang spesifik tentang perubahan pada orang.',
+    'error.noImage': 'Model AI tidak mengembalikan gambar untuk {operation}. Ini bisa terjadi karena filter keamanan atau jika permintaan terlalu rumit. Coba ulangi perintah Anda agar lebih lugas.',
+    'error.noImageWithText': 'Model AI tidak mengembalikan gambar untuk {operation}. Model merespons dengan teks: "{text}"',
+    'error.noBackground': 'Pembuatan latar belakang gagal: Model AI tidak mengembalikan gambar.',
+    'error.noSuggestion': 'AI tidak mengembalikan saran.',
+    'error.noReferences': 'Tambahkan minimal satu gambar referensi.',
+    'error.providerUnknown': 'Penyedia model "{provider}" tidak terdaftar.',
+    'error.replayUnavailable': 'Permintaan ini tidak bisa diulang lagi.',
+    'error.imageLoadFailed': 'Gagal memuat gambar.',
+    'error.canvasUnavailable': 'Tidak dapat membuat kanvas.',
+    'error.canvasExportFailed': 'Gagal mengekspor gambar.',
+    'error.exportFormatUnsupported': 'Browser ini tidak mendukung ekspor {format}.',
+    'error.presetInvalidJson': 'Berkas bukan JSON yang valid.',
+    'error.presetWrongFormat': 'Berkas ini bukan ekspor preset Sevaflow.',
+    'error.presetEmpty': 'Berkas tidak berisi preset yang valid.',
+    'error.storageOpenFailed': 'Gagal membuka penyimpanan proyek.',
+    'error.storageFailed': 'Operasi penyimpanan gagal.',
+    'error.projectNotFound': 'Proyek tidak ditemukan.',
+    'error.maskEmpty': 'Area masker kosong.',
+    'error.imageNotFound': 'Gambar tidak ditemukan.',
+    'error.retouchNoLocalChange': 'Tidak ada perubahan di sekitar titik edit, jadi gambar dibiarkan apa adanya.',
+    'error.clipboardUnsupported': 'Browser ini tidak mendukung penyalinan gambar ke papan klip.',
+    'error.urlInvalid': 'Alamat harus berupa URL http atau https.',
+    'error.urlFetchFailed': 'Server menolak permintaan (status {status}).',
+    'error.urlBlocked': '{host} tidak dapat dijangkau atau tidak mengizinkan gambarnya diunduh dari situs lain.',
+    'error.urlNotImage': 'URL tersebut bukan gambar.',
+    'error.cameraUnsupported': 'Kamera tidak tersedia di browser ini.',
+    'error.cameraDenied': 'Akses kamera ditolak. Izinkan di pengaturan browser.',
+    'error.cameraNotFound': 'Tidak ada kamera yang ditemukan.',
+
+    // Model operations, named in error messages
+    'modelOperation.edit': 'editan',
+    'modelOperation.filter': 'filter',
+    'modelOperation.styleTransfer': 'transfer gaya',
+    'modelOperation.adjustment': 'penyesuaian',
+    'modelOperation.background': 'latar belakang',
+    'modelOperation.backgroundReplacement': 'penggantian latar belakang',
+    'modelOperation.placement': 'penempatan produk',
+    'modelOperation.erase': 'penghapusan objek',
+    'modelOperation.segment': 'pemilihan objek',
+    'modelOperation.upscale': 'perbesaran',
+    'modelOperation.prompt': 'ide prompt',
+
+    // Export filename tokens (services/imageExport.ts)
+    'export.token.name': 'nama file asli',
+    'export.token.operations': 'riwayat editan, mis. retouch-filter',
+    'export.token.date': 'tanggal ekspor (YYYYMMDD)',
+    'export.token.time': 'jam ekspor (HHMMSS)',
+    'export.token.width': 'lebar hasil',
+    'export.token.height': 'tinggi hasil',
+
+    // Preset library (services/presetLibrary.ts)
+    'presets.kind.filter': 'Filter',
+    'presets.kind.adjustment': 'Penyesuaian',
+    'presets.kind.retouch': 'Sentuh Ulang',
+    'presets.kind.background': 'Latar Belakang',
+    'presets.newName': 'Preset Baru',
+    'presets.builtin.synthwave': 'Synthwave',
+    'presets.builtin.anime': 'Anime',
+    'presets.builtin.lomo': 'Lomo',
+    'presets.builtin.glitch': 'Glitch',
+    'presets.builtin.blurBackground': 'Buramkan Latar',
+    'presets.builtin.enhanceDetails': 'Tingkatkan Detail',
+    'presets.builtin.warmerLight': 'Cahaya Lebih Hangat',
+    'presets.builtin.studioLight': 'Lampu Studio',
+    'presets.builtin.recolor': 'Ganti Warna',
+    'presets.builtin.removeBlemish': 'Haluskan Kulit',
+    'presets.builtin.studioBackdrop': 'Latar Studio',
+    'presets.builtin.marbleTable': 'Meja Marmer',
+    'presets.category.retro': 'Retro',
+    'presets.category.illustration': 'Ilustrasi',
+    'presets.category.digital': 'Digital',
+    'presets.category.focus': 'Fokus',
+    'presets.category.light': 'Cahaya',
+    'presets.category.color': 'Warna',
+    'presets.category.portrait': 'Potret',
+    'presets.category.studio': 'Studio',
+    'presets.category.product': 'Produk',
+    'presets.variable.color': 'warna',
+    'presets.variable.darkBlue': 'biru tua',
+    'presets.variable.intensity': 'intensitas',
+    'presets.variable.subtle': 'sedikit',
+    'presets.variable.lightGrey': 'abu-abu muda',
+
+    // Layers (services/layerRenderer.ts)
+    'layers.defaultTextName': 'Teks',
+
+    // Start screen (components/StartScreen.tsx)
+    'start.titleLead': 'Edit Foto dengan AI,',
+    'start.titleAccent': 'Jadi Mudah',
+    'start.intro': 'Lakukan retouch, terapkan filter kreatif, atau buat penyesuaian profesional menggunakan perintah teks sederhana. Tanpa perlu alat yang rumit.',
+    'start.upload': 'Unggah Gambar',
+    'start.dropHint': 'atau seret dan lepas file',
+    'start.feature.retouch.title': 'Retouch Presisi',
+    'start.feature.retouch.text': 'Klik titik mana pun pada gambar Anda untuk menghilangkan noda, mengubah warna, atau menambahkan elemen dengan akurasi tinggi.',
+    'start.feature.filters.title': 'Filter Kreatif',
+    'start.feature.filters.text': 'Ubah foto dengan gaya artistik. Dari tampilan vintage hingga cahaya futuristik, temukan atau ciptakan filter yang sempurna.',
+    'start.feature.adjust.title': 'Penyesuaian Pro',
+    'start.feature.adjust.text': 'Tingkatkan pencahayaan, buramkan latar belakang, atau ubah suasana. Dapatkan hasil berkualitas studio tanpa alat yang rumit.',
+
+    // Saved projects (components/ProjectList.tsx)
+    'projects.title': 'Proyek Tersimpan',
+    'projects.empty': 'Belum ada proyek tersimpan.',
+    'projects.storage': 'Penyimpanan: {used} dari {quota}',
+    'projects.imageCount': '{count} gambar',
+    'projects.open': 'Buka',
+    'projects.openNamed': 'Buka proyek {name}',
+    'projects.rename': 'Ganti Nama',
+    'projects.duplicate': 'Duplikat',
+    'projects.copyName': '{name} (salinan)',
+    'projects.delete': 'Hapus',
+    'projects.confirmDelete': 'Hapus proyek "{name}"? Tindakan ini tidak dapat dibatalkan.',
+
+    // Header (components/Header.tsx)
+    'header.language': 'Bahasa',
+
+    // Toolbar and tool registry (components/Toolbar.tsx, components/tools.tsx)
+    'toolbar.label': 'Alat',
+    'toolOptions.label': 'Opsi {tool}',
+    'tools.retouch.label': 'Sentuh Ulang',
+    'tools.retouch.description': 'Klik titik pada foto lalu deskripsikan editannya.',
+    'tools.brush.label': 'Kuas Masker',
+    'tools.brush.description': 'Lukis area yang ingin diedit dengan kuas.',
+    'tools.erase.label': 'Hapus Objek',
+    'tools.erase.description': 'Lukis atau klik objek yang tidak diinginkan lalu hapus dengan AI.',
+    'tools.upscale.label': 'Perbesar',
+    'tools.upscale.description': 'Perbesar gambar 2x atau 4x dengan AI atau Lanczos.',
+    'tools.crop.label': 'Potong',
+    'tools.crop.description': 'Potong, putar, luruskan, balik, dan koreksi perspektif.',
+    'tools.adjust.label': 'Sesuaikan',
+    'tools.adjust.description': 'Atur cahaya dan warna, atau ganti latar belakang.',
+    'tools.filters.label': 'Filter',
+    'tools.filters.description': 'Terapkan gaya visual dengan AI.',
+    'tools.products.label': 'Produk',
+    'tools.products.description': 'Tempatkan produk dari pustaka pada titik yang diklik.',
+    'tools.layers.label': 'Lapisan',
+    'tools.layers.description': 'Tambah teks dan gambar, lalu pindahkan, ubah ukuran, atau putar.',
+
+    // Thumbnail strip (components/ThumbnailStrip.tsx)
+    'thumbnails.label': 'Thumbnail gambar',
+    'thumbnails.alt': 'Thumbnail',
+    'thumbnails.select': 'Pilih gambar {index}',
+    'thumbnails.status.queued': 'Antre',
+    'thumbnails.status.running': 'Diproses',
+    'thumbnails.status.done': 'Selesai',
+    'thumbnails.status.failed': 'Gagal',
+    'thumbnails.retry': 'Ulangi',
+    'thumbnails.retryTitle': 'Coba lagi',
+    'thumbnails.retryFailed': 'Gagal: {error}. Klik untuk mencoba lagi.',
+
+    // History panel (components/HistoryPanel.tsx)
+    'history.title': 'Riwayat Editan',
+    'history.branch': 'Cabang',
+    'history.hotspots': '{count} titik',
+    'history.mask': 'masker',
+    'history.operation.original': 'Asli',
+    'history.operation.retouch': 'Sentuh Ulang',
+    'history.operation.filter': 'Filter',
+    'history.operation.styleTransfer': 'Transfer Gaya',
+    'history.operation.adjustment': 'Penyesuaian AI',
+    'history.operation.localAdjustment': 'Penyesuaian Lokal',
+    'history.operation.background': 'Latar Belakang',
+    'history.operation.placement': 'Penempatan Produk',
+    'history.operation.erase': 'Hapus Objek',
+    'history.operation.upscale': 'Perbesar',
+    'history.operation.crop': 'Potong',
+    'history.operation.layers': 'Lapisan',
+
+    // Object removal and mask options (components/ErasePanel.tsx, components/MaskOptions.tsx)
+    'erase.mode.paint': 'Lukis',
+    'erase.mode.pick': 'Pilih Otomatis',
+    'erase.hint.marked': 'Area sudah ditandai. Tambahkan objek lain atau hapus sekarang.',
+    'erase.hint.pick': 'Klik sebuah objek; AI akan memilih seluruh objek tersebut.',
+    'erase.hint.paint': 'Lukis di atas objek yang ingin dihapus.',
+    'erase.submit': 'Hapus Objek',
+    'mask.brush': 'Kuas',
+    'mask.eraser': 'Penghapus',
+    'mask.size': 'Ukuran',
+    'mask.feather': 'Kelembutan Tepi',
+    'mask.invert': 'Balik Masker',
+    'mask.clear': 'Hapus Masker',
+
+    // Retouch panel (components/RetouchPanel.tsx)
+    'common.generate': 'Buat',
+    'retouch.layerUnavailable': 'Tidak tersedia saat membuat beberapa variasi',
+    'retouch.asLayer': 'Simpan hasil sebagai lapisan terpisah',
+    'retouch.preserveResolutionHint': 'Area yang tidak berubah tetap memakai piksel dan resolusi asli',
+    'retouch.preserveResolution': 'Pertahankan resolusi asli (hanya gabungkan area yang berubah)',
+    'retouch.hint.masked': 'Bagus! Area sudah ditandai. Deskripsikan editan Anda.',
+    'retouch.hint.paint': 'Lukis area pada gambar yang ingin diedit.',
+    'retouch.hint.points': 'Bagus! {count} titik dipilih. Deskripsikan editan Anda.',
+    'retouch.hint.click': 'Klik area pada gambar untuk melakukan editan yang presisi.',
+    'retouch.clearPoints': 'Hapus Titik',
+    'retouch.placeholder': "contoh: 'ubah warna bajuku menjadi biru'",
+    'retouch.placeholderPaintFirst': 'Lukis dulu area pada gambar',
+    'retouch.placeholderClickFirst': 'Klik dulu sebuah titik pada gambar',
+    'common.randomIdea': 'Dapatkan ide acak',
+    'common.randomIdeaTitle': 'Dapatkan ide acak dari AI',
+
+    // Upscale panel (components/UpscalePanel.tsx)
+    'upscale.title': 'Perbesar',
+    'upscale.currentSize': 'Ukuran saat ini {width}×{height}',
+    'upscale.loadingSize': 'Memuat ukuran gambar...',
+    'upscale.smallerThanOriginal': 'lebih kecil dari aslinya ({width}×{height}).',
+    'upscale.tooLarge': 'Hasilnya akan terlalu besar untuk browser',
+    'upscale.method.ai': 'AI',
+    'upscale.method.aiDescription': 'Menambah detail dengan AI; kembali ke Lanczos bila gagal.',
+    'upscale.method.lanczos': 'Lanczos (lokal)',
+    'upscale.method.lanczosDescription': 'Cepat, tanpa AI, tanpa detail baru.',
+    'upscale.result': 'Hasil: {width}×{height}.',
+    'upscale.exceedsCanvas': 'Faktor ini melebihi batas ukuran kanvas browser.',
+    'upscale.auto': 'Kembalikan hasil AI ke ukuran semula',
+    'upscale.autoDescription': 'Hasil model yang lebih kecil dari langkah asalnya diperbesar dengan Lanczos sebelum masuk riwayat, sehingga potongan tetap terjaga. Hasil tidak pernah diperkecil atau diregangkan.',
+    'upscale.submit': 'Perbesar {factor}x',
+
+    // Crop panel (components/CropPanel.tsx)
+    'crop.title': 'Potong & Putar',
+    'crop.hint': 'Seret pada gambar untuk memilih area potong. Hasil selalu memakai piksel asli foto.',
+    'crop.aspect': 'Rasio Aspek:',
+    'crop.aspect.free': 'bebas',
+    'crop.apply': 'Terapkan Potongan',
+    'crop.hint.straighten': 'Tarik garis di sepanjang horizon atau tepi yang seharusnya lurus.',
+    'crop.hint.perspective': 'Seret keempat sudut ke tepi bidang yang seharusnya persegi panjang.',
+    'crop.aspect.custom': 'kustom',
+    'crop.customRatio.width': 'Lebar rasio',
+    'crop.customRatio.height': 'Tinggi rasio',
+    'crop.platform': 'Ukuran platform:',
+    'crop.preset.instagram': 'Instagram 4:5',
+    'crop.preset.story': 'Story 9:16',
+    'crop.preset.marketplace': 'Marketplace 1:1',
+    'crop.size': 'Ukuran potong (px):',
+    'crop.width': 'Lebar potongan',
+    'crop.height': 'Tinggi potongan',
+    'crop.output': 'Hasil {width} × {height} px',
+    'crop.rotateLeft': '⟲ Putar kiri 90°',
+    'crop.rotateRight': '⟳ Putar kanan 90°',
+    'crop.flipH': 'Balik horizontal',
+    'crop.flipV': 'Balik vertikal',
+    'crop.straighten': 'Luruskan',
+    'crop.straightenTool': 'Garis horizon',
+    'crop.perspective': 'Perspektif',
+    'crop.perspectiveHandle': 'Seret untuk mengoreksi perspektif',
+    'crop.resetPerspective': 'Reset perspektif',
+    'crop.summary.perspective': 'perspektif',
+    'crop.summary.rotate': 'putar {degrees}°',
+    'crop.summary.size': '{width}×{height} px',
+
+    // Local adjustment panel (components/LocalAdjustmentPanel.tsx)
+    'common.reset': 'Atur Ulang',
+    'common.applyToThis': 'Terapkan ke Gambar Ini',
+    'common.applyToAll': 'Terapkan ke Semua',
+    'localAdjustment.title': 'Penyesuaian Lokal',
+    'localAdjustment.retweak': 'Mengubah penyesuaian sebelumnya tanpa kehilangan kualitas.',
+    'localAdjustment.onDevice': 'Diproses langsung di perangkat Anda, tanpa AI.',
+    'localAdjustment.clickToReset': 'Klik untuk mengatur ulang',
+    'localAdjustment.exposure': 'Eksposur',
+    'localAdjustment.contrast': 'Kontras',
+    'localAdjustment.highlights': 'Sorotan',
+    'localAdjustment.shadows': 'Bayangan',
+    'localAdjustment.temperature': 'Suhu',
+    'localAdjustment.tint': 'Rona',
+    'localAdjustment.saturation': 'Saturasi',
+    'localAdjustment.vibrance': 'Vibrance',
+
+    // AI adjustment and background panel (components/AdjustmentPanel.tsx)
+    'common.or': 'Atau',
+    'adjustment.title': 'Terapkan Penyesuaian Profesional',
+    'adjustment.placeholder': "Atau deskripsikan penyesuaian (contoh: 'ubah latar menjadi hutan')",
+    'background.title': 'Penggantian Latar Belakang Konsisten',
+    'background.hint': 'Buat latar belakang baru atau unggah milik Anda.',
+    'background.placeholder': "Deskripsikan latar belakang (contoh: 'pantai tenang saat matahari terbenam')",
+    'background.upload': 'Unggah Gambar Latar',
+    'background.generatedAlt': 'Latar belakang yang dibuat',
+
+    // Filter and style transfer panel (components/FilterPanel.tsx)
+    'filter.title': 'Terapkan Filter',
+    'filter.placeholder': "Atau deskripsikan filter kustom (contoh: 'cahaya synthwave 80-an')",
+    'styleTransfer.title': 'Gaya dari Gambar Referensi',
+    'styleTransfer.hint': 'Unggah foto mood board, lalu AI meniru warna, cahaya, dan suasananya.',
+    'styleTransfer.reference': 'Referensi {index}',
+    'styleTransfer.removeReference': 'Hapus referensi {index}',
+    'styleTransfer.add': 'Tambah',
+    'styleTransfer.placeholder': "Arahan tambahan (opsional), contoh: 'ambil warnanya saja, tanpa grain'",
+    'styleTransfer.strength': 'Kekuatan',
+
+    // Preset picker and manager (components/PresetPicker.tsx, components/PresetManager.tsx)
+    'presetPicker.all': 'Semua',
+    'presetPicker.empty': 'Belum ada preset. Buat lewat "Kelola Preset".',
+    'presetPicker.favorite': 'Jadikan {name} favorit',
+    'presetPicker.unfavorite': 'Hapus {name} dari favorit',
+    'presetManager.title': 'Kelola Preset',
+    'presetManager.imported': 'Preset diimpor: {count}. Klik "Simpan" untuk memakainya.',
+    'presetManager.resetConfirm': 'Ganti seluruh pustaka dengan preset bawaan? Preset buatan Anda akan hilang.',
+    'presetManager.import': 'Impor JSON',
+    'presetManager.export': 'Ekspor JSON',
+    'presetManager.restoreDefaults': 'Kembalikan Bawaan',
+    'presetManager.variableHint': 'Tulis variabel sebagai {example} atau dengan nilai bawaan {exampleWithDefault}; nilainya diisi saat preset dipilih.',
+    'presetManager.exampleVariable': '{warna}',
+    'presetManager.exampleVariableWithDefault': '{intensitas=sedikit}',
+    'presetManager.favorite': 'Jadikan favorit',
+    'presetManager.unfavorite': 'Hapus dari favorit',
+    'presetManager.name': 'Nama preset',
+    'presetManager.category': 'Kategori',
+    'presetManager.moveUp': 'Naikkan',
+    'presetManager.moveDown': 'Turunkan',
+    'presetManager.delete': 'Hapus',
+    'presetManager.promptPlaceholder': "Prompt untuk model, contoh: 'Give the photo a {suasana=cozy} autumn look.'",
+    'presetManager.prompt': 'Prompt',
+    'presetManager.variables': 'Variabel: {list}',
+    'presetManager.emptyKind': 'Belum ada preset {kind}.',
+    'presetManager.add': '+ Preset {kind}',
+    'presetManager.unsavedHint': 'Preset tanpa nama atau prompt tidak disimpan.',
+    'common.cancel': 'Batal',
+    'common.save': 'Simpan',
+
+    // Product library (components/ProductSelector.tsx, components/AddProductModal.tsx, components/ObjectCard.tsx)
+    'products.title': 'Penempatan Produk',
+    'products.hint.select': 'Pilih produk dari pustaka Anda.',
+    'products.hint.ready': 'Siap menempatkan "{name}".',
+    'products.hint.click': 'Klik pada foto untuk menentukan posisi "{name}".',
+    'products.search': 'Cari nama atau tag...',
+    'products.add': 'Tambah Produk',
+    'products.empty': 'Pustaka produk masih kosong. Tambahkan foto produk untuk memulai.',
+    'products.noMatch': 'Tidak ada produk yang cocok dengan "{query}".',
+    'products.place': 'Tempatkan Produk',
+    'products.saveFailed': 'Gagal menyimpan produk. {error}',
+    'products.preview': 'Pratinjau produk',
+    'products.choosePhoto': 'Pilih foto produk',
+    'products.photoHint': 'PNG transparan memberi hasil terbaik',
+    'products.name': 'Nama',
+    'products.namePlaceholder': 'contoh: Botol Serum 30ml',
+    'products.tags': 'Tag',
+    'products.tagsHint': '(pisahkan dengan koma)',
+    'products.tagsPlaceholder': 'contoh: skincare, botol, kaca',
+    'products.delete': 'Hapus',
+    'products.deleteLabel': 'Hapus {name}',
+
+    // Layer panel and canvas (components/LayerPanel.tsx, components/EditorCanvas.tsx)
+    'layers.title': 'Lapisan',
+    'layers.hint': 'Seret lapisan pada foto untuk memindahkan, tarik sudutnya untuk mengubah ukuran, dan tarik tuas atas untuk memutar.',
+    'layers.newText': 'Teks baru',
+    'layers.addText': 'Tambah Teks',
+    'layers.addImage': 'Tambah Gambar',
+    'layers.addProduct': 'Tambah dari Pustaka Produk...',
+    'layers.empty': 'Belum ada lapisan. Foto dasar tetap tidak berubah sampai diekspor.',
+    'layers.hide': 'Sembunyikan',
+    'layers.show': 'Tampilkan',
+    'layers.lock': 'Kunci',
+    'layers.unlock': 'Buka kunci',
+    'layers.kind.text': 'Teks',
+    'layers.kind.image': 'Gambar',
+    'layers.opacity': 'Opasitas',
+    'layers.blendMode': 'Mode campur',
+    'layers.color': 'Warna',
+    'layers.fontSize': 'Ukuran',
+    'layers.raise': 'Naikkan',
+    'layers.lower': 'Turunkan',
+    'layers.delete': 'Hapus Lapisan',
+    'layers.rotateHint': 'Putar (tahan Shift untuk kelipatan 15°)',
+    'layers.history.addText': 'Tambah teks',
+    'layers.history.addImage': 'Tambah gambar "{name}"',
+    'layers.history.raise': 'Naikkan lapisan',
+    'layers.history.lower': 'Turunkan lapisan',
+    'layers.history.delete': 'Hapus lapisan "{name}"',
+    'layers.history.opacity': 'Ubah opasitas lapisan',
+    'layers.history.text': 'Ubah teks',
+    'layers.history.fontSize': 'Ubah ukuran teks',
+    'layers.history.hide': 'Sembunyikan lapisan',
+    'layers.history.show': 'Tampilkan lapisan',
+    'layers.history.lock': 'Kunci lapisan',
+    'layers.history.unlock': 'Buka kunci lapisan',
+    'layers.history.blendMode': 'Ubah mode campur',
+    'layers.history.color': 'Ubah warna teks',
+    'layers.history.move': 'Pindahkan lapisan',
+    'layers.history.scale': 'Ubah ukuran lapisan',
+    'layers.history.rotate': 'Putar lapisan',
+
+    // Variations and batch summary (components/VariationPicker.tsx, components/BatchSummary.tsx)
+    'variations.title': 'Pilih Variasi',
+    'variations.close': 'Tutup Variasi',
+    'variations.choose': 'Pilih',
+    'variations.chooseAgain': 'Pilih Lagi',
+    'variations.chosen': 'Dipilih',
+    'variations.zoom': 'Perbesar variasi {index}',
+    'variations.alt': 'Variasi {index}',
+    'variations.holdToSeeCurrent': 'Tekan dan tahan untuk melihat gambar saat ini',
+    'variations.holdToCompare': 'Tekan dan tahan untuk membandingkan',
+    'variations.compare': 'Bandingkan',
+    'batch.title': 'Batch {operation} selesai',
+    'batch.succeeded': '{succeeded} dari {total} berhasil',
+    'batch.failed': '{count} gagal',
+    'batch.cancelled': '{count} dibatalkan',
+    'batch.duration': '{seconds} dtk',
+    'batch.image': 'Gambar {index}:',
+    'batch.retryFailed': 'Coba Lagi yang Gagal',
+    'common.close': 'Tutup',
+
+    // Export dialog (components/ExportDialog.tsx)
+    'export.title': 'Ekspor Gambar',
+    'export.format': 'Format',
+    'export.unsupported': 'Tidak didukung oleh browser ini',
+    'export.quality': 'Kualitas',
+    'export.size': 'Ukuran',
+    'export.resize.none': 'Ukuran asli',
+    'export.resize.longEdge': 'Sisi terpanjang',
+    'export.resize.dimensions': 'Ukuran tepat',
+    'export.width': 'Lebar',
+    'export.height': 'Tinggi',
+    'export.sharpen': 'Penajaman',
+    'export.colorAndMetadata': 'Warna & Metadata',
+    'export.colorProfile.srgb': 'sRGB (paling kompatibel)',
+    'export.colorProfile.displayP3': 'Display P3 (gamut lebar)',
+    'export.preserveExif': 'Pertahankan EXIF dari file asli',
+    'export.jpegOnly': '(hanya JPEG)',
+    'export.filename': 'Nama File',
+    'export.submit': 'Ekspor',
+    'export.failed': 'Gagal mengekspor gambar. {error}',
+
+    // Bulk export (components/BulkExportDialog.tsx)
+    'bulkExport.title': 'Unduh Semua',
+    'bulkExport.description': '{count} gambar versi terkini sebagai ZIP, dengan pengaturan ekspor terakhir ({format}).',
+    'bulkExport.includeHistory': 'Sertakan riwayat',
+    'bulkExport.includeHistoryDescription': 'Setiap langkah editan, termasuk cabang lain.',
+    'bulkExport.includeOriginals': 'Sertakan file asli',
+    'bulkExport.includeOriginalsDescription': 'File unggahan tanpa perubahan.',
+    'bulkExport.includeManifest': 'Sertakan manifest JSON',
+    'bulkExport.includeManifestDescription': 'Daftar editan, prompt, dan waktunya per gambar.',
+    'bulkExport.progress': 'Memproses {done} dari {total}...',
+    'bulkExport.submit': 'Buat ZIP',
+    'bulkExport.failed': 'Gagal membuat ZIP. {error}',
+
+    // Curves editor (components/CurvesEditor.tsx)
+    'curves.hint': 'Klik untuk menambah titik, seret untuk mengubah, klik ganda untuk menghapus.',
+
+    // Model request inspector (components/DebugModal.tsx)
+    'debug.title': 'Inspektur Permintaan Model',
+    'debug.record': 'Rekam',
+    'debug.clear': 'Bersihkan',
+    'debug.empty': 'Belum ada permintaan. Jalankan sebuah editan untuk merekamnya.',
+    'debug.recordingOff': 'Perekaman mati. Centang "Rekam" lalu jalankan sebuah editan.',
+    'debug.replayed': 'ulang',
+    'debug.selectEntry': 'Pilih permintaan untuk melihat detailnya.',
+    'debug.replay': 'Ulangi Permintaan',
+    'debug.field.operation': 'Operasi',
+    'debug.field.model': 'Model',
+    'debug.field.time': 'Waktu',
+    'debug.field.latency': 'Latensi',
+    'debug.field.aspectRatio': 'Rasio aspek',
+    'debug.field.inputImages': 'Gambar masukan',
+    'debug.field.tokens': 'Token',
+    'debug.tokens': 'masukan {input}, keluaran {output}, total {total}',
+    'debug.field.error': 'Kesalahan',
+    'debug.field.text': 'Teks balasan',
+    'debug.field.prompt': 'Prompt',
+    'debug.output': 'Hasil {index}',
+
+    // Editor (App.tsx)
+    'app.projectName': 'Proyek {date}',
+    'app.failed.openProject': 'Gagal membuka proyek. {error}',
+    'app.failed.generate': 'Gagal menghasilkan gambar. {error}',
+    'app.failed.erase': 'Gagal menghapus objek. {error}',
+    'app.failed.detectObject': 'Gagal mendeteksi objek. {error}',
+    'app.failed.upscale': 'Gagal memperbesar gambar. {error}',
+    'app.failed.applyOperation': 'Gagal menerapkan {operation}. {error}',
+    'app.failed.adjustment': 'Gagal menerapkan penyesuaian. {error}',
+    'app.failed.generateBackground': 'Gagal membuat latar belakang. {error}',
+    'app.failed.applyBackground': 'Gagal menerapkan latar belakang. {error}',
+    'app.failed.deleteProduct': 'Gagal menghapus produk. {error}',
+    'app.failed.placeProduct': 'Gagal menempatkan produk. {error}',
+    'app.failed.crop': 'Gagal menerapkan potongan. {error}',
+    'app.upscaleFallback': 'AI gagal memperbesar gambar, jadi digunakan Lanczos. {error}',
+    'app.validation.noImage': 'Tidak ada gambar yang dimuat untuk diedit.',
+    'app.validation.noPrompt': 'Silakan masukkan deskripsi untuk editan Anda.',
+    'app.validation.noMask': 'Silakan lukis area yang akan diedit pada gambar.',
+    'app.validation.noHotspot': 'Silakan klik pada gambar untuk memilih area yang akan diedit.',
+    'app.useFullOutput': 'Pakai hasil penuh',
+    'app.useFullOutputHint': 'Ulangi dengan "Pertahankan resolusi asli" dimatikan: seluruh gambar diganti dengan hasil model, yang resolusinya bisa lebih rendah.',
+    'app.validation.noEraseTarget': 'Silakan tandai objek yang akan dihapus.',
+    'app.validation.upscaleTooLarge': 'Gambar terlalu besar untuk diperbesar {factor}x di browser ini.',
+    'app.validation.noTarget': 'Tidak ada gambar yang dipilih untuk menerapkan {operation}.',
+    'app.validation.noBackgroundReference': 'Tidak dapat membuat latar belakang tanpa referensi gambar.',
+    'app.validation.noBackground': 'Tidak ada latar belakang yang dibuat untuk diterapkan.',
+    'app.validation.noPlacement': 'Pilih produk lalu klik posisi penempatannya pada gambar.',
+    'app.validation.noCrop': 'Silakan pilih area untuk dipotong.',
+    'app.loading.cancelling': 'Membatalkan...',
+    'app.loading.variations': 'AI sedang membuat {count} variasi...',
+    'app.loading.edit': 'AI sedang bekerja...',
+    'app.loading.erase': 'AI sedang menghapus objek...',
+    'app.loading.detectObject': 'AI sedang mendeteksi objek...',
+    'app.loading.upscaleAi': 'AI sedang memperbesar {factor}x...',
+    'app.loading.upscale': 'Memperbesar {factor}x...',
+    'app.loading.upscaleFallback': 'Memperbesar {factor}x dengan Lanczos...',
+    'app.loading.batch': 'Menerapkan {operation} ke {count} gambar...',
+    'app.loading.batchProgress': 'Menerapkan {operation}: {done} dari {count} gambar selesai...',
+    'app.loading.operationVariations': 'AI sedang membuat {count} variasi {operation}...',
+    'app.loading.operation': 'AI sedang menerapkan {operation}...',
+    'app.loading.adjustment': 'Menerapkan penyesuaian...',
+    'app.loading.generateBackground': 'Membuat latar belakang...',
+    'app.loading.placement': 'AI sedang menempatkan {name}...',
+    'app.loading.crop': 'Menerapkan potongan...',
+    'app.patchLayerName': 'Patch AI: {prompt}',
+    'app.patchLayerDescription': 'Patch AI sebagai lapisan',
+    'app.styleTransferDescription': '{count} referensi, kekuatan {strength}%',
+    'app.errorTitle': 'Terjadi Kesalahan',
+    'app.tryAgain': 'Coba Lagi',
+    'app.variations': 'Variasi',
+    'app.variationsHint': 'Buat {count} hasil lalu pilih yang terbaik',
+    'app.variationsSingle': 'Langsung terapkan satu hasil',
+    'app.parallel': 'Paralel',
+    'app.parallelHint': 'Proses hingga {count} gambar sekaligus saat menerapkan ke semua',
+    'app.undo': 'Urungkan',
+    'app.undoLabel': 'Urungkan tindakan terakhir',
+    'app.redo': 'Ulangi',
+    'app.redoLabel': 'Ulangi tindakan terakhir',
+    'app.history': 'Riwayat ({count})',
+    'app.compare': 'Bandingkan',
+    'app.compareLabel': 'Tekan dan tahan untuk melihat gambar asli',
+    'app.uploadNew': 'Unggah Baru',
+    'app.download': 'Unduh Gambar',
+    'app.downloadAll': 'Unduh Semua',
+    'app.debugTitle': 'Inspektur permintaan model (Ctrl+Shift+D)',
+
+    // Viewport
+    'viewport.zoomIn': 'Perbesar',
+    'viewport.zoomOut': 'Perkecil',
+    'viewport.fit': 'Pas',
+    'viewport.actualSize': '100%',
+    'viewport.navigator': 'Navigator: klik atau seret untuk berpindah area',
+    'viewport.hint': 'Gulir atau cubit untuk zoom; tahan Spasi lalu seret untuk menggeser',
+
+    // Comparison
+    'compare.open': 'Mode Banding',
+    'compare.openLabel': 'Bandingkan dua langkah riwayat mana pun',
+    'compare.mode.split': 'Geser',
+    'compare.mode.sideBySide': 'Berdampingan',
+    'compare.mode.difference': 'Perbedaan',
+    'compare.before': 'Sebelum',
+    'compare.after': 'Sesudah',
+    'compare.swap': 'Tukar sebelum dan sesudah',
+    'compare.close': 'Tutup perbandingan',
+    'compare.divider': 'Pembatas sebelum/sesudah',
+    'compare.step': '{index}. {operation} · {time}',
+    'compare.computing': 'Menghitung perbedaan…',
+    'compare.changed': '{percent} piksel berubah',
+    'compare.unchanged': 'Tidak ada piksel yang berubah',
+    'compare.sizeMismatch': 'Ukuran kedua langkah berbeda, jadi gambar sebelum direntangkan agar pas.',
+
+    // Keyboard shortcuts and command palette
+    'palette.open': 'Perintah',
+    'palette.title': 'Palet perintah',
+    'palette.placeholder': 'Cari tindakan atau preset…',
+    'palette.empty': 'Tidak ada yang cocok',
+    'shortcuts.title': 'Pintasan keyboard',
+    'shortcuts.hint': 'Klik Ubah lalu tekan kombinasi tombol baru. Perubahan langsung tersimpan.',
+    'shortcuts.recording': 'Tekan kombinasi baru. Esc membatalkan, Backspace menghapus pintasan.',
+    'shortcuts.pressKeys': 'Tekan tombol…',
+    'shortcuts.unbound': 'Tidak ada',
+    'shortcuts.changeShort': 'Ubah',
+    'shortcuts.change': 'Ubah pintasan untuk {action}',
+    'shortcuts.reset': 'Kembalikan pintasan bawaan untuk {action}',
+    'shortcuts.resetAll': 'Kembalikan Semua',
+    'shortcuts.group.general': 'Umum',
+    'shortcuts.group.editing': 'Mengedit',
+    'shortcuts.group.images': 'Gambar',
+    'shortcuts.group.tools': 'Alat',
+    'shortcuts.action.commandPalette': 'Buka palet perintah',
+    'shortcuts.action.cheatSheet': 'Tampilkan pintasan keyboard',
+    'shortcuts.action.debugInspector': 'Pemeriksa permintaan model',
+    'shortcuts.action.undo': 'Urungkan',
+    'shortcuts.action.redo': 'Ulangi',
+    'shortcuts.action.reset': 'Kembali ke gambar asli',
+    'shortcuts.action.generate': 'Buat retus',
+    'shortcuts.action.clearHotspots': 'Hapus titik yang dipilih',
+    'shortcuts.action.toggleHistory': 'Tampilkan/sembunyikan riwayat',
+    'shortcuts.action.toggleComparison': 'Buka/tutup mode banding',
+    'shortcuts.action.export': 'Ekspor gambar',
+    'shortcuts.action.exportAll': 'Ekspor semua gambar',
+    'shortcuts.action.uploadNew': 'Unggah gambar baru',
+    'shortcuts.action.copyImage': 'Salin gambar ke papan klip',
+    'shortcuts.action.openCamera': 'Buka kamera',
+    'shortcuts.action.previousImage': 'Gambar sebelumnya',
+    'shortcuts.action.nextImage': 'Gambar berikutnya',
+
+    // Import
+    'start.camera': 'Ambil dari Kamera',
+    'start.urlLabel': 'URL gambar',
+    'start.urlPlaceholder': 'Tempel URL gambar…',
+    'start.import': 'Impor',
+    'start.importing': 'Mengimpor…',
+    'start.pasteHint': 'Tekan Ctrl+V untuk menempel gambar atau URL gambar dari papan klip',
+    'camera.title': 'Kamera',
+    'camera.switch': 'Ganti kamera',
+    'camera.capture': 'Ambil Foto',
+    'camera.captured': '{count} foto ditambahkan',
+    'thumbnails.add': '+ Tambah',
+    'thumbnails.addTitle': 'Tambahkan gambar ke sesi ini',
+    'thumbnails.camera': 'Kamera',
+    'thumbnails.remove': 'Hapus gambar',
+    'thumbnails.removeConfirm': 'Hapus gambar {index} beserta riwayatnya dari sesi ini?',
+    'thumbnails.reorderHint': 'Seret untuk mengurutkan, atau Shift+← / → pada thumbnail yang dipilih',
+    'app.copy': 'Salin',
+    'app.copied': 'Tersalin!',
+    'app.copyLabel': 'Salin gambar saat ini ke papan klip',
+    'app.loading.importUrl': 'Mengunduh gambar dari URL...',
+    'app.failed.importUrl': 'Gagal mengimpor gambar. {error}',
+    'app.failed.copy': 'Gagal menyalin gambar. {error}',
+    // @@END
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof id;
@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AdjustmentParams, CurvePoint, CurveChannel } from '../types.ts';
+import { loadImage, createCanvas, canvasToFile } from './imageCompositing.ts';
+
+// A client-side tone and colour pipeline. Exposure and white balance run in linear light,
+// the remaining tone and colour controls in sRGB, and the curves last, on 8-bit values.
+
+const IDENTITY_CURVE: CurvePoint[] = [{ x: 0, y: 0 }, { x: 255, y: 255 }];
+
+export const DEFAULT_ADJUSTMENTS: AdjustmentParams = {
+    exposure: 0,
+    contrast: 0,
+    highlights: 0,
+    shadows: 0,
+    temperature: 0,
+    tint: 0,
+    saturation: 0,
+    vibrance: 0,
+    curves: { rgb: IDENTITY_CURVE, r: IDENTITY_CURVE, g: IDENTITY_CURVE, b: IDENTITY_CURVE },
+};
+
+const isIdentityCurve = (points: CurvePoint[]) => points.every(p => p.x === p.y);
+
+export const isDefaultAdjustment = (params: AdjustmentParams): boolean =>
+    params.exposure === 0 && params.contrast === 0 && params.highlights === 0 && params.shadows === 0 &&
+    params.temperature === 0 && params.tint === 0 && params.saturation === 0 && params.vibrance === 0 &&
+    (Object.keys(params.curves) as CurveChannel[]).every(channel => isIdentityCurve(params.curves[channel]));
+
+/**
+ * Builds a 256-entry lookup table through the curve points using monotone cubic
+ * interpolation, so the curve never overshoots between points.
+ * @param points Control points in 0..255; they do not need to be sorted.
+ */
+export const buildCurveLut = (points: CurvePoint[]): Uint8ClampedArray => {
+    const sorted = [...points].sort((a, b) => a.x - b.x);
+    const lut = new Uint8ClampedArray(256);
+    if (sorted.length < 2) {
+        for (let i = 0; i < 256; i++) lut[i] = i;
+        return lut;
+    }
+
+    const n = sorted.length;
+    const slopes: number[] = [];
+    for (let i = 0; i < n - 1; i++) {
+        const dx = sorted[i + 1].x - sorted[i].x;
+        slopes.push(dx === 0 ? 0 : (sorted[i + 1].y - sorted[i].y) / dx);
+    }
+    // Fritsch–Carlson tangents.
+    const tangents: number[] = [slopes[0]];
+    for (let i = 1; i < n - 1; i++) {
+        tangents.push(slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2);
+    }
+    tangents.push(slopes[n - 2]);
+    for (let i = 0; i < n - 1; i++) {
+        if (slopes[i] === 0) {
+            tangents[i] = 0;
+            tangents[i + 1] = 0;
+            continue;
+        }
+        const a = tangents[i] / slopes[i];
+        const b = tangents[i + 1] / slopes[i];
+        const h = Math.hypot(a, b);
+        if (h > 3) {
+            tangents[i] = (3 / h) * a * slopes[i];
+            tangents[i + 1] = (3 / h) * b * slopes[i];
+        }
+    }
+
+    let segment = 0;
+    for (let x = 0; x < 256; x++) {
+        if (x <= sorted[0].x) { lut[x] = sorted[0].y; continue; }
+        if (x >= sorted[n - 1].x) { lut[x] = sorted[n - 1].y; continue; }
+        while (x > sorted[segment + 1].x) segment++;
+        const p0 = sorted[segment];
+        const p1 = sorted[segment + 1];
+        const h = p1.x - p0.x;
+        const t = (x - p0.x) / h;
+        const t2 = t * t;
+        const t3 = t2 * t;
+        lut[x] = (2 * t3 - 3 * t2 + 1) * p0.y + (t3 - 2 * t2 + t) * h * tangents[segment]
+            + (-2 * t3 + 3 * t2) * p1.y + (t3 - t2) * h * tangents[segment + 1];
+    }
+    return lut;
+};
+
+const TO_LINEAR = new Float32Array(256);
+for (let i = 0; i < 256; i++) {
+    const c = i / 255;
+    TO_LINEAR[i] = c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+const TO_SRGB_STEPS = 4096;
+const TO_SRGB = new Float32Array(TO_SRGB_STEPS + 1);
+for (let i = 0; i <= TO_SRGB_STEPS; i++) {
+    const c = i / TO_SRGB_STEPS;
+    TO_SRGB[i] = c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+}
+
+const linearToSrgb = (value: number) => TO_SRGB[Math.round(Math.min(1, Math.max(0, value)) * TO_SRGB_STEPS)];
+
+/**
+ * Applies the adjustment parameters to pixel data in place.
+ * @param imageData The pixels to modify; alpha is left untouched.
+ * @param params The adjustment values.
+ */
+export const applyAdjustments = (imageData: ImageData, params: AdjustmentParams): void => {
+    const data = imageData.data;
+    const exposureGain = Math.pow(2, params.exposure);
+    // White balance as per-channel gains in linear light.
+    const temperature = params.temperature / 100;
+    const tint = params.tint / 100;
+    const gainR = exposureGain * (1 + 0.3 * temperature);
+    const gainG = exposureGain * (1 - 0.3 * tint);
+    const gainB = exposureGain * (1 - 0.3 * temperature);
+
+    const contrast = params.contrast >= 0 ? 1 + params.contrast / 50 : 1 + params.contrast / 100;
+    const highlights = params.highlights / 100 * 0.35;
+    const shadows = params.shadows / 100 * 0.35;
+    const saturation = 1 + params.saturation / 100;
+    const vibrance = params.vibrance / 100;
+
+    const lutRgb = buildCurveLut(params.curves.rgb);
+    const lutR = buildCurveLut(params.curves.r);
+    const lutG = buildCurveLut(params.curves.g);
+    const lutB = buildCurveLut(params.curves.b);
+
+    for (let i = 0; i < data.length; i += 4) {
+        let r = linearToSrgb(TO_LINEAR[data[i]] * gainR);
+        let g = linearToSrgb(TO_LINEAR[data[i + 1]] * gainG);
+        let b = linearToSrgb(TO_LINEAR[data[i + 2]] * gainB);
+
+        if (highlights !== 0 || shadows !== 0) {
+            const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+            const delta = shadows * (1 - luma) * (1 - luma) + highlights * luma * luma;
+            r += delta;
+            g += delta;
+            b += delta;
+        }
+
+        if (contrast !== 1) {
+            r = (r - 0.5) * contrast + 0.5;
+            g = (g - 0.5) * contrast + 0.5;
+            b = (b - 0.5) * contrast + 0.5;
+        }
+
+        if (saturation !== 1 || vibrance !== 0) {
+            const gray = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+            // Vibrance boosts muted colours more than already saturated ones.
+            const chroma = Math.max(r, g, b) - Math.min(r, g, b);
+            const factor = saturation * (1 + vibrance * (1 - Math.min(1, chroma)));
+            r = gray + (r - gray) * factor;
+            g = gray + (g - gray) * factor;
+            b = gray + (b - gray) * factor;
+        }
+
+        const r8 = Math.round(Math.min(1, Math.max(0, r)) * 255);
+        const g8 = Math.round(Math.min(1, Math.max(0, g)) * 255);
+        const b8 = Math.round(Math.min(1, Math.max(0, b)) * 255);
+        data[i] = lutR[lutRgb[r8]];
+        data[i + 1] = lutG[lutRgb[g8]];
+        data[i + 2] = lutB[lutRgb[b8]];
+    }
+};
+
+/**
+ * Draws an image scaled down to fit `maxEdge` and returns its pixels, for fast live previews.
+ * @param image The decoded source image.
+ * @param maxEdge The maximum width or height of the preview.
+ */
+export const readPreviewPixels = (image: HTMLImageElement, maxEdge: number): ImageData => {
+    const scale = Math.min(1, maxEdge / Math.max(image.naturalWidth, image.naturalHeight));
+    const width = Math.max(1, Math.round(image.naturalWidth * scale));
+    const height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const { ctx } = createCanvas(width, height);
+    ctx.drawImage(image, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+};
+
+/**
+ * Renders the adjustments onto the full-resolution source.
+ * @param source The unadjusted image.
+ * @param params The adjustment values.
+ * @returns A promise that resolves to the adjusted image as a PNG file.
+ */
+export const renderAdjustedFile = async (source: File, params: AdjustmentParams): Promise<File> => {
+    const image = await loadImage(source);
+    const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+    ctx.drawImage(image, 0, 0);
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    applyAdjustments(imageData, params);
+    ctx.putImageData(imageData, 0, 0);
+    return canvasToFile(canvas, `adjusted-${Date.now()}.png`);
+};
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Errors the UI can explain to the user. Services throw a code plus parameters; the
+// message shown is looked up in the active locale's catalogue (`error.<code>`).
+
+export type ErrorCode =
+    | 'unknown'
+    | 'quota'
+    | 'network'
+    | 'serverError'
+    | 'timeout'
+    | 'cancelled'
+    | 'promptBlocked'
+    | 'promptBlockedWithDetail'
+    | 'outputBlocked'
+    | 'noImage'
+    | 'noImageWithText'
+    | 'noBackground'
+    | 'noSuggestion'
+    | 'noReferences'
+    | 'providerUnknown'
+    | 'replayUnavailable'
+    | 'imageLoadFailed'
+    | 'canvasUnavailable'
+    | 'canvasExportFailed'
+    | 'exportFormatUnsupported'
+    | 'presetInvalidJson'
+    | 'presetWrongFormat'
+    | 'presetEmpty'
+    | 'storageOpenFailed'
+    | 'storageFailed'
+    | 'projectNotFound'
+    | 'maskEmpty'
+    | 'imageNotFound'
+    | 'retouchNoLocalChange'
+    | 'clipboardUnsupported'
+    | 'urlInvalid'
+    | 'urlFetchFailed'
+    | 'urlBlocked'
+    | 'urlNotImage'
+    | 'cameraUnsupported'
+    | 'cameraDenied'
+    | 'cameraNotFound';
+
+export type ErrorParams = Record<string, string | number>;
+
+export class AppError extends Error {
+    constructor(
+        readonly code: ErrorCode,
+        readonly params: ErrorParams = {},
+        /** English detail for logs; the UI never shows it. */
+        message?: string,
+    ) {
+        super(message ?? (Object.keys(params).length > 0 ? `${code} ${JSON.stringify(params)}` : code));
+        this.name = new.target.name;
+    }
+}
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { BatchItemStatus } from '../types.ts';
+
+export interface BatchItemResult {
+    key: string;
+    /** 'cancelled' items were never finished because the batch was aborted. */
+    status: 'done' | 'failed' | 'cancelled';
+    error?: unknown;
+}
+
+export interface BatchOptions {
+    concurrency: number;
+    signal?: AbortSignal;
+    onStatusChange?: (key: string, status: BatchItemStatus, error?: unknown) => void;
+}
+
+/**
+ * Runs `worker` for every key with at most `concurrency` items in flight. A failing item
+ * never stops the others; after an abort, items that have not started are skipped.
+ * @param keys Identifiers of the items to process, in queue order.
+ * @param worker Processes one item.
+ * @param options Concurrency, cancellation and status reporting.
+ * @returns One result per key, in the order of `keys`.
+ */
+export const runBatch = async (
+    keys: string[],
+    worker: (key: string) => Promise<void>,
+    { concurrency, signal, onStatusChange }: BatchOptions,
+): Promise<BatchItemResult[]> => {
+    const results: BatchItemResult[] = keys.map(key => ({ key, status: 'cancelled' }));
+    keys.forEach(key => onStatusChange?.(key, 'queued'));
+
+    let next = 0;
+    const runLane = async () => {
+        while (next < keys.length && !signal?.aborted) {
+            const position = next++;
+            const key = keys[position];
+            onStatusChange?.(key, 'running');
+            try {
+                await worker(key);
+                results[position] = { key, status: 'done' };
+                onStatusChange?.(key, 'done');
+            } catch (error) {
+                if (signal?.aborted) {
+                    results[position] = { key, status: 'cancelled', error };
+                } else {
+                    results[position] = { key, status: 'failed', error };
+                    onStatusChange?.(key, 'failed', error);
+                }
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, keys.length)) }, runLane));
+    return results;
+};
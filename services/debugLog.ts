@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageModelProvider, ModelOperation, ContentPart, InlineImage, ImageContentResult, TokenUsage } from './modelProviders.ts';
+import { AppError } from './appError.ts';
+import { runModelRequest } from './modelRequest.ts';
+
+// Records model calls for the debug inspector. Nothing is recorded until debug mode is
+// switched on, either with the `?debug` URL flag or the hidden shortcut in the editor.
+
+export type DebugCallMethod = 'generateImageContent' | 'generateImages' | 'generateText';
+
+export interface DebugInputImage {
+    mimeType: string;
+    bytes: number;
+    width?: number;
+    height?: number;
+}
+
+export interface DebugLogEntry {
+    id: string;
+    /** Set when this call re-ran an earlier one from the inspector. */
+    replayOf?: string;
+    startedAt: number;
+    operation: ModelOperation;
+    provider: string;
+    model: string;
+    method: DebugCallMethod;
+    prompt: string;
+    inputImages: DebugInputImage[];
+    aspectRatio?: string;
+    status: 'pending' | 'success' | 'error';
+    durationMs?: number;
+    usage?: TokenUsage;
+    finishReason?: string;
+    blockReason?: string;
+    blockReasonMessage?: string;
+    text?: string;
+    /** Data URLs of returned images, kept in memory only. */
+    outputImages?: string[];
+    error?: string;
+}
+
+const DEBUG_FLAG_KEY = 'sevaflow.debug';
+const MAX_ENTRIES = 50;
+
+let entries: DebugLogEntry[] = [];
+const listeners = new Set<(entries: DebugLogEntry[]) => void>();
+// Replays need the original request, which holds full image data; it stays out of the entries.
+const replays = new Map<string, () => Promise<unknown>>();
+
+const readFlag = (): boolean => {
+    try {
+        return new URLSearchParams(window.location.search).has('debug') || localStorage.getItem(DEBUG_FLAG_KEY) === '1';
+    } catch {
+        return false;
+    }
+};
+
+let enabled = readFlag();
+
+export const isDebugEnabled = (): boolean => enabled;
+
+/** Turns recording on or off; the choice is remembered across reloads. */
+export const setDebugEnabled = (value: boolean): void => {
+    enabled = value;
+    try {
+        if (value) localStorage.setItem(DEBUG_FLAG_KEY, '1'); else localStorage.removeItem(DEBUG_FLAG_KEY);
+    } catch {
+        // Private browsing can refuse storage; the flag then lasts for this session only.
+    }
+};
+
+export const getDebugEntries = (): DebugLogEntry[] => entries;
+
+/** Calls the listener on every change; returns the unsubscribe function. */
+export const subscribeDebugLog = (listener: (entries: DebugLogEntry[]) => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+const emit = () => listeners.forEach(listener => listener(entries));
+
+const upsert = (entry: DebugLogEntry) => {
+    const exists = entries.some(e => e.id === entry.id);
+    entries = exists ? entries.map(e => e.id === entry.id ? entry : e) : [entry, ...entries];
+    for (const dropped of entries.slice(MAX_ENTRIES)) replays.delete(dropped.id);
+    entries = entries.slice(0, MAX_ENTRIES);
+    emit();
+};
+
+export const clearDebugLog = (): void => {
+    entries = [];
+    replays.clear();
+    emit();
+};
+
+const describeInputImage = async (image: InlineImage): Promise<DebugInputImage> => {
+    const bytes = Math.floor(image.data.length * 3 / 4);
+    try {
+        const blob = await (await fetch(`data:${image.mimeType};base64,${image.data}`)).blob();
+        const bitmap = await createImageBitmap(blob);
+        const size = { width: bitmap.width, height: bitmap.height };
+        bitmap.close();
+        return { mimeType: image.mimeType, bytes, ...size };
+    } catch {
+        return { mimeType: image.mimeType, bytes };
+    }
+};
+
+const partsToInputs = (parts: ContentPart[]) => ({
+    prompt: parts.flatMap(part => 'text' in part ? [part.text] : []).join('\n\n'),
+    images: parts.flatMap(part => 'inlineData' in part ? [part.inlineData] : []),
+});
+
+const toDataUrl = (image: InlineImage) => `data:${image.mimeType};base64,${image.data}`;
+
+const record = async <T>(
+    base: Omit<DebugLogEntry, 'id' | 'startedAt' | 'status' | 'inputImages'>,
+    images: InlineImage[],
+    call: () => Promise<T>,
+    replayCall: (signal: AbortSignal) => Promise<T>,
+    describeResult: (result: T) => Partial<DebugLogEntry>,
+    replayOf?: string,
+): Promise<T> => {
+    const entry: DebugLogEntry = { ...base, id: crypto.randomUUID(), replayOf, startedAt: Date.now(), status: 'pending', inputImages: [] };
+    // Replays go through the same timeout, concurrency and rate limits as the app's own requests.
+    const replay = () => runModelRequest(replayCall, { maxRetries: 0 });
+    replays.set(entry.id, () => record(base, images, replay, replayCall, describeResult, entry.id));
+    upsert(entry);
+    Promise.all(images.map(describeInputImage)).then(inputImages => {
+        const latest = entries.find(e => e.id === entry.id);
+        if (latest) upsert({ ...latest, inputImages });
+    });
+
+    const startedAt = performance.now();
+    try {
+        const result = await call();
+        const latest = entries.find(e => e.id === entry.id) ?? entry;
+        upsert({ ...latest, status: 'success', durationMs: Math.round(performance.now() - startedAt), ...describeResult(result) });
+        return result;
+    } catch (err) {
+        const latest = entries.find(e => e.id === entry.id) ?? entry;
+        upsert({ ...latest, status: 'error', durationMs: Math.round(performance.now() - startedAt), error: err instanceof Error ? `${err.name}: ${err.message}` : String(err) });
+        throw err;
+    }
+};
+
+const describeImageContent = (result: ImageContentResult): Partial<DebugLogEntry> => ({
+    usage: result.usage,
+    finishReason: result.finishReason,
+    blockReason: result.blockReason,
+    blockReasonMessage: result.blockReasonMessage,
+    text: result.text,
+    outputImages: result.image ? [toDataUrl(result.image)] : [],
+});
+
+/**
+ * Wraps a provider so each call it serves for an operation is recorded.
+ * Every retry attempt is a call of its own and gets its own entry.
+ */
+export const traceProvider = (provider: ImageModelProvider, operation: ModelOperation): ImageModelProvider => ({
+    ...provider,
+    generateImageContent: (request) => {
+        const { prompt, images } = partsToInputs(request.parts);
+        return record(
+            { operation, provider: provider.id, model: request.model, method: 'generateImageContent', prompt },
+            images,
+            () => provider.generateImageContent(request),
+            (signal) => provider.generateImageContent({ ...request, signal }),
+            describeImageContent,
+        );
+    },
+    generateImages: (request) => record(
+        { operation, provider: provider.id, model: request.model, method: 'generateImages', prompt: request.prompt, aspectRatio: request.aspectRatio },
+        [],
+        () => provider.generateImages(request),
+        (signal) => provider.generateImages({ ...request, signal }),
+        (images) => ({ outputImages: images.map(toDataUrl) }),
+    ),
+    generateText: (request) => record(
+        { operation, provider: provider.id, model: request.model, method: 'generateText', prompt: request.prompt },
+        [],
+        () => provider.generateText(request),
+        (signal) => provider.generateText({ ...request, signal }),
+        (text) => ({ text }),
+    ),
+});
+
+/**
+ * Runs a recorded call again with the same request, without cancellation or retries but
+ * subject to the usual timeout and rate limits.
+ * The result is recorded as a new entry.
+ */
+export const replayDebugEntry = async (id: string): Promise<void> => {
+    const replay = replays.get(id);
+    if (!replay) throw new AppError('replayUnavailable');
+    await replay();
+};
+
+/** The log as pretty-printed JSON, without image data. */
+export const exportDebugLog = (): string => JSON.stringify({
+    exportedAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    entries: entries.map(({ outputImages, ...entry }) => ({
+        ...entry,
+        startedAt: new Date(entry.startedAt).toISOString(),
+        outputImageCount: outputImages?.length ?? 0,
+    })),
+}, null, 2);
@@ -3,7 +3,10 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { resolveModel, type ImageContentResult, type AspectRatio, type ModelOperation } from './modelProviders.ts';
+import { matchInputSize } from './upscaler.ts';
+import { AppError } from './appError.ts';
+import { runModelRequest, SafetyBlockError, InvalidResponseError, type RequestOptions } from './modelRequest.ts';
 
 // Helper function to convert a File object to a Gemini API Part
 const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
@@ -25,69 +28,69 @@ const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string;
 };
 
 const handleApiResponse = (
-    response: GenerateContentResponse,
-    context: string // e.g., "edit", "filter", "adjustment"
+    response: ImageContentResult,
+    operation: ModelOperation,
 ): string => {
     // 1. Check for prompt blocking first
-    if (response.promptFeedback?.blockReason) {
-        const { blockReason, blockReasonMessage } = response.promptFeedback;
-        let userMessage = `Permintaan Anda tidak dapat diproses karena diblokir oleh kebijakan keamanan (${blockReason}).`;
-        if (blockReasonMessage) {
-            userMessage += ` Detail: ${blockReasonMessage}`;
-        }
-        userMessage += " Coba ubah deskripsi Anda agar lebih umum.";
-        console.error(userMessage, { response });
-        throw new Error(userMessage);
+    if (response.blockReason) {
+        const { blockReason, blockReasonMessage } = response;
+        console.error(`Prompt for ${operation} was blocked (${blockReason}).`, { response });
+        throw blockReasonMessage
+            ? new SafetyBlockError('promptBlockedWithDetail', { reason: blockReason, detail: blockReasonMessage }, blockReason)
+            : new SafetyBlockError('promptBlocked', { reason: blockReason }, blockReason);
     }
 
     // 2. Try to find the image part
-    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-
-    if (imagePartFromResponse?.inlineData) {
-        const { mimeType, data } = imagePartFromResponse.inlineData;
-        console.log(`Received image data (${mimeType}) for ${context}`);
+    if (response.image) {
+        const { mimeType, data } = response.image;
+        console.log(`Received image data (${mimeType}) for ${operation}`);
         return `data:${mimeType};base64,${data}`;
     }
 
     // 3. If no image, check for other reasons
-    const finishReason = response.candidates?.[0]?.finishReason;
+    const finishReason = response.finishReason;
     if (finishReason && finishReason !== 'STOP') {
-        const userMessage = `Pembuatan gambar untuk ${context} gagal karena kebijakan keamanan (${finishReason}). Coba ulangi perintah Anda agar lebih lugas atau kurang spesifik tentang perubahan pada orang.`;
-        console.error(userMessage, { response });
-        throw new Error(userMessage);
+        console.error(`Image generation for ${operation} stopped (${finishReason}).`, { response });
+        throw new SafetyBlockError('outputBlocked', { operation, reason: finishReason }, finishReason);
     }
     
     const textFeedback = response.text?.trim();
-    const errorMessage = `Model AI tidak mengembalikan gambar untuk ${context}. ` + 
-        (textFeedback 
-            ? `Model merespons dengan teks: "${textFeedback}"`
-            : "Ini bisa terjadi karena filter keamanan atau jika permintaan terlalu rumit. Coba ulangi perintah Anda agar lebih lugas.");
-
-    console.error(`Model response did not contain an image part for ${context}.`, { response });
-    throw new Error(errorMessage);
+    console.error(`Model response did not contain an image part for ${operation}.`, { response });
+    throw textFeedback
+        ? new InvalidResponseError('noImageWithText', { operation, text: textFeedback })
+        : new InvalidResponseError('noImage', { operation });
 };
 
 /**
- * Generates an edited image using generative AI based on a text prompt and specific points.
+ * Generates an edited image using generative AI based on a text prompt and specific points or a painted mask.
  * @param originalImage The original image file.
  * @param userPrompt The text prompt describing the desired edit.
  * @param hotspots An array of {x, y} coordinates on the image to focus the edit.
+ * @param mask Optional black/white mask (white = editable) at the image's size, sent as a second image.
+ * @param options Cancellation signal and retry/timeout overrides.
  * @returns A promise that resolves to the data URL of the edited image.
  */
 export const generateEditedImage = async (
     originalImage: File,
     userPrompt: string,
-    hotspots: { x: number, y: number }[]
+    hotspots: { x: number, y: number }[],
+    mask?: File,
+    options: RequestOptions = {},
 ): Promise<string> => {
-    console.log('Starting generative edit at:', hotspots);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    console.log('Starting generative edit at:', mask ? 'painted mask' : hotspots);
+    const { provider, model } = resolveModel('edit');
     
     const originalImagePart = await fileToPart(originalImage);
+    const maskImagePart = mask ? await fileToPart(mask) : null;
     const hotspotString = hotspots.map(p => `(x: ${p.x}, y: ${p.y})`).join(', ');
 
+    const editLocations = maskImagePart
+        ? `Edit Region: The second image is a black-and-white mask with the same dimensions as the first image. Apply the edit ONLY inside the white area of the mask; every pixel in the black area must stay exactly as in the original.${hotspots.length > 0 ? ` Additional guide points: ${hotspotString}.` : ''}`
+        : `Edit Locations: Focus on the areas around these pixel coordinates: ${hotspotString}. For edits affecting a single object (e.g., changing shirt color), treat these points as markers on that object. For edits adding elements, consider these points as placement guides.`;
+
     const prompt = `You are an expert photo editor AI. Your task is to perform a natural, localized edit on the provided image based on the user's request. The edit should intelligently incorporate all specified locations.
 User Request: "${userPrompt}"
-Edit Locations: Focus on the areas around these pixel coordinates: ${hotspotString}. For edits affecting a single object (e.g., changing shirt color), treat these points as markers on that object. For edits adding elements, consider these points as placement guides.
+${editLocations}
 
 Editing Guidelines:
 - The edit must be realistic and blend seamlessly with the surrounding area.
@@ -96,29 +99,92 @@ Editing Guidelines:
 
 Output: Return ONLY the final edited image. Do not return text.`;
     const textPart = { text: prompt };
+    const parts = maskImagePart ? [originalImagePart, maskImagePart, textPart] : [originalImagePart, textPart];
 
     console.log('Sending image and prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [originalImagePart, textPart] },
-    });
-    console.log('Received response from model.', response);
+    const response = await runModelRequest(signal => provider.generateImageContent({ operation: 'edit', model, parts, signal }), options);
 
-    return handleApiResponse(response, 'edit');
+    return matchInputSize(handleApiResponse(response, 'edit'), originalImage);
+};
+
+/**
+ * Removes whatever is inside a mask and fills the area with plausible background.
+ * @param originalImage The image to clean up.
+ * @param mask Black/white mask (white = remove) at the image's size, sent as a second image.
+ * @param options Cancellation signal and retry/timeout overrides.
+ * @returns A promise that resolves to the data URL of the model result; callers composite it inside the mask.
+ */
+export const generateErasedImage = async (
+    originalImage: File,
+    mask: File,
+    options: RequestOptions = {},
+): Promise<string> => {
+    console.log('Starting object removal.');
+    const { provider, model } = resolveModel('erase');
+
+    const originalImagePart = await fileToPart(originalImage);
+    const maskImagePart = await fileToPart(mask);
+    const prompt = `You are an expert photo retoucher AI. Your task is to remove unwanted content from the first image.
+Removal Region: The second image is a black-and-white mask with the same dimensions as the first image. Everything under the white area must be removed completely.
+
+Fill Guidelines:
+- Reconstruct what would naturally be behind the removed content, continuing the surrounding background, textures, patterns, lines and perspective.
+- Match the lighting, noise, grain and sharpness of the surrounding area so the fill is invisible.
+- Remove any shadows, reflections or outlines left by the removed content.
+- Do NOT add new objects, people, text or anything not already suggested by the surroundings.
+- Every pixel in the black area of the mask must stay exactly as in the original.
+
+Output: Return ONLY the final image. Do not return text.`;
+
+    console.log('Sending image, mask and removal prompt to the model...');
+    const response = await runModelRequest(signal => provider.generateImageContent({ operation: 'erase', model, parts: [originalImagePart, maskImagePart, { text: prompt }], signal }), options);
+
+    return matchInputSize(handleApiResponse(response, 'erase'), originalImage);
+};
+
+/**
+ * Detects the object under a point and returns its silhouette as a mask.
+ * @param image The image to segment.
+ * @param point Pixel coordinates on the object.
+ * @param options Cancellation signal and retry/timeout overrides.
+ * @returns A promise that resolves to the data URL of a white-on-black mask at the image's size.
+ */
+export const generateObjectMask = async (
+    image: File,
+    point: { x: number, y: number },
+    options: RequestOptions = {},
+): Promise<string> => {
+    console.log('Detecting object at', point);
+    const { provider, model } = resolveModel('segment');
+
+    const imagePart = await fileToPart(image);
+    const prompt = `You are an image segmentation AI. Identify the single object located at the pixel coordinates (x: ${point.x}, y: ${point.y}) of the provided image.
+
+Output Requirements:
+- Return a black-and-white mask image with exactly the same dimensions as the input.
+- Pixels belonging to that whole object (including parts not touching the point) must be pure white; everything else pure black.
+- Include the object's shadow only if it is clearly attached to it.
+- Do not return text.`;
+
+    const response = await runModelRequest(signal => provider.generateImageContent({ operation: 'segment', model, parts: [imagePart, { text: prompt }], signal }), options);
+
+    return handleApiResponse(response, 'segment');
 };
 
 /**
  * Generates an image with a filter applied using generative AI.
  * @param originalImage The original image file.
  * @param filterPrompt The text prompt describing the desired filter.
+ * @param options Cancellation signal and retry/timeout overrides.
  * @returns A promise that resolves to the data URL of the filtered image.
  */
 export const generateFilteredImage = async (
     originalImage: File,
     filterPrompt: string,
+    options: RequestOptions = {},
 ): Promise<string> => {
     console.log(`Starting filter generation: ${filterPrompt}`);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    const { provider, model } = resolveModel('filter');
     
     const originalImagePart = await fileToPart(originalImage);
     const prompt = `You are an expert photo editor AI. Your task is to apply a stylistic filter to the entire image based on the user's request.
@@ -132,27 +198,65 @@ Output: Return ONLY the final filtered image. Do not return text.`;
     const textPart = { text: prompt };
 
     console.log('Sending image and filter prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [originalImagePart, textPart] },
-    });
-    console.log('Received response from model for filter.', response);
+    const response = await runModelRequest(signal => provider.generateImageContent({ operation: 'filter', model, parts: [originalImagePart, textPart], signal }), options);
     
-    return handleApiResponse(response, 'filter');
+    return matchInputSize(handleApiResponse(response, 'filter'), originalImage);
+};
+
+/**
+ * Restyles an image to match one or more reference images (a mood board), keeping its content.
+ * @param originalImage The image to restyle.
+ * @param references Images whose colour grade, lighting and mood should be matched.
+ * @param stylePrompt Optional extra direction, e.g. "only the colours, not the grain".
+ * @param strength How closely to match the references, 0-100.
+ * @param options Cancellation signal and retry/timeout overrides.
+ * @returns A promise that resolves to the data URL of the restyled image.
+ */
+export const generateStyleTransferImage = async (
+    originalImage: File,
+    references: File[],
+    stylePrompt: string,
+    strength: number,
+    options: RequestOptions = {},
+): Promise<string> => {
+    if (references.length === 0) throw new AppError('noReferences');
+    console.log(`Starting style transfer from ${references.length} reference(s) at ${strength}%: ${stylePrompt}`);
+    const { provider, model } = resolveModel('styleTransfer');
+
+    const [originalImagePart, ...referenceParts] = await Promise.all([originalImage, ...references].map(fileToPart));
+    const intensity = strength >= 75 ? 'closely match' : strength >= 40 ? 'clearly move towards' : 'subtly hint at';
+    const prompt = `You are an expert colorist and photo editor AI. The first image is the photo to edit. The ${referenceParts.length === 1 ? 'second image is a style reference' : `next ${referenceParts.length} images are style references`}.
+Your task is to restyle the photo so it ${intensity} the look of the reference${referenceParts.length === 1 ? '' : 's'}: color grading, contrast, lighting mood, tonal range and texture.
+Strength: ${strength}%
+${stylePrompt.trim() ? `Additional direction: "${stylePrompt.trim()}"
+` : ''}
+Style Transfer Guidelines:
+- Keep the composition, subjects, framing and content of the first image exactly as they are; take only the style from the references.
+- Never copy objects, people or text from the references into the photo.
+- The result must not alter a person's fundamental ethnicity or core identity.
+
+Output: Return ONLY the final restyled image. Do not return text.`;
+
+    console.log('Sending image, references and style prompt to the model...');
+    const response = await runModelRequest(signal => provider.generateImageContent({ operation: 'styleTransfer', model, parts: [originalImagePart, ...referenceParts, { text: prompt }], signal }), options);
+
+    return matchInputSize(handleApiResponse(response, 'styleTransfer'), originalImage);
 };
 
 /**
  * Generates an image with a global adjustment applied using generative AI.
  * @param originalImage The original image file.
  * @param adjustmentPrompt The text prompt describing the desired adjustment.
+ * @param options Cancellation signal and retry/timeout overrides.
  * @returns A promise that resolves to the data URL of the adjusted image.
  */
 export const generateAdjustedImage = async (
     originalImage: File,
     adjustmentPrompt: string,
+    options: RequestOptions = {},
 ): Promise<string> => {
     console.log(`Starting global adjustment generation: ${adjustmentPrompt}`);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    const { provider, model } = resolveModel('adjustment');
     
     const originalImagePart = await fileToPart(originalImage);
     const prompt = `You are an expert photo editor AI. Your task is to perform a natural, global adjustment to the entire image based on the user's request.
@@ -167,13 +271,9 @@ Output: Return ONLY the final adjusted image. Do not return text.`;
     const textPart = { text: prompt };
 
     console.log('Sending image and adjustment prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [originalImagePart, textPart] },
-    });
-    console.log('Received response from model for adjustment.', response);
+    const response = await runModelRequest(signal => provider.generateImageContent({ operation: 'adjustment', model, parts: [originalImagePart, textPart], signal }), options);
     
-    return handleApiResponse(response, 'adjustment');
+    return matchInputSize(handleApiResponse(response, 'adjustment'), originalImage);
 };
 
 
@@ -181,41 +281,37 @@ Output: Return ONLY the final adjusted image. Do not return text.`;
  * Generates a background image from a text prompt.
  * @param prompt The text prompt describing the desired background.
  * @param aspectRatio The desired aspect ratio for the image.
+ * @param options Cancellation signal and retry/timeout overrides.
  * @returns A promise that resolves to the data URL of the generated background.
  */
 export const generateBackgroundImage = async (
     prompt: string,
-    aspectRatio: '1:1' | '3:4' | '4:3' | '9:16' | '16:9',
+    aspectRatio: AspectRatio,
+    options: RequestOptions = {},
 ): Promise<string> => {
     console.log(`Generating background with prompt: ${prompt} and aspect ratio: ${aspectRatio}`);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    const { provider, model } = resolveModel('background');
 
     try {
-        const response = await ai.models.generateImages({
-            model: 'imagen-4.0-generate-001',
+        const images = await runModelRequest(signal => provider.generateImages({
+            model,
             prompt: `Generate a high-quality, photorealistic background image. The scene should be: ${prompt}. The image should not contain any primary subjects, people, or animals; it should be a background scene.`,
-            config: {
-              numberOfImages: 1,
-              outputMimeType: 'image/png',
-              aspectRatio: aspectRatio,
-            },
-        });
-
-        if (response.generatedImages && response.generatedImages.length > 0) {
-            const base64ImageBytes: string = response.generatedImages[0].image.imageBytes;
+            aspectRatio,
+            signal,
+        }), options);
+
+        if (images.length > 0) {
+            const { mimeType, data } = images[0];
             console.log('Successfully generated background image.');
-            return `data:image/png;base64,${base64ImageBytes}`;
+            return `data:${mimeType};base64,${data}`;
         } else {
-            // FIX: Property 'promptFeedback' does not exist on type 'GenerateImagesResponse'.
-            // Removed incorrect access to `promptFeedback`. If no images are returned,
-            // it's often due to safety policies. A generic error is thrown as specific
-            // block reasons are not available in this response.
-            throw new Error('Pembuatan latar belakang gagal: Model AI tidak mengembalikan gambar.');
+            // Image generation responses carry no prompt feedback. If no images are returned,
+            // it's often due to safety policies, so a generic error is thrown.
+            throw new InvalidResponseError('noBackground');
         }
     } catch (err) {
         console.error('Error calling generateImages API:', err);
-        const errorMessage = err instanceof Error ? err.message : 'Terjadi kesalahan tidak dikenal saat pembuatan latar belakang.';
-        throw new Error(errorMessage);
+        throw err;
     }
 };
 
@@ -223,14 +319,16 @@ export const generateBackgroundImage = async (
  * Composites a subject from one image onto a new background image.
  * @param subjectImage The image containing the subject to be extracted.
  * @param backgroundImage The new background image.
+ * @param options Cancellation signal and retry/timeout overrides.
  * @returns A promise that resolves to the data URL of the final composited image.
  */
 export const applyBackgroundToImage = async (
     subjectImage: File,
     backgroundImage: File,
+    options: RequestOptions = {},
 ): Promise<string> => {
     console.log(`Applying new background to image.`);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    const { provider, model } = resolveModel('backgroundReplacement');
     
     const subjectImagePart = await fileToPart(subjectImage);
     const backgroundImagePart = await fileToPart(backgroundImage);
@@ -249,25 +347,98 @@ Output: Return ONLY the final composited image. Do not return text.`;
     const textPart = { text: prompt };
 
     console.log('Sending subject image, background image, and prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [subjectImagePart, backgroundImagePart, textPart] },
-    });
-    console.log('Received response from model for background replacement.', response);
+    const response = await runModelRequest(signal => provider.generateImageContent({ operation: 'backgroundReplacement', model, parts: [subjectImagePart, backgroundImagePart, textPart], signal }), options);
     
-    return handleApiResponse(response, 'background replacement');
+    return handleApiResponse(response, 'backgroundReplacement');
+};
+
+/**
+ * Places a product cutout into a scene at a chosen point, matching the scene's lighting and shadows.
+ * @param sceneImage The photo to place the product into.
+ * @param productImage The product cutout, ideally on a transparent or plain background.
+ * @param hotspot Pixel coordinates in the scene where the product should stand.
+ * @param productName Name of the product, to help the model keep its details intact.
+ * @param options Cancellation signal and retry/timeout overrides.
+ * @returns A promise that resolves to the data URL of the composited image.
+ */
+export const generateProductPlacement = async (
+    sceneImage: File,
+    productImage: File,
+    hotspot: { x: number, y: number },
+    productName: string,
+    options: RequestOptions = {},
+): Promise<string> => {
+    console.log(`Placing product "${productName}" at`, hotspot);
+    const { provider, model } = resolveModel('placement');
+
+    const sceneImagePart = await fileToPart(sceneImage);
+    const productImagePart = await fileToPart(productImage);
+
+    const prompt = `You are an expert product photographer and photo editor AI. Your task is to place the product from the second image into the scene of the first image.
+Product: "${productName}"
+Placement: Position the product so it naturally rests at or around the pixel coordinates (x: ${hotspot.x}, y: ${hotspot.y}) of the first image.
+
+Placement Guidelines:
+- Keep the product exactly as it is: its shape, colours, logos, labels and text must not change.
+- Scale the product realistically for the scene's perspective and surrounding objects.
+- Match the scene's lighting direction, colour temperature and contrast on the product.
+- Add believable contact shadows and reflections where the product meets surfaces.
+- The rest of the scene must remain identical to the original.
+- The output dimensions must match the first image.
+
+Output: Return ONLY the final composited image. Do not return text.`;
+
+    const textPart = { text: prompt };
+
+    console.log('Sending scene, product and placement prompt to the model...');
+    const response = await runModelRequest(signal => provider.generateImageContent({ operation: 'placement', model, parts: [sceneImagePart, productImagePart, textPart], signal }), options);
+
+    return matchInputSize(handleApiResponse(response, 'placement'), sceneImage);
+};
+
+/**
+ * Upscales an image with generative detail enhancement.
+ * @param originalImage The image to upscale.
+ * @param factor How many times larger the result should be, e.g. 2 or 4.
+ * @param options Cancellation signal and retry/timeout overrides.
+ * @returns A promise that resolves to the data URL of the model result, at whatever size the model returned.
+ */
+export const generateUpscaledImage = async (
+    originalImage: File,
+    factor: number,
+    options: RequestOptions = {},
+): Promise<string> => {
+    console.log(`Starting ${factor}x upscale.`);
+    const { provider, model } = resolveModel('upscale');
+
+    const originalImagePart = await fileToPart(originalImage);
+    const prompt = `You are an expert image restoration AI. Your task is to produce a ${factor}x higher-resolution version of the provided image.
+
+Upscaling Guidelines:
+- Output the largest resolution you can, keeping the exact same aspect ratio and framing.
+- Recover fine detail: sharpen edges, textures, hair and text naturally, without halos or oversharpening.
+- Remove compression artifacts and noise, but keep the photo's natural grain where it belongs.
+- Do NOT change content, composition, colours, lighting or a person's identity and facial features.
+
+Output: Return ONLY the upscaled image. Do not return text.`;
+
+    const response = await runModelRequest(signal => provider.generateImageContent({ operation: 'upscale', model, parts: [originalImagePart, { text: prompt }], signal }), options);
+
+    return handleApiResponse(response, 'upscale');
 };
 
 /**
  * Generates a random creative prompt suggestion from the AI.
  * @param context The context for the suggestion (e.g., 'retouch', 'filter').
+ * @param options Cancellation signal and retry/timeout overrides.
  * @returns A promise that resolves to a string containing the editing idea.
  */
 export const generateRandomPrompt = async (
-    context: 'retouch' | 'filter' | 'adjustment' | 'background'
+    context: 'retouch' | 'filter' | 'adjustment' | 'background',
+    options: RequestOptions = {},
 ): Promise<string> => {
     console.log(`Generating random prompt for context: ${context}`);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    const { provider, model } = resolveModel('prompt');
 
     const instruction = `You are a creative assistant for a photo editing app. Your task is to provide a single, short, creative photo editing idea for a user.
 - The context for the idea is: "${context}".
@@ -283,18 +454,12 @@ export const generateRandomPrompt = async (
 Give me one random idea for the "${context}" context.`;
     
     try {
-        const response: GenerateContentResponse = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: instruction,
-            config: {
-                thinkingConfig: { thinkingBudget: 0 }
-            }
-        });
+        const response = await runModelRequest(signal => provider.generateText({ model, prompt: instruction, signal }), options);
 
-        const text = response.text.trim().replace(/["']/g, "");
+        const text = response.trim().replace(/["']/g, "");
 
         if (!text) {
-            throw new Error('AI tidak mengembalikan saran.');
+            throw new InvalidResponseError('noSuggestion');
         }
 
         console.log(`Generated prompt suggestion: ${text}`);
@@ -302,7 +467,6 @@ Give me one random idea for the "${context}" context.`;
 
     } catch (err) {
         console.error('Error generating random prompt:', err);
-        const errorMessage = err instanceof Error ? err.message : 'Terjadi kesalahan tidak dikenal.';
-        throw new Error(`Gagal mendapatkan ide dari AI. ${errorMessage}`);
+        throw err;
     }
 };
\ No newline at end of file
@@ -0,0 +1,295 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Layer } from '../types.ts';
+import { loadImage, createCanvas, canvasToFile } from './imageCompositing.ts';
+import { lanczosResize } from './upscaler.ts';
+
+// Local geometry edits: perspective correction, rotation, flips and the crop itself. Every
+// step works in the photo's own pixels, so the result never depends on the screen it was
+// made on. The pipeline is: perspective (on the source) -> rotate about the centre -> flip
+// as seen on screen -> crop -> optional resample to a fixed output size.
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface Size {
+    width: number;
+    height: number;
+}
+
+/** A rectangle in frame pixels, i.e. of the photo after perspective, rotation and flips. */
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface GeometryParams {
+    /** Straightening angle in degrees, clockwise, -45..45. */
+    rotation: number;
+    /** Clockwise 90° turns, 0..3. */
+    quarterTurns: number;
+    flipH: boolean;
+    flipV: boolean;
+    /** Source corners that become the corners of the photo (top-left, top-right, bottom-right, bottom-left); null when unused. */
+    perspective: Point[] | null;
+}
+
+export const DEFAULT_GEOMETRY: GeometryParams = {
+    rotation: 0,
+    quarterTurns: 0,
+    flipH: false,
+    flipV: false,
+    perspective: null,
+};
+
+export const MAX_STRAIGHTEN_DEGREES = 45;
+
+export const isDefaultGeometry = (params: GeometryParams): boolean =>
+    params.rotation === 0 && params.quarterTurns === 0 && !params.flipH && !params.flipV && !params.perspective;
+
+/** The four corners of an image, in the order `perspective` uses. */
+export const imageCorners = ({ width, height }: Size): Point[] =>
+    [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+
+/** Scales every source-pixel quantity in the parameters, e.g. for a downscaled preview. */
+export const scaleGeometry = (params: GeometryParams, factor: number): GeometryParams => ({
+    ...params,
+    perspective: params.perspective && params.perspective.map(p => ({ x: p.x * factor, y: p.y * factor })),
+});
+
+type Matrix = [number, number, number, number, number, number, number, number, number];
+
+// Projective map from the unit square onto a quad (Heckbert's square-to-quad), row-major.
+const squareToQuad = ([p0, p1, p2, p3]: Point[]): Matrix => {
+    const dx1 = p1.x - p2.x, dx2 = p3.x - p2.x, dx3 = p0.x - p1.x + p2.x - p3.x;
+    const dy1 = p1.y - p2.y, dy2 = p3.y - p2.y, dy3 = p0.y - p1.y + p2.y - p3.y;
+    if (Math.abs(dx3) < 1e-9 && Math.abs(dy3) < 1e-9) {
+        return [p1.x - p0.x, p3.x - p0.x, p0.x, p1.y - p0.y, p3.y - p0.y, p0.y, 0, 0, 1];
+    }
+    const det = dx1 * dy2 - dx2 * dy1;
+    const g = (dx3 * dy2 - dx2 * dy3) / det;
+    const h = (dx1 * dy3 - dx3 * dy1) / det;
+    return [
+        p1.x - p0.x + g * p1.x, p3.x - p0.x + h * p3.x, p0.x,
+        p1.y - p0.y + g * p1.y, p3.y - p0.y + h * p3.y, p0.y,
+        g, h, 1,
+    ];
+};
+
+const invert = ([a, b, c, d, e, f, g, h, i]: Matrix): Matrix => {
+    const A = e * i - f * h, B = f * g - d * i, C = d * h - e * g;
+    const det = a * A + b * B + c * C;
+    return [
+        A / det, (c * h - b * i) / det, (b * f - c * e) / det,
+        B / det, (a * i - c * g) / det, (c * d - a * f) / det,
+        C / det, (b * g - a * h) / det, (a * e - b * d) / det,
+    ];
+};
+
+const project = (m: Matrix, x: number, y: number): Point => {
+    const w = m[6] * x + m[7] * y + m[8];
+    return { x: (m[0] * x + m[1] * y + m[2]) / w, y: (m[3] * x + m[4] * y + m[5]) / w };
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+type Source = HTMLImageElement | HTMLCanvasElement;
+
+const sizeOf = (source: Source): Size => source instanceof HTMLImageElement
+    ? { width: source.naturalWidth, height: source.naturalHeight }
+    : { width: source.width, height: source.height };
+
+/** Size of the photo once its perspective quad has been straightened into a rectangle. */
+const getCorrectedSize = (source: Size, quad: Point[] | null): Size => {
+    if (!quad) return source;
+    return {
+        width: Math.max(1, Math.round(Math.max(distance(quad[0], quad[1]), distance(quad[3], quad[2])))),
+        height: Math.max(1, Math.round(Math.max(distance(quad[0], quad[3]), distance(quad[1], quad[2])))),
+    };
+};
+
+const totalAngle = (params: GeometryParams) => (params.quarterTurns * 90 + params.rotation) * Math.PI / 180;
+
+/** Size of the frame the crop is drawn in: the corrected photo's bounding box after rotation. */
+export const getFrameSize = (source: Size, params: GeometryParams): Size => {
+    const { width, height } = getCorrectedSize(source, params.perspective);
+    const angle = totalAngle(params);
+    const cos = Math.abs(Math.cos(angle)), sin = Math.abs(Math.sin(angle));
+    return { width: Math.round(width * cos + height * sin), height: Math.round(width * sin + height * cos) };
+};
+
+/**
+ * The largest centred crop that holds no empty corners after straightening.
+ * @param aspect Width / height; defaults to the photo's own (turned) aspect.
+ */
+export const getInscribedCrop = (source: Size, params: GeometryParams, aspect?: number): CropRect => {
+    const corrected = getCorrectedSize(source, params.perspective);
+    const turned = params.quarterTurns % 2 === 0 ? corrected : { width: corrected.height, height: corrected.width };
+    const ratio = aspect ?? turned.width / turned.height;
+    const angle = params.rotation * Math.PI / 180;
+    const cos = Math.abs(Math.cos(angle)), sin = Math.abs(Math.sin(angle));
+    const width = Math.min(turned.width / (cos + sin / ratio), turned.height / (sin + cos / ratio));
+    const height = width / ratio;
+    const frame = getFrameSize(source, params);
+    return { x: (frame.width - width) / 2, y: (frame.height - height) / 2, width, height };
+};
+
+/** Resizes a crop about its centre, shrinking it proportionally when it would leave the frame. */
+export const resizeCrop = (crop: CropRect, size: Size, frame: Size): CropRect => {
+    const fit = Math.min(1, frame.width / size.width, frame.height / size.height);
+    const width = size.width * fit, height = size.height * fit;
+    const centre = { x: crop.x + crop.width / 2, y: crop.y + crop.height / 2 };
+    return {
+        x: Math.min(Math.max(0, centre.x - width / 2), frame.width - width),
+        y: Math.min(Math.max(0, centre.y - height / 2), frame.height - height),
+        width,
+        height,
+    };
+};
+
+/** Integer pixel bounds of a crop, kept inside the frame. */
+export const roundCrop = (crop: CropRect, frame: Size): CropRect => {
+    const x = Math.max(0, Math.round(crop.x)), y = Math.max(0, Math.round(crop.y));
+    return {
+        x,
+        y,
+        width: Math.max(1, Math.min(frame.width - x, Math.round(crop.width))),
+        height: Math.max(1, Math.min(frame.height - y, Math.round(crop.height))),
+    };
+};
+
+/**
+ * Maps a point of the source photo into the frame.
+ * @param withFlips False to leave the flips out, e.g. to orient unmirrored content.
+ */
+const createFrameMapper = (source: Size, params: GeometryParams, withFlips = true) => {
+    const corrected = getCorrectedSize(source, params.perspective);
+    const toCorrected = params.perspective && invert(squareToQuad(params.perspective));
+    const frame = getFrameSize(source, params);
+    const angle = totalAngle(params);
+    const cos = Math.cos(angle), sin = Math.sin(angle);
+    const flipX = withFlips && params.flipH ? -1 : 1, flipY = withFlips && params.flipV ? -1 : 1;
+    return (point: Point): Point => {
+        let { x, y } = point;
+        if (toCorrected) {
+            const unit = project(toCorrected, x, y);
+            x = unit.x * corrected.width;
+            y = unit.y * corrected.height;
+        }
+        x -= corrected.width / 2;
+        y -= corrected.height / 2;
+        return {
+            x: (x * cos - y * sin) * flipX + frame.width / 2,
+            y: (x * sin + y * cos) * flipY + frame.height / 2,
+        };
+    };
+};
+
+// Inverse-maps every output pixel into the source quad and samples it bilinearly.
+const warpPerspective = (source: Source, quad: Point[], size: Size): HTMLCanvasElement => {
+    const image = sizeOf(source);
+    const { ctx: sourceCtx } = createCanvas(image.width, image.height);
+    sourceCtx.drawImage(source, 0, 0);
+    const input = sourceCtx.getImageData(0, 0, image.width, image.height).data;
+    const { canvas, ctx } = createCanvas(size.width, size.height);
+    const output = ctx.createImageData(size.width, size.height);
+    const toSource = squareToQuad(quad);
+    const maxX = image.width - 1, maxY = image.height - 1;
+
+    for (let y = 0; y < size.height; y++) {
+        for (let x = 0; x < size.width; x++) {
+            const point = project(toSource, (x + 0.5) / size.width, (y + 0.5) / size.height);
+            const sx = point.x - 0.5, sy = point.y - 0.5;
+            if (sx < -0.5 || sy < -0.5 || sx > maxX + 0.5 || sy > maxY + 0.5) continue;
+            const x0 = Math.max(0, Math.min(maxX, Math.floor(sx))), y0 = Math.max(0, Math.min(maxY, Math.floor(sy)));
+            const x1 = Math.min(maxX, x0 + 1), y1 = Math.min(maxY, y0 + 1);
+            const fx = Math.max(0, Math.min(1, sx - x0)), fy = Math.max(0, Math.min(1, sy - y0));
+            const i00 = (y0 * image.width + x0) * 4, i10 = (y0 * image.width + x1) * 4;
+            const i01 = (y1 * image.width + x0) * 4, i11 = (y1 * image.width + x1) * 4;
+            const o = (y * size.width + x) * 4;
+            for (let c = 0; c < 4; c++) {
+                const top = input[i00 + c] + (input[i10 + c] - input[i00 + c]) * fx;
+                const bottom = input[i01 + c] + (input[i11 + c] - input[i01 + c]) * fx;
+                output.data[o + c] = top + (bottom - top) * fy;
+            }
+        }
+    }
+    ctx.putImageData(output, 0, 0);
+    return canvas;
+};
+
+/**
+ * Draws the geometry-corrected photo, cropped.
+ * @param image The source, at whatever scale `params` and `crop` are expressed in.
+ * @param crop The area of the frame to keep; pass the whole frame for a preview.
+ */
+export const renderGeometry = (source: Source, params: GeometryParams, crop: CropRect): HTMLCanvasElement => {
+    const size = sizeOf(source);
+    const corrected = getCorrectedSize(size, params.perspective);
+    const straightened = params.perspective ? warpPerspective(source, params.perspective, corrected) : source;
+    const frame = getFrameSize(size, params);
+    const { canvas, ctx } = createCanvas(Math.max(1, Math.round(crop.width)), Math.max(1, Math.round(crop.height)));
+    ctx.imageSmoothingQuality = 'high';
+    ctx.translate(frame.width / 2 - crop.x, frame.height / 2 - crop.y);
+    ctx.scale(params.flipH ? -1 : 1, params.flipV ? -1 : 1);
+    ctx.rotate(totalAngle(params));
+    ctx.drawImage(straightened, -corrected.width / 2, -corrected.height / 2);
+    return canvas;
+};
+
+/**
+ * Applies geometry and crop to a photo at full resolution.
+ * @param crop The area to keep, in frame pixels.
+ * @param outputSize Resample to exactly this size (Lanczos); otherwise the crop's own pixels are kept.
+ * @returns The result as a PNG file.
+ */
+export const applyGeometry = async (source: File, params: GeometryParams, crop: CropRect, outputSize?: Size): Promise<File> => {
+    const image = await loadImage(source);
+    // Let the loading overlay paint before the main thread is busy for a while.
+    await new Promise(resolve => setTimeout(resolve, 0));
+    const cropped = renderGeometry(image, params, roundCrop(crop, getFrameSize(sizeOf(image), params)));
+    const result = outputSize && (outputSize.width !== cropped.width || outputSize.height !== cropped.height)
+        ? lanczosResize(cropped, outputSize.width, outputSize.height)
+        : cropped;
+    return canvasToFile(result, `cropped-${Date.now()}.png`);
+};
+
+/**
+ * Moves layers along with a geometry edit: centres follow the photo, scale follows the local
+ * magnification and rotation follows the photo's turn. Flips move layers but never mirror
+ * their content, so text stays readable.
+ */
+export const remapLayersForGeometry = (layers: Layer[], source: Size, params: GeometryParams, crop: CropRect, outputSize?: Size): Layer[] => {
+    const rounded = roundCrop(crop, getFrameSize(source, params));
+    const toFrame = createFrameMapper(source, params);
+    const toUnflippedFrame = createFrameMapper(source, params, false);
+    const factor = outputSize ? outputSize.width / rounded.width : 1;
+    const mirrored = params.flipH !== params.flipV;
+
+    return layers.map(layer => {
+        const { x, y, rotation } = layer.transform;
+        const centre = toFrame({ x, y });
+        const radians = rotation * Math.PI / 180;
+        const from = toUnflippedFrame({ x, y });
+        const to = toUnflippedFrame({ x: x + Math.cos(radians), y: y + Math.sin(radians) });
+        let turned = Math.atan2(to.y - from.y, to.x - from.x) * 180 / Math.PI;
+        if (mirrored) turned = -turned;
+        else if (params.flipH) turned += 180;
+        return {
+            ...layer,
+            transform: {
+                x: (centre.x - rounded.x) * factor,
+                y: (centre.y - rounded.y) * factor,
+                scale: layer.transform.scale * distance(from, to) * factor,
+                rotation: ((turned % 360) + 360) % 360,
+            },
+        };
+    });
+};
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageState, HistoryEntry, HistoryDetails } from '../types.ts';
+
+// Each image keeps its whole edit history as a tree stored in a flat array. Editing from an
+// earlier step starts a new branch next to the old one instead of discarding it.
+
+export const createImageState = (file: File): ImageState => ({
+    id: crypto.randomUUID(),
+    original: file,
+    history: [{
+        id: crypto.randomUUID(),
+        parentId: null,
+        file,
+        operation: 'original',
+        timestamp: Date.now(),
+    }],
+    historyIndex: 0,
+    tipIndex: 0,
+});
+
+/**
+ * Records a new entry as a child of the current one and makes it current.
+ * The parent's layers are inherited unless `details.layers` replaces them.
+ * @param image The image to extend.
+ * @param file The resulting image file.
+ * @param details What produced the file.
+ */
+export const appendHistoryEntry = (image: ImageState, file: File, details: HistoryDetails): ImageState => {
+    const parent = image.history[image.historyIndex];
+    const entry: HistoryEntry = {
+        // Layers stay on top of whatever later operations do to the base photo.
+        layers: parent?.layers,
+        ...details,
+        id: crypto.randomUUID(),
+        parentId: parent?.id ?? null,
+        file,
+        timestamp: Date.now(),
+    };
+    const history = [...image.history, entry];
+    return { ...image, history, historyIndex: history.length - 1, tipIndex: history.length - 1 };
+};
+
+export const getParentIndex = (image: ImageState, index: number): number => {
+    const parentId = image.history[index]?.parentId;
+    return parentId ? image.history.findIndex(entry => entry.id === parentId) : -1;
+};
+
+export const getChildIndices = (image: ImageState, index: number): number[] => {
+    const id = image.history[index]?.id;
+    return image.history.flatMap((entry, i) => entry.parentId === id ? [i] : []);
+};
+
+/** Indices from the root down to (and including) `index`. */
+export const getPathIndices = (image: ImageState, index: number): number[] => {
+    const path: number[] = [];
+    for (let i = index; i >= 0; i = getParentIndex(image, i)) {
+        path.unshift(i);
+    }
+    return path;
+};
+
+export const canUndo = (image: ImageState): boolean => getParentIndex(image, image.historyIndex) >= 0;
+
+const getRedoIndex = (image: ImageState): number => {
+    const pathToTip = getPathIndices(image, image.tipIndex);
+    const position = pathToTip.indexOf(image.historyIndex);
+    if (position >= 0 && position < pathToTip.length - 1) {
+        return pathToTip[position + 1];
+    }
+    const children = getChildIndices(image, image.historyIndex);
+    return children.length > 0 ? children[children.length - 1] : -1;
+};
+
+export const canRedo = (image: ImageState): boolean => getRedoIndex(image) >= 0;
+
+export const undo = (image: ImageState): ImageState => {
+    const parentIndex = getParentIndex(image, image.historyIndex);
+    return parentIndex >= 0 ? { ...image, historyIndex: parentIndex } : image;
+};
+
+export const redo = (image: ImageState): ImageState => {
+    const redoIndex = getRedoIndex(image);
+    if (redoIndex < 0) return image;
+    const tipIndex = getPathIndices(image, image.tipIndex).includes(redoIndex) ? image.tipIndex : redoIndex;
+    return { ...image, historyIndex: redoIndex, tipIndex };
+};
+
+/**
+ * Shows any entry. If it lies off the followed branch, that entry's branch becomes the followed one.
+ */
+export const jumpToEntry = (image: ImageState, index: number): ImageState => {
+    if (!image.history[index]) return image;
+    const isOnFollowedBranch = getPathIndices(image, image.tipIndex).includes(index);
+    return { ...image, historyIndex: index, tipIndex: isOnFollowedBranch ? image.tipIndex : index };
+};
+
+export const resetToOriginal = (image: ImageState): ImageState => ({ ...image, historyIndex: 0 });
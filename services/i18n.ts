@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useSyncExternalStore } from 'react';
+import { id, type MessageKey } from '../locales/id.ts';
+import { en } from '../locales/en.ts';
+import { AppError } from './appError.ts';
+
+// UI localisation. Messages live in `locales/`, keyed by dotted ids; `t` fills in `{name}`
+// placeholders and picks plural forms. Components read the locale through `useI18n` so they
+// re-render when it changes.
+
+export type Locale = 'id' | 'en';
+export type Message = string | { one: string, other: string };
+export type MessageParams = Record<string, string | number>;
+export type { MessageKey };
+
+export const LOCALES: { id: Locale, label: string }[] = [
+    { id: 'id', label: 'Bahasa Indonesia' },
+    { id: 'en', label: 'English' },
+];
+
+const LOCALE_KEY = 'sevaflow.locale';
+const INTL_LOCALES: Record<Locale, string> = { id: 'id-ID', en: 'en-US' };
+const catalogues: Record<Locale, Record<MessageKey, Message>> = { id, en };
+
+const detectLocale = (): Locale => {
+    try {
+        const stored = localStorage.getItem(LOCALE_KEY);
+        if (stored === 'id' || stored === 'en') return stored;
+    } catch {
+        // Fall through to the browser's preference.
+    }
+    return navigator.languages?.some(language => language.toLowerCase().startsWith('id')) ? 'id' : 'en';
+};
+
+let locale: Locale = detectLocale();
+const listeners = new Set<() => void>();
+document.documentElement.lang = locale;
+
+export const getLocale = (): Locale => locale;
+
+/** Switches the UI language; the choice is remembered across reloads. */
+export const setLocale = (next: Locale): void => {
+    if (next === locale) return;
+    locale = next;
+    document.documentElement.lang = next;
+    try {
+        localStorage.setItem(LOCALE_KEY, next);
+    } catch (err) {
+        console.warn('Could not persist the language setting.', err);
+    }
+    listeners.forEach(listener => listener());
+};
+
+export const subscribeLocale = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions): string =>
+    new Intl.NumberFormat(INTL_LOCALES[locale], options).format(value);
+
+export const formatDate = (value: number | Date, options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' }): string =>
+    new Intl.DateTimeFormat(INTL_LOCALES[locale], options).format(value);
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024 * 1024) return `${formatNumber(Math.round(bytes / 1024))} KB`;
+    if (bytes < 1024 ** 3) return `${formatNumber(bytes / 1024 ** 2, { maximumFractionDigits: 1 })} MB`;
+    return `${formatNumber(bytes / 1024 ** 3, { maximumFractionDigits: 1 })} GB`;
+};
+
+/**
+ * Looks up a message in the active locale, falling back to Indonesian.
+ * @param params Values for `{name}` placeholders; a numeric `count` also selects the plural form.
+ */
+export const t = (key: MessageKey, params: MessageParams = {}): string => {
+    const message = catalogues[locale][key] ?? id[key];
+    const template = typeof message === 'string'
+        ? message
+        : message[new Intl.PluralRules(INTL_LOCALES[locale]).select(Number(params.count)) === 'one' ? 'one' : 'other'];
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+        const value = params[name];
+        if (value === undefined) return match;
+        return typeof value === 'number' ? formatNumber(value) : value;
+    });
+};
+
+/** A user-facing sentence for anything a service threw. */
+export const describeError = (err: unknown): string => {
+    if (err instanceof AppError) {
+        const params = { ...err.params };
+        // Operations travel as ids; show their translated name.
+        if (typeof params.operation === 'string') params.operation = t(`modelOperation.${params.operation}` as MessageKey);
+        return t(`error.${err.code}` as const, params);
+    }
+    if (err instanceof Error && err.message) return err.message;
+    return t('error.unknown');
+};
+
+/** The translation helpers, re-rendering the caller whenever the locale changes. */
+export const useI18n = () => {
+    const current = useSyncExternalStore(subscribeLocale, getLocale);
+    return { locale: current, setLocale, t, formatNumber, formatDate, formatBytes, describeError };
+};
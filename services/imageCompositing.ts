@@ -0,0 +1,407 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AppError } from './appError.ts';
+
+export interface MaskExportOptions {
+    feather: number; // blur radius in image pixels, kept inside the selection
+    invert: boolean;
+}
+
+/**
+ * Decodes a File or URL into an image element.
+ * @param source A File/Blob or any URL the browser can load.
+ * @returns A promise that resolves once the image is fully decoded.
+ */
+export const loadImage = (source: Blob | string): Promise<HTMLImageElement> => {
+    const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            if (typeof source !== 'string') URL.revokeObjectURL(url);
+            resolve(img);
+        };
+        img.onerror = () => {
+            if (typeof source !== 'string') URL.revokeObjectURL(url);
+            reject(new AppError('imageLoadFailed'));
+        };
+        img.src = url;
+    });
+};
+
+export const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D } => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new AppError('canvasUnavailable');
+    return { canvas, ctx };
+};
+
+export const canvasToFile = (canvas: HTMLCanvasElement, filename: string, type = 'image/png', quality?: number): Promise<File> =>
+    new Promise((resolve, reject) => {
+        canvas.toBlob(blob => {
+            if (!blob) {
+                reject(new AppError('canvasExportFailed'));
+                return;
+            }
+            resolve(new File([blob], filename, { type: blob.type }));
+        }, type, quality);
+    });
+
+/**
+ * Converts a painted mask (any opaque stroke = selected) into a black/white PNG,
+ * white marking the region the model may change.
+ * @param paintedMask Canvas at the image's natural size holding the brush strokes.
+ * @param options Feather radius and whether to invert the selection.
+ * @returns A promise that resolves to the mask as a PNG file.
+ */
+export const createMaskFile = async (paintedMask: HTMLCanvasElement, options: MaskExportOptions): Promise<File> => {
+    const { width, height } = paintedMask;
+
+    // Paint every stroke pixel pure white, keeping its alpha.
+    const { canvas: whiteStrokes, ctx: strokesCtx } = createCanvas(width, height);
+    strokesCtx.drawImage(paintedMask, 0, 0);
+    strokesCtx.globalCompositeOperation = 'source-in';
+    strokesCtx.fillStyle = '#ffffff';
+    strokesCtx.fillRect(0, 0, width, height);
+
+    // Black/white mask of the selection, optionally blurred, and inverted if asked.
+    const drawSelection = (target: CanvasRenderingContext2D, blur: number) => {
+        target.fillStyle = '#000000';
+        target.fillRect(0, 0, width, height);
+        if (blur > 0) target.filter = `blur(${blur}px)`;
+        target.drawImage(whiteStrokes, 0, 0);
+        target.filter = 'none';
+        if (options.invert) {
+            target.globalCompositeOperation = 'difference';
+            target.fillStyle = '#ffffff';
+            target.fillRect(0, 0, width, height);
+            target.globalCompositeOperation = 'source-over';
+        }
+    };
+
+    const { canvas, ctx } = createCanvas(width, height);
+    drawSelection(ctx, options.feather);
+
+    if (options.feather > 0) {
+        // The blur spreads both ways; multiplying by the hard selection keeps the soft edge
+        // inside it, so pixels outside the selection stay at 0.
+        const { canvas: hard, ctx: hardCtx } = createCanvas(width, height);
+        drawSelection(hardCtx, 0);
+        ctx.globalCompositeOperation = 'multiply';
+        ctx.drawImage(hard, 0, 0);
+    }
+
+    return canvasToFile(canvas, `mask-${Date.now()}.png`);
+};
+
+/**
+ * Blends an edited image into the original using a mask. Where the mask is black the
+ * original pixels are copied unchanged; grey values blend proportionally.
+ * @param original The image the edit was based on; its size is kept.
+ * @param editedUrl The model result, rescaled to the original size if needed.
+ * @param mask A black/white mask as produced by `createMaskFile`.
+ * @returns A promise that resolves to the data URL of the composited image.
+ */
+export const compositeWithMask = async (original: File, editedUrl: string, mask: File): Promise<string> => {
+    const [originalImg, editedImg, maskImg] = await Promise.all([loadImage(original), loadImage(editedUrl), loadImage(mask)]);
+    const width = originalImg.naturalWidth;
+    const height = originalImg.naturalHeight;
+
+    const readPixels = (img: HTMLImageElement) => {
+        const { ctx } = createCanvas(width, height);
+        ctx.drawImage(img, 0, 0, width, height);
+        return ctx.getImageData(0, 0, width, height);
+    };
+
+    const base = readPixels(originalImg);
+    const edited = readPixels(editedImg).data;
+    const weights = readPixels(maskImg).data;
+    const out = base.data;
+
+    for (let i = 0; i < out.length; i += 4) {
+        const m = weights[i] / 255;
+        if (m === 0) continue;
+        for (let c = 0; c < 4; c++) {
+            out[i + c] = Math.round(out[i + c] * (1 - m) + edited[i + c] * m);
+        }
+    }
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.putImageData(base, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Cuts the masked part of a model result into its own transparent image, for use as a layer.
+ * @param editedUrl The model result, rescaled to the mask size if needed.
+ * @param mask A black/white mask as produced by `createMaskFile`; its grey values become alpha.
+ * @returns The patch as a PNG plus its position in the image, or null when the mask is empty.
+ */
+export const extractMaskedPatch = async (
+    editedUrl: string,
+    mask: File,
+): Promise<{ file: File, x: number, y: number, width: number, height: number } | null> => {
+    const [editedImg, maskImg] = await Promise.all([loadImage(editedUrl), loadImage(mask)]);
+    const width = maskImg.naturalWidth;
+    const height = maskImg.naturalHeight;
+
+    const { ctx: maskCtx } = createCanvas(width, height);
+    maskCtx.drawImage(maskImg, 0, 0);
+    const weights = maskCtx.getImageData(0, 0, width, height).data;
+
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (weights[(y * width + x) * 4] === 0) continue;
+            if (x < minX) minX = x;
+            if (x > maxX) maxX = x;
+            if (y < minY) minY = y;
+            if (y > maxY) maxY = y;
+        }
+    }
+    if (maxX < 0) return null;
+
+    const patchWidth = maxX - minX + 1;
+    const patchHeight = maxY - minY + 1;
+    const { ctx: editedCtx } = createCanvas(width, height);
+    editedCtx.drawImage(editedImg, 0, 0, width, height);
+    const patch = editedCtx.getImageData(minX, minY, patchWidth, patchHeight);
+    for (let y = 0; y < patchHeight; y++) {
+        for (let x = 0; x < patchWidth; x++) {
+            const m = weights[((y + minY) * width + x + minX) * 4];
+            const i = (y * patchWidth + x) * 4 + 3;
+            patch.data[i] = Math.round(patch.data[i] * m / 255);
+        }
+    }
+
+    const { canvas, ctx } = createCanvas(patchWidth, patchHeight);
+    ctx.putImageData(patch, 0, 0);
+    const file = await canvasToFile(canvas, `patch-${Date.now()}.png`);
+    return { file, x: minX, y: minY, width: patchWidth, height: patchHeight };
+};
+
+export interface ChangedRegionOptions {
+    /** Channel difference (0-255) above which a pixel counts as changed. */
+    threshold: number;
+    /** Blur radius of the blended edge, in image pixels. */
+    feather: number;
+}
+
+const DIFF_MAP_SIZE = 512;
+const MAX_ALIGN_SHIFT = 4;
+
+const drawScaled = (img: HTMLImageElement | HTMLCanvasElement, width: number, height: number): CanvasRenderingContext2D => {
+    const { ctx } = createCanvas(width, height);
+    ctx.drawImage(img, 0, 0, width, height);
+    return ctx;
+};
+
+// Finds the small translation (in diff-map pixels) that best lines the edit up with the
+// original, since models sometimes shift the frame slightly when they resize.
+const findAlignment = (original: Uint8ClampedArray, edited: Uint8ClampedArray, width: number, height: number): { dx: number, dy: number } => {
+    let best = { dx: 0, dy: 0 };
+    let bestScore = Infinity;
+    for (let dy = -MAX_ALIGN_SHIFT; dy <= MAX_ALIGN_SHIFT; dy++) {
+        for (let dx = -MAX_ALIGN_SHIFT; dx <= MAX_ALIGN_SHIFT; dx++) {
+            let score = 0;
+            let count = 0;
+            // Every other pixel is plenty for picking the shift.
+            for (let y = MAX_ALIGN_SHIFT; y < height - MAX_ALIGN_SHIFT; y += 2) {
+                for (let x = MAX_ALIGN_SHIFT; x < width - MAX_ALIGN_SHIFT; x += 2) {
+                    const i = (y * width + x) * 4;
+                    const j = ((y + dy) * width + x + dx) * 4;
+                    score += Math.abs(original[i] - edited[j]) + Math.abs(original[i + 1] - edited[j + 1]) + Math.abs(original[i + 2] - edited[j + 2]);
+                    count++;
+                }
+            }
+            score /= count;
+            if (score < bestScore) {
+                bestScore = score;
+                best = { dx, dy };
+            }
+        }
+    }
+    return best;
+};
+
+/**
+ * Blends only the part of a model edit that changed around the clicked spots back into the
+ * full-size original, so the rest of the photo keeps its own pixels and resolution.
+ * The edit is aligned to the original, a difference map marks changed pixels, and the
+ * changed areas touching a hotspot are blended in with a feathered edge.
+ * @param original The image the edit was based on; its size is kept.
+ * @param editedUrl The model result, at any size.
+ * @param hotspots The clicked spots in the original's natural pixel coordinates.
+ * @param options Difference threshold and feather radius.
+ * @returns The composited image as a data URL, or null when no change was found near the hotspots.
+ */
+export const compositeChangedRegion = async (
+    original: File,
+    editedUrl: string,
+    hotspots: { x: number, y: number }[],
+    options: ChangedRegionOptions = { threshold: 24, feather: 12 },
+): Promise<string | null> => {
+    const [originalImg, editedImg] = await Promise.all([loadImage(original), loadImage(editedUrl)]);
+    const width = originalImg.naturalWidth;
+    const height = originalImg.naturalHeight;
+
+    // The difference map is computed on a reduced copy; it only has to find regions.
+    const mapScale = Math.min(1, DIFF_MAP_SIZE / Math.max(width, height));
+    const mapWidth = Math.max(1, Math.round(width * mapScale));
+    const mapHeight = Math.max(1, Math.round(height * mapScale));
+    const small = drawScaled(originalImg, mapWidth, mapHeight).getImageData(0, 0, mapWidth, mapHeight).data;
+    const smallEdited = drawScaled(editedImg, mapWidth, mapHeight).getImageData(0, 0, mapWidth, mapHeight).data;
+    const shift = mapWidth > MAX_ALIGN_SHIFT * 4 && mapHeight > MAX_ALIGN_SHIFT * 4
+        ? findAlignment(small, smallEdited, mapWidth, mapHeight)
+        : { dx: 0, dy: 0 };
+
+    const changed = new Uint8Array(mapWidth * mapHeight);
+    for (let y = 0; y < mapHeight; y++) {
+        for (let x = 0; x < mapWidth; x++) {
+            const ex = Math.min(mapWidth - 1, Math.max(0, x + shift.dx));
+            const ey = Math.min(mapHeight - 1, Math.max(0, y + shift.dy));
+            const i = (y * mapWidth + x) * 4;
+            const j = (ey * mapWidth + ex) * 4;
+            const diff = Math.max(Math.abs(small[i] - smallEdited[j]), Math.abs(small[i + 1] - smallEdited[j + 1]), Math.abs(small[i + 2] - smallEdited[j + 2]));
+            if (diff > options.threshold) changed[y * mapWidth + x] = 1;
+        }
+    }
+
+    // Close small gaps so one edited object becomes one region.
+    const radius = 2;
+    const grown = new Uint8Array(changed.length);
+    for (let y = 0; y < mapHeight; y++) {
+        for (let x = 0; x < mapWidth; x++) {
+            if (!changed[y * mapWidth + x]) continue;
+            for (let oy = -radius; oy <= radius; oy++) {
+                for (let ox = -radius; ox <= radius; ox++) {
+                    const nx = x + ox, ny = y + oy;
+                    if (nx >= 0 && ny >= 0 && nx < mapWidth && ny < mapHeight) grown[ny * mapWidth + nx] = 1;
+                }
+            }
+        }
+    }
+
+    // Keep only the regions connected to a hotspot; a hotspot on an unchanged pixel snaps
+    // to the nearest change within a small search window.
+    const region = new Uint8Array(grown.length);
+    const stack: number[] = [];
+    const searchRadius = Math.round(mapWidth * 0.05) + radius;
+    for (const hotspot of hotspots) {
+        const hx = Math.round(hotspot.x * mapScale);
+        const hy = Math.round(hotspot.y * mapScale);
+        let seed = -1;
+        let seedDistance = Infinity;
+        for (let y = Math.max(0, hy - searchRadius); y <= Math.min(mapHeight - 1, hy + searchRadius); y++) {
+            for (let x = Math.max(0, hx - searchRadius); x <= Math.min(mapWidth - 1, hx + searchRadius); x++) {
+                const distance = (x - hx) ** 2 + (y - hy) ** 2;
+                if (grown[y * mapWidth + x] && distance < seedDistance) {
+                    seed = y * mapWidth + x;
+                    seedDistance = distance;
+                }
+            }
+        }
+        if (seed >= 0) stack.push(seed);
+    }
+    let regionSize = 0;
+    while (stack.length > 0) {
+        const index = stack.pop()!;
+        if (region[index] || !grown[index]) continue;
+        region[index] = 1;
+        regionSize++;
+        const x = index % mapWidth;
+        const y = (index - x) / mapWidth;
+        if (x > 0) stack.push(index - 1);
+        if (x < mapWidth - 1) stack.push(index + 1);
+        if (y > 0) stack.push(index - mapWidth);
+        if (y < mapHeight - 1) stack.push(index + mapWidth);
+    }
+    if (regionSize === 0) return null;
+
+    const { canvas: regionCanvas, ctx: regionCtx } = createCanvas(mapWidth, mapHeight);
+    const regionPixels = regionCtx.createImageData(mapWidth, mapHeight);
+    for (let i = 0; i < region.length; i++) {
+        const value = region[i] ? 255 : 0;
+        regionPixels.data[i * 4] = value;
+        regionPixels.data[i * 4 + 1] = value;
+        regionPixels.data[i * 4 + 2] = value;
+        regionPixels.data[i * 4 + 3] = 255;
+    }
+    regionCtx.putImageData(regionPixels, 0, 0);
+
+    // Bring the region and the aligned edit up to full size; the blur softens the seam.
+    const { ctx: maskCtx } = createCanvas(width, height);
+    maskCtx.fillStyle = '#000000';
+    maskCtx.fillRect(0, 0, width, height);
+    if (options.feather > 0) maskCtx.filter = `blur(${options.feather}px)`;
+    maskCtx.drawImage(regionCanvas, 0, 0, width, height);
+    maskCtx.filter = 'none';
+    const weights = maskCtx.getImageData(0, 0, width, height).data;
+
+    const { ctx: editedCtx } = createCanvas(width, height);
+    editedCtx.drawImage(editedImg, -shift.dx / mapScale, -shift.dy / mapScale, width, height);
+    const edited = editedCtx.getImageData(0, 0, width, height).data;
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(originalImg, 0, 0);
+    const base = ctx.getImageData(0, 0, width, height);
+    const out = base.data;
+    for (let i = 0; i < out.length; i += 4) {
+        const m = weights[i] / 255;
+        if (m === 0) continue;
+        for (let c = 0; c < 4; c++) {
+            out[i + c] = Math.round(out[i + c] * (1 - m) + edited[i + c] * m);
+        }
+    }
+    ctx.putImageData(base, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+export interface DifferenceMap {
+    /** Transparent PNG (data URL) with changed pixels tinted from warm yellow (slight) to deep red (strong). */
+    url: string;
+    /** Share of pixels above the threshold, 0-1. */
+    changedRatio: number;
+}
+
+const HEAT_MAP_SIZE = 1024;
+const HEAT_RAMP: [number, number, number][] = [[236, 185, 132], [213, 130, 88], [200, 40, 30]];
+
+/**
+ * Builds a heat map of the pixels that differ between two images, for visual comparison.
+ * The earlier image is stretched onto the later one when their sizes differ.
+ * @param before The earlier image.
+ * @param after The later image; the map has its aspect ratio.
+ * @param threshold Channel difference (0-255) below which a pixel counts as unchanged.
+ */
+export const createDifferenceMap = async (before: Blob, after: Blob, threshold = 12): Promise<DifferenceMap> => {
+    const [beforeImg, afterImg] = await Promise.all([loadImage(before), loadImage(after)]);
+    const scale = Math.min(1, HEAT_MAP_SIZE / Math.max(afterImg.naturalWidth, afterImg.naturalHeight));
+    const width = Math.max(1, Math.round(afterImg.naturalWidth * scale));
+    const height = Math.max(1, Math.round(afterImg.naturalHeight * scale));
+    const a = drawScaled(beforeImg, width, height).getImageData(0, 0, width, height).data;
+    const b = drawScaled(afterImg, width, height).getImageData(0, 0, width, height).data;
+
+    const { canvas, ctx } = createCanvas(width, height);
+    const heat = ctx.createImageData(width, height);
+    let changed = 0;
+    for (let i = 0; i < a.length; i += 4) {
+        const diff = Math.max(Math.abs(a[i] - b[i]), Math.abs(a[i + 1] - b[i + 1]), Math.abs(a[i + 2] - b[i + 2]));
+        if (diff <= threshold) continue;
+        changed++;
+        const strength = (diff - threshold) / (255 - threshold);
+        // Stronger changes run further along the ramp and are more opaque.
+        const position = Math.min(1, strength * 2) * (HEAT_RAMP.length - 1);
+        const from = HEAT_RAMP[Math.floor(position)];
+        const to = HEAT_RAMP[Math.ceil(position)];
+        const f = position - Math.floor(position);
+        for (let c = 0; c < 3; c++) heat.data[i + c] = Math.round(from[c] + (to[c] - from[c]) * f);
+        heat.data[i + 3] = Math.round(110 + 145 * Math.min(1, strength * 2));
+    }
+    ctx.putImageData(heat, 0, 0);
+    return { url: canvas.toDataURL('image/png'), changedRatio: changed / (width * height) };
+};
@@ -0,0 +1,464 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageState } from '../types.ts';
+import { flattenLayers } from './layerRenderer.ts';
+import { getPathIndices } from './historyTree.ts';
+import { createZip, uniquePath, type ZipEntry } from './zipArchive.ts';
+import { AppError } from './appError.ts';
+import type { MessageKey } from '../locales/id.ts';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'avif';
+
+export type ResizeMode = 'none' | 'longEdge' | 'dimensions';
+
+export type ColorProfile = 'srgb' | 'display-p3';
+
+export interface ExportSettings {
+    format: ExportFormat;
+    /** 1..100; ignored for PNG. */
+    quality: number;
+    resizeMode: ResizeMode;
+    longEdge: number;
+    width: number;
+    height: number;
+    /** Unsharp-mask strength 0..100, applied only when the image is scaled down. */
+    sharpen: number;
+    colorProfile: ColorProfile;
+    /** Copies the EXIF block of the original upload into JPEG exports. */
+    preserveExif: boolean;
+    filenameTemplate: string;
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+    format: 'png',
+    quality: 92,
+    resizeMode: 'none',
+    longEdge: 2048,
+    width: 1920,
+    height: 1080,
+    sharpen: 30,
+    colorProfile: 'srgb',
+    preserveExif: true,
+    filenameTemplate: '{nama}-{operasi}',
+};
+
+export const FORMAT_MIME_TYPES: Record<ExportFormat, string> = {
+    png: 'image/png',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+    avif: 'image/avif',
+};
+
+const FORMAT_EXTENSIONS: Record<ExportFormat, string> = {
+    png: 'png',
+    jpeg: 'jpg',
+    webp: 'webp',
+    avif: 'avif',
+};
+
+/** Placeholders understood by `formatExportFilename`, with their descriptions for the UI. */
+export const FILENAME_TOKENS: { token: string, description: MessageKey }[] = [
+    { token: '{nama}', description: 'export.token.name' },
+    { token: '{operasi}', description: 'export.token.operations' },
+    { token: '{tanggal}', description: 'export.token.date' },
+    { token: '{waktu}', description: 'export.token.time' },
+    { token: '{lebar}', description: 'export.token.width' },
+    { token: '{tinggi}', description: 'export.token.height' },
+];
+
+const EXPORT_SETTINGS_KEY = 'sevaflow.exportSettings';
+
+export const loadExportSettings = (): ExportSettings => {
+    try {
+        const stored = localStorage.getItem(EXPORT_SETTINGS_KEY);
+        return stored ? { ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_EXPORT_SETTINGS;
+    } catch {
+        return DEFAULT_EXPORT_SETTINGS;
+    }
+};
+
+export const saveExportSettings = (settings: ExportSettings): void => {
+    try {
+        localStorage.setItem(EXPORT_SETTINGS_KEY, JSON.stringify(settings));
+    } catch (err) {
+        console.warn('Could not persist export settings.', err);
+    }
+};
+
+/** Formats the browser can encode; PNG is always available, AVIF rarely is. */
+export const getSupportedExportFormats = (): ExportFormat[] => {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    return (Object.keys(FORMAT_MIME_TYPES) as ExportFormat[])
+        .filter(format => canvas.toDataURL(FORMAT_MIME_TYPES[format]).startsWith(`data:${FORMAT_MIME_TYPES[format]}`));
+};
+
+export const computeExportSize = (
+    sourceWidth: number,
+    sourceHeight: number,
+    { resizeMode, longEdge, width, height }: Pick<ExportSettings, 'resizeMode' | 'longEdge' | 'width' | 'height'>,
+): { width: number, height: number } => {
+    if (resizeMode === 'longEdge' && longEdge > 0) {
+        const scale = longEdge / Math.max(sourceWidth, sourceHeight);
+        return { width: Math.max(1, Math.round(sourceWidth * scale)), height: Math.max(1, Math.round(sourceHeight * scale)) };
+    }
+    if (resizeMode === 'dimensions' && width > 0 && height > 0) {
+        return { width: Math.round(width), height: Math.round(height) };
+    }
+    return { width: sourceWidth, height: sourceHeight };
+};
+
+const baseName = (filename: string) => filename.replace(/\.[^.]+$/, '') || 'gambar';
+
+/** The operations along the path to the current entry, e.g. "retouch-filter". */
+export const describeOperationPath = (image: ImageState): string =>
+    getPathIndices(image, image.historyIndex)
+        .map(index => image.history[index].operation)
+        .filter(operation => operation !== 'original')
+        .join('-') || 'original';
+
+/**
+ * Fills in a filename template and appends the extension of the chosen format.
+ * @param template Text with placeholders from `FILENAME_TOKENS`.
+ * @param image The image being exported.
+ * @param size Dimensions of the exported file.
+ * @param format Output format; decides the extension.
+ */
+export const formatExportFilename = (
+    template: string,
+    image: ImageState,
+    size: { width: number, height: number },
+    format: ExportFormat,
+    now = new Date(),
+): string => {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const values: Record<string, string> = {
+        nama: baseName(image.original.name),
+        operasi: describeOperationPath(image),
+        tanggal: `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}`,
+        waktu: `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`,
+        lebar: String(size.width),
+        tinggi: String(size.height),
+    };
+    const filled = template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+    const safe = filled.replace(/[\\/:*?"<>|\s]+/g, '_').replace(/^[._]+|[._]+$/g, '') || values.nama;
+    return `${safe}.${FORMAT_EXTENSIONS[format]}`;
+};
+
+const createExportCanvas = (width: number, height: number, colorProfile: ColorProfile) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { colorSpace: colorProfile }) ?? canvas.getContext('2d');
+    if (!ctx) throw new AppError('canvasUnavailable');
+    return { canvas, ctx };
+};
+
+// Halving in steps before the final draw avoids the aliasing of a single large downscale.
+const drawScaled = (image: HTMLCanvasElement, width: number, height: number, colorProfile: ColorProfile): HTMLCanvasElement => {
+    let source: CanvasImageSource = image;
+    let sourceWidth = image.width;
+    let sourceHeight = image.height;
+    while (sourceWidth / 2 >= width && sourceHeight / 2 >= height) {
+        const step = createExportCanvas(Math.round(sourceWidth / 2), Math.round(sourceHeight / 2), colorProfile);
+        step.ctx.imageSmoothingQuality = 'high';
+        step.ctx.drawImage(source, 0, 0, step.canvas.width, step.canvas.height);
+        source = step.canvas;
+        sourceWidth = step.canvas.width;
+        sourceHeight = step.canvas.height;
+    }
+    const { canvas, ctx } = createExportCanvas(width, height, colorProfile);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, width, height);
+    return canvas;
+};
+
+// Unsharp mask with a 3x3 box blur: pixel + amount * (pixel - blurred).
+const sharpenPixels = (pixels: ImageData, amount: number) => {
+    const { width, height, data } = pixels;
+    const source = new Uint8ClampedArray(data);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            for (let c = 0; c < 3; c++) {
+                let sum = 0;
+                let count = 0;
+                for (let dy = -1; dy <= 1; dy++) {
+                    const ny = y + dy;
+                    if (ny < 0 || ny >= height) continue;
+                    for (let dx = -1; dx <= 1; dx++) {
+                        const nx = x + dx;
+                        if (nx < 0 || nx >= width) continue;
+                        sum += source[(ny * width + nx) * 4 + c];
+                        count++;
+                    }
+                }
+                data[i + c] = source[i + c] + amount * (source[i + c] - sum / count);
+            }
+        }
+    }
+};
+
+/** Returns the complete APP1 "Exif" segment of a JPEG, or null when there is none. */
+const readExifSegment = (bytes: Uint8Array): Uint8Array | null => {
+    if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        if (marker === 0xda) break; // start of scan: no more metadata
+        const isExif = marker === 0xe1
+            && String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)) === 'Exif';
+        if (isExif) return bytes.slice(offset, offset + 2 + length);
+        offset += 2 + length;
+    }
+    return null;
+};
+
+const TIFF_START = 10; // marker (2) + length (2) + "Exif\0\0" (6)
+const TAG_IMAGE_WIDTH = 0x0100;
+const TAG_IMAGE_HEIGHT = 0x0101;
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_THUMBNAIL_OFFSET = 0x0201;
+const TAG_THUMBNAIL_LENGTH = 0x0202;
+const TAG_PIXEL_X_DIMENSION = 0xa002;
+const TAG_PIXEL_Y_DIMENSION = 0xa003;
+
+/** Calls `visit` with the tag and byte position of every entry in the IFD at `ifd`; returns the end of the entries. */
+const walkIfd = (view: DataView, ifd: number, littleEndian: boolean, visit: (tag: number, entry: number) => void): number | null => {
+    if (ifd + 2 > view.byteLength) return null;
+    const count = view.getUint16(ifd, littleEndian);
+    const end = ifd + 2 + count * 12;
+    if (end + 4 > view.byteLength) return null;
+    for (let entry = ifd + 2; entry < end; entry += 12) {
+        visit(view.getUint16(entry, littleEndian), entry);
+    }
+    return end;
+};
+
+// Writes a single SHORT or LONG value in place, as the entry's type declares.
+const setIfdNumber = (view: DataView, entry: number, value: number, littleEndian: boolean) => {
+    const type = view.getUint16(entry + 2, littleEndian);
+    if (type === 3) view.setUint16(entry + 8, Math.min(value, 0xffff), littleEndian);
+    else if (type === 4) view.setUint32(entry + 8, value, littleEndian);
+};
+
+/**
+ * Adapts the original's Exif segment to the exported pixels: the orientation becomes upright
+ * (the pixels already are), the dimension tags get the export size, and the embedded thumbnail
+ * (IFD1) is removed, since it would still show the photo as it was before editing.
+ * @returns The rewritten segment, possibly shorter than the input.
+ */
+const rewriteExif = (segment: Uint8Array, size: { width: number, height: number }): Uint8Array => {
+    const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+    if (segment.byteLength < TIFF_START + 8) return segment;
+    const littleEndian = view.getUint16(TIFF_START) === 0x4949;
+    const at = (offset: number) => TIFF_START + offset;
+
+    let exifIfd = 0;
+    const ifd0End = walkIfd(view, at(view.getUint32(TIFF_START + 4, littleEndian)), littleEndian, (tag, entry) => {
+        if (tag === TAG_ORIENTATION) setIfdNumber(view, entry, 1, littleEndian);
+        else if (tag === TAG_IMAGE_WIDTH) setIfdNumber(view, entry, size.width, littleEndian);
+        else if (tag === TAG_IMAGE_HEIGHT) setIfdNumber(view, entry, size.height, littleEndian);
+        else if (tag === TAG_EXIF_IFD) exifIfd = view.getUint32(entry + 8, littleEndian);
+    });
+    if (ifd0End === null) return segment;
+
+    if (exifIfd) {
+        walkIfd(view, at(exifIfd), littleEndian, (tag, entry) => {
+            if (tag === TAG_PIXEL_X_DIMENSION) setIfdNumber(view, entry, size.width, littleEndian);
+            else if (tag === TAG_PIXEL_Y_DIMENSION) setIfdNumber(view, entry, size.height, littleEndian);
+        });
+    }
+
+    const ifd1Offset = view.getUint32(ifd0End, littleEndian);
+    if (!ifd1Offset) return segment;
+    view.setUint32(ifd0End, 0, littleEndian);
+
+    // Blank IFD1 and its thumbnail, and cut them off when they sit at the end of the segment.
+    const ifd1 = at(ifd1Offset);
+    let thumbnail = 0;
+    let thumbnailLength = 0;
+    const ifd1End = walkIfd(view, ifd1, littleEndian, (tag, entry) => {
+        if (tag === TAG_THUMBNAIL_OFFSET) thumbnail = at(view.getUint32(entry + 8, littleEndian));
+        else if (tag === TAG_THUMBNAIL_LENGTH) thumbnailLength = view.getUint32(entry + 8, littleEndian);
+    });
+    if (ifd1End === null) return segment;
+    segment.fill(0, ifd1, ifd1End + 4);
+    if (!thumbnail || thumbnail + thumbnailLength > segment.byteLength) return segment;
+    segment.fill(0, thumbnail, thumbnail + thumbnailLength);
+    if (thumbnail + thumbnailLength < segment.byteLength - 1) return segment;
+
+    const cut = Math.max(ifd1 < thumbnail && ifd1End + 4 >= thumbnail - 1 ? ifd1 : thumbnail, ifd0End + 4);
+    const trimmed = segment.slice(0, cut);
+    new DataView(trimmed.buffer).setUint16(2, cut - 2);
+    return trimmed;
+};
+
+const insertExif = async (jpeg: Blob, exif: Uint8Array): Promise<Blob> => {
+    const bytes = new Uint8Array(await jpeg.arrayBuffer());
+    // Directly after SOI, which is where readers expect the Exif segment.
+    return new Blob([bytes.subarray(0, 2), exif, bytes.subarray(2)], { type: 'image/jpeg' });
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+    new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new AppError('canvasExportFailed')), type, quality);
+    });
+
+/**
+ * Renders the current version of an image, with its layers flattened, using the given export settings.
+ * @param image The image to export; its `original` supplies EXIF data.
+ * @param settings Format, size, sharpening, colour and metadata options.
+ * @returns The encoded file, named from the filename template.
+ */
+export const exportImage = async (image: ImageState, settings: ExportSettings): Promise<File> => {
+    const current = image.history[image.historyIndex];
+    const source = await flattenLayers(current.file, current.layers);
+    const size = computeExportSize(source.width, source.height, settings);
+    const canvas = drawScaled(source, size.width, size.height, settings.colorProfile);
+    const ctx = canvas.getContext('2d')!;
+
+    const isDownscaled = size.width < source.width || size.height < source.height;
+    if (isDownscaled && settings.sharpen > 0) {
+        const pixels = ctx.getImageData(0, 0, size.width, size.height);
+        sharpenPixels(pixels, settings.sharpen / 100);
+        ctx.putImageData(pixels, 0, 0);
+    }
+
+    if (settings.format === 'jpeg') {
+        // JPEG has no alpha; flatten onto white instead of the encoder's black.
+        ctx.globalCompositeOperation = 'destination-over';
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, size.width, size.height);
+    }
+
+    const mimeType = FORMAT_MIME_TYPES[settings.format];
+    let blob = await canvasToBlob(canvas, mimeType, settings.format === 'png' ? undefined : settings.quality / 100);
+    if (blob.type !== mimeType) {
+        throw new AppError('exportFormatUnsupported', { format: settings.format.toUpperCase() });
+    }
+
+    if (settings.preserveExif && settings.format === 'jpeg') {
+        const exif = readExifSegment(new Uint8Array(await image.original.arrayBuffer()));
+        if (exif) blob = await insertExif(blob, rewriteExif(exif, size));
+    }
+
+    return new File([blob], formatExportFilename(settings.filenameTemplate, image, size, settings.format), { type: mimeType });
+};
+
+/**
+ * Puts the current version of an image, layers flattened, on the clipboard as a PNG,
+ * the one image type every browser accepts there.
+ */
+export const copyImageToClipboard = async (image: ImageState): Promise<void> => {
+    if (!navigator.clipboard?.write || typeof ClipboardItem === 'undefined') throw new AppError('clipboardUnsupported');
+    const current = image.history[image.historyIndex];
+    // Handing over a promise keeps Safari's user-gesture check happy while the image renders.
+    const png = flattenLayers(current.file, current.layers).then(canvas => canvasToBlob(canvas, 'image/png'));
+    await navigator.clipboard.write([new ClipboardItem({ 'image/png': png })]);
+};
+
+/** Starts a browser download of a file. */
+export const downloadFile = (file: Blob, filename: string): void => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(file);
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+};
+
+export interface BulkExportOptions {
+    /** Every history entry of each image, including other branches. */
+    includeHistory: boolean;
+    includeOriginals: boolean;
+    includeManifest: boolean;
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/avif': 'avif',
+    'image/gif': 'gif',
+};
+
+const extensionOf = (file: File) => MIME_EXTENSIONS[file.type] ?? file.name.split('.').pop() ?? 'bin';
+
+/**
+ * Builds a ZIP of every image's current version, rendered with the export settings, plus
+ * optional history files, originals and a JSON manifest of the edits.
+ * @param images All loaded images, in strip order.
+ * @param settings Export settings applied to the current versions.
+ * @param options What else to include.
+ * @param onProgress Called after each image with the number done so far.
+ */
+export const exportImagesAsZip = async (
+    images: ImageState[],
+    settings: ExportSettings,
+    options: BulkExportOptions,
+    onProgress?: (done: number, total: number) => void,
+): Promise<Blob> => {
+    const entries: ZipEntry[] = [];
+    const manifestImages = [];
+    // Paths are made unique here rather than in createZip, so the manifest names the files as stored.
+    const usedPaths = new Set<string>();
+
+    for (let i = 0; i < images.length; i++) {
+        const image = images[i];
+        const folder = `${String(i + 1).padStart(2, '0')}-${baseName(image.original.name)}`;
+        const exported = await exportImage(image, settings);
+        const exportedPath = uniquePath(`gambar/${exported.name}`, usedPaths);
+        entries.push({ path: exportedPath, data: exported });
+
+        let originalPath: string | undefined;
+        if (options.includeOriginals) {
+            originalPath = uniquePath(`asli/${image.original.name}`, usedPaths);
+            entries.push({ path: originalPath, data: image.original, lastModified: image.original.lastModified });
+        }
+
+        const currentPath = new Set(getPathIndices(image, image.historyIndex));
+        const edits = image.history.map((entry, index) => {
+            let historyPath: string | undefined;
+            if (options.includeHistory) {
+                historyPath = uniquePath(`riwayat/${folder}/${String(index).padStart(3, '0')}-${entry.operation}.${extensionOf(entry.file)}`, usedPaths);
+                entries.push({ path: historyPath, data: entry.file, lastModified: entry.timestamp });
+            }
+            return {
+                id: entry.id,
+                parentId: entry.parentId,
+                operation: entry.operation,
+                prompt: entry.prompt,
+                description: entry.description,
+                layers: entry.layers?.length,
+                model: entry.model,
+                hotspots: entry.hotspots,
+                adjustment: entry.adjustment?.params,
+                timestamp: new Date(entry.timestamp).toISOString(),
+                isCurrent: index === image.historyIndex,
+                onCurrentPath: currentPath.has(index),
+                file: historyPath,
+            };
+        });
+
+        manifestImages.push({ index: i + 1, id: image.id, originalName: image.original.name, file: exportedPath, original: originalPath, edits });
+        onProgress?.(i + 1, images.length);
+    }
+
+    if (options.includeManifest) {
+        const manifest = {
+            createdAt: new Date().toISOString(),
+            exportSettings: { ...settings, filenameTemplate: undefined },
+            images: manifestImages,
+        };
+        entries.push({ path: 'manifest.json', data: JSON.stringify(manifest, null, 2) });
+    }
+
+    return createZip(entries);
+};
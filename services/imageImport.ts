@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AppError } from './appError.ts';
+import { RequestCancelledError } from './modelRequest.ts';
+import { createCanvas, canvasToFile } from './imageCompositing.ts';
+
+// Ways to bring images in besides the file picker: the clipboard, a pasted URL and the camera.
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+    'image/avif': 'avif',
+};
+
+/** Image files in a paste or drop; clipboard screenshots arrive unnamed, so they get one. */
+export const getImageFiles = (data: DataTransfer): File[] =>
+    Array.from(data.files)
+        .filter(file => file.type.startsWith('image/'))
+        .map((file, i) => file.name && file.name !== 'image.png'
+            ? file
+            : new File([file], `pasted-${Date.now()}-${i + 1}.${EXTENSIONS[file.type] ?? 'png'}`, { type: file.type }));
+
+/** The text as an http(s) URL if it is one, e.g. a link pasted from another tab. */
+export const parseImageUrl = (text: string): URL | null => {
+    const trimmed = text.trim();
+    if (/\s/.test(trimmed)) return null;
+    try {
+        const url = new URL(trimmed);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Downloads an image from the web. Only works for hosts that allow cross-origin requests;
+ * others are reported as blocked rather than as a network failure.
+ * @param address The URL as typed or pasted.
+ */
+export const fetchImageFromUrl = async (address: string, { signal }: { signal?: AbortSignal } = {}): Promise<File> => {
+    const url = parseImageUrl(address);
+    if (!url) throw new AppError('urlInvalid');
+    let response: Response;
+    try {
+        response = await fetch(url, { signal, mode: 'cors', credentials: 'omit' });
+    } catch (err) {
+        if (signal?.aborted) throw new RequestCancelledError();
+        throw new AppError('urlBlocked', { host: url.host }, err instanceof Error ? err.message : undefined);
+    }
+    if (!response.ok) throw new AppError('urlFetchFailed', { status: response.status });
+    const blob = await response.blob().catch(err => {
+        if (signal?.aborted) throw new RequestCancelledError();
+        throw err;
+    });
+    if (!blob.type.startsWith('image/')) throw new AppError('urlNotImage');
+    const lastSegment = decodeURIComponent(url.pathname.split('/').pop() ?? '');
+    const name = /\.[a-z0-9]{2,5}$/i.test(lastSegment) ? lastSegment : `${lastSegment || url.hostname}.${EXTENSIONS[blob.type] ?? 'png'}`;
+    return new File([blob], name, { type: blob.type });
+};
+
+/**
+ * Asks for a camera stream, preferring the given side on phones.
+ * @returns The stream; the caller stops its tracks when done.
+ */
+export const openCamera = async (facingMode: 'user' | 'environment'): Promise<MediaStream> => {
+    if (!navigator.mediaDevices?.getUserMedia) throw new AppError('cameraUnsupported');
+    try {
+        return await navigator.mediaDevices.getUserMedia({
+            video: { facingMode, width: { ideal: 1920 }, height: { ideal: 1080 } },
+            audio: false,
+        });
+    } catch (err) {
+        const name = err instanceof DOMException ? err.name : '';
+        if (name === 'NotAllowedError' || name === 'SecurityError') throw new AppError('cameraDenied');
+        if (name === 'NotFoundError' || name === 'OverconstrainedError') throw new AppError('cameraNotFound');
+        throw new AppError('cameraUnsupported', {}, err instanceof Error ? err.message : undefined);
+    }
+};
+
+/** Grabs the video's current frame at its full resolution as a PNG file, unmirrored. */
+export const captureVideoFrame = (video: HTMLVideoElement): Promise<File> => {
+    const { canvas, ctx } = createCanvas(video.videoWidth, video.videoHeight);
+    ctx.drawImage(video, 0, 0);
+    return canvasToFile(canvas, `camera-${Date.now()}.png`);
+};
@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Layer, ImageLayer, TextLayer, LayerTransform } from '../types.ts';
+import { loadImage, createCanvas } from './imageCompositing.ts';
+import { t } from './i18n.ts';
+
+// Draws layer stacks for the editor canvas and flattens them for export, so both show
+// exactly the same pixels.
+
+export type LayerImages = Map<File, HTMLImageElement>;
+
+const imageCache = new WeakMap<File, Promise<HTMLImageElement>>();
+
+const loadCachedImage = (file: File): Promise<HTMLImageElement> => {
+    let pending = imageCache.get(file);
+    if (!pending) {
+        pending = loadImage(file);
+        imageCache.set(file, pending);
+    }
+    return pending;
+};
+
+/** Decodes the files of every image layer; results are cached per File. */
+export const loadLayerImages = async (layers: Layer[]): Promise<LayerImages> => {
+    const files = layers.flatMap(layer => layer.kind === 'image' ? [layer.file] : []);
+    const decoded = await Promise.all(files.map(loadCachedImage));
+    return new Map(files.map((file, i) => [file, decoded[i]]));
+};
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const textFont = (layer: TextLayer) => `bold ${layer.fontSize}px ${layer.fontFamily}`;
+const textLines = (layer: TextLayer) => layer.text.split('\n');
+const LINE_HEIGHT = 1.2;
+
+/** Unscaled size of a layer's content in natural pixels. */
+export const measureLayer = (layer: Layer, images: LayerImages): { width: number, height: number } => {
+    if (layer.kind === 'image') {
+        const img = images.get(layer.file);
+        return { width: img?.naturalWidth ?? 0, height: img?.naturalHeight ?? 0 };
+    }
+    measureContext ??= createCanvas(1, 1).ctx;
+    measureContext.font = textFont(layer);
+    const lines = textLines(layer);
+    const width = Math.max(...lines.map(line => measureContext!.measureText(line).width));
+    return { width, height: lines.length * layer.fontSize * LINE_HEIGHT };
+};
+
+const applyTransform = (ctx: CanvasRenderingContext2D, { x, y, scale, rotation }: LayerTransform) => {
+    ctx.translate(x, y);
+    ctx.rotate(rotation * Math.PI / 180);
+    ctx.scale(scale, scale);
+};
+
+/**
+ * Draws layers bottom-first over whatever the context already holds (normally the base photo).
+ * Hidden layers and image layers whose file is not decoded yet are skipped.
+ */
+export const drawLayers = (ctx: CanvasRenderingContext2D, layers: Layer[], images: LayerImages): void => {
+    for (const layer of layers) {
+        if (!layer.visible) continue;
+        ctx.save();
+        ctx.globalAlpha = layer.opacity;
+        ctx.globalCompositeOperation = layer.blendMode;
+        applyTransform(ctx, layer.transform);
+        if (layer.kind === 'image') {
+            const img = images.get(layer.file);
+            if (img) ctx.drawImage(img, -img.naturalWidth / 2, -img.naturalHeight / 2);
+        } else {
+            const lines = textLines(layer);
+            const lineHeight = layer.fontSize * LINE_HEIGHT;
+            ctx.font = textFont(layer);
+            ctx.fillStyle = layer.color;
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            lines.forEach((line, i) => ctx.fillText(line, 0, (i - (lines.length - 1) / 2) * lineHeight));
+        }
+        ctx.restore();
+    }
+};
+
+/**
+ * Renders the base photo with its layers into one canvas at the photo's natural size.
+ * @param base The history entry's file.
+ * @param layers The entry's layers; an empty list just copies the base.
+ */
+export const flattenLayers = async (base: File, layers: Layer[] = []): Promise<HTMLCanvasElement> => {
+    const [baseImage, images] = await Promise.all([loadImage(base), loadLayerImages(layers)]);
+    const { canvas, ctx } = createCanvas(baseImage.naturalWidth, baseImage.naturalHeight);
+    ctx.drawImage(baseImage, 0, 0);
+    drawLayers(ctx, layers, images);
+    return canvas;
+};
+
+/** Corners of a layer's box in natural pixels, clockwise from top-left. */
+export const getLayerCorners = (layer: Layer, images: LayerImages): { x: number, y: number }[] => {
+    const { width, height } = measureLayer(layer, images);
+    const { x, y, scale, rotation } = layer.transform;
+    const angle = rotation * Math.PI / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return [[-1, -1], [1, -1], [1, 1], [-1, 1]].map(([sx, sy]) => {
+        const lx = sx * width / 2 * scale;
+        const ly = sy * height / 2 * scale;
+        return { x: x + lx * cos - ly * sin, y: y + lx * sin + ly * cos };
+    });
+};
+
+/** Whether a point in natural pixels falls inside a layer's (rotated) box. */
+export const hitTestLayer = (layer: Layer, images: LayerImages, point: { x: number, y: number }): boolean => {
+    const { width, height } = measureLayer(layer, images);
+    const { x, y, scale, rotation } = layer.transform;
+    const angle = -rotation * Math.PI / 180;
+    const dx = point.x - x;
+    const dy = point.y - y;
+    const lx = (dx * Math.cos(angle) - dy * Math.sin(angle)) / scale;
+    const ly = (dx * Math.sin(angle) + dy * Math.cos(angle)) / scale;
+    return Math.abs(lx) <= width / 2 && Math.abs(ly) <= height / 2;
+};
+
+const baseLayer = (name: string, transform: LayerTransform) => ({
+    id: crypto.randomUUID(),
+    name,
+    opacity: 1,
+    blendMode: 'source-over' as const,
+    visible: true,
+    locked: false,
+    transform,
+});
+
+export const createImageLayer = (file: File, name: string, transform: LayerTransform): ImageLayer => ({
+    ...baseLayer(name, transform),
+    kind: 'image',
+    file,
+});
+
+export const createTextLayer = (text: string, fontSize: number, transform: LayerTransform): TextLayer => ({
+    ...baseLayer(text.split('\n')[0].slice(0, 24) || t('layers.defaultTextName'), transform),
+    kind: 'text',
+    text,
+    fontSize,
+    fontFamily: 'Inter, system-ui, sans-serif',
+    color: '#ffffff',
+});
+
+/**
+ * Moves and rescales layers after the base photo was cropped and resampled.
+ * @param offset Top-left of the crop in the old photo's natural pixels.
+ * @param factor New pixels per old pixel.
+ */
+export const remapLayers = (layers: Layer[], offset: { x: number, y: number }, factor: number): Layer[] =>
+    layers.map(layer => ({
+        ...layer,
+        transform: {
+            ...layer.transform,
+            x: (layer.transform.x - offset.x) * factor,
+            y: (layer.transform.y - offset.y) * factor,
+            scale: layer.transform.scale * factor,
+        },
+    }));
+
+/**
+ * Carries a parent entry's layers over to a new base photo. Operations such as a model edit or
+ * a new background can return the photo at another size or shape, and the layer transforms are
+ * in its natural pixels, so each layer keeps its relative position in the frame. When the shape
+ * changes, layers are scaled by the smaller axis so they are not blown up past the frame.
+ * @param from The base the layers were placed on.
+ * @param to The new base.
+ */
+export const fitLayersToBase = async (layers: Layer[] | undefined, from: File, to: File): Promise<Layer[] | undefined> => {
+    if (!layers?.length || from === to) return layers;
+    const [fromImg, toImg] = await Promise.all([loadCachedImage(from), loadCachedImage(to)]);
+    const scaleX = toImg.naturalWidth / fromImg.naturalWidth;
+    const scaleY = toImg.naturalHeight / fromImg.naturalHeight;
+    if (scaleX === 1 && scaleY === 1) return layers;
+    return layers.map(layer => ({
+        ...layer,
+        transform: {
+            ...layer.transform,
+            x: layer.transform.x * scaleX,
+            y: layer.transform.y * scaleY,
+            scale: layer.transform.scale * Math.min(scaleX, scaleY),
+        },
+    }));
+};
@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createGeminiProvider } from './providers/geminiProvider.ts';
+import { createMockProvider } from './providers/mockProvider.ts';
+import { isDebugEnabled, traceProvider } from './debugLog.ts';
+import { AppError } from './appError.ts';
+
+/** Every kind of model call the app makes; each can be routed to its own model. */
+export type ModelOperation =
+    | 'edit'
+    | 'filter'
+    | 'styleTransfer'
+    | 'adjustment'
+    | 'background'
+    | 'backgroundReplacement'
+    | 'placement'
+    | 'erase'
+    | 'segment'
+    | 'upscale'
+    | 'prompt';
+
+export type AspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+
+export interface InlineImage {
+    mimeType: string;
+    data: string; // base64, without the data URL prefix
+}
+
+export type ContentPart = { inlineData: InlineImage } | { text: string };
+
+export interface ImageContentRequest {
+    operation: ModelOperation;
+    model: string;
+    parts: ContentPart[];
+    signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+    promptTokens?: number;
+    outputTokens?: number;
+    totalTokens?: number;
+}
+
+/** Provider-neutral view of an image-producing response. */
+export interface ImageContentResult {
+    image?: InlineImage;
+    text?: string;
+    finishReason?: string;
+    blockReason?: string;
+    blockReasonMessage?: string;
+    usage?: TokenUsage;
+}
+
+export interface ImageGenerationRequest {
+    model: string;
+    prompt: string;
+    aspectRatio: AspectRatio;
+    signal?: AbortSignal;
+}
+
+export interface TextGenerationRequest {
+    model: string;
+    prompt: string;
+    signal?: AbortSignal;
+}
+
+export interface ImageModelProvider {
+    readonly id: string;
+    readonly label: string;
+    /** Models used for each operation unless the config overrides them. */
+    readonly defaultModels: Record<ModelOperation, string>;
+    generateImageContent(request: ImageContentRequest): Promise<ImageContentResult>;
+    generateImages(request: ImageGenerationRequest): Promise<InlineImage[]>;
+    generateText(request: TextGenerationRequest): Promise<string>;
+}
+
+export interface ModelConfig {
+    provider: string;
+    models: Partial<Record<ModelOperation, string>>;
+}
+
+const providers = new Map<string, ImageModelProvider>();
+
+export const registerProvider = (provider: ImageModelProvider): void => {
+    providers.set(provider.id, provider);
+};
+
+export const listProviders = (): ImageModelProvider[] => Array.from(providers.values());
+
+// Reads e.g. "edit=gemini-x,background=imagen-y" into per-operation overrides.
+const parseModelOverrides = (value: string | undefined): Partial<Record<ModelOperation, string>> => {
+    const models: Partial<Record<ModelOperation, string>> = {};
+    if (!value) return models;
+    for (const entry of value.split(',')) {
+        const [operation, model] = entry.split('=').map(s => s.trim());
+        if (operation && model) {
+            models[operation as ModelOperation] = model;
+        }
+    }
+    return models;
+};
+
+// `process.env.*` is replaced at build time by Vite; guard for hosts that do not define it.
+const readEnvConfig = (): ModelConfig => {
+    try {
+        return {
+            provider: process.env.MODEL_PROVIDER || 'gemini',
+            models: parseModelOverrides(process.env.MODEL_OVERRIDES),
+        };
+    } catch {
+        return { provider: 'gemini', models: {} };
+    }
+};
+
+let modelConfig: ModelConfig = readEnvConfig();
+
+export const getModelConfig = (): ModelConfig => modelConfig;
+
+/**
+ * Changes the active provider and/or per-operation models at runtime.
+ * Model overrides are merged; pass `models: {}` together with a new provider to start clean.
+ */
+export const setModelConfig = (config: Partial<ModelConfig>): void => {
+    const clearsModels = !!config.models && Object.keys(config.models).length === 0;
+    modelConfig = {
+        provider: config.provider ?? modelConfig.provider,
+        models: clearsModels ? {} : config.models ? { ...modelConfig.models, ...config.models } : modelConfig.models,
+    };
+};
+
+/**
+ * Resolves which provider and model should serve an operation under the current config.
+ * @param operation The kind of model call about to be made.
+ * @returns The provider instance and the model name to pass to it.
+ */
+export const resolveModel = (operation: ModelOperation): { provider: ImageModelProvider; model: string } => {
+    const provider = providers.get(modelConfig.provider);
+    if (!provider) {
+        throw new AppError('providerUnknown', { provider: modelConfig.provider });
+    }
+    const model = modelConfig.models[operation] ?? provider.defaultModels[operation];
+    return { provider: isDebugEnabled() ? traceProvider(provider, operation) : provider, model };
+};
+
+/** A short "provider/model" label for the model that would serve an operation, for history and logs. */
+export const describeModel = (operation: ModelOperation): string => {
+    const { provider, model } = resolveModel(operation);
+    return `${provider.id}/${model}`;
+};
+
+registerProvider(createGeminiProvider());
+registerProvider(createMockProvider());
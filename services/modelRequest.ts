@@ -0,0 +1,211 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AppError, type ErrorCode, type ErrorParams } from './appError.ts';
+
+// Every model call goes through `runModelRequest`, which adds a timeout, cancellation,
+// retries with exponential backoff for transient failures, and a client-side limiter so
+// batch operations do not trip the provider's quota.
+
+export type ModelErrorKind = 'quota' | 'safety' | 'network' | 'invalidResponse' | 'cancelled';
+
+export class ModelRequestError extends AppError {
+    constructor(
+        code: ErrorCode,
+        params: ErrorParams,
+        readonly kind: ModelErrorKind,
+        /** Whether sending the same request again may succeed. */
+        readonly retryable: boolean,
+        /** Server-suggested wait before retrying, when the provider sent one. */
+        readonly retryAfterMs?: number,
+    ) {
+        super(code, params);
+    }
+}
+
+export class QuotaExceededError extends ModelRequestError {
+    constructor(retryAfterMs?: number) {
+        super('quota', {}, 'quota', true, retryAfterMs);
+    }
+}
+
+export class SafetyBlockError extends ModelRequestError {
+    constructor(code: 'promptBlocked' | 'promptBlockedWithDetail' | 'outputBlocked', params: ErrorParams, readonly reason?: string) {
+        super(code, params, 'safety', false);
+    }
+}
+
+export class NetworkError extends ModelRequestError {
+    constructor(code: 'network' | 'serverError' | 'timeout' = 'network', params: ErrorParams = {}, readonly status?: number) {
+        super(code, params, 'network', true);
+    }
+}
+
+export class InvalidResponseError extends ModelRequestError {
+    constructor(code: ErrorCode, params: ErrorParams = {}) {
+        super(code, params, 'invalidResponse', false);
+    }
+}
+
+export class RequestCancelledError extends ModelRequestError {
+    constructor() {
+        super('cancelled', {}, 'cancelled', false);
+    }
+}
+
+export interface RequestOptions {
+    /** Aborting this signal cancels the request, including any pending retry. */
+    signal?: AbortSignal;
+    /** Per-attempt timeout. */
+    timeoutMs?: number;
+    maxRetries?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 90_000;
+const DEFAULT_MAX_RETRIES = 3;
+const BACKOFF_BASE_MS = 1_000;
+const BACKOFF_MAX_MS = 30_000;
+
+const MAX_CONCURRENT_REQUESTS = 4;
+const MAX_REQUESTS_PER_MINUTE = 20;
+const RATE_WINDOW_MS = 60_000;
+
+let activeRequests = 0;
+const recentStarts: number[] = [];
+const slotWaiters = new Set<() => void>();
+
+const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw new RequestCancelledError();
+};
+
+// Waits until both the concurrency and the per-minute budget allow another request.
+const acquireSlot = async (signal?: AbortSignal): Promise<void> => {
+    for (;;) {
+        throwIfAborted(signal);
+        const now = Date.now();
+        while (recentStarts.length > 0 && recentStarts[0] <= now - RATE_WINDOW_MS) {
+            recentStarts.shift();
+        }
+        if (activeRequests < MAX_CONCURRENT_REQUESTS && recentStarts.length < MAX_REQUESTS_PER_MINUTE) {
+            activeRequests++;
+            recentStarts.push(now);
+            return;
+        }
+        const windowWait = recentStarts.length >= MAX_REQUESTS_PER_MINUTE ? recentStarts[0] + RATE_WINDOW_MS - now : null;
+        await new Promise<void>(resolve => {
+            const wake = () => {
+                slotWaiters.delete(wake);
+                if (timer !== undefined) clearTimeout(timer);
+                signal?.removeEventListener('abort', wake);
+                resolve();
+            };
+            const timer = windowWait !== null ? setTimeout(wake, windowWait) : undefined;
+            slotWaiters.add(wake);
+            signal?.addEventListener('abort', wake);
+        });
+    }
+};
+
+const releaseSlot = () => {
+    activeRequests--;
+    Array.from(slotWaiters).forEach(wake => wake());
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Providers are not required to honour the signal, so settle as soon as it aborts either way.
+const settleOnAbort = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+});
+
+// Gemini reports quota errors with a body like `"retryDelay": "17s"`.
+const parseRetryDelay = (message: string): number | undefined => {
+    const match = message.match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/);
+    return match ? Number(match[1]) * 1000 : undefined;
+};
+
+/**
+ * Maps whatever a provider threw onto the typed errors above. Errors that do not look
+ * transient are passed through unchanged and are not retried.
+ */
+export const classifyError = (err: unknown): Error => {
+    if (err instanceof ModelRequestError) return err;
+    const message = err instanceof Error ? err.message : String(err);
+    const status = typeof (err as { status?: unknown })?.status === 'number' ? (err as { status: number }).status : undefined;
+
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+        return new QuotaExceededError(parseRetryDelay(message));
+    }
+    if (status !== undefined && status >= 500) {
+        return new NetworkError('serverError', { status: String(status) }, status);
+    }
+    if (err instanceof TypeError && /fetch|network/i.test(message)) {
+        return new NetworkError();
+    }
+    return err instanceof Error ? err : new Error(message);
+};
+
+const backoffDelay = (attempt: number, retryAfterMs?: number): number => {
+    const exponential = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+    // Full jitter keeps parallel batch requests from retrying in lockstep.
+    const jittered = Math.random() * exponential;
+    return Math.max(jittered, retryAfterMs ?? 0);
+};
+
+/**
+ * Runs a single model call with timeout, cancellation, rate limiting and retries.
+ * @param call Performs the request; it receives a signal that aborts on cancel or timeout.
+ * @param options Cancellation signal and retry/timeout overrides.
+ * @returns The call's result from the first attempt that succeeds.
+ */
+export const runModelRequest = async <T>(
+    call: (signal: AbortSignal) => Promise<T>,
+    { signal, timeoutMs = DEFAULT_TIMEOUT_MS, maxRetries = DEFAULT_MAX_RETRIES }: RequestOptions = {},
+): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        await acquireSlot(signal);
+
+        const controller = new AbortController();
+        const forwardAbort = () => controller.abort();
+        signal?.addEventListener('abort', forwardAbort);
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeoutMs);
+
+        let retryDelay: number;
+        try {
+            return await settleOnAbort(call(controller.signal), controller.signal);
+        } catch (err) {
+            if (signal?.aborted) throw new RequestCancelledError();
+            const error = timedOut
+                ? new NetworkError('timeout', { seconds: Math.round(timeoutMs / 1000) })
+                : classifyError(err);
+            if (!(error instanceof ModelRequestError) || !error.retryable || attempt >= maxRetries) {
+                throw error;
+            }
+            retryDelay = backoffDelay(attempt, error.retryAfterMs);
+            console.warn(`Model request failed (${error.kind}), retrying in ${Math.round(retryDelay)} ms.`, err);
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', forwardAbort);
+            releaseSlot();
+        }
+        await sleep(retryDelay, signal);
+    }
+};
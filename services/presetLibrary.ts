@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { PresetKind, PromptPreset } from '../types.ts';
+import { AppError } from './appError.ts';
+import { t, type MessageKey } from './i18n.ts';
+
+// The prompt preset library. Presets live in localStorage as one ordered list; the order
+// of presets of the same kind is the order they are shown in.
+
+const PRESETS_KEY = 'sevaflow.presets';
+const EXPORT_FORMAT = 'sevaflow-presets';
+const EXPORT_VERSION = 1;
+const PRESET_KINDS: PresetKind[] = ['filter', 'adjustment', 'retouch', 'background'];
+
+export const PRESET_KIND_LABELS: Record<PresetKind, MessageKey> = {
+    filter: 'presets.kind.filter',
+    adjustment: 'presets.kind.adjustment',
+    retouch: 'presets.kind.retouch',
+    background: 'presets.kind.background',
+};
+
+/** The built-in presets, named in the current UI language; used for a fresh library. */
+export const createDefaultPresets = (): PromptPreset[] => [
+    { id: 'builtin-synthwave', kind: 'filter', name: t('presets.builtin.synthwave'), category: t('presets.category.retro'), favorite: false, prompt: 'Apply a vibrant 80s synthwave aesthetic with neon magenta and cyan glows, and subtle scan lines.' },
+    { id: 'builtin-anime', kind: 'filter', name: t('presets.builtin.anime'), category: t('presets.category.illustration'), favorite: false, prompt: 'Give the image a vibrant Japanese anime style, with bold outlines, cel-shading, and saturated colors.' },
+    { id: 'builtin-lomo', kind: 'filter', name: t('presets.builtin.lomo'), category: t('presets.category.retro'), favorite: false, prompt: 'Apply a Lomography-style cross-processing film effect with high-contrast, oversaturated colors, and dark vignetting.' },
+    { id: 'builtin-glitch', kind: 'filter', name: t('presets.builtin.glitch'), category: t('presets.category.digital'), favorite: false, prompt: 'Transform the image into a futuristic holographic projection with digital glitch effects and chromatic aberration.' },
+    { id: 'builtin-blur-background', kind: 'adjustment', name: t('presets.builtin.blurBackground'), category: t('presets.category.focus'), favorite: false, prompt: 'Apply a realistic depth-of-field effect, making the background blurry while keeping the main subject in sharp focus.' },
+    { id: 'builtin-enhance-details', kind: 'adjustment', name: t('presets.builtin.enhanceDetails'), category: t('presets.category.focus'), favorite: false, prompt: 'Slightly enhance the sharpness and details of the image without making it look unnatural.' },
+    { id: 'builtin-warmer-light', kind: 'adjustment', name: t('presets.builtin.warmerLight'), category: t('presets.category.light'), favorite: false, prompt: 'Adjust the color temperature to give the image warmer, golden-hour style lighting.' },
+    { id: 'builtin-studio-light', kind: 'adjustment', name: t('presets.builtin.studioLight'), category: t('presets.category.light'), favorite: false, prompt: 'Add dramatic, professional studio lighting to the main subject.' },
+    { id: 'builtin-recolor', kind: 'retouch', name: t('presets.builtin.recolor'), category: t('presets.category.color'), favorite: false, prompt: `Change the color of the selected object to {${t('presets.variable.color')}=${t('presets.variable.darkBlue')}}, keeping its texture and shading.` },
+    { id: 'builtin-remove-blemish', kind: 'retouch', name: t('presets.builtin.removeBlemish'), category: t('presets.category.portrait'), favorite: false, prompt: `Smooth the skin at the selected spot with {${t('presets.variable.intensity')}=${t('presets.variable.subtle')}} retouching, removing blemishes while keeping natural pores.` },
+    { id: 'builtin-studio-backdrop', kind: 'background', name: t('presets.builtin.studioBackdrop'), category: t('presets.category.studio'), favorite: false, prompt: `A seamless {${t('presets.variable.color')}=${t('presets.variable.lightGrey')}} studio backdrop with soft, even lighting and a subtle floor shadow.` },
+    { id: 'builtin-marble-table', kind: 'background', name: t('presets.builtin.marbleTable'), category: t('presets.category.product'), favorite: false, prompt: 'A white marble tabletop in a bright, minimalist kitchen, softly out of focus.' },
+];
+
+const VARIABLE_PATTERN = /\{([^{}=]+?)(?:=([^{}]*))?\}/g;
+
+export interface PresetVariable {
+    name: string;
+    defaultValue: string;
+}
+
+/** The distinct `{name}` / `{name=default}` placeholders in a prompt, in order of appearance. */
+export const extractVariables = (prompt: string): PresetVariable[] => {
+    const variables: PresetVariable[] = [];
+    for (const match of prompt.matchAll(VARIABLE_PATTERN)) {
+        const name = match[1].trim();
+        if (!variables.some(v => v.name === name)) variables.push({ name, defaultValue: match[2]?.trim() ?? '' });
+    }
+    return variables;
+};
+
+/** Replaces placeholders with the given values, falling back to each placeholder's default. */
+export const fillTemplate = (prompt: string, values: Record<string, string>): string =>
+    prompt.replace(VARIABLE_PATTERN, (_, name: string, defaultValue?: string) => {
+        const value = values[name.trim()]?.trim();
+        return value || defaultValue?.trim() || name.trim();
+    });
+
+export const loadPresets = (): PromptPreset[] => {
+    try {
+        const stored = localStorage.getItem(PRESETS_KEY);
+        return stored ? JSON.parse(stored) : createDefaultPresets();
+    } catch {
+        return createDefaultPresets();
+    }
+};
+
+export const savePresets = (presets: PromptPreset[]): void => {
+    try {
+        localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+    } catch (err) {
+        console.warn('Could not persist presets.', err);
+    }
+};
+
+export const createPreset = (kind: PresetKind): PromptPreset => ({
+    id: crypto.randomUUID(),
+    kind,
+    name: t('presets.newName'),
+    prompt: '',
+    category: '',
+    favorite: false,
+});
+
+/** Presets of one kind as shown in the tool panels: favourites first, otherwise in library order. */
+export const presetsOfKind = (presets: PromptPreset[], kind: PresetKind): PromptPreset[] => {
+    const ofKind = presets.filter(preset => preset.kind === kind);
+    return [...ofKind.filter(preset => preset.favorite), ...ofKind.filter(preset => !preset.favorite)];
+};
+
+/** Swaps a preset with its previous (-1) or next (1) neighbour of the same kind. */
+export const movePreset = (presets: PromptPreset[], id: string, direction: -1 | 1): PromptPreset[] => {
+    const index = presets.findIndex(preset => preset.id === id);
+    if (index < 0) return presets;
+    let target = index + direction;
+    while (target >= 0 && target < presets.length && presets[target].kind !== presets[index].kind) target += direction;
+    if (target < 0 || target >= presets.length) return presets;
+    const next = [...presets];
+    [next[index], next[target]] = [next[target], next[index]];
+    return next;
+};
+
+/** The library as a shareable JSON document. */
+export const exportPresets = (presets: PromptPreset[]): string =>
+    JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: new Date().toISOString(), presets }, null, 2);
+
+const isPreset = (value: unknown): value is PromptPreset => {
+    if (!value || typeof value !== 'object') return false;
+    const preset = value as Record<string, unknown>;
+    return typeof preset.id === 'string'
+        && PRESET_KINDS.includes(preset.kind as PresetKind)
+        && typeof preset.name === 'string'
+        && typeof preset.prompt === 'string';
+};
+
+/**
+ * Merges an exported library into the current one. Presets with a known id replace the
+ * local copy in place; the rest are appended.
+ * @param json The contents of a file written by `exportPresets`.
+ * @returns The merged library and how many presets the file held.
+ */
+export const importPresets = (json: string, current: PromptPreset[]): { presets: PromptPreset[], count: number } => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new AppError('presetInvalidJson');
+    }
+    const data = parsed as { format?: unknown, presets?: unknown };
+    if (data?.format !== EXPORT_FORMAT || !Array.isArray(data.presets)) {
+        throw new AppError('presetWrongFormat');
+    }
+    const imported = data.presets.filter(isPreset).map(preset => ({
+        id: preset.id,
+        kind: preset.kind,
+        name: preset.name,
+        prompt: preset.prompt,
+        category: typeof preset.category === 'string' ? preset.category : '',
+        favorite: preset.favorite === true,
+    }));
+    if (imported.length === 0) throw new AppError('presetEmpty');
+
+    const byId = new Map(imported.map(preset => [preset.id, preset]));
+    const merged = current.map(preset => byId.get(preset.id) ?? preset);
+    const known = new Set(current.map(preset => preset.id));
+    return { presets: [...merged, ...imported.filter(preset => !known.has(preset.id))], count: imported.length };
+};
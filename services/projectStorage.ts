@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Project, ProjectSummary, Product } from '../types.ts';
+import { AppError } from './appError.ts';
+import { t } from './i18n.ts';
+
+const DB_NAME = 'sevaflow';
+const DB_VERSION = 2;
+const PROJECT_STORE = 'projects';
+const PRODUCT_STORE = 'products';
+const LAST_PROJECT_KEY = 'sevaflow.lastProjectId';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+                    db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(PRODUCT_STORE)) {
+                    db.createObjectStore(PRODUCT_STORE, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error ?? new AppError('storageOpenFailed'));
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new AppError('storageFailed'));
+});
+
+const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+    storeName = PROJECT_STORE,
+): Promise<T> => {
+    const db = await openDatabase();
+    const store = db.transaction(storeName, mode).objectStore(storeName);
+    return requestToPromise(run(store));
+};
+
+export const createProjectId = (): string => crypto.randomUUID();
+
+/**
+ * Saves a project, including every history file, replacing any earlier version with the same id.
+ * @param project The full project record; File objects are stored as-is.
+ */
+export const saveProject = async (project: Project): Promise<void> => {
+    await withStore('readwrite', store => store.put(project));
+};
+
+export const loadProject = async (id: string): Promise<Project | null> => {
+    const project = await withStore<Project | undefined>('readonly', store => store.get(id));
+    return project ?? null;
+};
+
+/**
+ * Lists saved projects, most recently edited first.
+ * @returns Lightweight summaries with the first image's current version as thumbnail.
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+    const projects = await withStore<Project[]>('readonly', store => store.getAll());
+    return projects
+        .map(({ id, name, createdAt, updatedAt, images }) => {
+            const first = images[0];
+            return {
+                id,
+                name,
+                createdAt,
+                updatedAt,
+                imageCount: images.length,
+                thumbnail: first ? first.history[first.historyIndex]?.file ?? first.original : null,
+            };
+        })
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+    const project = await loadProject(id);
+    if (!project) throw new AppError('projectNotFound');
+    await saveProject({ ...project, name, updatedAt: Date.now() });
+};
+
+/**
+ * Copies a project under a new id. IndexedDB stores its own copy of every file, so the duplicate is independent.
+ * @returns The id of the new project.
+ */
+export const duplicateProject = async (id: string): Promise<string> => {
+    const project = await loadProject(id);
+    if (!project) throw new AppError('projectNotFound');
+    const now = Date.now();
+    const copy: Project = {
+        ...project,
+        id: createProjectId(),
+        name: t('projects.copyName', { name: project.name }),
+        createdAt: now,
+        updatedAt: now,
+    };
+    await saveProject(copy);
+    return copy.id;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+    await withStore('readwrite', store => store.delete(id));
+    if (getLastProjectId() === id) {
+        setLastProjectId(null);
+    }
+};
+
+/**
+ * Reports how much browser storage the app uses out of what it may use.
+ * @returns Usage and quota in bytes, or null when the browser does not expose an estimate.
+ */
+export const getStorageEstimate = async (): Promise<{ usage: number, quota: number } | null> => {
+    if (!navigator.storage?.estimate) return null;
+    const { usage, quota } = await navigator.storage.estimate();
+    if (usage === undefined || !quota) return null;
+    return { usage, quota };
+};
+
+export const getLastProjectId = (): string | null => localStorage.getItem(LAST_PROJECT_KEY);
+
+export const setLastProjectId = (id: string | null): void => {
+    if (id) {
+        localStorage.setItem(LAST_PROJECT_KEY, id);
+    } else {
+        localStorage.removeItem(LAST_PROJECT_KEY);
+    }
+};
+
+/** Adds a product to the library, or replaces the one with the same id. */
+export const saveProduct = async (product: Product): Promise<void> => {
+    await withStore('readwrite', store => store.put(product), PRODUCT_STORE);
+};
+
+/** Lists the product library, newest first. */
+export const listProducts = async (): Promise<Product[]> => {
+    const products = await withStore<Product[]>('readonly', store => store.getAll(), PRODUCT_STORE);
+    return products.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteProduct = async (id: string): Promise<void> => {
+    await withStore('readwrite', store => store.delete(id), PRODUCT_STORE);
+};
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import type { ImageModelProvider, ImageContentResult } from '../modelProviders.ts';
+
+/**
+ * Creates the provider backed by the Google Gemini / Imagen APIs.
+ * The client is created on first use so a missing API key only fails when Gemini is actually called.
+ */
+export const createGeminiProvider = (): ImageModelProvider => {
+    let client: GoogleGenAI | null = null;
+    const getClient = () => {
+        if (!client) {
+            client = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+        }
+        return client;
+    };
+
+    return {
+        id: 'gemini',
+        label: 'Google Gemini',
+        defaultModels: {
+            edit: 'gemini-2.5-flash-image-preview',
+            filter: 'gemini-2.5-flash-image-preview',
+            styleTransfer: 'gemini-2.5-flash-image-preview',
+            adjustment: 'gemini-2.5-flash-image-preview',
+            backgroundReplacement: 'gemini-2.5-flash-image-preview',
+            placement: 'gemini-2.5-flash-image-preview',
+            erase: 'gemini-2.5-flash-image-preview',
+            segment: 'gemini-2.5-flash-image-preview',
+            upscale: 'gemini-2.5-flash-image-preview',
+            background: 'imagen-4.0-generate-001',
+            prompt: 'gemini-2.5-flash',
+        },
+
+        async generateImageContent({ model, parts, signal }) {
+            const response: GenerateContentResponse = await getClient().models.generateContent({
+                model,
+                contents: { parts },
+                config: { abortSignal: signal },
+            });
+
+            const candidate = response.candidates?.[0];
+            const imagePart = candidate?.content?.parts?.find(part => part.inlineData);
+            const result: ImageContentResult = {
+                text: response.text,
+                finishReason: candidate?.finishReason,
+                blockReason: response.promptFeedback?.blockReason,
+                blockReasonMessage: response.promptFeedback?.blockReasonMessage,
+                usage: response.usageMetadata && {
+                    promptTokens: response.usageMetadata.promptTokenCount,
+                    outputTokens: response.usageMetadata.candidatesTokenCount,
+                    totalTokens: response.usageMetadata.totalTokenCount,
+                },
+            };
+            if (imagePart?.inlineData?.data) {
+                result.image = {
+                    mimeType: imagePart.inlineData.mimeType ?? 'image/png',
+                    data: imagePart.inlineData.data,
+                };
+            }
+            return result;
+        },
+
+        async generateImages({ model, prompt, aspectRatio, signal }) {
+            const response = await getClient().models.generateImages({
+                model,
+                prompt,
+                config: {
+                  numberOfImages: 1,
+                  outputMimeType: 'image/png',
+                  aspectRatio,
+                  abortSignal: signal,
+                },
+            });
+            return (response.generatedImages ?? [])
+                .filter(generated => generated.image?.imageBytes)
+                .map(generated => ({
+                    mimeType: generated.image!.mimeType ?? 'image/png',
+                    data: generated.image!.imageBytes!,
+                }));
+        },
+
+        async generateText({ model, prompt, signal }) {
+            const response: GenerateContentResponse = await getClient().models.generateContent({
+                model,
+                contents: prompt,
+                config: {
+                    thinkingConfig: { thinkingBudget: 0 },
+                    abortSignal: signal,
+                }
+            });
+            return response.text ?? '';
+        },
+    };
+};
@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageModelProvider, InlineImage, AspectRatio } from '../modelProviders.ts';
+
+// A fully local provider for offline development and tests. It never calls the network:
+// image operations tint the input with a colour derived from the prompt, so the same
+// request always yields the same pixels.
+
+const MOCK_LATENCY_MS = 300;
+
+const MOCK_IDEAS = [
+    'a dreamy, ethereal glow',
+    'warm golden hour light',
+    'moody cinematic teal and orange',
+    'a misty forest at dawn',
+    'soft pastel film look',
+    'neon city lights at night',
+];
+
+// FNV-1a, so colours and ideas are stable across runs.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const colorFromHash = (hash: number, offset = 0): string => `hsl(${(hash + offset) % 360}, 60%, 55%)`;
+
+const delay = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+    };
+    // Batch signals outlive many calls, so the listener goes once the delay is over.
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, MOCK_LATENCY_MS);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const loadInlineImage = (image: InlineImage): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Mock provider could not decode the input image.'));
+    img.src = `data:${image.mimeType};base64,${image.data}`;
+});
+
+const canvasToInlineImage = (canvas: HTMLCanvasElement): InlineImage => ({
+    mimeType: 'image/png',
+    data: canvas.toDataURL('image/png').split(',')[1],
+});
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Mock provider could not create a canvas context.');
+    return { canvas, ctx };
+};
+
+const aspectToSize = (aspectRatio: AspectRatio): { width: number, height: number } => {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    const longEdge = 1024;
+    return w >= h
+        ? { width: longEdge, height: Math.round(longEdge * h / w) }
+        : { width: Math.round(longEdge * w / h), height: longEdge };
+};
+
+// Stand-in for segmentation: flood-fills colours similar to the clicked pixel and returns
+// the region as a white-on-black mask.
+const SEGMENT_TOLERANCE = 48;
+
+const segmentAt = (image: HTMLImageElement, x: number, y: number): HTMLCanvasElement => {
+    const { naturalWidth: width, naturalHeight: height } = image;
+    const { ctx: sourceCtx } = createCanvas(width, height);
+    sourceCtx.drawImage(image, 0, 0);
+    const pixels = sourceCtx.getImageData(0, 0, width, height).data;
+
+    const { canvas, ctx } = createCanvas(width, height);
+    const mask = ctx.createImageData(width, height);
+    const startX = Math.min(width - 1, Math.max(0, Math.round(x)));
+    const startY = Math.min(height - 1, Math.max(0, Math.round(y)));
+    const seed = (startY * width + startX) * 4;
+    const visited = new Uint8Array(width * height);
+    const stack = [startY * width + startX];
+    while (stack.length > 0) {
+        const index = stack.pop()!;
+        if (visited[index]) continue;
+        visited[index] = 1;
+        const i = index * 4;
+        const distance = Math.abs(pixels[i] - pixels[seed]) + Math.abs(pixels[i + 1] - pixels[seed + 1]) + Math.abs(pixels[i + 2] - pixels[seed + 2]);
+        if (distance > SEGMENT_TOLERANCE) continue;
+        mask.data[i] = mask.data[i + 1] = mask.data[i + 2] = 255;
+        const px = index % width;
+        if (px > 0) stack.push(index - 1);
+        if (px < width - 1) stack.push(index + 1);
+        if (index >= width) stack.push(index - width);
+        if (index < width * (height - 1)) stack.push(index + width);
+    }
+    for (let i = 3; i < mask.data.length; i += 4) mask.data[i] = 255;
+    ctx.putImageData(mask, 0, 0);
+    return canvas;
+};
+
+export const createMockProvider = (): ImageModelProvider => {
+    let textCallCount = 0;
+
+    return {
+        id: 'mock',
+        label: 'Mock (offline)',
+        defaultModels: {
+            edit: 'mock-image',
+            filter: 'mock-image',
+            styleTransfer: 'mock-image',
+            adjustment: 'mock-image',
+            backgroundReplacement: 'mock-image',
+            placement: 'mock-image',
+            erase: 'mock-image',
+            segment: 'mock-image',
+            upscale: 'mock-image',
+            background: 'mock-image',
+            prompt: 'mock-text',
+        },
+
+        async generateImageContent({ operation, parts, signal }) {
+            await delay(signal);
+            const images = parts.flatMap(part => 'inlineData' in part ? [part.inlineData] : []);
+            const prompt = parts.flatMap(part => 'text' in part ? [part.text] : []).join('\n');
+            if (images.length === 0) {
+                return { text: 'Mock provider received no image.', finishReason: 'STOP' };
+            }
+
+            const point = prompt.match(/\(x: (\d+), y: (\d+)\)/);
+            if (operation === 'segment') {
+                const image = await loadInlineImage(images[0]);
+                const [x, y] = point ? [Number(point[1]), Number(point[2])] : [image.naturalWidth / 2, image.naturalHeight / 2];
+                return { image: canvasToInlineImage(segmentAt(image, x, y)), finishReason: 'STOP' };
+            }
+            if (operation === 'upscale') {
+                // No detail to invent offline; the caller resamples to the requested size.
+                return { image: images[0], finishReason: 'STOP' };
+            }
+            if (operation === 'styleTransfer') {
+                // Tint the target with the references' average colour, as strongly as the prompt asks.
+                const [target, ...references] = await Promise.all(images.map(loadInlineImage));
+                const { ctx: averageCtx } = createCanvas(1, 1);
+                references.forEach((reference, i) => {
+                    averageCtx.globalAlpha = 1 / (i + 1);
+                    averageCtx.drawImage(reference, 0, 0, 1, 1);
+                });
+                const [r, g, b] = averageCtx.getImageData(0, 0, 1, 1).data;
+                const strength = prompt.match(/Strength: (\d+)%/);
+                const { canvas, ctx } = createCanvas(target.naturalWidth, target.naturalHeight);
+                ctx.drawImage(target, 0, 0);
+                ctx.globalCompositeOperation = 'color';
+                ctx.globalAlpha = (strength ? Number(strength[1]) : 70) / 100 * 0.6;
+                ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+                ctx.fillRect(0, 0, canvas.width, canvas.height);
+                return { image: canvasToInlineImage(canvas), finishReason: 'STOP' };
+            }
+            if (operation === 'erase') {
+                // A heavy blur reads as "filled in"; the caller composites it inside the mask only.
+                const image = await loadInlineImage(images[0]);
+                const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+                ctx.filter = `blur(${Math.max(8, Math.round(Math.min(canvas.width, canvas.height) / 40))}px)`;
+                ctx.drawImage(image, 0, 0);
+                return { image: canvasToInlineImage(canvas), finishReason: 'STOP' };
+            }
+
+            // Background replacement and placement composite two images; other extra images (masks) are ignored.
+            const compositesTwo = operation === 'backgroundReplacement' || operation === 'placement';
+            const [first, second] = await Promise.all(
+                images.slice(0, compositesTwo ? 2 : 1).map(loadInlineImage)
+            );
+            // Background replacement sends the subject first; placement sends the scene first.
+            const [base, overlay] = operation === 'placement' ? [first, second] : [second ?? first, second ? first : undefined];
+            const { canvas, ctx } = createCanvas(base.naturalWidth, base.naturalHeight);
+            ctx.drawImage(base, 0, 0);
+
+            if (overlay) {
+                // Subjects fill 70% of the new background; products take 30% of the scene, centred on the
+                // first "(x: .., y: ..)" point of the prompt when there is one.
+                const scale = Math.min(canvas.width / overlay.naturalWidth, canvas.height / overlay.naturalHeight) * (operation === 'placement' ? 0.3 : 0.7);
+                const w = overlay.naturalWidth * scale;
+                const h = overlay.naturalHeight * scale;
+                const [cx, cy] = point ? [Number(point[1]), Number(point[2])] : [canvas.width / 2, canvas.height / 2];
+                ctx.drawImage(overlay, cx - w / 2, cy - h / 2, w, h);
+            }
+
+            ctx.globalCompositeOperation = 'color';
+            ctx.globalAlpha = 0.35;
+            ctx.fillStyle = colorFromHash(hashString(prompt));
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+            return { image: canvasToInlineImage(canvas), finishReason: 'STOP' };
+        },
+
+        async generateImages({ prompt, aspectRatio, signal }) {
+            await delay(signal);
+            const { width, height } = aspectToSize(aspectRatio);
+            const { canvas, ctx } = createCanvas(width, height);
+            const hash = hashString(prompt);
+            const gradient = ctx.createLinearGradient(0, 0, width, height);
+            gradient.addColorStop(0, colorFromHash(hash));
+            gradient.addColorStop(1, colorFromHash(hash, 120));
+            ctx.fillStyle = gradient;
+            ctx.fillRect(0, 0, width, height);
+            return [canvasToInlineImage(canvas)];
+        },
+
+        async generateText({ prompt, signal }) {
+            await delay(signal);
+            const index = hashString(`${prompt}#${textCallCount++}`) % MOCK_IDEAS.length;
+            return MOCK_IDEAS[index];
+        },
+    };
+};
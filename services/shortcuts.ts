@@ -0,0 +1,210 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import type { ToolId } from '../types.ts';
+import type { MessageKey } from './i18n.ts';
+
+// Keyboard shortcuts. Every action has default key combos; the user's remappings are kept in
+// localStorage as overrides, and components read them through `useShortcutOverrides` so they
+// re-render when a binding changes.
+//
+// Combos are written as `Mod+Shift+Z`: `Mod` is Ctrl, or ⌘ on a Mac; letters are upper case,
+// other keys use their `KeyboardEvent.key` name.
+
+export type ShortcutActionId =
+    | 'commandPalette' | 'cheatSheet' | 'debugInspector'
+    | 'undo' | 'redo' | 'reset' | 'toggleHistory' | 'toggleComparison'
+    | 'generate' | 'clearHotspots'
+    | 'export' | 'exportAll' | 'copyImage' | 'uploadNew' | 'openCamera'
+    | 'previousImage' | 'nextImage'
+    | `tool.${ToolId}`;
+
+export type ShortcutGroup = 'general' | 'editing' | 'images' | 'tools';
+
+export interface ShortcutAction {
+    id: ShortcutActionId;
+    label: MessageKey;
+    group: ShortcutGroup;
+    defaults: string[];
+    /** Fires from text fields too; only for combos with a modifier the fields do not use. */
+    allowWhileTyping?: boolean;
+    /** Keeps firing while the key is held. */
+    repeatable?: boolean;
+    /** Left out of the cheat sheet and palette, but still owns its combo for conflict detection. */
+    hidden?: boolean;
+}
+
+export const SHORTCUT_GROUP_LABELS: Record<ShortcutGroup, MessageKey> = {
+    general: 'shortcuts.group.general',
+    editing: 'shortcuts.group.editing',
+    images: 'shortcuts.group.images',
+    tools: 'shortcuts.group.tools',
+};
+
+export const SHORTCUT_ACTIONS: ShortcutAction[] = [
+    { id: 'commandPalette', label: 'shortcuts.action.commandPalette', group: 'general', defaults: ['Mod+K'], allowWhileTyping: true },
+    { id: 'cheatSheet', label: 'shortcuts.action.cheatSheet', group: 'general', defaults: ['?'] },
+    { id: 'debugInspector', label: 'shortcuts.action.debugInspector', group: 'general', defaults: ['Mod+Shift+D'], allowWhileTyping: true, hidden: true },
+    { id: 'undo', label: 'shortcuts.action.undo', group: 'editing', defaults: ['Mod+Z'], repeatable: true },
+    { id: 'redo', label: 'shortcuts.action.redo', group: 'editing', defaults: ['Mod+Shift+Z', 'Mod+Y'], repeatable: true },
+    { id: 'reset', label: 'shortcuts.action.reset', group: 'editing', defaults: [] },
+    { id: 'generate', label: 'shortcuts.action.generate', group: 'editing', defaults: ['Mod+Enter'], allowWhileTyping: true },
+    { id: 'clearHotspots', label: 'shortcuts.action.clearHotspots', group: 'editing', defaults: ['Escape'] },
+    { id: 'toggleHistory', label: 'shortcuts.action.toggleHistory', group: 'editing', defaults: ['H'] },
+    { id: 'toggleComparison', label: 'shortcuts.action.toggleComparison', group: 'editing', defaults: ['M'] },
+    { id: 'export', label: 'shortcuts.action.export', group: 'images', defaults: ['Mod+S'], allowWhileTyping: true },
+    { id: 'exportAll', label: 'shortcuts.action.exportAll', group: 'images', defaults: ['Mod+Shift+S'], allowWhileTyping: true },
+    { id: 'copyImage', label: 'shortcuts.action.copyImage', group: 'images', defaults: [] },
+    { id: 'uploadNew', label: 'shortcuts.action.uploadNew', group: 'images', defaults: [] },
+    { id: 'openCamera', label: 'shortcuts.action.openCamera', group: 'images', defaults: [] },
+    { id: 'previousImage', label: 'shortcuts.action.previousImage', group: 'images', defaults: ['ArrowLeft'], repeatable: true },
+    { id: 'nextImage', label: 'shortcuts.action.nextImage', group: 'images', defaults: ['ArrowRight'], repeatable: true },
+];
+
+/** One action per tool, bound to the tool's letter and its position in the toolbar. */
+export const createToolShortcutActions = (tools: { id: ToolId, label: MessageKey, shortcut: string }[]): ShortcutAction[] =>
+    tools.map((tool, index) => ({
+        id: `tool.${tool.id}` as const,
+        label: tool.label,
+        group: 'tools' as const,
+        defaults: index < 9 ? [tool.shortcut.toUpperCase(), String(index + 1)] : [tool.shortcut.toUpperCase()],
+    }));
+
+const SHORTCUTS_KEY = 'sevaflow.shortcuts';
+const MODIFIER_KEYS = ['Control', 'Meta', 'Shift', 'Alt', 'AltGraph', 'CapsLock'];
+const isMac = /Mac|iPhone|iPad/.test(navigator.platform);
+
+type ShortcutOverrides = Partial<Record<ShortcutActionId, string[]>>;
+
+const loadOverrides = (): ShortcutOverrides => {
+    try {
+        const stored = localStorage.getItem(SHORTCUTS_KEY);
+        return stored ? JSON.parse(stored) : {};
+    } catch {
+        return {};
+    }
+};
+
+let overrides: ShortcutOverrides = loadOverrides();
+const listeners = new Set<() => void>();
+
+const saveOverrides = (next: ShortcutOverrides): void => {
+    overrides = next;
+    try {
+        localStorage.setItem(SHORTCUTS_KEY, JSON.stringify(next));
+    } catch (err) {
+        console.warn('Could not persist keyboard shortcuts.', err);
+    }
+    listeners.forEach(listener => listener());
+};
+
+export const getShortcutOverrides = (): ShortcutOverrides => overrides;
+
+export const subscribeShortcuts = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+/** The combos that currently trigger an action. */
+export const getBindings = (action: ShortcutAction, current: ShortcutOverrides = overrides): string[] =>
+    current[action.id] ?? action.defaults;
+
+/**
+ * Binds an action to a single combo, taking the combo away from any other action that used it.
+ * @param actions Every action the combo could conflict with.
+ * @param combo The new combo, or null to leave the action without a shortcut.
+ */
+export const rebindShortcut = (actions: ShortcutAction[], id: ShortcutActionId, combo: string | null): void => {
+    const next: ShortcutOverrides = { ...overrides, [id]: combo ? [combo] : [] };
+    if (combo) {
+        for (const other of actions) {
+            const bindings = getBindings(other, next);
+            if (other.id !== id && bindings.includes(combo)) next[other.id] = bindings.filter(b => b !== combo);
+        }
+    }
+    saveOverrides(next);
+};
+
+export const resetShortcut = (id: ShortcutActionId): void => {
+    const { [id]: _, ...rest } = overrides;
+    saveOverrides(rest);
+};
+
+export const resetAllShortcuts = (): void => saveOverrides({});
+
+/** The combo a key press stands for, or null for a lone modifier. */
+export const comboFromEvent = (e: KeyboardEvent): string | null => {
+    if (MODIFIER_KEYS.includes(e.key)) return null;
+    // Digits come from the physical key, so layouts that shift the number row still work.
+    const digit = /^(?:Digit|Numpad)(\d)$/.exec(e.code)?.[1];
+    const key = digit ?? (e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toUpperCase() : e.key);
+    // Shift is already part of symbols such as "?", so it only counts for letters, digits and named keys.
+    const shiftCounts = !!digit || /^[A-Z]$/.test(key) || e.key.length > 1;
+    const parts: string[] = [];
+    if (e.ctrlKey || e.metaKey) parts.push('Mod');
+    if (e.altKey) parts.push('Alt');
+    if (e.shiftKey && shiftCounts) parts.push('Shift');
+    parts.push(key);
+    return parts.join('+');
+};
+
+const KEY_NAMES: Record<string, string> = {
+    Mod: isMac ? '⌘' : 'Ctrl',
+    Alt: isMac ? '⌥' : 'Alt',
+    Shift: isMac ? '⇧' : 'Shift',
+    ArrowLeft: '←',
+    ArrowRight: '→',
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+    Escape: 'Esc',
+    Enter: '↵',
+};
+
+/** A combo as shown to the user, e.g. `Ctrl+Shift+Z` or `⌘⇧Z`. */
+export const formatCombo = (combo: string): string =>
+    combo.split('+').map(part => KEY_NAMES[part] ?? part).join(isMac ? '' : '+');
+
+export const isTypingTarget = (target: EventTarget | null): boolean =>
+    target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/** The user's remappings, re-rendering the caller whenever they change. */
+export const useShortcutOverrides = (): ShortcutOverrides =>
+    useSyncExternalStore(subscribeShortcuts, getShortcutOverrides);
+
+/**
+ * Runs the handler bound to each key press. Actions without a handler are left to the browser,
+ * so a handler can be omitted whenever its action does not apply.
+ * @param enabled Off while a dialog owns the keyboard.
+ */
+export const useShortcuts = (
+    actions: ShortcutAction[],
+    handlers: Partial<Record<ShortcutActionId, () => void>>,
+    enabled: boolean,
+): void => {
+    const current = useShortcutOverrides();
+    const handlersRef = useRef(handlers);
+    handlersRef.current = handlers;
+
+    useEffect(() => {
+        if (!enabled) return;
+        const byCombo = new Map<string, ShortcutAction>();
+        actions.forEach(action => getBindings(action, current).forEach(combo => byCombo.set(combo, action)));
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.defaultPrevented || e.isComposing) return;
+            const combo = comboFromEvent(e);
+            const action = combo ? byCombo.get(combo) : undefined;
+            const handler = action && handlersRef.current[action.id];
+            if (!action || !handler) return;
+            if (!action.allowWhileTyping && isTypingTarget(e.target)) return;
+            e.preventDefault();
+            if (e.repeat && !action.repeatable) return;
+            handler();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [actions, current, enabled]);
+};
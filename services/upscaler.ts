@@ -0,0 +1,185 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { loadImage, createCanvas } from './imageCompositing.ts';
+
+// Local (non-AI) resampling with a Lanczos-3 kernel, used for the "Perbesar" fallback and to
+// bring model results back to the size of the image they were made from.
+
+/** Largest output we produce; bigger canvases fail silently in some browsers. */
+export const MAX_UPSCALE_PIXELS = 16_777_216;
+
+const LOBES = 3;
+const AUTO_UPSCALE_KEY = 'sevaflow.autoUpscale';
+
+const sinc = (x: number) => x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+const lanczos = (x: number) => Math.abs(x) < LOBES ? sinc(x) * sinc(x / LOBES) : 0;
+
+interface AxisWeights {
+    starts: Int32Array;
+    counts: Int32Array;
+    offsets: Int32Array;
+    weights: Float32Array;
+}
+
+// Per output pixel: the first source pixel it reads, how many, and their normalised weights.
+// When shrinking, the kernel is widened so every source pixel contributes.
+const computeAxisWeights = (sourceSize: number, targetSize: number): AxisWeights => {
+    const scale = targetSize / sourceSize;
+    const filterScale = Math.min(scale, 1);
+    const support = LOBES / filterScale;
+    const starts = new Int32Array(targetSize);
+    const counts = new Int32Array(targetSize);
+    const offsets = new Int32Array(targetSize);
+    const all: number[] = [];
+
+    for (let i = 0; i < targetSize; i++) {
+        const centre = (i + 0.5) / scale - 0.5;
+        const start = Math.max(0, Math.ceil(centre - support));
+        const end = Math.min(sourceSize - 1, Math.floor(centre + support));
+        let total = 0;
+        const local: number[] = [];
+        for (let j = start; j <= end; j++) {
+            const weight = lanczos((j - centre) * filterScale);
+            local.push(weight);
+            total += weight;
+        }
+        starts[i] = start;
+        counts[i] = local.length;
+        offsets[i] = all.length;
+        for (const weight of local) all.push(total === 0 ? 0 : weight / total);
+    }
+    return { starts, counts, offsets, weights: Float32Array.from(all) };
+};
+
+/**
+ * Resamples an image to an exact size with a Lanczos-3 filter.
+ * Works on premultiplied alpha so transparent edges do not darken.
+ */
+export const lanczosResize = (source: HTMLImageElement | HTMLCanvasElement, width: number, height: number): HTMLCanvasElement => {
+    const sourceWidth = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+    const sourceHeight = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+    const { ctx: sourceCtx } = createCanvas(sourceWidth, sourceHeight);
+    sourceCtx.drawImage(source, 0, 0);
+    const input = sourceCtx.getImageData(0, 0, sourceWidth, sourceHeight).data;
+
+    const premultiplied = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i += 4) {
+        const alpha = input[i + 3] / 255;
+        premultiplied[i] = input[i] * alpha;
+        premultiplied[i + 1] = input[i + 1] * alpha;
+        premultiplied[i + 2] = input[i + 2] * alpha;
+        premultiplied[i + 3] = input[i + 3];
+    }
+
+    // Horizontal pass: sourceWidth x sourceHeight -> width x sourceHeight.
+    const horizontal = computeAxisWeights(sourceWidth, width);
+    const rows = new Float32Array(width * sourceHeight * 4);
+    for (let y = 0; y < sourceHeight; y++) {
+        for (let x = 0; x < width; x++) {
+            let r = 0, g = 0, b = 0, a = 0;
+            const offset = horizontal.offsets[x];
+            for (let k = 0; k < horizontal.counts[x]; k++) {
+                const w = horizontal.weights[offset + k];
+                const i = (y * sourceWidth + horizontal.starts[x] + k) * 4;
+                r += premultiplied[i] * w;
+                g += premultiplied[i + 1] * w;
+                b += premultiplied[i + 2] * w;
+                a += premultiplied[i + 3] * w;
+            }
+            const o = (y * width + x) * 4;
+            rows[o] = r; rows[o + 1] = g; rows[o + 2] = b; rows[o + 3] = a;
+        }
+    }
+
+    // Vertical pass: width x sourceHeight -> width x height, then un-premultiply.
+    const vertical = computeAxisWeights(sourceHeight, height);
+    const { canvas, ctx } = createCanvas(width, height);
+    const output = ctx.createImageData(width, height);
+    for (let y = 0; y < height; y++) {
+        const offset = vertical.offsets[y];
+        for (let x = 0; x < width; x++) {
+            let r = 0, g = 0, b = 0, a = 0;
+            for (let k = 0; k < vertical.counts[y]; k++) {
+                const w = vertical.weights[offset + k];
+                const i = ((vertical.starts[y] + k) * width + x) * 4;
+                r += rows[i] * w;
+                g += rows[i + 1] * w;
+                b += rows[i + 2] * w;
+                a += rows[i + 3] * w;
+            }
+            const o = (y * width + x) * 4;
+            const alpha = Math.min(255, Math.max(0, a));
+            const unpremultiply = alpha > 0 ? 255 / alpha : 0;
+            output.data[o] = r * unpremultiply;
+            output.data[o + 1] = g * unpremultiply;
+            output.data[o + 2] = b * unpremultiply;
+            output.data[o + 3] = alpha;
+        }
+    }
+    ctx.putImageData(output, 0, 0);
+    return canvas;
+};
+
+/** Output size for an upscale factor, or null when it would exceed `MAX_UPSCALE_PIXELS`. */
+export const computeUpscaleSize = (width: number, height: number, factor: number): { width: number, height: number } | null => {
+    const size = { width: Math.round(width * factor), height: Math.round(height * factor) };
+    return size.width * size.height > MAX_UPSCALE_PIXELS ? null : size;
+};
+
+/**
+ * Resizes an image to an exact size with Lanczos resampling.
+ * @param source A file or (data) URL.
+ * @returns The result as a PNG data URL.
+ */
+export const resizeImage = async (source: Blob | string, width: number, height: number): Promise<string> => {
+    const image = await loadImage(source);
+    // Let the loading overlay paint before the main thread is busy for a while.
+    await new Promise(resolve => setTimeout(resolve, 0));
+    return lanczosResize(image, width, height).toDataURL('image/png');
+};
+
+export const isAutoUpscaleEnabled = (): boolean => {
+    try {
+        return localStorage.getItem(AUTO_UPSCALE_KEY) === '1';
+    } catch {
+        return false;
+    }
+};
+
+export const setAutoUpscaleEnabled = (enabled: boolean): void => {
+    try {
+        if (enabled) localStorage.setItem(AUTO_UPSCALE_KEY, '1'); else localStorage.removeItem(AUTO_UPSCALE_KEY);
+    } catch (err) {
+        console.error('Failed to save the auto-upscale setting.', err);
+    }
+};
+
+/** Relative difference in aspect ratio still treated as the same shape. */
+const ASPECT_TOLERANCE = 0.01;
+
+/**
+ * With auto-upscale on, enlarges a model result that came back smaller than its input, so
+ * repeated edits do not keep shrinking the photo. The input (the current step, not the first
+ * upload) is the reference, so earlier crops and resizes are kept. A result with a different
+ * shape is enlarged to fit inside the input's size instead of being stretched; results are
+ * never made smaller.
+ * @param resultUrl The model result as a data URL.
+ * @param input The image the model worked from.
+ * @returns The (possibly resized) data URL.
+ */
+export const matchInputSize = async (resultUrl: string, input: File): Promise<string> => {
+    if (!isAutoUpscaleEnabled()) return resultUrl;
+    const [result, reference] = await Promise.all([loadImage(resultUrl), loadImage(input)]);
+    const { naturalWidth: width, naturalHeight: height } = result;
+    const { naturalWidth: targetWidth, naturalHeight: targetHeight } = reference;
+    const sameShape = Math.abs((width / height) / (targetWidth / targetHeight) - 1) <= ASPECT_TOLERANCE;
+    const factor = Math.min(targetWidth / width, targetHeight / height);
+    if (factor <= 1) return resultUrl;
+    const size = sameShape
+        ? { width: targetWidth, height: targetHeight }
+        : { width: Math.round(width * factor), height: Math.round(height * factor) };
+    return lanczosResize(result, size.width, size.height).toDataURL('image/png');
+};
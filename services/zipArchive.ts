@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A minimal ZIP writer. Entries are stored uncompressed: the images are already compressed,
+// and it keeps the whole archive buildable offline without an extra dependency.
+
+export interface ZipEntry {
+    /** Path inside the archive, using "/" as separator. */
+    path: string;
+    data: Blob | string;
+    lastModified?: number;
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date/time as used by ZIP headers; local time, two-second resolution.
+const toDosDateTime = (timestamp: number): { time: number, date: number } => {
+    const d = new Date(timestamp);
+    return {
+        time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+        date: ((Math.max(d.getFullYear(), 1980) - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+    };
+};
+
+/**
+ * Packs files into a ZIP archive.
+ * @param entries Files and their paths; later entries with an existing path get a numeric suffix.
+ * @returns The archive as a Blob of type application/zip.
+ */
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+    const encoder = new TextEncoder();
+    const localParts: BlobPart[] = [];
+    const centralParts: BlobPart[] = [];
+    const usedPaths = new Set<string>();
+    let offset = 0;
+
+    for (const entry of entries) {
+        const path = uniquePath(entry.path, usedPaths);
+        const nameBytes = encoder.encode(path);
+        const data = typeof entry.data === 'string'
+            ? encoder.encode(entry.data)
+            : new Uint8Array(await entry.data.arrayBuffer());
+        const crc = crc32(data);
+        const { time, date } = toDosDateTime(entry.lastModified ?? Date.now());
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, 20, true); // version needed
+        local.setUint16(6, 0x0800, true); // UTF-8 file names
+        local.setUint16(8, 0, true); // stored
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, data.length, true);
+        local.setUint32(22, data.length, true);
+        local.setUint16(26, nameBytes.length, true);
+        local.setUint16(28, 0, true);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, 0x02014b50, true);
+        central.setUint16(4, 20, true); // version made by
+        central.setUint16(6, 20, true);
+        central.setUint16(8, 0x0800, true);
+        central.setUint16(10, 0, true);
+        central.setUint16(12, time, true);
+        central.setUint16(14, date, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, data.length, true);
+        central.setUint32(24, data.length, true);
+        central.setUint16(28, nameBytes.length, true);
+        central.setUint32(42, offset, true);
+
+        localParts.push(local.buffer, nameBytes, data);
+        centralParts.push(central.buffer, nameBytes);
+        offset += 30 + nameBytes.length + data.length;
+    }
+
+    const centralSize = centralParts.reduce((sum, part) => sum + (part as ArrayBuffer | Uint8Array).byteLength, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...localParts, ...centralParts, end.buffer], { type: 'application/zip' });
+};
+
+/**
+ * Returns the path, or the path with a numeric suffix if it is already in `used`, and records it.
+ * Callers that list paths elsewhere (e.g. a manifest) use this to know the final names up front.
+ */
+export const uniquePath = (path: string, used: Set<string>): string => {
+    let candidate = path;
+    const dot = path.lastIndexOf('.');
+    const [stem, extension] = dot > path.lastIndexOf('/') ? [path.slice(0, dot), path.slice(dot)] : [path, ''];
+    for (let n = 2; used.has(candidate); n++) {
+        candidate = `${stem}-${n}${extension}`;
+    }
+    used.add(candidate);
+    return candidate;
+};
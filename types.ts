@@ -2,3 +2,209 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+export interface CurvePoint {
+  x: number; // input level, 0..255
+  y: number; // output level, 0..255
+}
+
+export type CurveChannel = 'rgb' | 'r' | 'g' | 'b';
+
+/** Parameters of the local (non-AI) adjustment pipeline. Sliders are -100..100 unless noted. */
+export interface AdjustmentParams {
+  exposure: number; // stops, -3..3
+  contrast: number;
+  highlights: number;
+  shadows: number;
+  temperature: number;
+  tint: number;
+  saturation: number;
+  vibrance: number;
+  curves: Record<CurveChannel, CurvePoint[]>;
+}
+
+export type HistoryOperation =
+  | 'original'
+  | 'retouch'
+  | 'filter'
+  | 'styleTransfer'
+  | 'adjustment'
+  | 'localAdjustment'
+  | 'background'
+  | 'placement'
+  | 'erase'
+  | 'upscale'
+  | 'crop'
+  | 'layers';
+
+export type BlendMode =
+  | 'source-over'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'soft-light'
+  | 'hard-light'
+  | 'difference'
+  | 'color'
+  | 'luminosity';
+
+/** Placement of a layer over the base photo, in the photo's natural pixels. */
+export interface LayerTransform {
+  x: number; // centre
+  y: number; // centre
+  scale: number;
+  rotation: number; // degrees, clockwise
+}
+
+interface LayerCommon {
+  id: string;
+  name: string;
+  opacity: number; // 0..1
+  blendMode: BlendMode;
+  visible: boolean;
+  locked: boolean;
+  transform: LayerTransform;
+}
+
+/** AI patches and placed objects. */
+export interface ImageLayer extends LayerCommon {
+  kind: 'image';
+  file: File;
+}
+
+export interface TextLayer extends LayerCommon {
+  kind: 'text';
+  text: string;
+  fontSize: number; // natural pixels before scaling
+  fontFamily: string;
+  color: string;
+}
+
+export type Layer = ImageLayer | TextLayer;
+
+export interface HistoryEntry {
+  id: string;
+  /** The entry this one was derived from; null only for the original upload. */
+  parentId: string | null;
+  file: File;
+  operation: HistoryOperation;
+  timestamp: number;
+  prompt?: string;
+  hotspots?: { x: number, y: number }[];
+  mask?: File;
+  /** Provider and model that produced the entry, e.g. "gemini/gemini-2.5-flash-image-preview". */
+  model?: string;
+  /**
+   * Layers stacked over `file`, bottom first. They are carried into later entries and only
+   * flattened at export; model operations see the base photo alone.
+   */
+  layers?: Layer[];
+  /** Short description of a layer edit, e.g. "Tambah teks". */
+  description?: string;
+  /** Present when `file` was rendered locally; re-rendering from `source` loses no quality. */
+  adjustment?: {
+    source: File;
+    params: AdjustmentParams;
+  };
+}
+
+/** The metadata callers supply when recording a new entry. */
+export type HistoryDetails = Omit<HistoryEntry, 'id' | 'parentId' | 'file' | 'timestamp'>;
+
+export interface ImageState {
+  id: string;
+  original: File;
+  /** Every entry of the history tree in creation order; branches are never discarded. */
+  history: HistoryEntry[];
+  /** The entry currently shown. */
+  historyIndex: number;
+  /** The newest entry of the branch being followed; redo walks towards it. */
+  tipIndex: number;
+}
+
+/** Editing tools; see `components/tools.tsx` for what each one does. */
+export type ToolId = 'retouch' | 'brush' | 'erase' | 'upscale' | 'crop' | 'adjust' | 'filters' | 'products' | 'layers';
+
+/** How a tool uses pointer input on the photo. */
+export type ToolInteraction = 'click' | 'brush' | 'drag-rect' | 'transform' | 'none';
+
+/** Everything needed to bring an editing session back exactly as it was left. */
+export interface ProjectSnapshot {
+  images: ImageState[];
+  activeImageIndex: number;
+  activeTab: ToolId;
+  prompt: string;
+  generatedBackground: File | null;
+}
+
+export interface Project extends ProjectSnapshot {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  imageCount: number;
+  thumbnail: File | null;
+}
+
+/** Alternative results of one generation, kept until the user dismisses them. */
+export interface CandidateSet {
+  imageId: string;
+  /** The history entry the candidates were generated from; chosen ones become its children. */
+  baseEntryId: string;
+  baseFile: File;
+  files: File[];
+  details: HistoryDetails;
+  /** Indices of candidates already committed to history. */
+  chosen: number[];
+}
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface BatchItemState {
+  status: BatchItemStatus;
+  error?: string;
+}
+
+/** Outcome of the last batch run, shown once every item has settled. */
+export interface BatchReport {
+  operationName: string;
+  total: number;
+  succeeded: number;
+  failed: { imageId: string; error: string }[];
+  cancelled: number;
+  durationMs: number;
+}
+
+/** A product cutout in the library, placed into photos on request. */
+export interface Product {
+  id: string;
+  name: string;
+  tags: string[];
+  file: File;
+  createdAt: number;
+}
+
+/** Which prompt a preset fills in. */
+export type PresetKind = 'filter' | 'adjustment' | 'retouch' | 'background';
+
+/**
+ * A reusable prompt. `{name}` or `{name=default}` placeholders in `prompt` are filled in
+ * through small inputs when the preset is chosen.
+ */
+export interface PromptPreset {
+  id: string;
+  kind: PresetKind;
+  name: string;
+  prompt: string;
+  category: string;
+  favorite: boolean;
+}